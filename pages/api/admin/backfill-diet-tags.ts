@@ -0,0 +1,130 @@
+import mongoose from "mongoose";
+import { NextApiRequest, NextApiResponse } from "next";
+import {
+  applyDietTags,
+  classifyIngredients,
+} from "../../../src/utils/dietClassifier";
+import Tag from "../models/Tag";
+import { connectDB } from "../utils/auth";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Ensure only POST requests are allowed
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  // Validate API key for security
+  const apiKey = req.headers["x-api-key"];
+  if (apiKey !== process.env.BATCH_OPERATIONS_API_KEY) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    // Connect to the database
+    await connectDB();
+    const db = mongoose.connection;
+
+    if (!db.db) {
+      return res.status(500).json({ message: "Database connection error" });
+    }
+
+    // Map tag IDs to names and lowercase names to tag IDs
+    const availableTags = await Tag.find();
+    const tagNamesById = new Map<string, string>();
+    const tagIdsByName = new Map<string, mongoose.Types.ObjectId>();
+    availableTags.forEach((tag) => {
+      tagNamesById.set(String(tag._id), tag.name.toLowerCase());
+      tagIdsByName.set(
+        tag.name.toLowerCase(),
+        tag._id as mongoose.Types.ObjectId
+      );
+    });
+
+    // Correct the diet tags of every recipe from its ingredients, replacing
+    // the ones assigned by the LLM
+    console.log("Checking diet tags against ingredients...");
+    const recipes = await db.db
+      .collection("recipes")
+      .find({}, { projection: { title: 1, ingredients: 1, tags: 1 } })
+      .toArray();
+
+    const results = {
+      processed: 0,
+      updated: 0,
+      errors: 0,
+      recipeDetails: [] as any[],
+    };
+
+    for (const recipe of recipes) {
+      results.processed++;
+
+      try {
+        const tagIds: mongoose.Types.ObjectId[] = Array.isArray(recipe.tags)
+          ? recipe.tags
+          : [];
+        const tagNames = tagIds
+          .map((tagId) => tagNamesById.get(String(tagId)))
+          .filter((name): name is string => Boolean(name));
+
+        const { added, removed } = applyDietTags(
+          tagNames,
+          classifyIngredients(recipe.ingredients || [])
+        );
+
+        // Only add diet tags that exist in the database
+        const addedIds = added
+          .map((diet) => tagIdsByName.get(diet))
+          .filter((tagId): tagId is mongoose.Types.ObjectId => Boolean(tagId));
+        const removedIds = removed
+          .map(({ diet }) => tagIdsByName.get(diet))
+          .filter((tagId): tagId is mongoose.Types.ObjectId => Boolean(tagId));
+
+        if (addedIds.length === 0 && removedIds.length === 0) {
+          continue;
+        }
+
+        const updatedTags = [
+          ...tagIds.filter(
+            (tagId) => !removedIds.some((removedId) => removedId.equals(tagId))
+          ),
+          ...addedIds,
+        ];
+
+        const updateResult = await db.db
+          .collection("recipes")
+          .updateOne({ _id: recipe._id }, { $set: { tags: updatedTags } });
+
+        if (updateResult.modifiedCount > 0) {
+          results.updated++;
+          results.recipeDetails.push({
+            _id: recipe._id,
+            title: recipe.title,
+            added: added.filter((diet) => tagIdsByName.has(diet)),
+            removed: removed.map(({ diet, triggers }) => ({ diet, triggers })),
+          });
+        }
+      } catch (error) {
+        console.error(`Error processing recipe ${recipe._id}:`, error);
+        results.errors++;
+      }
+    }
+
+    console.log(
+      `Updated diet tags of ${results.updated} of ${results.processed} recipes`
+    );
+
+    return res.status(200).json({
+      message: "Diet tags backfill completed",
+      results,
+    });
+  } catch (error) {
+    console.error("Backfill error:", error);
+    return res.status(500).json({
+      message: "Server error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -1,14 +1,13 @@
 import mongoose from "mongoose";
 import { NextApiRequest, NextApiResponse } from "next";
-import OpenAI from "openai";
+import {
+  applyDietTags,
+  classifyIngredients,
+} from "../../../src/utils/dietClassifier";
 import Tag from "../models/Tag";
+import { getLLMProvider } from "../services/llmService";
 import { connectDB } from "../utils/auth";
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -36,7 +35,7 @@ export default async function handler(
       return res.status(500).json({ message: "Database connection error" });
     }
 
-    // Get all available tags to provide to OpenAI
+    // Get all available tags to provide to the LLM
     const availableTags = await Tag.find().sort({ name: 1 });
     const tagNames = availableTags.map((tag) => tag.name);
 
@@ -73,7 +72,7 @@ export default async function handler(
       );
 
       try {
-        // Prepare recipe data for OpenAI
+        // Prepare recipe data for the LLM
         const recipeData = {
           title: recipe.title || "",
           description: recipe.description || "",
@@ -81,8 +80,12 @@ export default async function handler(
           instructions: formatInstructions(recipe.instructions || []),
         };
 
-        // Generate tags using OpenAI
-        const tags = await generateTagsWithOpenAI(recipeData, tagNames);
+        // Generate tags using the configured LLM provider, then correct the
+        // diet tags from the ingredients, which the LLM can get wrong
+        const { tags } = applyDietTags(
+          await generateTagsWithLLM(recipeData, tagNames),
+          classifyIngredients(recipe.ingredients || [])
+        );
 
         // Map tag names to tag IDs
         const tagIds = [];
@@ -130,7 +133,7 @@ export default async function handler(
   }
 }
 
-// Format ingredients for OpenAI
+// Format ingredients for the LLM
 function formatIngredients(ingredients: any[]) {
   if (!Array.isArray(ingredients)) return [];
 
@@ -165,7 +168,7 @@ function formatIngredients(ingredients: any[]) {
   return formatted;
 }
 
-// Format instructions for OpenAI
+// Format instructions for the LLM
 function formatInstructions(instructions: any[]) {
   if (!Array.isArray(instructions)) return [];
 
@@ -180,19 +183,23 @@ function formatInstructions(instructions: any[]) {
       "text" in instruction
     ) {
       formatted.push(instruction.text);
+    } else if (
+      instruction &&
+      typeof instruction === "object" &&
+      "sectionTitle" in instruction
+    ) {
+      formatted.push(`${instruction.sectionTitle}:`);
+      formatted.push(...formatInstructions(instruction.instructions));
     }
   }
 
   return formatted;
 }
 
-// Generate tags using OpenAI
-async function generateTagsWithOpenAI(
-  recipeData: any,
-  availableTags: string[]
-) {
+// Generate tags using the configured LLM provider
+async function generateTagsWithLLM(recipeData: any, availableTags: string[]) {
   try {
-    // Create a prompt for OpenAI
+    // Create a prompt for the LLM
     const prompt = `
       Please analyze this recipe and assign appropriate tags from the available list.
       
@@ -216,23 +223,15 @@ async function generateTagsWithOpenAI(
       Choose only the most relevant tags, generally between 2-5 tags per recipe depending on what's appropriate.
     `;
 
-    // Call OpenAI API
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4-turbo-preview",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a culinary expert who assigns accurate tags to recipes. You only respond with JSON arrays of tag names, selecting from a provided list of available tags.",
-        },
-        { role: "user", content: prompt },
-      ],
-      temperature: 0.2,
-      response_format: { type: "json_object" },
-    });
-
+    // Call the configured LLM provider
     const responseContent =
-      completion.choices[0].message.content?.trim() || "{}";
+      (await getLLMProvider().completeJson({
+        task: "tag-generation",
+        systemPrompt:
+          "You are a culinary expert who assigns accurate tags to recipes. You only respond with JSON arrays of tag names, selecting from a provided list of available tags.",
+        userPrompt: prompt,
+        temperature: 0.2,
+      })) || "{}";
 
     // Parse JSON response
     const parsedResponse = JSON.parse(responseContent);
@@ -252,7 +251,7 @@ async function generateTagsWithOpenAI(
     );
     return tags;
   } catch (error) {
-    console.error("Error generating tags with OpenAI:", error);
+    console.error("Error generating tags with LLM:", error);
     return [];
   }
 }
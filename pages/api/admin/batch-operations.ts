@@ -1,9 +1,10 @@
 import crypto from "crypto";
 import { NextApiRequest, NextApiResponse } from "next";
-import { IngredientType, InstructionItem } from "../../../src/types/recipe";
+import { IngredientType, InstructionType } from "../../../src/types/recipe";
+import { parseIngredients } from "../../../src/utils/ingredientParser";
 import { IRecipeDocument } from "../models/types";
-import { fetchHtmlFromUrl } from "../services/htmlFetchService";
-import { extractRecipeFromHTML } from "../services/openaiService";
+import { fetchRawHtmlFromUrl } from "../services/htmlFetchService";
+import { extractRecipeFromPage } from "../services/recipeExtractionService";
 import { processImageUrl } from "../utils/awsS3";
 import {
   BatchOperationResult,
@@ -167,8 +168,7 @@ const operations: Record<string, RecipeTransformFn> = {
       ) => typeof ingredient !== "string"
     );
     const hasStructuredInstructions = recipe.instructions.some(
-      (instruction: string | { text: string }) =>
-        typeof instruction === "object" && "text" in instruction
+      (instruction: string | InstructionType) => typeof instruction === "object"
     );
 
     // If already structured, skip processing
@@ -185,11 +185,11 @@ const operations: Record<string, RecipeTransformFn> = {
       // If we have a source URL, fetch the HTML and extract structured data
       if (recipe.sourceUrl) {
         console.log(`Fetching content from source: ${recipe.sourceUrl}`);
-        const htmlContent = await fetchHtmlFromUrl(recipe.sourceUrl);
+        const htmlContent = await fetchRawHtmlFromUrl(recipe.sourceUrl);
 
         if (htmlContent) {
           console.log(`Successfully fetched HTML, extracting structured data`);
-          const structuredData = await extractRecipeFromHTML(
+          const structuredData = await extractRecipeFromPage(
             htmlContent,
             recipe.sourceUrl
           );
@@ -233,7 +233,7 @@ const operations: Record<string, RecipeTransformFn> = {
 
       // Convert string instructions to objects
       recipe.instructions = recipe.instructions.map(
-        (instruction: string | InstructionItem) => {
+        (instruction: string | InstructionType) => {
           if (typeof instruction === "string") {
             return { text: instruction.trim() };
           }
@@ -260,7 +260,7 @@ const operations: Record<string, RecipeTransformFn> = {
 
       if (!hasStructuredInstructions) {
         recipe.instructions = recipe.instructions.map(
-          (instruction: string | InstructionItem) =>
+          (instruction: string | InstructionType) =>
             typeof instruction === "string"
               ? { text: instruction }
               : instruction
@@ -270,6 +270,18 @@ const operations: Record<string, RecipeTransformFn> = {
       return recipe;
     }
   },
+
+  "parse-ingredients": (recipe: IRecipeDocument) => {
+    if (!Array.isArray(recipe.ingredients)) {
+      console.log(`Recipe ${recipe.title} has no ingredient list, skipping`);
+      return recipe;
+    }
+
+    // Parsing is deterministic, so running this again changes nothing.
+    // Plain string ingredients from older recipes become ingredient items.
+    recipe.ingredients = parseIngredients(recipe.ingredients);
+    return recipe;
+  },
 };
 
 /**
@@ -0,0 +1,238 @@
+/**
+ * Nutrient Table
+ *
+ * Nutrients per 100 g of common recipe ingredients, rounded from USDA
+ * FoodData Central (SR Legacy) values, with typical weights for measuring
+ * them by volume or by count. Bundled so nutrition can be estimated without
+ * calling an external API.
+ */
+
+import { NutrientValues } from "../../../src/types/recipe";
+
+/**
+ * A food in the table
+ */
+export interface NutrientFood {
+  id: string;
+  name: string;
+  // Names it's matched by, in lower case
+  aliases: string[];
+  per100g: NutrientValues;
+  // Grams in a cup, for amounts measured by volume
+  gramsPerCup?: number;
+  // Grams in one of a unit ("clove", "slice", "can"); "each" is one whole
+  // item, e.g. one egg
+  unitWeights?: Record<string, number>;
+}
+
+// Per 100 g: calories, protein, fat, saturated fat, carbohydrates, fiber and
+// sugar (g), then sodium, potassium, calcium, iron and vitamin C (mg)
+type NutrientRow = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number
+];
+
+/**
+ * Builds a table entry from a row of nutrients
+ */
+function food(
+  id: string,
+  name: string,
+  aliases: string[],
+  row: NutrientRow,
+  gramsPerCup?: number,
+  unitWeights?: Record<string, number>
+): NutrientFood {
+  const [
+    calories,
+    protein,
+    fat,
+    saturatedFat,
+    carbohydrates,
+    fiber,
+    sugar,
+    sodium,
+    potassium,
+    calcium,
+    iron,
+    vitaminC,
+  ] = row;
+  return {
+    id,
+    name,
+    aliases,
+    per100g: {
+      calories,
+      protein,
+      fat,
+      saturatedFat,
+      carbohydrates,
+      fiber,
+      sugar,
+      sodium,
+      potassium,
+      calcium,
+      iron,
+      vitaminC,
+    },
+    gramsPerCup,
+    unitWeights,
+  };
+}
+
+// Matching prefers the longest alias that fits, so "brown sugar" finds brown
+// sugar rather than sugar
+// prettier-ignore
+export const NUTRIENT_FOODS: NutrientFood[] = [
+  // Flours, grains and bread
+  food("flour", "All-purpose flour", ["all-purpose flour", "plain flour", "white flour", "flour"], [364, 10.3, 1, 0.2, 76.3, 2.7, 0.3, 2, 107, 15, 4.6, 0], 125),
+  food("bread-flour", "Bread flour", ["bread flour", "strong flour"], [361, 12, 1.7, 0.2, 72.5, 2.4, 0.3, 2, 100, 15, 4.4, 0], 130),
+  food("whole-wheat-flour", "Whole wheat flour", ["whole wheat flour", "whole-wheat flour", "wholemeal flour"], [340, 13.2, 2.5, 0.4, 72, 10.7, 0.4, 2, 363, 34, 3.6, 0], 120),
+  food("cornstarch", "Cornstarch", ["cornstarch", "corn starch", "cornflour"], [381, 0.3, 0.1, 0, 91.3, 0.9, 0, 9, 3, 2, 0.5, 0], 128),
+  food("cornmeal", "Cornmeal", ["cornmeal", "polenta"], [370, 7.1, 1.8, 0.3, 79.5, 7.3, 0.6, 7, 287, 6, 3.4, 0], 138),
+  food("oats", "Rolled oats", ["rolled oats", "oats", "oatmeal"], [379, 13.2, 6.5, 1.1, 67.7, 10.1, 1, 6, 362, 52, 4.3, 0], 90),
+  food("rice", "White rice, uncooked", ["white rice", "rice", "basmati rice", "jasmine rice", "arborio rice"], [365, 7.1, 0.7, 0.2, 80, 1.3, 0.1, 5, 115, 28, 0.8, 0], 185),
+  food("brown-rice", "Brown rice, uncooked", ["brown rice"], [367, 7.5, 3.2, 0.6, 76.2, 3.6, 0.9, 7, 250, 9, 1.5, 0], 190),
+  food("cooked-rice", "White rice, cooked", ["cooked rice", "cooked white rice"], [130, 2.7, 0.3, 0.1, 28.2, 0.4, 0.1, 1, 35, 10, 0.2, 0], 158),
+  food("pasta", "Pasta, dry", ["pasta", "spaghetti", "penne", "macaroni", "linguine", "fettuccine", "noodle", "egg noodle", "lasagna noodle", "rigatoni", "fusilli", "orzo"], [371, 13, 1.5, 0.3, 74.7, 3.2, 2.7, 6, 223, 21, 1.3, 0], 100),
+  food("quinoa", "Quinoa, uncooked", ["quinoa"], [368, 14.1, 6.1, 0.7, 64.2, 7, 0, 5, 563, 47, 4.6, 0], 170),
+  food("bread", "White bread", ["bread", "white bread", "sandwich bread", "baguette"], [266, 7.6, 3.3, 0.7, 49, 2.7, 5.7, 490, 115, 151, 3.6, 0], 45, { slice: 28 }),
+  food("breadcrumbs", "Breadcrumbs", ["breadcrumb", "bread crumb", "panko"], [395, 13.4, 5.3, 1.2, 72, 4.5, 6.2, 732, 196, 183, 4.8, 0], 108),
+  food("tortilla", "Flour tortilla", ["flour tortilla", "tortilla", "wrap"], [304, 8.2, 7.7, 2, 50, 3.5, 2.4, 736, 130, 146, 3.6, 0], undefined, { each: 45 }),
+
+  // Sugars and baking
+  food("sugar", "Granulated sugar", ["granulated sugar", "white sugar", "caster sugar", "sugar"], [387, 0, 0, 0, 100, 0, 100, 1, 2, 1, 0.1, 0], 200),
+  food("brown-sugar", "Brown sugar", ["brown sugar", "light brown sugar", "dark brown sugar"], [380, 0.1, 0, 0, 98.1, 0, 97, 28, 133, 83, 0.7, 0], 213),
+  food("powdered-sugar", "Powdered sugar", ["powdered sugar", "icing sugar", "confectioners sugar", "confectioners' sugar"], [389, 0, 0, 0, 99.8, 0, 97.8, 2, 2, 1, 0.1, 0], 120),
+  food("honey", "Honey", ["honey"], [304, 0.3, 0, 0, 82.4, 0.2, 82.1, 4, 52, 6, 0.4, 0.5], 340),
+  food("maple-syrup", "Maple syrup", ["maple syrup"], [260, 0, 0.1, 0, 67, 0, 60.5, 12, 212, 102, 0.1, 0], 315),
+  food("cocoa", "Cocoa powder", ["cocoa powder", "cocoa", "cacao powder"], [228, 19.6, 13.7, 8.1, 57.9, 37, 1.8, 21, 1524, 128, 13.9, 0], 86),
+  food("chocolate-chips", "Semisweet chocolate", ["chocolate chip", "chocolate", "dark chocolate", "semisweet chocolate", "bittersweet chocolate"], [480, 4.2, 30, 17.8, 63.9, 5.9, 54.5, 11, 365, 32, 3.1, 0], 170),
+  food("vanilla", "Vanilla extract", ["vanilla extract", "vanilla"], [288, 0.1, 0.1, 0, 12.7, 0, 12.7, 9, 148, 11, 0.1, 0], 208),
+  food("baking-powder", "Baking powder", ["baking powder"], [53, 0, 0, 0, 27.7, 0.2, 0, 10600, 20, 5876, 11, 0], 221),
+  food("baking-soda", "Baking soda", ["baking soda", "bicarbonate of soda"], [0, 0, 0, 0, 0, 0, 0, 27360, 0, 0, 0, 0], 221),
+  food("yeast", "Dry yeast", ["yeast", "active dry yeast", "instant yeast"], [325, 40.4, 7.6, 1, 41.2, 26.9, 0, 51, 955, 30, 2.2, 0.3], 192, { package: 7 }),
+  food("raisins", "Raisins", ["raisin", "sultana", "dried cranberry"], [299, 3.1, 0.5, 0.1, 79.2, 3.7, 59.2, 11, 749, 50, 1.9, 2.3], 145),
+
+  // Dairy and eggs
+  food("butter", "Butter, unsalted", ["unsalted butter", "butter"], [717, 0.9, 81.1, 51.4, 0.1, 0, 0.1, 11, 24, 24, 0, 0], 227, { stick: 113 }),
+  food("salted-butter", "Butter, salted", ["salted butter"], [717, 0.9, 81.1, 51.4, 0.1, 0, 0.1, 643, 24, 24, 0, 0], 227, { stick: 113 }),
+  food("milk", "Whole milk", ["whole milk", "milk"], [61, 3.2, 3.3, 1.9, 4.8, 0, 5.1, 43, 132, 113, 0, 0], 244),
+  food("skim-milk", "Skim milk", ["skim milk", "nonfat milk", "low-fat milk", "semi-skimmed milk"], [34, 3.4, 0.1, 0.1, 5, 0, 5, 42, 156, 122, 0, 0], 245),
+  food("plant-milk", "Plant milk, unsweetened", ["almond milk", "oat milk", "soy milk", "plant milk", "rice milk"], [15, 0.6, 1.1, 0.1, 0.6, 0.2, 0, 72, 67, 184, 0.3, 0], 240),
+  food("buttermilk", "Buttermilk", ["buttermilk"], [40, 3.3, 0.9, 0.5, 4.8, 0, 4.8, 105, 151, 116, 0.1, 1], 245),
+  food("heavy-cream", "Heavy cream", ["heavy cream", "heavy whipping cream", "whipping cream", "double cream", "cream"], [340, 2.8, 36.1, 23, 2.7, 0, 2.9, 27, 95, 66, 0.1, 0.6], 238),
+  food("sour-cream", "Sour cream", ["sour cream", "creme fraiche", "crème fraîche"], [198, 2.4, 19.4, 10.1, 4.6, 0, 3.4, 31, 125, 101, 0.1, 0.9], 230),
+  food("yogurt", "Plain yogurt", ["plain yogurt", "yogurt", "yoghurt"], [61, 3.5, 3.3, 2.1, 4.7, 0, 4.7, 46, 155, 121, 0.1, 0.5], 245),
+  food("greek-yogurt", "Greek yogurt, plain", ["greek yogurt", "greek yoghurt"], [59, 10.2, 0.4, 0.1, 3.6, 0, 3.2, 36, 141, 110, 0.1, 0], 245),
+  food("cheddar", "Cheddar cheese", ["cheddar cheese", "cheddar", "cheese", "monterey jack", "colby jack"], [403, 24.9, 33.1, 21.1, 1.3, 0, 0.5, 621, 98, 721, 0.7, 0], 113, { slice: 21 }),
+  food("parmesan", "Parmesan cheese", ["parmesan cheese", "parmesan", "parmigiano reggiano", "pecorino", "pecorino romano"], [431, 38.5, 28.6, 17.3, 4.1, 0, 0.9, 1529, 92, 1109, 0.8, 0], 100),
+  food("mozzarella", "Mozzarella cheese", ["mozzarella cheese", "mozzarella"], [300, 22.2, 22.4, 13.2, 2.2, 0, 1, 627, 76, 505, 0.4, 0], 112),
+  food("cream-cheese", "Cream cheese", ["cream cheese", "mascarpone"], [342, 5.9, 34.2, 19.3, 4.1, 0, 3.2, 321, 138, 98, 0.4, 0], 232, { package: 226 }),
+  food("feta", "Feta cheese", ["feta cheese", "feta", "goat cheese"], [264, 14.2, 21.3, 14.9, 4.1, 0, 4.1, 917, 62, 493, 0.7, 0], 150),
+  food("egg", "Egg", ["egg", "large egg", "whole egg"], [143, 12.6, 9.5, 3.1, 0.7, 0, 0.4, 142, 138, 56, 1.8, 0], 243, { each: 50 }),
+  food("egg-white", "Egg white", ["egg white"], [52, 10.9, 0.2, 0, 0.7, 0, 0.7, 166, 163, 7, 0.1, 0], 243, { each: 33 }),
+  food("egg-yolk", "Egg yolk", ["egg yolk", "yolk"], [322, 15.9, 26.5, 9.6, 3.6, 0, 0.6, 48, 109, 129, 2.7, 0], 243, { each: 17 }),
+
+  // Fats, oils and condiments
+  food("olive-oil", "Olive oil", ["olive oil", "extra virgin olive oil", "extra-virgin olive oil"], [884, 0, 100, 13.8, 0, 0, 0, 2, 1, 1, 0.6, 0], 216),
+  food("vegetable-oil", "Vegetable oil", ["vegetable oil", "canola oil", "sunflower oil", "neutral oil", "rapeseed oil", "oil"], [884, 0, 100, 7.4, 0, 0, 0, 0, 0, 0, 0, 0], 218),
+  food("coconut-oil", "Coconut oil", ["coconut oil"], [892, 0, 99.1, 82.5, 0, 0, 0, 0, 0, 1, 0, 0], 218),
+  food("sesame-oil", "Sesame oil", ["sesame oil", "toasted sesame oil"], [884, 0, 100, 14.2, 0, 0, 0, 0, 0, 0, 0, 0], 218),
+  food("mayonnaise", "Mayonnaise", ["mayonnaise", "mayo"], [680, 1, 75, 11.7, 0.6, 0, 0.6, 635, 20, 8, 0.2, 0], 220),
+  food("peanut-butter", "Peanut butter", ["peanut butter", "almond butter", "nut butter"], [588, 25.1, 50, 10.1, 19.6, 6, 9.2, 426, 649, 49, 1.9, 0], 258),
+  food("soy-sauce", "Soy sauce", ["soy sauce", "tamari", "shoyu"], [53, 8.1, 0.6, 0.1, 4.9, 0.8, 0.4, 5493, 435, 33, 1.5, 0], 255),
+  food("vinegar", "Vinegar", ["vinegar", "apple cider vinegar", "white vinegar", "rice vinegar", "red wine vinegar", "white wine vinegar", "cider vinegar"], [21, 0, 0, 0, 0.9, 0, 0.4, 5, 73, 7, 0.2, 0], 239),
+  food("balsamic", "Balsamic vinegar", ["balsamic vinegar", "balsamic"], [88, 0.5, 0, 0, 17, 0, 15, 23, 112, 27, 0.7, 0], 255),
+  food("ketchup", "Ketchup", ["ketchup", "tomato ketchup"], [101, 1, 0.1, 0, 27.4, 0.3, 22.8, 907, 281, 15, 0.4, 4.1], 240),
+  food("mustard", "Mustard", ["mustard", "dijon mustard", "yellow mustard", "whole grain mustard"], [60, 3.7, 3.3, 0.2, 5.8, 4, 0.9, 1104, 138, 58, 1.6, 0.3], 250),
+  food("salt", "Salt", ["salt", "kosher salt", "sea salt", "table salt"], [0, 0, 0, 0, 0, 0, 0, 38758, 8, 24, 0.3, 0], 292, { pinch: 0.4, dash: 0.6 }),
+  food("black-pepper", "Black pepper", ["black pepper", "pepper", "ground pepper", "peppercorn"], [251, 10.4, 3.3, 1.4, 64, 25.3, 0.6, 20, 1329, 443, 9.7, 0], 110, { pinch: 0.1, dash: 0.2 }),
+  food("cinnamon", "Ground cinnamon", ["cinnamon", "ground cinnamon"], [247, 4, 1.2, 0.3, 80.6, 53.1, 2.2, 10, 431, 1002, 8.3, 3.8], 125, { pinch: 0.2, stick: 3 }),
+  food("spices", "Dried spices and herbs", ["cumin", "paprika", "smoked paprika", "chili powder", "chilli powder", "turmeric", "oregano", "dried oregano", "thyme", "dried thyme", "nutmeg", "cayenne", "cayenne pepper", "red pepper flake", "chili flake", "garlic powder", "onion powder", "curry powder", "garam masala", "italian seasoning", "coriander", "ground coriander", "ground ginger", "allspice", "clove", "ground clove", "rosemary", "bay leaf"], [300, 12, 10, 1.5, 55, 30, 5, 60, 1500, 500, 20, 3], 110, { pinch: 0.2, dash: 0.4, each: 0.2, sprig: 1 }),
+
+  // Meat, fish and protein
+  food("chicken-breast", "Chicken breast, raw", ["chicken breast", "boneless skinless chicken breast"], [120, 22.5, 2.6, 0.6, 0, 0, 0, 45, 334, 5, 0.4, 0], 140, { each: 200 }),
+  food("chicken-thigh", "Chicken thigh, raw", ["chicken thigh", "boneless skinless chicken thigh"], [121, 19.7, 4.1, 1, 0, 0, 0, 95, 242, 9, 0.9, 0], 140, { each: 110 }),
+  food("chicken", "Chicken, raw", ["chicken", "whole chicken", "chicken drumstick", "chicken wing", "shredded chicken"], [215, 18.6, 15.1, 4.3, 0, 0, 0, 70, 189, 11, 0.9, 0], 140, { each: 1500 }),
+  food("ground-beef", "Ground beef, 85% lean", ["ground beef", "minced beef", "beef mince", "hamburger"], [215, 18.6, 15, 5.9, 0, 0, 0, 66, 289, 18, 2.1, 0], 225),
+  food("beef", "Beef, lean, raw", ["beef", "steak", "stew meat", "beef chuck", "chuck roast", "sirloin", "flank steak", "brisket"], [150, 21, 7, 2.9, 0, 0, 0, 60, 330, 15, 2.2, 0], 140),
+  food("pork", "Pork loin, raw", ["pork", "pork loin", "pork chop", "pork shoulder", "pork tenderloin"], [143, 21.2, 5.7, 2, 0, 0, 0, 52, 380, 14, 0.8, 0], 140, { each: 200 }),
+  food("ground-pork", "Ground pork", ["ground pork", "minced pork", "pork mince"], [263, 16.9, 21.2, 7.9, 0, 0, 0, 56, 287, 14, 0.9, 0], 225),
+  food("bacon", "Bacon, raw", ["bacon", "pancetta"], [417, 13, 40, 13.3, 1.4, 0, 0, 833, 208, 6, 0.4, 0], 140, { slice: 28, each: 28 }),
+  food("sausage", "Pork sausage, raw", ["sausage", "italian sausage", "chorizo", "bratwurst"], [268, 14.5, 22.7, 7.5, 0.7, 0, 0, 731, 232, 14, 0.9, 0], 140, { each: 75 }),
+  food("ham", "Ham", ["ham"], [145, 21, 5.5, 1.8, 1.5, 0, 0, 1200, 287, 8, 0.9, 0], 140, { slice: 28 }),
+  food("ground-turkey", "Ground turkey", ["ground turkey", "turkey", "minced turkey"], [149, 19.7, 7.7, 2.2, 0, 0, 0, 69, 227, 21, 1.3, 0], 225),
+  food("salmon", "Salmon, raw", ["salmon", "salmon fillet"], [208, 20.4, 13.4, 3.1, 0, 0, 0, 59, 363, 9, 0.3, 0], 140, { each: 170 }),
+  food("white-fish", "White fish, raw", ["white fish", "cod", "tilapia", "halibut", "haddock", "fish fillet", "fish"], [82, 17.8, 0.7, 0.1, 0, 0, 0, 54, 413, 16, 0.4, 1], 140, { each: 170 }),
+  food("tuna", "Tuna, canned in water", ["tuna", "canned tuna"], [116, 25.5, 0.8, 0.2, 0, 0, 0, 338, 237, 11, 1.5, 0], 154, { can: 142 }),
+  food("shrimp", "Shrimp, raw", ["shrimp", "prawn"], [85, 20.1, 0.5, 0.1, 0, 0, 0, 119, 264, 64, 0.2, 0], 145, { each: 15 }),
+  food("tofu", "Tofu, firm", ["tofu", "firm tofu", "extra firm tofu"], [144, 17.3, 8.7, 1.3, 2.8, 2.3, 0.6, 14, 237, 683, 2.7, 0.2], 252, { package: 400, each: 400 }),
+
+  // Beans, nuts and seeds
+  food("chickpeas", "Chickpeas, canned, drained", ["chickpea", "garbanzo bean"], [139, 7, 2.6, 0.3, 22.5, 6.4, 0, 246, 110, 42, 1.3, 0], 164, { can: 240 }),
+  food("black-beans", "Black beans, canned, drained", ["black bean"], [91, 6, 0.3, 0.1, 16.6, 6.9, 0.3, 384, 308, 35, 1.9, 0], 172, { can: 240 }),
+  food("beans", "Beans, canned, drained", ["kidney bean", "cannellini bean", "white bean", "pinto bean", "navy bean", "bean", "great northern bean"], [84, 5.2, 0.6, 0.1, 15, 5.4, 1.8, 250, 237, 29, 1.3, 1], 172, { can: 240 }),
+  food("lentils", "Lentils, dry", ["lentil", "red lentil", "green lentil", "brown lentil"], [352, 24.6, 1.1, 0.2, 63.4, 10.7, 2, 6, 677, 35, 6.5, 4.5], 192),
+  food("peanuts", "Peanuts", ["peanut"], [567, 25.8, 49.2, 6.3, 16.1, 8.5, 4, 18, 705, 92, 4.6, 0], 146),
+  food("almonds", "Almonds", ["almond", "almond flour", "almond meal", "ground almond", "sliced almond"], [579, 21.2, 49.9, 3.8, 21.6, 12.5, 4.4, 1, 733, 269, 3.7, 0], 143),
+  food("walnuts", "Walnuts", ["walnut"], [654, 15.2, 65.2, 6.1, 13.7, 6.7, 2.6, 2, 441, 98, 2.9, 1.3], 117),
+  food("pecans", "Pecans", ["pecan"], [691, 9.2, 72, 6.2, 13.9, 9.6, 4, 0, 410, 70, 2.5, 1.1], 109),
+  food("cashews", "Cashews", ["cashew", "pine nut", "pistachio", "hazelnut", "nut"], [553, 18.2, 43.8, 7.8, 30.2, 3.3, 5.9, 12, 660, 37, 6.7, 0.5], 137),
+  food("sesame-seeds", "Sesame seeds", ["sesame seed", "tahini"], [573, 17.7, 49.7, 7, 23.5, 11.8, 0.3, 11, 468, 975, 14.6, 0], 144),
+  food("coconut-milk", "Coconut milk, canned", ["coconut milk", "coconut cream"], [197, 2, 21.3, 18.9, 2.8, 0, 3.3, 13, 220, 18, 3.3, 1], 226, { can: 400 }),
+
+  // Vegetables, fruit and herbs
+  food("onion", "Onion", ["onion", "yellow onion", "white onion", "red onion", "shallot"], [40, 1.1, 0.1, 0, 9.3, 1.7, 4.2, 4, 146, 23, 0.2, 7.4], 160, { each: 110 }),
+  food("scallions", "Green onions", ["green onion", "scallion", "spring onion", "chive"], [32, 1.8, 0.2, 0, 7.3, 2.6, 2.3, 16, 276, 72, 1.5, 18.8], 100, { each: 15, bunch: 100, stalk: 15 }),
+  food("garlic", "Garlic", ["garlic", "garlic clove"], [149, 6.4, 0.5, 0.1, 33.1, 2.1, 1, 17, 401, 181, 1.7, 31.2], 136, { clove: 3, head: 50, each: 3 }),
+  food("ginger", "Fresh ginger", ["ginger", "fresh ginger", "ginger root"], [80, 1.8, 0.8, 0.2, 17.8, 2, 1.7, 13, 415, 16, 0.6, 5], 96, { piece: 10, each: 10 }),
+  food("carrot", "Carrot", ["carrot"], [41, 0.9, 0.2, 0, 9.6, 2.8, 4.7, 69, 320, 33, 0.3, 5.9], 128, { each: 61 }),
+  food("celery", "Celery", ["celery", "celery stalk", "celery rib"], [14, 0.7, 0.2, 0, 3, 1.6, 1.3, 80, 260, 40, 0.2, 3.1], 101, { stalk: 40, each: 40 }),
+  food("potato", "Potato", ["potato", "russet potato", "yukon gold potato", "red potato", "baby potato"], [77, 2, 0.1, 0, 17.5, 2.1, 0.8, 6, 425, 12, 0.8, 19.7], 150, { each: 213 }),
+  food("sweet-potato", "Sweet potato", ["sweet potato", "yam"], [86, 1.6, 0.1, 0, 20.1, 3, 4.2, 55, 337, 30, 0.6, 2.4], 133, { each: 130 }),
+  food("tomato", "Tomato", ["tomato", "cherry tomato", "roma tomato", "plum tomato", "grape tomato"], [18, 0.9, 0.2, 0, 3.9, 1.2, 2.6, 5, 237, 10, 0.3, 13.7], 180, { each: 123 }),
+  food("canned-tomatoes", "Tomatoes, canned", ["canned tomato", "diced tomato", "crushed tomato", "chopped tomato", "tinned tomato", "tomato sauce", "passata", "tomato puree", "marinara sauce"], [24, 1, 0.2, 0, 4.8, 1.5, 3, 186, 220, 31, 0.6, 9], 240, { can: 400, jar: 680 }),
+  food("tomato-paste", "Tomato paste", ["tomato paste", "tomato concentrate"], [82, 4.3, 0.5, 0.1, 18.9, 4.1, 12.2, 59, 1014, 36, 3, 21.9], 262, { can: 170 }),
+  food("bell-pepper", "Bell pepper", ["bell pepper", "red pepper", "green pepper", "yellow pepper", "capsicum", "sweet pepper"], [26, 1, 0.3, 0, 6, 2.1, 4.2, 4, 211, 7, 0.4, 127.7], 149, { each: 119 }),
+  food("chili", "Chili pepper", ["jalapeno", "jalapeño", "chili pepper", "chile", "chili", "chilli", "serrano", "fresno chili"], [40, 1.9, 0.4, 0, 8.8, 1.5, 5.3, 9, 322, 14, 1, 144], 150, { each: 14 }),
+  food("spinach", "Spinach", ["spinach", "baby spinach"], [23, 2.9, 0.4, 0.1, 3.6, 2.2, 0.4, 79, 558, 99, 2.7, 28.1], 30, { bunch: 340, handful: 30 }),
+  food("kale", "Kale", ["kale", "swiss chard", "collard green", "chard"], [49, 4.3, 0.9, 0.1, 8.8, 3.6, 2.3, 38, 491, 150, 1.5, 120], 67, { bunch: 200, handful: 30 }),
+  food("broccoli", "Broccoli", ["broccoli", "broccoli floret"], [34, 2.8, 0.4, 0, 6.6, 2.6, 1.7, 33, 316, 47, 0.7, 89.2], 91, { head: 300, each: 300 }),
+  food("cauliflower", "Cauliflower", ["cauliflower", "cauliflower floret"], [25, 1.9, 0.3, 0.1, 5, 2, 1.9, 30, 299, 22, 0.4, 48.2], 107, { head: 600, each: 600 }),
+  food("mushrooms", "Mushrooms", ["mushroom", "cremini mushroom", "button mushroom", "shiitake mushroom", "portobello mushroom"], [22, 3.1, 0.3, 0, 3.3, 1, 2, 5, 318, 3, 0.5, 2.1], 70, { each: 18 }),
+  food("zucchini", "Zucchini", ["zucchini", "courgette", "summer squash"], [17, 1.2, 0.3, 0.1, 3.1, 1, 2.5, 8, 261, 16, 0.4, 17.9], 124, { each: 196 }),
+  food("squash", "Winter squash", ["butternut squash", "pumpkin", "squash", "pumpkin puree"], [45, 1, 0.1, 0, 11.7, 2, 2.2, 4, 352, 48, 0.7, 21], 205, { each: 1000, can: 425 }),
+  food("cabbage", "Cabbage", ["cabbage", "red cabbage", "green cabbage", "napa cabbage", "bok choy"], [25, 1.3, 0.1, 0, 5.8, 2.5, 3.2, 18, 170, 40, 0.5, 36.6], 89, { head: 900, each: 900 }),
+  food("lettuce", "Lettuce", ["lettuce", "romaine", "romaine lettuce", "mixed greens", "arugula", "rocket", "salad greens"], [15, 1.4, 0.2, 0, 2.9, 1.3, 0.8, 28, 194, 36, 0.9, 9.2], 36, { head: 600, each: 600, handful: 20 }),
+  food("cucumber", "Cucumber", ["cucumber"], [15, 0.7, 0.1, 0, 3.6, 0.5, 1.7, 2, 147, 16, 0.3, 2.8], 119, { each: 300 }),
+  food("corn", "Corn kernels", ["corn", "sweet corn", "corn kernel"], [86, 3.3, 1.4, 0.3, 18.7, 2, 6.3, 15, 270, 2, 0.5, 6.8], 145, { each: 90, can: 250 }),
+  food("peas", "Green peas", ["pea", "green pea", "frozen pea"], [77, 5.2, 0.4, 0.1, 13.6, 4.5, 5, 108, 153, 22, 1.5, 18], 134),
+  food("green-beans", "Green beans", ["green bean", "string bean", "haricot vert"], [31, 1.8, 0.2, 0, 7, 2.7, 3.3, 6, 211, 37, 1, 12.2], 110),
+  food("avocado", "Avocado", ["avocado"], [160, 2, 14.7, 2.1, 8.5, 6.7, 0.7, 7, 485, 12, 0.6, 10], 150, { each: 150 }),
+  food("lemon-juice", "Lemon juice", ["lemon juice"], [22, 0.4, 0.2, 0, 6.9, 0.3, 2.5, 1, 103, 6, 0.1, 38.7], 244),
+  food("lime-juice", "Lime juice", ["lime juice"], [25, 0.4, 0.1, 0, 8.4, 0.4, 1.7, 2, 117, 14, 0.1, 30], 242),
+  food("lemon", "Lemon", ["lemon", "lemon zest"], [29, 1.1, 0.3, 0, 9.3, 2.8, 2.5, 2, 138, 26, 0.6, 53], 212, { each: 84 }),
+  food("lime", "Lime", ["lime", "lime zest"], [30, 0.7, 0.2, 0, 10.5, 2.8, 1.7, 2, 102, 33, 0.6, 29.1], 212, { each: 67 }),
+  food("orange", "Orange", ["orange", "orange zest"], [47, 0.9, 0.1, 0, 11.8, 2.4, 9.4, 0, 181, 40, 0.1, 53.2], 180, { each: 131 }),
+  food("apple", "Apple", ["apple"], [52, 0.3, 0.2, 0, 13.8, 2.4, 10.4, 1, 107, 6, 0.1, 4.6], 125, { each: 182 }),
+  food("banana", "Banana", ["banana"], [89, 1.1, 0.3, 0.1, 22.8, 2.6, 12.2, 1, 358, 5, 0.3, 8.7], 225, { each: 118 }),
+  food("berries", "Berries", ["blueberry", "raspberry", "blackberry", "berry", "mixed berry", "cranberry"], [57, 0.7, 0.3, 0, 14.5, 2.4, 10, 1, 77, 6, 0.3, 9.7], 148),
+  food("strawberries", "Strawberries", ["strawberry"], [32, 0.7, 0.3, 0, 7.7, 2, 4.9, 1, 153, 16, 0.4, 58.8], 152, { each: 12 }),
+  food("fresh-herbs", "Fresh herbs", ["parsley", "cilantro", "fresh coriander", "basil", "dill", "mint", "fresh herb", "fresh thyme", "fresh rosemary", "tarragon", "sage"], [36, 3, 0.8, 0.1, 6.3, 3.3, 0.9, 56, 554, 138, 6.2, 133], 60, { bunch: 60, sprig: 1, handful: 10, each: 1 }),
+
+  // Liquids
+  food("water", "Water", ["water", "ice", "ice water", "boiling water", "warm water", "cold water"], [0, 0, 0, 0, 0, 0, 0, 4, 0, 10, 0, 0], 237),
+  food("broth", "Broth", ["chicken broth", "chicken stock", "vegetable broth", "vegetable stock", "beef broth", "beef stock", "stock", "broth", "bouillon"], [7, 0.6, 0.2, 0.1, 0.6, 0, 0.3, 343, 45, 4, 0.1, 0], 240),
+  food("wine", "Wine", ["wine", "white wine", "red wine", "dry white wine", "dry red wine", "sherry"], [83, 0.1, 0, 0, 2.6, 0, 0.6, 4, 110, 8, 0.4, 0], 236),
+];
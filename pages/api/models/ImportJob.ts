@@ -0,0 +1,113 @@
+import mongoose, { Schema, Types } from "mongoose";
+import {
+  FetchFailureReason,
+  ImportJobItemStatus,
+} from "../../../src/types/recipe";
+import dbConnect from "../utils/dbConnect";
+
+// Connect to the database before defining the model
+dbConnect();
+
+export interface ImportJobItemDocument extends Types.Subdocument {
+  url: string;
+  status: ImportJobItemStatus;
+  reason?: string;
+  // Set when the page itself could not be fetched
+  fetchFailure?: FetchFailureReason;
+  recipeId?: Types.ObjectId;
+  attempts: number;
+}
+
+export interface ImportJobDocument extends mongoose.Document {
+  user: Types.ObjectId;
+  status: "running" | "completed";
+  items: Types.DocumentArray<ImportJobItemDocument>;
+  // Set while a batch is being processed so overlapping polls don't import
+  // the same URLs twice
+  lockedUntil?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ImportJobModel extends mongoose.Model<ImportJobDocument> {
+  // Static methods would go here
+}
+
+// Schema for a single URL in the job
+const ImportJobItemSchema = new Schema<ImportJobItemDocument>({
+  url: {
+    type: String,
+    required: [true, "URL is required"],
+  },
+  status: {
+    type: String,
+    enum: ["queued", "succeeded", "failed", "duplicate"],
+    default: "queued",
+  },
+  reason: {
+    type: String,
+    required: false,
+  },
+  fetchFailure: {
+    type: String,
+    enum: [
+      "invalid-url",
+      "blocked",
+      "not-found",
+      "forbidden",
+      "rate-limited",
+      "timeout",
+      "server-error",
+      "too-large",
+      "not-a-page",
+      "network-error",
+    ],
+    required: false,
+  },
+  recipeId: {
+    type: Schema.Types.ObjectId,
+    ref: "Recipe",
+    required: false,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+});
+
+// Create an import job schema
+const ImportJobSchema = new Schema<ImportJobDocument>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["running", "completed"],
+      default: "running",
+    },
+    items: [ImportJobItemSchema],
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Create an index on user and creation date for listing a user's jobs
+ImportJobSchema.index({ user: 1, createdAt: -1 });
+
+// Create and export ImportJob model - using mongoose.models to check if model already exists
+const ImportJob =
+  (mongoose.models.ImportJob as ImportJobModel) ||
+  mongoose.model<ImportJobDocument, ImportJobModel>(
+    "ImportJob",
+    ImportJobSchema
+  );
+
+export default ImportJob;
@@ -1,5 +1,5 @@
 import mongoose, { Schema } from "mongoose";
-import { IngredientType, InstructionItem } from "../../../src/types/recipe";
+import { IngredientType, InstructionType } from "../../../src/types/recipe";
 import dbConnect from "../utils/dbConnect";
 // Import Tag model to ensure it's registered in Mongoose
 import "./Tag";
@@ -11,6 +11,29 @@ type IRecipeModel = any;
 // Connect to the database before defining the model
 dbConnect();
 
+/**
+ * Checks a list of instructions: each entry is a step (older recipes may
+ * store plain strings) or a titled section with its own non-empty list
+ */
+function isValidInstructionList(list: unknown): boolean {
+  return (
+    Array.isArray(list) &&
+    list.length > 0 &&
+    list.every((item: InstructionType | string) => {
+      if (typeof item === "string") return true;
+      if (!item || typeof item !== "object") return false;
+      if ("sectionTitle" in item) {
+        return (
+          typeof item.sectionTitle === "string" &&
+          item.sectionTitle.trim().length > 0 &&
+          isValidInstructionList(item.instructions)
+        );
+      }
+      return typeof item.text === "string";
+    })
+  );
+}
+
 // Create a recipe schema
 const RecipeSchema = new Schema<IRecipeDocument>(
   {
@@ -37,10 +60,11 @@ const RecipeSchema = new Schema<IRecipeDocument>(
       type: mongoose.Schema.Types.Mixed, // Use Mixed type to allow for the complex structure
       required: [true, "Instructions are required"],
       validate: {
-        validator: function (v: InstructionItem[]) {
-          return Array.isArray(v) && v.length > 0;
+        validator: function (v: InstructionType[]) {
+          return isValidInstructionList(v);
         },
-        message: "At least one instruction is required",
+        message:
+          "At least one instruction is required, and every section needs a title and steps",
       },
     },
     cookingTime: {
@@ -82,6 +106,15 @@ const RecipeSchema = new Schema<IRecipeDocument>(
         ref: "Tag",
       },
     ],
+    // Foods the owner chose for ingredients in the nutrition estimate; a null
+    // food leaves the ingredient out
+    nutritionOverrides: [
+      {
+        _id: false,
+        ingredient: { type: String, required: true },
+        foodId: { type: String, default: null },
+      },
+    ],
   },
   {
     timestamps: true,
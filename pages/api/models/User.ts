@@ -21,6 +21,12 @@ const UserSchema = new Schema<IUserDocument>(
       minlength: [6, "Password must be at least 6 characters long"],
       select: false,
     },
+    // Units recipes are shown in
+    unitPreference: {
+      type: String,
+      enum: ["us", "metric", "original"],
+      default: "original",
+    },
     createdAt: {
       type: Date,
       default: Date.now,
@@ -1,10 +1,16 @@
 import { Document, Model, Types } from "mongoose";
-import { IngredientType, InstructionItem } from "../../../src/types/recipe";
+import {
+  IngredientType,
+  InstructionType,
+  NutritionOverride,
+  UnitPreference,
+} from "../../../src/types/recipe";
 
 // Base interfaces (without Document extension)
 export interface IUserBase {
   username: string;
   password: string;
+  unitPreference: UnitPreference;
   createdAt: Date;
 }
 
@@ -12,7 +18,7 @@ export interface IRecipeBase {
   title: string;
   description: string;
   ingredients: Array<IngredientType>;
-  instructions: Array<InstructionItem>;
+  instructions: Array<InstructionType>;
   cookingTime?: number;
   servings?: number;
   imageUrl: string;
@@ -23,6 +29,7 @@ export interface IRecipeBase {
   fullRecipe?: string;
   sourceUrl?: string;
   tags?: Types.ObjectId[];
+  nutritionOverrides?: NutritionOverride[];
 }
 
 // Document interfaces (for instance methods)
@@ -1,10 +1,22 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import Recipe from "../models/Recipe";
 import { UserRecipeModel } from "../models/UserRecipe";
+import { parseIngredients } from "../../../src/utils/ingredientParser";
+import { recipeToJsonLd } from "../../../src/utils/recipeJsonLd";
+import {
+  scaleRecipe,
+  servingsScaleFactor,
+} from "../../../src/utils/recipeScaling";
+import { recipeToCooklang } from "../services/cooklangService";
 import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
 import { processImageUrl } from "../utils/awsS3";
+import { getRequestOrigin } from "../utils/requestOrigin";
 
-// Handler for GET requests - Get a recipe by ID
+// Largest scale factor accepted, to keep amounts sensible
+const MAX_SCALE_FACTOR = 50;
+
+// Handler for GET requests - Get a recipe by ID. The recipe, and any export of
+// it, can be scaled with ?servings=8 (needs a servings count) or ?scale=2.
 async function getRecipeById(
   req: NextApiRequest | AuthNextApiRequest,
   res: NextApiResponse
@@ -21,6 +33,55 @@ async function getRecipeById(
       return res.status(404).json({ message: "Recipe not found" });
     }
 
+    // Work out how much to scale the ingredients by, if at all
+    const { servings, scale } = req.query;
+    let factor: number | null = 1;
+    if (servings !== undefined) {
+      factor = servingsScaleFactor(recipe, Number(servings));
+      if (factor === null && !recipe.servings) {
+        return res.status(400).json({
+          message: "This recipe has no servings count to scale from",
+        });
+      }
+    } else if (scale !== undefined) {
+      factor = Number(scale);
+    }
+    if (
+      factor === null ||
+      !Number.isFinite(factor) ||
+      factor <= 0 ||
+      factor > MAX_SCALE_FACTOR
+    ) {
+      return res.status(400).json({ message: "Invalid servings or scale" });
+    }
+    const scaled = <T extends object>(data: T): T =>
+      factor === 1 ? data : scaleRecipe(data, factor as number);
+
+    // Export the recipe in another format when one is requested
+    const { format } = req.query;
+    if (format === "cooklang") {
+      const fileName =
+        recipe.title
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-|-$/g, "") || "recipe";
+
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${fileName}.cook"`
+      );
+      return res.status(200).send(recipeToCooklang(scaled(recipe.toObject())));
+    } else if (format === "jsonld") {
+      res.setHeader("Content-Type", "application/ld+json; charset=utf-8");
+      const jsonLd = recipeToJsonLd(scaled(recipe.toJSON()), {
+        baseUrl: getRequestOrigin(req),
+      });
+      return res.status(200).send(JSON.stringify(jsonLd));
+    } else if (format) {
+      return res.status(400).json({ message: "Unsupported export format" });
+    }
+
     // Check if this recipe is in the user's favorites
     let isFavorite = false;
 
@@ -41,7 +102,7 @@ async function getRecipeById(
     }
 
     // Return the recipe with the isFavorite flag
-    const recipeData = recipe.toJSON();
+    const recipeData = scaled(recipe.toJSON());
     return res.status(200).json({
       ...recipeData,
       isFavorite,
@@ -135,7 +196,10 @@ async function updateRecipe(req: AuthNextApiRequest, res: NextApiResponse) {
     // Update recipe fields
     recipe.title = title || recipe.title;
     recipe.description = description || recipe.description;
-    recipe.ingredients = ingredients || recipe.ingredients;
+    // Re-parse the ingredients, as their text may have been edited
+    recipe.ingredients = Array.isArray(ingredients)
+      ? parseIngredients(ingredients)
+      : recipe.ingredients;
     recipe.instructions = instructions || recipe.instructions;
     recipe.cookingTime =
       cookingTime !== undefined ? cookingTime : recipe.cookingTime;
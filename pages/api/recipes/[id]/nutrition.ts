@@ -0,0 +1,117 @@
+import mongoose from "mongoose";
+import { NextApiRequest, NextApiResponse } from "next";
+import Recipe from "../../models/Recipe";
+import {
+  estimateNutrition,
+  hasIngredient,
+  isKnownFood,
+  setOverride,
+} from "../../services/nutritionService";
+import { AuthNextApiRequest, connectDB, withProtect } from "../../utils/auth";
+
+// Handler for GET requests - Estimate a recipe's nutrition from its
+// ingredients
+async function getNutrition(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { id } = req.query;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(404).json({ message: "Recipe not found" });
+    }
+
+    const recipe = await Recipe.findById(id);
+    if (!recipe) {
+      return res.status(404).json({ message: "Recipe not found" });
+    }
+
+    return res.status(200).json(estimateNutrition(recipe));
+  } catch (error) {
+    console.error("Error estimating nutrition:", error);
+    return res.status(500).json({ message: "Server error" });
+  }
+}
+
+// Handler for PUT requests - Choose the food an ingredient is matched to.
+// Send a food id, null to leave the ingredient out, or no foodId to go back
+// to the automatic match.
+async function updateNutritionMatch(
+  req: AuthNextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    // Check authentication
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const { id } = req.query;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(404).json({ message: "Recipe not found" });
+    }
+
+    const recipe = await Recipe.findById(id);
+    if (!recipe) {
+      return res.status(404).json({ message: "Recipe not found" });
+    }
+
+    // Check if user is the owner of the recipe
+    if (recipe.user.toString() !== req.user._id.toString()) {
+      return res
+        .status(403)
+        .json({ message: "Not authorized to update this recipe" });
+    }
+
+    const { ingredient, foodId } = req.body;
+    if (typeof ingredient !== "string" || !ingredient.trim()) {
+      return res.status(400).json({ message: "Ingredient is required" });
+    }
+    if (!hasIngredient(recipe.ingredients, ingredient)) {
+      return res
+        .status(400)
+        .json({ message: "That ingredient isn't in this recipe" });
+    }
+    if (
+      foodId !== undefined &&
+      foodId !== null &&
+      (typeof foodId !== "string" || !isKnownFood(foodId))
+    ) {
+      return res.status(400).json({ message: "Unknown food" });
+    }
+
+    recipe.nutritionOverrides = setOverride(
+      recipe.nutritionOverrides,
+      ingredient,
+      foodId
+    );
+    await recipe.save();
+
+    return res.status(200).json(estimateNutrition(recipe));
+  } catch (error) {
+    console.error("Error updating nutrition match:", error);
+    return res.status(500).json({ message: "Server error" });
+  }
+}
+
+// @desc    Estimate a recipe's nutrition (GET), or choose the food an
+//          ingredient is matched to (PUT)
+// @route   GET/PUT /api/recipes/:id/nutrition
+// @access  Public (GET), Private (PUT)
+export default async function handler(
+  req: NextApiRequest | AuthNextApiRequest,
+  res: NextApiResponse
+) {
+  // Connect to the database
+  await connectDB();
+
+  if (req.method === "GET") {
+    // GET is a public route, like the recipe itself
+    return getNutrition(req, res);
+  } else if (req.method === "PUT") {
+    // PUT requires authentication
+    return withProtect(updateNutritionMatch as any)(
+      req as AuthNextApiRequest,
+      res
+    );
+  } else {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+}
@@ -0,0 +1,90 @@
+import mongoose from "mongoose";
+import { NextApiResponse } from "next";
+import Recipe from "../../models/Recipe";
+import {
+  applyResyncChanges,
+  buildResyncDiff,
+} from "../../services/recipeResyncService";
+import { AuthNextApiRequest, connectDB, withProtect } from "../../utils/auth";
+
+// @desc    Compare a recipe with its source page (POST), or apply the
+//          changes the user accepted (PUT)
+// @route   POST/PUT /api/recipes/:id/resync
+// @access  Private
+async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
+  // Connect to the database
+  await connectDB();
+
+  // Only allow POST and PUT methods for this endpoint
+  if (req.method !== "POST" && req.method !== "PUT") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    // Check authentication
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const { id } = req.query;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(404).json({ message: "Recipe not found" });
+    }
+
+    const recipe = await Recipe.findById(id);
+    if (!recipe) {
+      return res.status(404).json({ message: "Recipe not found" });
+    }
+
+    // Check if user is the owner of the recipe
+    if (recipe.user.toString() !== req.user._id.toString()) {
+      return res
+        .status(403)
+        .json({ message: "Not authorized to update this recipe" });
+    }
+
+    if (!recipe.sourceUrl) {
+      return res
+        .status(400)
+        .json({ message: "This recipe has no source URL to refresh from" });
+    }
+
+    // POST - Re-extract the recipe and return the differences
+    if (req.method === "POST") {
+      const diff = await buildResyncDiff(recipe);
+      if (!diff) {
+        return res.status(400).json({
+          message: "Could not extract the recipe from its source page",
+        });
+      }
+      return res.status(200).json(diff);
+    }
+
+    // PUT - Apply the accepted changes
+    const { fields } = req.body;
+    if (!fields || typeof fields !== "object") {
+      return res.status(400).json({ message: "Accepted fields are required" });
+    }
+
+    const { recipe: savedRecipe, applied } = await applyResyncChanges(
+      recipe,
+      fields
+    );
+    await savedRecipe.populate("tags", "name");
+
+    return res.status(200).json({
+      message: `Updated ${applied.length} field${
+        applied.length === 1 ? "" : "s"
+      } from the source page`,
+      recipe: savedRecipe,
+      applied,
+    });
+  } catch (error) {
+    console.error("Error resyncing recipe:", error);
+    return res
+      .status(500)
+      .json({ message: "Server error while refreshing recipe" });
+  }
+}
+
+export default withProtect(handler);
@@ -0,0 +1,52 @@
+import { NextApiResponse } from "next";
+import { discoverRecipeLinks } from "../services/listingCrawlService";
+import { normalizeImportUrl } from "../services/importJobService";
+import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
+
+// Crawls wait between requests to the same site, so they can take a while
+export const config = {
+  maxDuration: 60,
+};
+
+// @desc    Find the recipe links on a blog index, category or sitemap page
+// @route   POST /api/recipes/crawl
+// @access  Private
+async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
+  // Connect to the database
+  await connectDB();
+
+  // Only allow POST method for this endpoint
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    // Check authentication
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const { url } = req.body;
+
+    // Verify that a valid URL is provided
+    if (typeof url !== "string" || !normalizeImportUrl(url)) {
+      return res.status(400).json({ message: "A valid URL is required" });
+    }
+
+    const result = await discoverRecipeLinks(url);
+    if (!result) {
+      return res
+        .status(400)
+        .json({ message: "Failed to fetch the listing page" });
+    }
+
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error("Error crawling listing page:", error);
+    return res
+      .status(500)
+      .json({ message: "Server error while crawling the listing page" });
+  }
+}
+
+export default withProtect(handler);
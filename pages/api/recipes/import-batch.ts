@@ -0,0 +1,109 @@
+import mongoose from "mongoose";
+import { NextApiResponse } from "next";
+import Tag from "../models/Tag";
+import { saveEachImportedRecipe } from "../services/recipeImportService";
+import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
+
+// Maximum number of recipes saved in one batch
+const MAX_BATCH_RECIPES = 50;
+
+// @desc    Save several extracted recipes at once (e.g. the recipes picked
+//          from a multi-recipe document), attaching shared tags to each
+// @route   POST /api/recipes/import-batch
+// @access  Private
+async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
+  // Connect to the database
+  await connectDB();
+
+  // Only allow POST method for this endpoint
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    // Check authentication
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const { recipes, tags = [] } = req.body;
+
+    // Verify that a list of recipes is provided
+    if (!Array.isArray(recipes) || recipes.length === 0) {
+      return res.status(400).json({ message: "A list of recipes is required" });
+    }
+
+    if (recipes.length > MAX_BATCH_RECIPES) {
+      return res.status(400).json({
+        message: `A single batch can include at most ${MAX_BATCH_RECIPES} recipes`,
+      });
+    }
+
+    // Verify that every recipe has the required fields
+    const invalidIndex = recipes.findIndex(
+      (draft: any) =>
+        !draft ||
+        !draft.title ||
+        !Array.isArray(draft.ingredients) ||
+        draft.ingredients.length === 0 ||
+        !Array.isArray(draft.instructions) ||
+        draft.instructions.length === 0
+    );
+    if (invalidIndex >= 0) {
+      return res.status(400).json({
+        message: `Recipe ${
+          invalidIndex + 1
+        } is missing a title, ingredients or instructions`,
+      });
+    }
+
+    // Only keep tag IDs that exist in the database
+    const tagIds = Array.isArray(tags)
+      ? tags.filter((tagId: unknown) => mongoose.isValidObjectId(tagId))
+      : [];
+    const sharedTags = await Tag.find({ _id: { $in: tagIds } });
+    const availableTags = await Tag.find().sort({ name: 1 });
+
+    // Extracted recipes may have no description, which the model requires.
+    // Each recipe is saved on its own, so the response says which were saved
+    // rather than failing the whole batch after some are already stored.
+    const results = await saveEachImportedRecipe(
+      recipes.map((draft: any) => ({
+        ...draft,
+        description: draft.description || draft.title,
+      })),
+      req.user._id,
+      availableTags,
+      sharedTags.map((tag) => tag._id)
+    );
+    const recipeIds = results
+      .filter((result) => result.recipeId)
+      .map((result) => result.recipeId);
+    const failedCount = results.length - recipeIds.length;
+
+    if (recipeIds.length === 0) {
+      return res.status(500).json({
+        message: "Server error while saving recipes",
+        results,
+        recipeIds,
+      });
+    }
+
+    return res.status(201).json({
+      message: `Imported ${recipeIds.length} recipe${
+        recipeIds.length === 1 ? "" : "s"
+      } successfully${
+        failedCount > 0 ? `; ${failedCount} could not be saved` : ""
+      }`,
+      results,
+      recipeIds,
+    });
+  } catch (error) {
+    console.error("Error saving recipe batch:", error);
+    return res
+      .status(500)
+      .json({ message: "Server error while saving recipes" });
+  }
+}
+
+export default withProtect(handler);
@@ -0,0 +1,98 @@
+import mongoose from "mongoose";
+import { NextApiResponse } from "next";
+import Tag from "../models/Tag";
+import { mergeIntoExistingRecipe } from "../services/duplicateDetectionService";
+import { saveImportedRecipe } from "../services/recipeImportService";
+import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
+
+// @desc    Save a reviewed import draft returned by an import preview, or
+//          merge it into an existing recipe when mergeInto is set
+// @route   POST /api/recipes/import-commit
+// @access  Private
+async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
+  // Connect to the database
+  await connectDB();
+
+  // Only allow POST method for this endpoint
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    // Check authentication
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const { recipe: draft, tags = [], mergeInto = null } = req.body;
+
+    // Verify that the draft has the required fields
+    if (
+      !draft ||
+      !draft.title ||
+      !draft.description ||
+      !Array.isArray(draft.ingredients) ||
+      draft.ingredients.length === 0 ||
+      !Array.isArray(draft.instructions) ||
+      draft.instructions.length === 0
+    ) {
+      return res.status(400).json({
+        message:
+          "Title, description, ingredients and instructions are required",
+      });
+    }
+
+    // A recipe to merge into has to be a valid ID, or there's nothing to find
+    if (mergeInto && !mongoose.isValidObjectId(mergeInto)) {
+      return res
+        .status(404)
+        .json({ message: "Recipe to merge into not found" });
+    }
+
+    // Only keep tag IDs that exist in the database
+    const tagIds = Array.isArray(tags)
+      ? tags.filter((tagId: unknown) => mongoose.isValidObjectId(tagId))
+      : [];
+    const validTags = await Tag.find({ _id: { $in: tagIds } });
+
+    if (mergeInto) {
+      const mergedRecipe = await mergeIntoExistingRecipe(
+        mergeInto,
+        draft,
+        req.user._id,
+        validTags.map((tag) => tag._id)
+      );
+      if (!mergedRecipe) {
+        return res
+          .status(404)
+          .json({ message: "Recipe to merge into not found" });
+      }
+      return res.status(200).json({
+        message: "Recipe merged into your existing recipe",
+        recipe: mergedRecipe,
+        recipeId: mergedRecipe._id,
+      });
+    }
+
+    // Save the recipe, uploading its image to S3
+    const savedRecipe = await saveImportedRecipe(
+      draft,
+      req.user._id,
+      validTags.map((tag) => tag._id)
+    );
+
+    // Return the recipe data and the ID for redirection
+    return res.status(201).json({
+      message: "Recipe imported successfully",
+      recipe: savedRecipe,
+      recipeId: savedRecipe._id,
+    });
+  } catch (error) {
+    console.error("Error saving imported recipe:", error);
+    return res
+      .status(500)
+      .json({ message: "Server error while saving imported recipe" });
+  }
+}
+
+export default withProtect(handler);
@@ -0,0 +1,178 @@
+import { NextApiResponse } from "next";
+import Recipe from "../models/Recipe";
+import Tag from "../models/Tag";
+import { parseCooklang } from "../services/cooklangService";
+import {
+  isMealMasterText,
+  parseMealMaster,
+} from "../services/mealMasterService";
+import {
+  extractRecipeFromPage,
+  extractRecipeFromText,
+} from "../services/recipeExtractionService";
+import {
+  findSavedPageUrl,
+  describeImportResults,
+  matchTags,
+  saveEachImportedRecipe,
+  saveImportedRecipe,
+} from "../services/recipeImportService";
+import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
+
+// Saved web pages can be large, so allow bigger bodies than the 1mb default
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: "4mb",
+    },
+  },
+};
+
+// File types that can be imported, by extension
+const HTML_EXTENSIONS = ["html", "htm"];
+const TEXT_EXTENSIONS = ["txt", "md", "mmf"];
+const COOKLANG_EXTENSIONS = ["cook"];
+
+// @desc    Import recipes from an uploaded HTML, text, Markdown, MealMaster or Cooklang file.
+//          Recipes in a MealMaster file that look like ones the user already
+//          has are skipped and reported, unless allowDuplicate is set.
+// @route   POST /api/recipes/import-file
+// @access  Private
+async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
+  // Connect to the database
+  await connectDB();
+
+  // Only allow POST method for this endpoint
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    // Check authentication
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const { fileName, content, allowDuplicate = false } = req.body;
+
+    // Verify that a file is provided
+    if (!fileName || typeof content !== "string" || !content.trim()) {
+      return res
+        .status(400)
+        .json({ message: "File name and content are required" });
+    }
+
+    const extension = String(fileName).split(".").pop()?.toLowerCase() || "";
+    const isHtml = HTML_EXTENSIONS.includes(extension);
+    const isCooklang = COOKLANG_EXTENSIONS.includes(extension);
+    if (!isHtml && !isCooklang && !TEXT_EXTENSIONS.includes(extension)) {
+      return res.status(400).json({
+        message:
+          "Only .html, .htm, .txt, .md, .mmf and .cook files can be imported",
+      });
+    }
+
+    console.log(
+      `Processing uploaded file ${fileName}, length: ${content.length} characters`
+    );
+
+    // Get all available tags to help tag the recipe
+    const availableTags = await Tag.find().sort({ name: 1 });
+    const tagNames = availableTags.map((tag) => tag.name);
+
+    // MealMaster files are parsed without the LLM, one recipe per block
+    if (!isHtml && isMealMasterText(content)) {
+      const recipes = parseMealMaster(content, tagNames);
+      if (recipes.length === 0) {
+        return res.status(400).json({
+          message: `No complete recipes were found in ${fileName}`,
+        });
+      }
+
+      // Each recipe is saved on its own, so one that fails doesn't hide
+      // which of the others were saved. Likely duplicates are skipped, so
+      // importing the same file again doesn't copy its recipes.
+      const results = await saveEachImportedRecipe(
+        recipes,
+        req.user._id,
+        availableTags,
+        [],
+        !allowDuplicate
+      );
+      const recipeIds = results
+        .map((result) => result.recipeId)
+        .filter((recipeId): recipeId is string => Boolean(recipeId));
+
+      if (recipeIds.length === 0) {
+        const allDuplicates = results.every((result) => result.duplicates);
+        return res.status(allDuplicates ? 409 : 500).json({
+          message: allDuplicates
+            ? `The recipes in ${fileName} look like ones you already have`
+            : "Server error while importing recipes",
+          results,
+          recipeIds,
+        });
+      }
+
+      return res.status(201).json({
+        message: describeImportResults(results),
+        recipe: await Recipe.findById(recipeIds[0]),
+        recipeId: recipeIds[0],
+        recipeIds,
+        results,
+      });
+    }
+
+    // Saved pages go through the same pipeline as fetched pages, using the
+    // page's own URL when the browser recorded it. Cooklang files are parsed
+    // directly, titled after the file name; other text goes to the LLM
+    const sourceUrl = isHtml ? findSavedPageUrl(content) : undefined;
+    const recipeData = isCooklang
+      ? parseCooklang(
+          content,
+          String(fileName)
+            .replace(/\.cook$/i, "")
+            .replace(/[-_]+/g, " "),
+          tagNames
+        )
+      : isHtml
+      ? await extractRecipeFromPage(content, sourceUrl, tagNames)
+      : await extractRecipeFromText(content, tagNames);
+
+    if (!recipeData) {
+      return res.status(400).json({
+        message: `Failed to extract recipe data from ${fileName}`,
+      });
+    }
+
+    console.log("Successfully extracted recipe data:", recipeData.title);
+
+    // Convert tag names to tag IDs
+    const { matched } = matchTags(
+      recipeData.tags,
+      availableTags,
+      recipeData.ingredients
+    );
+
+    // Save the recipe, uploading its image to S3
+    const savedRecipe = await saveImportedRecipe(
+      { ...recipeData, sourceUrl: sourceUrl || recipeData.sourceUrl },
+      req.user._id,
+      matched.map((tag) => tag._id)
+    );
+
+    // Return the recipe data and the ID for redirection
+    return res.status(201).json({
+      message: "Recipe imported successfully",
+      recipe: savedRecipe,
+      recipeId: savedRecipe._id,
+    });
+  } catch (error) {
+    console.error("Error importing recipe from file:", error);
+    return res
+      .status(500)
+      .json({ message: "Server error while importing recipe" });
+  }
+}
+
+export default withProtect(handler);
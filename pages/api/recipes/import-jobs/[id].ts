@@ -0,0 +1,45 @@
+import mongoose from "mongoose";
+import { NextApiResponse } from "next";
+import ImportJob from "../../models/ImportJob";
+import { AuthNextApiRequest, connectDB, withProtect } from "../../utils/auth";
+
+// @desc    Get the progress of an import job
+// @route   GET /api/recipes/import-jobs/:id
+// @access  Private
+async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
+  // Connect to the database
+  await connectDB();
+
+  // Only allow GET method for this endpoint
+  if (req.method !== "GET") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    // Check authentication
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const { id } = req.query;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(404).json({ message: "Import job not found" });
+    }
+
+    const job = await ImportJob.findOne({
+      _id: id,
+      user: req.user._id,
+    }).select("-lockedUntil");
+
+    if (!job) {
+      return res.status(404).json({ message: "Import job not found" });
+    }
+
+    return res.status(200).json(job);
+  } catch (error) {
+    console.error("Error fetching import job:", error);
+    return res.status(500).json({ message: "Server error" });
+  }
+}
+
+export default withProtect(handler);
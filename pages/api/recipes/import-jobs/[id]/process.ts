@@ -0,0 +1,47 @@
+import mongoose from "mongoose";
+import { NextApiResponse } from "next";
+import { processImportJob } from "../../../services/importJobService";
+import {
+  AuthNextApiRequest,
+  connectDB,
+  withProtect,
+} from "../../../utils/auth";
+
+// @desc    Import the next batch of queued URLs in an import job
+// @route   POST /api/recipes/import-jobs/:id/process
+// @access  Private
+async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
+  // Connect to the database
+  await connectDB();
+
+  // Only allow POST method for this endpoint
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    // Check authentication
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const { id } = req.query;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(404).json({ message: "Import job not found" });
+    }
+
+    const job = await processImportJob(id as string, req.user._id);
+    if (!job) {
+      return res.status(404).json({ message: "Import job not found" });
+    }
+
+    return res.status(200).json(job);
+  } catch (error) {
+    console.error("Error processing import job:", error);
+    return res
+      .status(500)
+      .json({ message: "Server error while processing import job" });
+  }
+}
+
+export default withProtect(handler);
@@ -0,0 +1,87 @@
+import { NextApiResponse } from "next";
+import ImportJob from "../../models/ImportJob";
+import {
+  createImportJob,
+  MAX_URLS_PER_JOB,
+} from "../../services/importJobService";
+import { AuthNextApiRequest, connectDB, withProtect } from "../../utils/auth";
+
+// Handler for GET requests - List the user's recent import jobs
+async function getImportJobs(req: AuthNextApiRequest, res: NextApiResponse) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const jobs = await ImportJob.find({ user: req.user._id })
+      .select("-lockedUntil")
+      .sort({ createdAt: -1 })
+      .limit(20);
+
+    return res.status(200).json(jobs);
+  } catch (error) {
+    console.error("Error fetching import jobs:", error);
+    return res.status(500).json({ message: "Server error" });
+  }
+}
+
+// Handler for POST requests - Create a bulk import job from a list of URLs
+async function createJob(req: AuthNextApiRequest, res: NextApiResponse) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const { urls } = req.body;
+
+    // Verify that a list of URLs is provided
+    if (!Array.isArray(urls)) {
+      return res.status(400).json({ message: "A list of URLs is required" });
+    }
+
+    const urlList = urls
+      .filter((url: unknown): url is string => typeof url === "string")
+      .filter((url) => url.trim());
+
+    if (urlList.length === 0) {
+      return res.status(400).json({ message: "A list of URLs is required" });
+    }
+
+    if (urlList.length > MAX_URLS_PER_JOB) {
+      return res.status(400).json({
+        message: `A single import can include at most ${MAX_URLS_PER_JOB} URLs`,
+      });
+    }
+
+    const job = await createImportJob(req.user._id, urlList);
+
+    return res.status(201).json({
+      message: "Import job created",
+      job,
+    });
+  } catch (error) {
+    console.error("Error creating import job:", error);
+    return res
+      .status(500)
+      .json({ message: "Server error while creating import job" });
+  }
+}
+
+// @desc    List import jobs or create a bulk URL import job
+// @route   GET/POST /api/recipes/import-jobs
+// @access  Private
+async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
+  // Connect to the database
+  await connectDB();
+
+  switch (req.method) {
+    case "GET":
+      return getImportJobs(req, res);
+    case "POST":
+      return createJob(req, res);
+    default:
+      return res.status(405).json({ message: "Method not allowed" });
+  }
+}
+
+export default withProtect(handler);
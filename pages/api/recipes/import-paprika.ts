@@ -0,0 +1,77 @@
+import { NextApiResponse } from "next";
+import { importPaprikaArchive } from "../services/paprikaImportService";
+import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
+import { readRawBody } from "../utils/readRawBody";
+
+// The archive is sent as the raw request body
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+// Largest archive accepted. Serverless functions reject request bodies over
+// about 4.5 MB before the handler runs, so stay under that and answer with a
+// clear 413 ourselves.
+const MAX_ARCHIVE_SIZE = 4 * 1024 * 1024;
+
+// @desc    Import recipes from a Paprika .paprikarecipes export
+// @route   POST /api/recipes/import-paprika
+// @access  Private
+async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
+  // Connect to the database
+  await connectDB();
+
+  // Only allow POST method for this endpoint
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    // Check authentication
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const archive = await readRawBody(req, MAX_ARCHIVE_SIZE);
+    if (!archive) {
+      return res.status(413).json({
+        message:
+          "Paprika export is too large (maximum 4 MB). Try exporting fewer recipes at a time.",
+      });
+    }
+    if (archive.length === 0) {
+      return res.status(400).json({ message: "Paprika export is required" });
+    }
+
+    console.log(`Processing Paprika export, size: ${archive.length} bytes`);
+
+    let results;
+    try {
+      results = await importPaprikaArchive(archive, req.user._id);
+    } catch (archiveError) {
+      console.error("Error reading Paprika export:", archiveError);
+      return res
+        .status(400)
+        .json({ message: "The file is not a valid Paprika export" });
+    }
+
+    const imported = results.filter(
+      (result) => result.status === "succeeded"
+    ).length;
+
+    return res.status(200).json({
+      message: `Imported ${imported} of ${results.length} recipes`,
+      imported,
+      failed: results.length - imported,
+      results,
+    });
+  } catch (error) {
+    console.error("Error importing Paprika export:", error);
+    return res
+      .status(500)
+      .json({ message: "Server error while importing recipes" });
+  }
+}
+
+export default withProtect(handler);
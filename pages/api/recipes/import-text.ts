@@ -1,11 +1,36 @@
+import mongoose from "mongoose";
 import { NextApiResponse } from "next";
+import { Recipe as RecipeType } from "../../../src/types/recipe";
 import Recipe from "../models/Recipe";
 import Tag from "../models/Tag";
-import { extractRecipeFromHTML } from "../services/openaiService";
+import { isCooklangText, parseCooklang } from "../services/cooklangService";
+import {
+  findDuplicateRecipes,
+  mergeIntoExistingRecipe,
+} from "../services/duplicateDetectionService";
+import {
+  isMealMasterText,
+  parseMealMaster,
+} from "../services/mealMasterService";
+import {
+  extractRecipeFromContent,
+  extractRecipesFromContent,
+} from "../services/recipeExtractionService";
+import {
+  buildImportPreview,
+  describeImportResults,
+  matchTags,
+  saveEachImportedRecipe,
+  saveImportedRecipe,
+} from "../services/recipeImportService";
 import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
-import { processImageUrl } from "../utils/awsS3";
 
-// @desc    Import recipe from pasted text/HTML
+// @desc    Import recipe from pasted text/HTML, or preview the import when preview is true.
+//          Returns 409 with likely duplicates unless allowDuplicate is set, or
+//          merges into an existing recipe when mergeInto is set. When multiple
+//          is true, returns every recipe in the text without saving them.
+//          MealMaster text with several recipes saves each one, skipping and
+//          reporting likely duplicates unless allowDuplicate is set.
 // @route   POST /api/recipes/import-text
 // @access  Private
 async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
@@ -23,114 +48,200 @@ async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
       return res.status(401).json({ message: "Not authorized" });
     }
 
-    const { content } = req.body;
+    const {
+      content,
+      preview = false,
+      multiple = false,
+      allowDuplicate = false,
+      mergeInto = null,
+    } = req.body;
 
     // Verify that content is provided
     if (!content) {
       return res.status(400).json({ message: "Content is required" });
     }
 
+    // A recipe to merge into has to be a valid ID, or there's nothing to find
+    if (mergeInto && !mongoose.isValidObjectId(mergeInto)) {
+      return res
+        .status(404)
+        .json({ message: "Recipe to merge into not found" });
+    }
+
     console.log(
       `Processing pasted content, length: ${content.length} characters`
     );
 
-    // Get all available tags to help OpenAI tag the recipe
+    // Get all available tags to help tag the recipe
     const availableTags = await Tag.find().sort({ name: 1 });
     const tagNames = availableTags.map((tag) => tag.name);
 
-    // Extract recipe data using OpenAI
-    const recipeData = await extractRecipeFromHTML(
-      content,
-      undefined,
-      tagNames
-    );
-    if (!recipeData) {
-      return res
-        .status(400)
-        .json({
-          message: "Failed to extract recipe data from the provided content",
+    // Multiple mode returns every recipe found so the user can pick which to
+    // save with import-batch
+    if (multiple) {
+      const recipes = await extractRecipesFromContent(content, tagNames);
+      if (!recipes || recipes.length === 0) {
+        return res.status(400).json({
+          message: "No recipes were found in the provided content",
         });
-    }
+      }
 
-    console.log("Successfully extracted recipe data:", recipeData.title);
+      return res.status(200).json({
+        message: `Found ${recipes.length} recipe${
+          recipes.length === 1 ? "" : "s"
+        }`,
+        recipes,
+      });
+    }
 
-    // Convert tag names to tag IDs if tags are provided
-    if (
-      recipeData.tags &&
-      Array.isArray(recipeData.tags) &&
-      recipeData.tags.length > 0
-    ) {
-      try {
-        // Create a map of lowercase tag names to tag documents
-        const tagNameMap = new Map();
-        availableTags.forEach((tag) => {
-          tagNameMap.set(tag.name.toLowerCase(), tag._id);
+    // MealMaster text is parsed without the LLM, one recipe per block. Text
+    // with a single recipe goes on like any other recipe below.
+    let recipeData: RecipeType | null;
+    if (isMealMasterText(content)) {
+      const recipes = parseMealMaster(content, tagNames);
+      if (recipes.length === 0) {
+        return res.status(400).json({
+          message: "No complete recipes were found in the MealMaster text",
         });
+      }
+
+      if (recipes.length > 1) {
+        if (preview) {
+          const importPreview = buildImportPreview(
+            recipes[0],
+            availableTags,
+            content
+          );
+          importPreview.warnings.unshift(
+            `This text contains ${recipes.length} recipes. Only the first is shown here; import without review to save them all.`
+          );
+          importPreview.duplicates = await findDuplicateRecipes(
+            recipes[0],
+            req.user._id
+          );
+          return res.status(200).json({
+            message: "Recipe extracted successfully",
+            preview: importPreview,
+          });
+        }
+
+        if (mergeInto) {
+          return res.status(400).json({
+            message: "Only a single recipe can be merged into an existing one",
+          });
+        }
 
-        // Map tag names to tag IDs
-        const tagIds = [];
-        // Use any here to bypass TypeScript's strict type checking
-        const tagArray = recipeData.tags as any[];
-
-        for (const tagItem of tagArray) {
-          let tagName = null;
-
-          if (typeof tagItem === "string") {
-            tagName = tagItem.toLowerCase();
-          } else if (
-            tagItem &&
-            typeof tagItem === "object" &&
-            "name" in tagItem
-          ) {
-            tagName = tagItem.name.toLowerCase();
-          }
-
-          // Only add the tag if it exists in our database
-          if (tagName && tagNameMap.has(tagName)) {
-            tagIds.push(tagNameMap.get(tagName));
-          } else {
-            console.log(`Tag "${tagName}" not found in database, skipping`);
-          }
+        // Each recipe is saved on its own, so one that fails doesn't hide
+        // which of the others were saved. Likely duplicates are skipped and
+        // reported unless the user chose to import anyway.
+        const results = await saveEachImportedRecipe(
+          recipes,
+          req.user._id,
+          availableTags,
+          [],
+          !allowDuplicate
+        );
+        const recipeIds = results
+          .map((result) => result.recipeId)
+          .filter((recipeId): recipeId is string => Boolean(recipeId));
+
+        if (recipeIds.length === 0) {
+          const allDuplicates = results.every((result) => result.duplicates);
+          return res.status(allDuplicates ? 409 : 500).json({
+            message: allDuplicates
+              ? "These recipes look like ones you already have"
+              : "Server error while importing recipes",
+            results,
+            recipeIds,
+          });
         }
 
-        // Replace tag names with tag IDs
-        recipeData.tags = tagIds;
-        console.log(`Added ${tagIds.length} validated tags to recipe`);
-      } catch (error) {
-        console.error("Error processing tags:", error);
-        // If there's an error, just remove the tags
-        delete recipeData.tags;
+        return res.status(201).json({
+          message: describeImportResults(results),
+          recipe: await Recipe.findById(recipeIds[0]),
+          recipeId: recipeIds[0],
+          recipeIds,
+          results,
+        });
       }
+
+      recipeData = recipes[0];
+    } else {
+      // Cooklang is parsed without the LLM; anything else goes through
+      // structured data, falling back to OpenAI
+      recipeData = isCooklangText(content)
+        ? parseCooklang(content, undefined, tagNames)
+        : await extractRecipeFromContent(content, undefined, tagNames);
+    }
+    if (!recipeData) {
+      return res.status(400).json({
+        message: "Failed to extract recipe data from the provided content",
+      });
     }
 
-    // Process the image URL if provided
-    let processedImageUrl = "default-recipe.jpg";
-    let originalImageUrl = recipeData.imageUrl;
-
-    if (recipeData.imageUrl && recipeData.imageUrl !== "default-recipe.jpg") {
-      try {
-        // Download image and upload to S3
-        processedImageUrl = await processImageUrl(recipeData.imageUrl);
-        console.log(`Processed image URL during import: ${processedImageUrl}`);
-      } catch (imageError) {
-        console.error("Error processing image during import:", imageError);
-        // Continue with the original URL if there's an error
-        processedImageUrl = recipeData.imageUrl;
-      }
+    console.log("Successfully extracted recipe data:", recipeData.title);
+
+    // In preview mode, return the draft without saving anything or touching S3
+    if (preview) {
+      const importPreview = buildImportPreview(
+        recipeData,
+        availableTags,
+        content
+      );
+      importPreview.duplicates = await findDuplicateRecipes(
+        recipeData,
+        req.user._id
+      );
+      return res.status(200).json({
+        message: "Recipe extracted successfully",
+        preview: importPreview,
+      });
     }
 
-    // Create a new recipe
-    const userId = req.user._id;
-    const recipe = new Recipe({
-      ...recipeData,
-      user: userId,
-      imageUrl: processedImageUrl,
-      originalImageUrl,
-    });
+    // Convert tag names to tag IDs
+    const { matched } = matchTags(
+      recipeData.tags,
+      availableTags,
+      recipeData.ingredients
+    );
+    console.log(`Added ${matched.length} validated tags to recipe`);
+
+    // Merge into an existing recipe when the user chose to, otherwise stop
+    // and return likely duplicates unless the user chose to import anyway
+    if (mergeInto) {
+      const mergedRecipe = await mergeIntoExistingRecipe(
+        mergeInto,
+        recipeData,
+        req.user._id,
+        matched.map((tag) => tag._id)
+      );
+      if (!mergedRecipe) {
+        return res
+          .status(404)
+          .json({ message: "Recipe to merge into not found" });
+      }
+      return res.status(200).json({
+        message: "Recipe merged into your existing recipe",
+        recipe: mergedRecipe,
+        recipeId: mergedRecipe._id,
+      });
+    }
+    if (!allowDuplicate) {
+      const duplicates = await findDuplicateRecipes(recipeData, req.user._id);
+      if (duplicates.length > 0) {
+        return res.status(409).json({
+          message: "This recipe looks like one you already have",
+          duplicates,
+        });
+      }
+    }
 
-    // Save to database
-    const savedRecipe = await recipe.save();
-    console.log(`Recipe saved with ID: ${savedRecipe._id}`);
+    // Save the recipe, uploading its image to S3
+    const savedRecipe = await saveImportedRecipe(
+      recipeData,
+      req.user._id,
+      matched.map((tag) => tag._id)
+    );
 
     // Return the recipe data and the ID for redirection
     return res.status(201).json({
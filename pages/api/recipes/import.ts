@@ -1,12 +1,24 @@
+import mongoose from "mongoose";
 import { NextApiResponse } from "next";
-import Recipe from "../models/Recipe";
 import Tag from "../models/Tag";
-import { fetchHtmlFromUrl } from "../services/htmlFetchService";
-import { extractRecipeFromHTML } from "../services/openaiService";
+import {
+  findDuplicateRecipes,
+  mergeIntoExistingRecipe,
+} from "../services/duplicateDetectionService";
+import { fetchPage } from "../services/htmlFetchService";
+import { extractRecipeFromPage } from "../services/recipeExtractionService";
+import {
+  buildImportPreview,
+  matchTags,
+  saveImportedRecipe,
+} from "../services/recipeImportService";
 import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
-import { processImageUrl } from "../utils/awsS3";
+import { describeFetchFailure } from "../../../src/utils/fetchFailures";
 
-// @desc    Import recipe from URL
+// @desc    Import recipe from URL, or preview the import when preview is true.
+//          Returns 409 with likely duplicates unless allowDuplicate is set, or
+//          merges into an existing recipe when mergeInto is set. Returns 400
+//          with a fetch failure reason when the page can't be fetched.
 // @route   POST /api/recipes/import
 // @access  Private
 async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
@@ -24,31 +36,60 @@ async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
       return res.status(401).json({ message: "Not authorized" });
     }
 
-    const { url } = req.body;
+    const {
+      url,
+      preview = false,
+      allowDuplicate = false,
+      mergeInto = null,
+    } = req.body;
 
     // Verify that url is provided
     if (!url) {
       return res.status(400).json({ message: "URL is required" });
     }
 
-    // Fetch HTML content from the URL
-    const htmlContent = await fetchHtmlFromUrl(url);
-    if (!htmlContent) {
+    // A recipe to merge into has to be a valid ID, or there's nothing to find
+    if (mergeInto && !mongoose.isValidObjectId(mergeInto)) {
       return res
-        .status(400)
-        .json({ message: "Failed to fetch content from URL" });
+        .status(404)
+        .json({ message: "Recipe to merge into not found" });
+    }
+
+    // Catch re-imports of the same page before spending time extracting it
+    if (!preview && !allowDuplicate && !mergeInto) {
+      const duplicates = await findDuplicateRecipes(
+        { sourceUrl: url },
+        req.user._id
+      );
+      if (duplicates.length > 0) {
+        return res.status(409).json({
+          message: "You have already imported this recipe",
+          duplicates,
+        });
+      }
+    }
+
+    // Fetch HTML content from the URL, keeping any embedded structured data
+    const { html: htmlContent, failure } = await fetchPage(url);
+    if (!htmlContent) {
+      return res.status(400).json({
+        message: failure
+          ? describeFetchFailure(failure)
+          : "Failed to fetch content from URL",
+        reason: failure,
+      });
     }
 
     console.log(
       `Successfully fetched HTML from ${url}, length: ${htmlContent.length} characters`
     );
 
-    // Get all available tags to help OpenAI tag the recipe
+    // Get all available tags to help tag the recipe
     const availableTags = await Tag.find().sort({ name: 1 });
     const tagNames = availableTags.map((tag) => tag.name);
 
-    // Extract recipe data using OpenAI, passing the sourceUrl and available tags
-    const recipeData = await extractRecipeFromHTML(htmlContent, url, tagNames);
+    // Extract recipe data from structured data, falling back to OpenAI
+    const recipeData = await extractRecipeFromPage(htmlContent, url, tagNames);
     if (!recipeData) {
       return res
         .status(400)
@@ -57,108 +98,71 @@ async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
 
     console.log("Successfully extracted recipe data:", recipeData.title);
 
-    // Convert tag names to tag IDs if tags are provided
-    if (
-      recipeData.tags &&
-      Array.isArray(recipeData.tags) &&
-      recipeData.tags.length > 0
-    ) {
-      try {
-        // Create a map of lowercase tag names to tag documents
-        const tagNameMap = new Map();
-        availableTags.forEach((tag) => {
-          tagNameMap.set(tag.name.toLowerCase(), tag._id);
-        });
-
-        // Map tag names to tag IDs
-        const tagIds = [];
-        // Use any here to bypass TypeScript's strict type checking
-        const tagArray = recipeData.tags as any[];
-
-        for (const tagItem of tagArray) {
-          let tagName = null;
-
-          if (typeof tagItem === "string") {
-            tagName = tagItem.toLowerCase();
-          } else if (
-            tagItem &&
-            typeof tagItem === "object" &&
-            "name" in tagItem
-          ) {
-            tagName = tagItem.name.toLowerCase();
-          }
-
-          // Only add the tag if it exists in our database
-          if (tagName && tagNameMap.has(tagName)) {
-            tagIds.push(tagNameMap.get(tagName));
-          } else {
-            console.log(`Tag "${tagName}" not found in database, skipping`);
-          }
-        }
-
-        // Replace tag names with tag IDs
-        recipeData.tags = tagIds;
-        console.log(`Added ${tagIds.length} validated tags to recipe`);
-      } catch (error) {
-        console.error("Error processing tags:", error);
-        // If there's an error, just remove the tags
-        delete recipeData.tags;
-      }
+    // In preview mode, return the draft without saving anything or touching S3
+    if (preview) {
+      const importPreview = buildImportPreview(
+        recipeData,
+        availableTags,
+        htmlContent,
+        url
+      );
+      importPreview.duplicates = await findDuplicateRecipes(
+        { ...recipeData, sourceUrl: url },
+        req.user._id
+      );
+      return res.status(200).json({
+        message: "Recipe extracted successfully",
+        preview: importPreview,
+      });
     }
 
-    // Process the image URL if provided
-    let processedImageUrl = "default-recipe.jpg";
-    let originalImageUrl = recipeData.imageUrl;
-
-    if (recipeData.imageUrl && recipeData.imageUrl !== "default-recipe.jpg") {
-      try {
-        // Download image and upload to S3
-        processedImageUrl = await processImageUrl(recipeData.imageUrl);
-        console.log(`Processed image URL during import: ${processedImageUrl}`);
-      } catch (imageError) {
-        console.error("Error processing image during import:", imageError);
-        // Continue with the original URL if there's an error
-        processedImageUrl = recipeData.imageUrl;
+    // Convert tag names to tag IDs
+    const { matched } = matchTags(
+      recipeData.tags,
+      availableTags,
+      recipeData.ingredients
+    );
+    console.log(`Added ${matched.length} validated tags to recipe`);
+
+    // Merge into an existing recipe when the user chose to, otherwise stop
+    // and return likely duplicates unless the user chose to import anyway
+    if (mergeInto) {
+      const mergedRecipe = await mergeIntoExistingRecipe(
+        mergeInto,
+        { ...recipeData, sourceUrl: url },
+        req.user._id,
+        matched.map((tag) => tag._id)
+      );
+      if (!mergedRecipe) {
+        return res
+          .status(404)
+          .json({ message: "Recipe to merge into not found" });
       }
+      return res.status(200).json({
+        message: "Recipe merged into your existing recipe",
+        recipe: mergedRecipe,
+        recipeId: mergedRecipe._id,
+      });
     }
-
-    // Process images in fullRecipe HTML content
-    let processedFullRecipe = recipeData.fullRecipe;
-    /* fullRecipe feature temporarily disabled to reduce API costs
-    if (recipeData.fullRecipe) {
-      try {
-        processedFullRecipe = await processImagesInHtml(
-          recipeData.fullRecipe,
-          url
-        );
-        console.log(
-          "Successfully processed images in imported full recipe content"
-        );
-      } catch (fullRecipeError) {
-        console.error(
-          "Error processing images in imported full recipe:",
-          fullRecipeError
-        );
-        // Continue with the original content if there's an error
+    if (!allowDuplicate) {
+      const duplicates = await findDuplicateRecipes(
+        { ...recipeData, sourceUrl: url },
+        req.user._id
+      );
+      if (duplicates.length > 0) {
+        return res.status(409).json({
+          message: "This recipe looks like one you already have",
+          duplicates,
+        });
       }
     }
-    */
-
-    // Create a new recipe
-    const userId = req.user._id;
-    const recipe = new Recipe({
-      ...recipeData,
-      user: userId,
-      sourceUrl: url, // Explicitly set the source URL
-      imageUrl: processedImageUrl,
-      originalImageUrl,
-      // fullRecipe temporarily disabled to reduce API costs
-      // fullRecipe: processedFullRecipe,
-    });
 
-    // Save to database
-    const savedRecipe = await recipe.save();
-    console.log(`Recipe saved with ID: ${savedRecipe._id}`);
+    // Save the recipe, uploading its image to S3
+    const savedRecipe = await saveImportedRecipe(
+      { ...recipeData, sourceUrl: url }, // Explicitly set the source URL
+      req.user._id,
+      matched.map((tag) => tag._id)
+    );
 
     // Return the recipe data and the ID for redirection
     return res.status(201).json({
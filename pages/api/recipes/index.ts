@@ -1,8 +1,16 @@
+import mongoose from "mongoose";
 import { NextApiRequest, NextApiResponse } from "next";
 import Recipe from "../models/Recipe";
+import { parseIngredients } from "../../../src/utils/ingredientParser";
+import { recipesToJsonLd } from "../../../src/utils/recipeJsonLd";
 import { UserRecipeModel } from "../models/UserRecipe";
+import {
+  findDuplicateRecipes,
+  mergeIntoExistingRecipe,
+} from "../services/duplicateDetectionService";
 import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
 import { processImageUrl } from "../utils/awsS3";
+import { getRequestOrigin } from "../utils/requestOrigin";
 
 // Handler for GET requests - Get all recipes
 async function getRecipes(
@@ -12,7 +20,13 @@ async function getRecipes(
   await connectDB();
 
   try {
-    const { page = 1, limit = 12, tag = null, all = "true" } = req.query;
+    const {
+      page = 1,
+      limit = 12,
+      tag = null,
+      all = "true",
+      format = null,
+    } = req.query;
     const showAll = String(all).toLowerCase() === "true";
 
     // Parse page and limit to integers
@@ -47,6 +61,18 @@ async function getRecipes(
     // Execute query
     const recipes = await recipesQuery;
 
+    // Export the collection as schema.org JSON-LD when requested
+    if (format === "jsonld") {
+      res.setHeader("Content-Type", "application/ld+json; charset=utf-8");
+      const jsonLd = recipesToJsonLd(
+        recipes.map((recipe: any) => recipe.toJSON()),
+        { baseUrl: getRequestOrigin(req) }
+      );
+      return res.status(200).send(JSON.stringify(jsonLd));
+    } else if (format) {
+      return res.status(400).json({ message: "Unsupported export format" });
+    }
+
     // Default to returning unpersonalized recipes
     let recipesWithUserData = recipes;
 
@@ -133,8 +159,17 @@ async function createRecipe(req: AuthNextApiRequest, res: NextApiResponse) {
       fullRecipe,
       sourceUrl,
       tags,
+      allowDuplicate = false,
+      mergeInto = null,
     } = req.body;
 
+    // A recipe to merge into has to be a valid ID, or there's nothing to find
+    if (mergeInto && !mongoose.isValidObjectId(mergeInto)) {
+      return res
+        .status(404)
+        .json({ message: "Recipe to merge into not found" });
+    }
+
     // Process ingredients if they're in the frontend format
     let processedIngredients = rawIngredients;
     if (
@@ -147,6 +182,47 @@ async function createRecipe(req: AuthNextApiRequest, res: NextApiResponse) {
       );
     }
 
+    // Store each ingredient's quantity, unit and name alongside its text
+    if (Array.isArray(processedIngredients)) {
+      processedIngredients = parseIngredients(processedIngredients);
+    }
+
+    // Merge into an existing recipe when the user chose to, otherwise return
+    // likely duplicates (409) unless the user chose to save anyway
+    const newRecipe = {
+      title,
+      description,
+      ingredients: processedIngredients,
+      cookingTime: cookTimeMinutes || cookingTime,
+      servings,
+      imageUrl,
+      sourceUrl,
+    };
+    if (mergeInto) {
+      const mergedRecipe = await mergeIntoExistingRecipe(
+        mergeInto,
+        newRecipe,
+        req.user._id,
+        tags || []
+      );
+      if (!mergedRecipe) {
+        return res
+          .status(404)
+          .json({ message: "Recipe to merge into not found" });
+      }
+      await mergedRecipe.populate("tags", "name");
+      return res.status(200).json(mergedRecipe);
+    }
+    if (!allowDuplicate) {
+      const duplicates = await findDuplicateRecipes(newRecipe, req.user._id);
+      if (duplicates.length > 0) {
+        return res.status(409).json({
+          message: "This recipe looks like one you already have",
+          duplicates,
+        });
+      }
+    }
+
     // Process the image URL if provided
     let processedImageUrl = "default-recipe.jpg";
     let originalImageUrl = imageUrl;
@@ -0,0 +1,18 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { listFoods } from "../services/nutritionService";
+
+// @desc    List the foods in the nutrient table, for matching an ingredient
+//          by hand
+// @route   GET /api/recipes/nutrition-foods
+// @access  Public
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow GET method for this endpoint
+  if (req.method !== "GET") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  return res.status(200).json(listFoods());
+}
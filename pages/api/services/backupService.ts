@@ -0,0 +1,552 @@
+/**
+ * Backup Service
+ *
+ * Creates and restores account backups. A backup is a zip archive with:
+ *
+ *   manifest.json      Format name, version, when and by whom it was made
+ *   recipes.json       Every recipe the user owns, with tags stored by name
+ *   user-recipes.json  The user's recipe order and favorites
+ *   tags.json          Names of every tag the recipes use
+ *   images/            Copies of the recipe images
+ *
+ * Archives are passed through S3 with signed links in both directions, since
+ * they're too large for a request or response body.
+ *
+ * Restoring creates new IDs for everything, so an archive can be restored
+ * into the same account, a different account or a different instance. Tags
+ * are matched to the instance's existing tags by name; ones it doesn't have
+ * are reported rather than created.
+ */
+
+import { randomUUID } from "crypto";
+import JSZip from "jszip";
+import mongoose, { Types } from "mongoose";
+import {
+  IngredientType,
+  InstructionType,
+  NutritionOverride,
+} from "../../../src/types/recipe";
+import { parseIngredients } from "../../../src/utils/ingredientParser";
+import Recipe from "../models/Recipe";
+import Tag, { TagDocument } from "../models/Tag";
+import { UserRecipeModel } from "../models/UserRecipe";
+import { downloadImageData, processImageData } from "../utils/awsS3";
+import { mapWithConcurrency } from "../utils/concurrency";
+
+// Identifies our archives, and the newest layout this code can read
+export const BACKUP_FORMAT = "simple-recipes-backup";
+export const BACKUP_VERSION = 1;
+
+// How many images to download at once while creating a backup
+const IMAGE_DOWNLOAD_CONCURRENCY = 4;
+
+// Largest backup restored. Archives go through S3 rather than the request
+// body, so this is bounded by the function's memory instead: the archive and
+// the images read out of it are held in memory while restoring.
+export const MAX_BACKUP_SIZE = 50 * 1024 * 1024;
+
+/**
+ * manifest.json
+ */
+export interface BackupManifest {
+  format: string;
+  version: number;
+  createdAt: string;
+  username?: string;
+  counts: {
+    recipes: number;
+    userRecipes: number;
+    tags: number;
+    images: number;
+  };
+}
+
+/**
+ * A recipe in recipes.json
+ */
+export interface BackupRecipe {
+  id: string;
+  title: string;
+  description: string;
+  ingredients: IngredientType[];
+  instructions: InstructionType[];
+  cookingTime?: number;
+  servings?: number;
+  sourceUrl?: string;
+  imageUrl?: string;
+  originalImageUrl?: string;
+  // Path of the image copy in the archive, if it could be downloaded
+  image?: string;
+  // Tag names
+  tags: string[];
+  nutritionOverrides?: NutritionOverride[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * An order/favorite row in user-recipes.json
+ */
+export interface BackupUserRecipe {
+  recipeId: string;
+  order: number;
+  isFavorite: boolean;
+}
+
+/**
+ * The contents of a backup archive, read back for restoring
+ */
+export interface BackupContents {
+  manifest: BackupManifest;
+  recipes: BackupRecipe[];
+  userRecipes: BackupUserRecipe[];
+  tags: string[];
+  zip: JSZip;
+}
+
+/**
+ * The outcome of a restore
+ */
+export interface RestoreResult {
+  recipesRestored: number;
+  recipesSkipped: number;
+  userRecipesRestored: number;
+  // Tag names in the backup that this instance doesn't have. Tags are shared
+  // by every user, so a restore never creates them.
+  unknownTags: string[];
+  failures: Array<{ title: string; reason: string }>;
+}
+
+/**
+ * Works out an image file extension from its URL
+ */
+function getImageExtension(imageUrl: string): string {
+  try {
+    const match = new URL(imageUrl).pathname.match(/\.(jpe?g|png|gif|webp)$/i);
+    return match ? `.${match[1].toLowerCase()}` : ".jpg";
+  } catch {
+    return ".jpg";
+  }
+}
+
+/**
+ * Key used to spot a recipe the account already has: the same title and the
+ * same source URL
+ */
+function duplicateKey(title: string, sourceUrl?: string): string {
+  return `${title.trim().toLowerCase()}|${(sourceUrl || "").trim()}`;
+}
+
+/**
+ * Works out where in S3 a user's backup goes: "downloads" for archives made
+ * for them, "uploads" for archives they send to restore
+ */
+export function backupStorageKey(
+  userId: Types.ObjectId,
+  kind: "downloads" | "uploads"
+): string {
+  return `backups/${userId}/${kind}/${Date.now()}-${randomUUID()}.zip`;
+}
+
+/**
+ * Checks that a storage key is one of the user's uploads, so a restore can't
+ * read someone else's backup
+ */
+export function isUserUploadKey(key: unknown, userId: Types.ObjectId): boolean {
+  return (
+    typeof key === "string" &&
+    new RegExp(`^backups/${userId}/uploads/[\\w-]+\\.zip$`).test(key)
+  );
+}
+
+/**
+ * Creates a backup archive of everything a user owns
+ * @param userId The user to back up
+ * @param username Recorded in the manifest
+ * @returns The zip archive, ready to stream to the client
+ */
+export async function createBackupArchive(
+  userId: Types.ObjectId,
+  username?: string
+): Promise<JSZip> {
+  const recipes = await Recipe.find({ user: userId })
+    .populate("tags", "name")
+    .sort({ createdAt: 1 });
+  const userRecipes = await UserRecipeModel.find({
+    userId: userId.toString(),
+  }).sort({ order: 1 });
+
+  const zip = new JSZip();
+  const tagNames = new Set<string>();
+
+  const backupRecipes: BackupRecipe[] = recipes.map((recipe: any) => {
+    const tags = (recipe.tags || [])
+      .map((tag: { name?: string }) => tag?.name)
+      .filter(Boolean) as string[];
+    tags.forEach((name) => tagNames.add(name));
+
+    return {
+      id: recipe._id.toString(),
+      title: recipe.title,
+      description: recipe.description,
+      ingredients: recipe.ingredients,
+      instructions: recipe.instructions,
+      cookingTime: recipe.cookingTime,
+      servings: recipe.servings,
+      sourceUrl: recipe.sourceUrl,
+      imageUrl: recipe.imageUrl,
+      originalImageUrl: recipe.originalImageUrl,
+      tags,
+      nutritionOverrides: recipe.nutritionOverrides,
+      createdAt: recipe.createdAt?.toISOString(),
+      updatedAt: recipe.updatedAt?.toISOString(),
+    };
+  });
+
+  // Download copies of the images, so the backup survives the images being
+  // deleted from S3
+  let imageCount = 0;
+  await mapWithConcurrency(
+    backupRecipes,
+    IMAGE_DOWNLOAD_CONCURRENCY,
+    async (recipe) => {
+      if (!recipe.imageUrl || !/^https?:\/\//i.test(recipe.imageUrl)) {
+        return;
+      }
+
+      try {
+        const data = await downloadImageData(recipe.imageUrl);
+        const path = `images/${recipe.id}${getImageExtension(recipe.imageUrl)}`;
+        // Images are already compressed
+        zip.file(path, data, { compression: "STORE" });
+        recipe.image = path;
+        imageCount++;
+      } catch (error) {
+        console.error(
+          `Error downloading image for backup of "${recipe.title}":`,
+          error
+        );
+      }
+    }
+  );
+
+  const backupUserRecipes: BackupUserRecipe[] = userRecipes.map(
+    (userRecipe: any) => ({
+      recipeId: userRecipe.recipeId,
+      order: userRecipe.order,
+      isFavorite: userRecipe.isFavorite,
+    })
+  );
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    username,
+    counts: {
+      recipes: backupRecipes.length,
+      userRecipes: backupUserRecipes.length,
+      tags: tagNames.size,
+      images: imageCount,
+    },
+  };
+
+  zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+  zip.file("recipes.json", JSON.stringify(backupRecipes, null, 2));
+  zip.file("user-recipes.json", JSON.stringify(backupUserRecipes, null, 2));
+  zip.file("tags.json", JSON.stringify(Array.from(tagNames).sort(), null, 2));
+
+  console.log(
+    `Created backup with ${backupRecipes.length} recipes and ${imageCount} images`
+  );
+  return zip;
+}
+
+/**
+ * Checks that a value read from a backup is an object, not null, an array or
+ * a primitive
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a JSON file from the archive
+ */
+async function readJsonFile<T>(zip: JSZip, path: string): Promise<T> {
+  const file = zip.file(path);
+  if (!file) {
+    throw new Error(`The backup is missing ${path}`);
+  }
+  try {
+    return JSON.parse(await file.async("string")) as T;
+  } catch {
+    throw new Error(`The backup is damaged: ${path} is not valid JSON`);
+  }
+}
+
+/**
+ * Opens a backup archive and checks that we can restore it
+ * @param archive The contents of the zip file
+ * @returns The backup contents
+ * @throws Error with a user-facing message if the archive isn't a backup we
+ *   can read
+ */
+export async function readBackupArchive(
+  archive: Buffer
+): Promise<BackupContents> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    throw new Error("The file is not a valid backup archive");
+  }
+
+  const manifest = await readJsonFile<BackupManifest>(zip, "manifest.json");
+  if (!isPlainObject(manifest) || manifest.format !== BACKUP_FORMAT) {
+    throw new Error("The file is not a Simple Recipes backup");
+  }
+  if (!Number.isInteger(manifest.version) || manifest.version < 1) {
+    throw new Error("The backup has an invalid version");
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error(
+      `The backup was made by a newer version (format ${manifest.version}) and can't be restored here`
+    );
+  }
+
+  const recipes = await readJsonFile<BackupRecipe[]>(zip, "recipes.json");
+  const userRecipes = await readJsonFile<BackupUserRecipe[]>(
+    zip,
+    "user-recipes.json"
+  );
+  const tags = await readJsonFile<string[]>(zip, "tags.json");
+
+  if (
+    !Array.isArray(recipes) ||
+    !Array.isArray(userRecipes) ||
+    !Array.isArray(tags)
+  ) {
+    throw new Error("The backup is damaged");
+  }
+
+  // The archive comes from the user, so check each entry before using it
+  const damagedRecipe = recipes.findIndex(
+    (recipe) =>
+      !isPlainObject(recipe) ||
+      typeof recipe.id !== "string" ||
+      (recipe.tags !== undefined &&
+        (!Array.isArray(recipe.tags) ||
+          recipe.tags.some((name) => typeof name !== "string")))
+  );
+  if (damagedRecipe >= 0) {
+    throw new Error(
+      `The backup is damaged: recipe ${
+        damagedRecipe + 1
+      } in recipes.json is not a valid recipe`
+    );
+  }
+  const damagedRow = userRecipes.findIndex(
+    (row) => !isPlainObject(row) || typeof row.recipeId !== "string"
+  );
+  if (damagedRow >= 0) {
+    throw new Error(
+      `The backup is damaged: entry ${
+        damagedRow + 1
+      } in user-recipes.json is not valid`
+    );
+  }
+  if (tags.some((name) => typeof name !== "string")) {
+    throw new Error("The backup is damaged: tags.json should only hold names");
+  }
+
+  return { manifest, recipes, userRecipes, tags, zip };
+}
+
+/**
+ * Finds the existing tags with the given names, matched case-insensitively.
+ * Names without a tag are added to the restore's unknown tags.
+ */
+async function findTagsByName(
+  names: string[],
+  result: RestoreResult
+): Promise<Map<string, TagDocument>> {
+  const tagsByName = new Map<string, TagDocument>();
+  (await Tag.find()).forEach((tag) => {
+    tagsByName.set(tag.name.toLowerCase(), tag);
+  });
+
+  const unknown = new Set<string>();
+  for (const name of names) {
+    const trimmed = String(name).trim();
+    if (
+      !trimmed ||
+      tagsByName.has(trimmed.toLowerCase()) ||
+      unknown.has(trimmed.toLowerCase())
+    ) {
+      continue;
+    }
+    unknown.add(trimmed.toLowerCase());
+    result.unknownTags.push(trimmed);
+  }
+
+  return tagsByName;
+}
+
+/**
+ * Restores a backup into a user's account. Recipes get new IDs, and recipes
+ * the account already has (same title and source URL) are skipped.
+ * @param contents The backup, from readBackupArchive
+ * @param userId The user to restore into
+ * @returns What was restored and skipped
+ */
+export async function restoreBackup(
+  contents: BackupContents,
+  userId: Types.ObjectId
+): Promise<RestoreResult> {
+  const result: RestoreResult = {
+    recipesRestored: 0,
+    recipesSkipped: 0,
+    userRecipesRestored: 0,
+    unknownTags: [],
+    failures: [],
+  };
+
+  const tagsByName = await findTagsByName(
+    [...contents.tags, ...contents.recipes.flatMap((r) => r.tags || [])],
+    result
+  );
+
+  // Index the recipes the user already has, to skip duplicates
+  const existingRecipes = await Recipe.find({ user: userId }).select(
+    "title sourceUrl"
+  );
+  const existingByKey = new Map<string, string>();
+  existingRecipes.forEach((recipe: any) => {
+    existingByKey.set(
+      duplicateKey(recipe.title, recipe.sourceUrl),
+      recipe._id.toString()
+    );
+  });
+
+  // Maps backup recipe IDs to the IDs they have in this account
+  const idMap = new Map<string, string>();
+
+  for (const backupRecipe of contents.recipes) {
+    const title = String(backupRecipe.title || "").trim() || "Untitled";
+    const key = duplicateKey(title, backupRecipe.sourceUrl);
+
+    const existingId = existingByKey.get(key);
+    if (existingId) {
+      idMap.set(backupRecipe.id, existingId);
+      result.recipesSkipped++;
+      continue;
+    }
+
+    try {
+      // Upload the archived image copy; fall back to the old URL
+      let imageUrl = backupRecipe.imageUrl || "default-recipe.jpg";
+      const imageFile = backupRecipe.image
+        ? contents.zip.file(backupRecipe.image)
+        : null;
+      if (imageFile) {
+        try {
+          imageUrl = await processImageData(
+            await imageFile.async("nodebuffer")
+          );
+        } catch (imageError) {
+          console.error(`Error restoring image for "${title}":`, imageError);
+        }
+      }
+
+      const tagIds = (backupRecipe.tags || [])
+        .map((name) => tagsByName.get(String(name).trim().toLowerCase()))
+        .filter((tag): tag is TagDocument => Boolean(tag))
+        .map((tag) => tag._id);
+
+      const recipe = new Recipe({
+        title,
+        description: backupRecipe.description || title,
+        ingredients: parseIngredients(backupRecipe.ingredients || []),
+        instructions: backupRecipe.instructions,
+        cookingTime: backupRecipe.cookingTime,
+        servings: backupRecipe.servings,
+        sourceUrl: backupRecipe.sourceUrl,
+        imageUrl,
+        originalImageUrl: backupRecipe.originalImageUrl,
+        user: userId,
+        tags: tagIds,
+        nutritionOverrides: backupRecipe.nutritionOverrides,
+        ...(backupRecipe.createdAt
+          ? { createdAt: new Date(backupRecipe.createdAt) }
+          : {}),
+      });
+      const savedRecipe = await recipe.save();
+
+      idMap.set(backupRecipe.id, savedRecipe._id.toString());
+      existingByKey.set(key, savedRecipe._id.toString());
+      result.recipesRestored++;
+    } catch (error) {
+      console.error(`Error restoring recipe "${title}":`, error);
+      result.failures.push({
+        title,
+        reason:
+          error instanceof Error && error.message
+            ? error.message
+            : "Unexpected error while restoring",
+      });
+    }
+  }
+
+  // Restore order and favorites after any existing rows, keeping their order.
+  // Rows for recipes owned by someone else (favorites) are kept if that
+  // recipe exists on this instance.
+  const existingRows = await UserRecipeModel.find({
+    userId: userId.toString(),
+  });
+  const existingRowIds = new Set(
+    existingRows.map((row: any) => String(row.recipeId))
+  );
+  let nextOrder =
+    existingRows.reduce(
+      (max: number, row: any) => Math.max(max, Number(row.order) || 0),
+      -1
+    ) + 1;
+
+  const rows = [...contents.userRecipes].sort(
+    (a, b) => (Number(a.order) || 0) - (Number(b.order) || 0)
+  );
+  for (const row of rows) {
+    let recipeId = idMap.get(row.recipeId);
+    if (!recipeId && mongoose.isValidObjectId(row.recipeId)) {
+      const exists = await Recipe.exists({ _id: row.recipeId });
+      recipeId = exists ? row.recipeId : undefined;
+    }
+    if (!recipeId || existingRowIds.has(recipeId)) {
+      continue;
+    }
+
+    await UserRecipeModel.create({
+      userId: userId.toString(),
+      recipeId,
+      order: nextOrder++,
+      isFavorite: Boolean(row.isFavorite),
+    });
+    existingRowIds.add(recipeId);
+    result.userRecipesRestored++;
+  }
+
+  console.log(
+    `Restored ${result.recipesRestored} recipes, skipped ${result.recipesSkipped} duplicates`
+  );
+  return result;
+}
+
+// Export the module
+export default {
+  backupStorageKey,
+  isUserUploadKey,
+  createBackupArchive,
+  readBackupArchive,
+  restoreBackup,
+};
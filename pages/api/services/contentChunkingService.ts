@@ -0,0 +1,267 @@
+/**
+ * Content Chunking Service
+ *
+ * Picks the parts of a long page worth sending to the LLM. The content is cut
+ * into blocks at line and list boundaries, and each block is scored by how
+ * much it reads like a recipe (quantities and units, cooking verbs, recipe
+ * headings, list items and numbered steps, less comment and newsletter noise).
+ * The best-scoring stretch of blocks that fits the limit is sent as one
+ * window; when the recipe signals are spread out, the top chunks are returned
+ * so they can be extracted separately and merged.
+ */
+
+// Blocks are built up to about this many characters
+const TARGET_BLOCK_SIZE = 1500;
+
+// Characters from the start of the page kept alongside a window that starts
+// later, since the title and description are usually near the top
+const HEAD_SIZE = 2000;
+
+// Most chunks returned for a separate extraction pass
+const MAX_CHUNKS = 4;
+
+// Chunks scoring below this share of the best chunk are left out
+const MIN_CHUNK_SCORE_RATIO = 0.25;
+
+// Marks where content was left out between two parts
+const OMITTED_MARKER = "\n[CONTENT OMITTED]\n";
+
+// A line that starts with an amount, like "2 cups", "½ tsp" or "1-2 cloves"
+const QUANTITY_LINE =
+  /^\s*(?:[-•*]\s*)?(?:\d+(?:[./,]\d+)?(?:\s*[-–]\s*\d+(?:[./]\d+)?)?|[½⅓⅔¼¾⅛⅜⅝⅞])\s*(?:[½⅓⅔¼¾⅛]\s*)?(?:cups?|c\.|tbsps?|tsps?|tablespoons?|teaspoons?|oz|ounces?|lbs?|pounds?|g|grams?|kg|ml|l|liters?|litres?|cloves?|pinch(?:es)?|cans?|sticks?|slices?|large|medium|small|whole)?\b/i;
+
+const UNIT_WORDS =
+  /\b(?:cups?|tbsps?|tsps?|tablespoons?|teaspoons?|ounces?|oz|pounds?|lbs?|grams?|kg|ml|liters?|litres?|pinch|dash)\b/gi;
+
+const COOKING_VERBS =
+  /\b(?:preheat|whisk|stir|bake|simmer|boil|saut[eé]|mix|combine|chop|dice|mince|fold|knead|roast|fry|grill|drain|season|serve|heat|cook|pour|spread|sprinkle|transfer|cover|reduce|melt|beat|blend|marinate|garnish)\b/gi;
+
+const RECIPE_HEADINGS =
+  /\b(?:ingredients|instructions|directions|method|preparation|prep time|cook time|total time|servings|yield|nutrition)\b/gi;
+
+const NOISE_WORDS =
+  /\b(?:reply|says:|comments?|subscribe|newsletter|privacy policy|log in|sign up|advertisement|sponsored)\b/gi;
+
+/**
+ * A run of content with its recipe score
+ */
+interface ContentBlock {
+  text: string;
+  score: number;
+}
+
+/**
+ * The content to send in a single request
+ */
+export interface RecipeWindow {
+  content: string;
+  // Share of the page's recipe score inside the window, from 0 to 1
+  coverage: number;
+}
+
+/**
+ * Counts the matches of a global regular expression
+ */
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+/**
+ * Scores how much a single line of content reads like part of a recipe.
+ * Noise only lowers the score of its own line, so a comment section next to
+ * the recipe card doesn't cancel it out.
+ */
+function scoreLine(line: string): number {
+  const listItem = /<li[\s>]/i.test(line) ? 1 : 0;
+  const text = line.replace(/<[^>]+>/g, " ").replace(/&nbsp;/g, " ");
+
+  const score =
+    (QUANTITY_LINE.test(text) ? 2 : 0) +
+    (/^\s*(?:step\s*)?\d+[.):]\s+\S/i.test(text) ? 1 : 0) +
+    countMatches(text, UNIT_WORDS) +
+    countMatches(text, COOKING_VERBS) +
+    3 * countMatches(text, RECIPE_HEADINGS) +
+    listItem -
+    2 * countMatches(text, NOISE_WORDS);
+
+  return Math.max(0, score);
+}
+
+/**
+ * Scores how much a piece of content reads like part of a recipe
+ */
+export function scoreRecipeContent(content: string): number {
+  return splitIntoLines(content).reduce(
+    (sum, line) => sum + scoreLine(line),
+    0
+  );
+}
+
+/**
+ * Splits content into lines after line breaks, list items and closing block
+ * tags, keeping each break with the line before it
+ */
+function splitIntoLines(content: string): string[] {
+  return content
+    .split(/(?<=<br\s*\/?>|<\/(?:li|ul|ol|p|div|h[1-6])>|\n)/i)
+    .filter(Boolean);
+}
+
+/**
+ * Cuts content into scored blocks of about TARGET_BLOCK_SIZE characters,
+ * breaking after line breaks, list items and closing block tags
+ */
+function splitIntoBlocks(content: string): ContentBlock[] {
+  const lines = splitIntoLines(content);
+  const texts: string[] = [];
+  let current = "";
+
+  for (const line of lines) {
+    // A single very long line (e.g. minified text) is cut to size
+    for (let i = 0; i < line.length; i += TARGET_BLOCK_SIZE * 2) {
+      current += line.slice(i, i + TARGET_BLOCK_SIZE * 2);
+      if (current.length >= TARGET_BLOCK_SIZE) {
+        texts.push(current);
+        current = "";
+      }
+    }
+  }
+  if (current) texts.push(current);
+
+  return texts.map((text) => ({ text, score: scoreRecipeContent(text) }));
+}
+
+/**
+ * Sums the scores of a list of blocks
+ */
+function totalScore(blocks: ContentBlock[]): number {
+  return blocks.reduce((sum, block) => sum + block.score, 0);
+}
+
+/**
+ * Selects the best stretch of content to send when it is too long for one
+ * request. The stretch of blocks with the highest recipe score that fits is
+ * kept, along with the start of the page for the title.
+ * @param content The page content
+ * @param limit Maximum number of characters to return
+ * @returns The content to send and how much of the recipe score it holds
+ */
+export function selectRecipeWindow(
+  content: string,
+  limit: number
+): RecipeWindow {
+  if (content.length <= limit) {
+    return { content, coverage: 1 };
+  }
+
+  const blocks = splitIntoBlocks(content);
+  const pageScore = totalScore(blocks);
+
+  // Leave room for the start of the page, in case the best window is further
+  // down
+  const windowLimit = limit - HEAD_SIZE - OMITTED_MARKER.length * 2;
+  let best = { start: 0, end: 0, score: -1 };
+  let end = 0;
+  let length = 0;
+  let score = 0;
+
+  for (let start = 0; start < blocks.length; start++) {
+    // Grow the window as far as it fits
+    while (
+      end < blocks.length &&
+      length + blocks[end].text.length <= windowLimit
+    ) {
+      length += blocks[end].text.length;
+      score += blocks[end].score;
+      end++;
+    }
+
+    if (end > start && score > best.score) {
+      best = { start, end, score };
+    }
+
+    if (end > start) {
+      length -= blocks[start].text.length;
+      score -= blocks[start].score;
+    } else {
+      end = start + 1;
+    }
+  }
+
+  const windowText = blocks
+    .slice(best.start, best.end)
+    .map((block) => block.text)
+    .join("");
+
+  const parts: string[] = [];
+  if (best.start > 0) {
+    parts.push(content.slice(0, HEAD_SIZE), OMITTED_MARKER);
+  }
+  parts.push(windowText);
+  if (best.end < blocks.length) {
+    parts.push(OMITTED_MARKER);
+  }
+
+  const selected = parts.join("").slice(0, limit);
+  console.log(
+    `Selected ${selected.length} of ${content.length} characters (blocks ${
+      best.start + 1
+    }-${best.end} of ${blocks.length})`
+  );
+
+  return {
+    content: selected,
+    coverage: pageScore > 0 ? Math.max(0, best.score) / pageScore : 1,
+  };
+}
+
+/**
+ * Cuts content into chunks that each fit the limit and returns those most
+ * likely to hold part of the recipe, in page order
+ * @param content The page content
+ * @param limit Maximum number of characters in a chunk
+ */
+export function selectRecipeChunks(content: string, limit: number): string[] {
+  const chunks: ContentBlock[] = [];
+  let current: ContentBlock[] = [];
+  let length = 0;
+
+  for (const block of splitIntoBlocks(content)) {
+    if (length + block.text.length > limit && current.length > 0) {
+      chunks.push({
+        text: current.map((b) => b.text).join(""),
+        score: totalScore(current),
+      });
+      current = [];
+      length = 0;
+    }
+    current.push(block);
+    length += block.text.length;
+  }
+  if (current.length > 0) {
+    chunks.push({
+      text: current.map((b) => b.text).join(""),
+      score: totalScore(current),
+    });
+  }
+
+  const bestScore = Math.max(...chunks.map((chunk) => chunk.score));
+  const selected = chunks
+    .map((chunk, index) => ({ ...chunk, index }))
+    .filter((chunk) => chunk.score >= bestScore * MIN_CHUNK_SCORE_RATIO)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CHUNKS)
+    .sort((a, b) => a.index - b.index);
+
+  console.log(
+    `Selected ${selected.length} of ${chunks.length} chunks for extraction`
+  );
+  return selected.map((chunk) => chunk.text);
+}
+
+// Export the module
+export default {
+  scoreRecipeContent,
+  selectRecipeWindow,
+  selectRecipeChunks,
+};
@@ -0,0 +1,581 @@
+/**
+ * Cooklang Service
+ *
+ * Converts between Cooklang (https://cooklang.org) text and our recipe shape.
+ *
+ * Parsing understands metadata (YAML front matter or ">> key: value" lines),
+ * `@ingredient{qty%unit}(preparation)`, `#cookware{}`, `~timer{qty%unit}`,
+ * `= Section` headings, `> notes` and comments. Each paragraph is a step.
+ * Ingredients and steps under a heading go into sections named after it.
+ *
+ * Our recipes keep ingredients separate from the steps, so the exporter writes
+ * them as paragraphs made up only of ingredient references, one per line, before
+ * the steps. The parser reads such paragraphs back as ingredient lists rather
+ * than steps, so exported recipes round-trip without changes. Instruction
+ * sections are written as `== Section ==` headings followed by their steps.
+ */
+
+import {
+  IngredientItem,
+  IngredientSection,
+  IngredientType,
+  InstructionSection,
+  InstructionType,
+  Recipe,
+} from "../../../src/types/recipe";
+import { flattenInstructions } from "../../../src/utils/recipeInstructions";
+import { parseDuration, parseRecipeYield } from "./structuredDataService";
+
+// Characters that can be escaped with a backslash, and the placeholders used
+// for them while parsing (Unicode private use characters)
+const ESCAPABLE = ["\\", "@", "#", "~", "{", "}", "-", "[", "=", ">"];
+const placeholderFor = (char: string) =>
+  String.fromCharCode(0xe000 + ESCAPABLE.indexOf(char));
+
+// Ingredient, cookware and timer references
+const INGREDIENT_PATTERN =
+  /@(\?)?(?:([^@#~{}\n]+?)\{([^}]*)\}(?:\(([^)]*)\))?|([^\s@#~{}.,;:!?()]+))/g;
+const COOKWARE_PATTERN = /#(?:([^@#~{}\n]+?)\{[^}]*\}|([^\s@#~{}.,;:!?()]+))/g;
+const TIMER_PATTERN = /~([^@#~{}\n]*?)\{([^}]*)\}/g;
+
+// Units recognized at the start of ingredient text when exporting
+const EXPORT_UNITS =
+  /^(cups?|c|tablespoons?|tbsps?|tbs|tb|teaspoons?|tsps?|t|fluid ounces?|fl\.? ?oz|ounces?|oz|pounds?|lbs?|grams?|g|kilograms?|kg|milliliters?|millilitres?|ml|liters?|litres?|l|pints?|quarts?|gallons?|pinch(?:es)?|dash(?:es)?|cloves?|cans?|packages?|sticks?|slices?|bunch(?:es)?|sprigs?|handfuls?)\.?$/i;
+
+// Quantity at the start of ingredient text, e.g. "2", "1 1/2", "1-2", "½"
+const EXPORT_QUANTITY =
+  /^((?:\d+\s+)?\d+\/\d+|\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?)?\s*[½⅓⅔¼¾⅛]?|[½⅓⅔¼¾⅛])\s+(.*)$/;
+
+interface CooklangReference {
+  optional: boolean;
+  name: string;
+  quantity: string;
+  unit: string;
+  preparation: string;
+}
+
+/**
+ * Checks whether text looks like Cooklang rather than an ordinary recipe
+ */
+export function isCooklangText(content: string): boolean {
+  if (/<[a-z][\s\S]*>/i.test(content)) {
+    return false;
+  }
+
+  return (
+    /^>>\s*[^:\n]+:/m.test(content) ||
+    /(^|\s)@\??[^@#~{}\n]+?\{[^}]*\}/.test(content) ||
+    /(^|\s)~[^@#~{}\n]*?\{[^}]*%[^}]*\}/.test(content)
+  );
+}
+
+/**
+ * Replaces escaped characters with placeholders so they aren't parsed
+ */
+function hideEscapes(text: string): string {
+  return text.replace(/\\([\\@#~{}\-[=>])/g, (_, char) => placeholderFor(char));
+}
+
+/**
+ * Restores escaped characters hidden by hideEscapes
+ */
+function restoreEscapes(text: string): string {
+  return text.replace(
+    /[\uE000-\uE0FF]/g,
+    (char) => ESCAPABLE[char.charCodeAt(0) - 0xe000] ?? char
+  );
+}
+
+/**
+ * Removes block comments ([- ... -]) and line comments (-- ...)
+ */
+function stripComments(text: string): string {
+  return text.replace(/\[-[\s\S]*?-\]/g, "").replace(/--.*$/gm, "");
+}
+
+/**
+ * Splits a Cooklang amount ("2%cups") into its quantity and unit
+ */
+function parseAmount(amount: string): { quantity: string; unit: string } {
+  const [quantity = "", unit = ""] = amount.split("%");
+  return { quantity: quantity.trim(), unit: unit.trim() };
+}
+
+/**
+ * Turns an ingredient reference into ingredient text, e.g. "2 cups flour"
+ */
+function formatReference(reference: CooklangReference): string {
+  const text = [reference.quantity, reference.unit, reference.name]
+    .filter(Boolean)
+    .join(" ");
+  return reference.preparation ? `${text}, ${reference.preparation}` : text;
+}
+
+/**
+ * Reads the ingredient references in a line of Cooklang
+ */
+function findIngredients(line: string): CooklangReference[] {
+  const references: CooklangReference[] = [];
+
+  for (const match of Array.from(line.matchAll(INGREDIENT_PATTERN))) {
+    const [, optional, multiWordName, amount, preparation, singleWordName] =
+      match;
+    const { quantity, unit } = parseAmount(amount || "");
+    references.push({
+      optional: Boolean(optional),
+      name: restoreEscapes((multiWordName || singleWordName).trim()),
+      quantity: restoreEscapes(quantity),
+      unit: restoreEscapes(unit),
+      preparation: restoreEscapes((preparation || "").trim()),
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Turns a line of Cooklang into plain step text
+ */
+function toStepText(line: string): string {
+  return line
+    .replace(
+      INGREDIENT_PATTERN,
+      (_, _optional, multiWordName, _amount, _prep, singleWordName) =>
+        (multiWordName || singleWordName).trim()
+    )
+    .replace(COOKWARE_PATTERN, (_, multiWordName, singleWordName) =>
+      (multiWordName || singleWordName).trim()
+    )
+    .replace(TIMER_PATTERN, (_, _name, amount) => {
+      const { quantity, unit } = parseAmount(amount);
+      return [quantity, unit].filter(Boolean).join(" ");
+    });
+}
+
+/**
+ * Parses YAML front matter made of "key: value" lines and "- item" lists
+ * @returns The metadata and the text after the front matter
+ */
+function parseFrontMatter(text: string): {
+  metadata: Record<string, string | string[]>;
+  body: string;
+} {
+  const match = text.match(/^\s*---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { metadata: {}, body: text };
+  }
+
+  const metadata: Record<string, string | string[]> = {};
+  let lastKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const listItem = line.match(/^\s*-\s+(.*)$/);
+    if (listItem && lastKey) {
+      const current = metadata[lastKey];
+      metadata[lastKey] = [
+        ...(Array.isArray(current) ? current : current ? [current] : []),
+        unquote(listItem[1]),
+      ];
+      continue;
+    }
+
+    const entry = line.match(/^([^:#]+):\s*(.*)$/);
+    if (entry) {
+      lastKey = entry[1].trim().toLowerCase();
+      metadata[lastKey] = unquote(entry[2]);
+    }
+  }
+
+  return { metadata, body: text.slice(match[0].length) };
+}
+
+/**
+ * Removes matching quotes around a YAML scalar
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  const quoted = trimmed.match(/^(["'])(.*)\1$/);
+  return quoted ? quoted[2] : trimmed;
+}
+
+/**
+ * Reads a metadata value as a list, accepting YAML lists, "[a, b]" and "a, b"
+ */
+function toList(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  const items = Array.isArray(value)
+    ? value
+    : value.replace(/^\[|\]$/g, "").split(",");
+  return items.map((item) => unquote(item)).filter(Boolean);
+}
+
+/**
+ * Reads a time from metadata: a bare number of minutes or text like "1h 30m"
+ */
+function parseTime(value: string | string[] | undefined): number | undefined {
+  const text = Array.isArray(value) ? value[0] : value;
+  if (!text) return undefined;
+  if (/^\d+$/.test(text.trim())) {
+    return parseInt(text, 10) || undefined;
+  }
+  return parseDuration(text);
+}
+
+/**
+ * Parses a Cooklang recipe
+ * @param content The Cooklang text
+ * @param defaultTitle Title to use when the metadata has none (e.g. the file name)
+ * @param availableTags Optional tag names to match the recipe's tags against
+ * @returns The recipe, or null if it has no ingredients or steps
+ */
+export function parseCooklang(
+  content: string,
+  defaultTitle?: string,
+  availableTags?: string[]
+): Recipe | null {
+  const { metadata, body } = parseFrontMatter(
+    hideEscapes(content.replace(/\r\n/g, "\n"))
+  );
+
+  const ingredients: IngredientType[] = [];
+  const instructions: InstructionType[] = [];
+  const notes: string[] = [];
+  let currentSection: IngredientSection | null = null;
+  let currentInstructionSection: InstructionSection | null = null;
+  let currentSectionTitle: string | null = null;
+  let paragraph: string[] = [];
+
+  const addIngredient = (reference: CooklangReference) => {
+    const item: IngredientItem = { text: formatReference(reference) };
+    if (reference.optional) {
+      item.optional = true;
+    }
+
+    // Ingredients under a section heading go into a section of that name
+    if (currentSectionTitle && !currentSection) {
+      currentSection = { sectionTitle: currentSectionTitle, ingredients: [] };
+      ingredients.push(currentSection);
+    }
+    (currentSection ? currentSection.ingredients : ingredients).push(item);
+  };
+
+  const finishParagraph = () => {
+    if (paragraph.length === 0) return;
+
+    // A paragraph of bare ingredient references is an ingredient list
+    const isIngredientList = paragraph.every((line) => {
+      const references = findIngredients(line);
+      return (
+        references.length === 1 &&
+        line.replace(INGREDIENT_PATTERN, "").trim() === ""
+      );
+    });
+
+    paragraph.forEach((line) => findIngredients(line).forEach(addIngredient));
+
+    if (!isIngredientList) {
+      const text = restoreEscapes(
+        paragraph.map(toStepText).join(" ").replace(/\s+/g, " ").trim()
+      );
+      if (text) {
+        // Steps under a section heading go into a section of that name too
+        if (currentSectionTitle && !currentInstructionSection) {
+          currentInstructionSection = {
+            sectionTitle: currentSectionTitle,
+            instructions: [],
+          };
+          instructions.push(currentInstructionSection);
+        }
+        (currentInstructionSection
+          ? currentInstructionSection.instructions
+          : instructions
+        ).push({ text });
+      }
+    }
+
+    paragraph = [];
+  };
+
+  for (const rawLine of stripComments(body).split("\n")) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      finishParagraph();
+      continue;
+    }
+
+    const metadataLine = line.match(/^>>\s*([^:]+):\s*(.*)$/);
+    if (metadataLine) {
+      finishParagraph();
+      metadata[metadataLine[1].trim().toLowerCase()] = metadataLine[2].trim();
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      finishParagraph();
+      notes.push(restoreEscapes(line.replace(/^>\s*/, "")));
+      continue;
+    }
+
+    const heading = line.match(/^=+\s*(.*?)\s*=*$/);
+    if (heading) {
+      finishParagraph();
+      currentSectionTitle = restoreEscapes(heading[1]) || null;
+      currentSection = null;
+      currentInstructionSection = null;
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  finishParagraph();
+
+  if (
+    ingredients.length === 0 ||
+    flattenInstructions(instructions).length === 0
+  ) {
+    return null;
+  }
+
+  const field = (key: string) => {
+    const value = metadata[key];
+    return restoreEscapes(
+      Array.isArray(value) ? value.join(", ") : value || ""
+    );
+  };
+
+  const title = field("title") || defaultTitle || "Untitled Recipe";
+  const prepTime = parseTime(metadata["prep time"]);
+  const cookTime = parseTime(metadata["cook time"]);
+  const cookingTime =
+    parseTime(metadata["time"]) ||
+    parseTime(metadata["total time"]) ||
+    parseTime(metadata["duration"]) ||
+    (prepTime || cookTime ? (prepTime || 0) + (cookTime || 0) : undefined);
+
+  const recipeTags = toList(metadata["tags"]).map((tag) =>
+    restoreEscapes(tag).toLowerCase()
+  );
+  const tags = (availableTags || []).filter((tag) =>
+    recipeTags.includes(tag.toLowerCase())
+  );
+
+  return {
+    title,
+    description:
+      field("description") || field("introduction") || notes.join(" ") || title,
+    ingredients,
+    instructions,
+    cookingTime,
+    servings: parseRecipeYield(
+      field("servings") || field("serves") || field("yield")
+    ),
+    sourceUrl: field("source.url") || field("source") || undefined,
+    imageUrl: field("image") || undefined,
+    // Tags are returned as names and matched to tag IDs when saving
+    tags: tags as any,
+  };
+}
+
+/**
+ * Escapes characters that would otherwise be read as Cooklang syntax
+ * @param extra Additional characters to escape (e.g. braces in names)
+ */
+function escapeCooklang(text: string, extra = ""): string {
+  const pattern = new RegExp(
+    `[\\\\@#~${extra.replace(/[\]\\^-]/g, "\\$&")}]`,
+    "g"
+  );
+  return text
+    .replace(/\s*\n\s*/g, " ")
+    .replace(pattern, (char) => `\\${char}`)
+    .replace(/--/g, "-\\-")
+    .replace(/\[-/g, "[\\-");
+}
+
+/**
+ * Writes an ingredient as a Cooklang reference, splitting a leading quantity
+ * and unit off the text, e.g. "2 cups flour" becomes "@flour{2%cups}"
+ */
+function ingredientToCooklang(ingredient: IngredientItem): string {
+  let quantity = "";
+  let unit = "";
+  let name = ingredient.text.trim().replace(/\s+/g, " ");
+
+  const quantityMatch = name.match(EXPORT_QUANTITY);
+  if (quantityMatch) {
+    quantity = quantityMatch[1].trim();
+    name = quantityMatch[2];
+
+    const [firstWord, ...rest] = name.split(" ");
+    if (rest.length > 0 && EXPORT_UNITS.test(firstWord)) {
+      unit = firstWord;
+      name = rest.join(" ");
+    }
+  }
+
+  const amount = unit ? `${quantity}%${unit}` : quantity;
+  return `@${ingredient.optional ? "?" : ""}${escapeCooklang(
+    name,
+    "{}"
+  )}{${escapeCooklang(amount, "{}")}}`;
+}
+
+/**
+ * Writes ingredients as Cooklang ingredient lists, one paragraph per section.
+ * Nested sections are flattened into "Parent / Child" headings.
+ */
+function ingredientsToCooklang(
+  ingredients: IngredientType[],
+  sectionPath: string[] = []
+): string[] {
+  const paragraphs: string[] = [];
+  const heading = sectionPath.length
+    ? `= ${escapeCooklang(sectionPath.join(" / "))}`
+    : "=";
+  let items: string[] = [];
+
+  // The first list in a section needs its heading, as does a list that
+  // follows a nested section (an empty "=" returns to the top level)
+  let needsHeading = sectionPath.length > 0;
+
+  const flushItems = () => {
+    if (items.length === 0) return;
+    paragraphs.push((needsHeading ? `${heading}\n` : "") + items.join("\n"));
+    items = [];
+    needsHeading = false;
+  };
+
+  for (const ingredient of ingredients) {
+    if ("sectionTitle" in ingredient) {
+      flushItems();
+      paragraphs.push(
+        ...ingredientsToCooklang(ingredient.ingredients, [
+          ...sectionPath,
+          ingredient.sectionTitle,
+        ])
+      );
+      needsHeading = true;
+    } else {
+      items.push(ingredientToCooklang(ingredient));
+    }
+  }
+  flushItems();
+
+  return paragraphs;
+}
+
+/**
+ * Writes a step as a Cooklang paragraph, escaping a leading character that
+ * would make it a heading or a note
+ */
+function stepToCooklang(text: string): string {
+  const escaped = escapeCooklang(text.trim());
+  return /^[=>]/.test(escaped) ? `\\${escaped}` : escaped;
+}
+
+/**
+ * Writes instructions as Cooklang paragraphs, starting each section with a
+ * "== Title ==" heading. Nested sections are flattened into "Parent / Child"
+ * headings.
+ */
+function instructionsToCooklang(
+  instructions: InstructionType[],
+  sectionPath: string[] = []
+): string[] {
+  const paragraphs: string[] = [];
+  const heading = sectionPath.length
+    ? `== ${escapeCooklang(sectionPath.join(" / "), "=")} ==`
+    : "=";
+
+  // Steps that follow a nested section need their heading again (an empty
+  // "=" returns to the top level)
+  let needsHeading = sectionPath.length > 0;
+
+  for (const instruction of instructions) {
+    if ("sectionTitle" in instruction) {
+      paragraphs.push(
+        ...instructionsToCooklang(instruction.instructions, [
+          ...sectionPath,
+          instruction.sectionTitle,
+        ])
+      );
+      needsHeading = true;
+      continue;
+    }
+
+    const text = stepToCooklang(instruction.text);
+    if (!text) continue;
+    paragraphs.push((needsHeading ? `${heading}\n` : "") + text);
+    needsHeading = false;
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Exports a recipe as Cooklang text
+ * @param recipe The recipe to export
+ * @returns The Cooklang text
+ */
+export function recipeToCooklang(recipe: Partial<Recipe>): string {
+  const metadata: string[] = [];
+  const addMetadata = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== null && String(value).trim()) {
+      metadata.push(
+        `${key}: ${String(value)
+          .replace(/\s*\n\s*/g, " ")
+          .trim()}`
+      );
+    }
+  };
+
+  addMetadata("title", recipe.title);
+  addMetadata("description", recipe.description);
+  addMetadata("servings", recipe.servings);
+  addMetadata(
+    "time",
+    recipe.cookingTime ? `${recipe.cookingTime} minutes` : undefined
+  );
+  addMetadata("source", recipe.sourceUrl);
+  addMetadata(
+    "image",
+    recipe.imageUrl && recipe.imageUrl !== "default-recipe.jpg"
+      ? recipe.imageUrl
+      : undefined
+  );
+  addMetadata(
+    "tags",
+    recipe.tags?.length
+      ? recipe.tags
+          .map((tag) => (typeof tag === "string" ? tag : tag.name))
+          .join(", ")
+      : undefined
+  );
+
+  const ingredientParagraphs = ingredientsToCooklang(recipe.ingredients || []);
+
+  // Steps start a new unnamed section so they aren't read as part of an
+  // ingredient section
+  const hasSections = (recipe.ingredients || []).some(
+    (item) => "sectionTitle" in item
+  );
+
+  const steps = instructionsToCooklang(recipe.instructions || []);
+
+  return (
+    [
+      `---\n${metadata.join("\n")}\n---`,
+      ...ingredientParagraphs,
+      ...(hasSections ? ["="] : []),
+      ...steps,
+    ].join("\n\n") + "\n"
+  );
+}
+
+// Export the module
+export default {
+  isCooklangText,
+  parseCooklang,
+  recipeToCooklang,
+};
@@ -0,0 +1,397 @@
+/**
+ * Duplicate Detection Service
+ *
+ * Finds recipes a user already has that look like the recipe being created or
+ * imported: the same source page (ignoring tracking parameters and AMP/print
+ * variants), or a similar title with mostly the same ingredients.
+ */
+
+import {
+  DuplicateMatch,
+  DuplicateMatchReason,
+  IngredientType,
+  Recipe as RecipeType,
+} from "../../../src/types/recipe";
+import Recipe from "../models/Recipe";
+import { processImageUrl } from "../utils/awsS3";
+
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAMS =
+  /^(utm_\w+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|mc_cid|mc_eid|_ga|_gl|igshid|ref|ref_src|si|epik|share|amp|print|wprm_print)$/i;
+
+// Path endings that mark an AMP or print version of a page
+const VARIANT_PATH_SUFFIX = /\/(?:amp|print(?:\/\d+)?)\/?$/i;
+
+// Words that don't help tell two recipe titles apart
+const TITLE_STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "the",
+  "with",
+  "of",
+  "for",
+  "in",
+  "recipe",
+  "recipes",
+  "best",
+  "easy",
+  "simple",
+  "homemade",
+  "quick",
+  "my",
+  "perfect",
+]);
+
+// Units and descriptors stripped from ingredients before comparing them
+const INGREDIENT_NOISE_WORDS = new Set([
+  "cup",
+  "cups",
+  "c",
+  "tablespoon",
+  "tablespoons",
+  "tbsp",
+  "tbs",
+  "tb",
+  "teaspoon",
+  "teaspoons",
+  "tsp",
+  "ts",
+  "ounce",
+  "ounces",
+  "oz",
+  "pound",
+  "pounds",
+  "lb",
+  "lbs",
+  "gram",
+  "grams",
+  "g",
+  "kg",
+  "ml",
+  "l",
+  "liter",
+  "liters",
+  "pinch",
+  "dash",
+  "can",
+  "cans",
+  "package",
+  "packages",
+  "clove",
+  "cloves",
+  "large",
+  "medium",
+  "small",
+  "fresh",
+  "freshly",
+  "chopped",
+  "minced",
+  "diced",
+  "sliced",
+  "ground",
+  "to",
+  "taste",
+  "of",
+  "and",
+  "or",
+  "optional",
+  "about",
+]);
+
+// Thresholds for calling two recipes likely duplicates
+const STRONG_SIMILARITY = 0.8;
+const MODERATE_SIMILARITY = 0.6;
+const WEAK_SIMILARITY = 0.4;
+
+// Most matches to return
+const MAX_MATCHES = 5;
+
+/**
+ * Normalizes a recipe's source URL so different links to the same page
+ * compare equal: ignores the scheme, "www."/"m."/"amp." hosts, Google AMP
+ * cache links, tracking parameters, AMP/print paths and trailing slashes
+ * @returns The normalized URL, or null if it isn't a valid URL
+ */
+export function canonicalizeSourceUrl(rawUrl?: string | null): string | null {
+  if (!rawUrl || !rawUrl.trim()) return null;
+
+  let url: URL;
+  try {
+    const trimmed = rawUrl.trim();
+    url = new URL(
+      /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+    );
+  } catch {
+    return null;
+  }
+
+  let host = url.hostname.toLowerCase();
+  let path = url.pathname;
+
+  // Google AMP cache links embed the real host: /c/s/example.com/path
+  if (host.endsWith(".cdn.ampproject.org")) {
+    const match = path.match(/^\/[a-z]\/(?:s\/)?([^/]+)(\/.*)?$/i);
+    if (match) {
+      host = match[1].toLowerCase();
+      path = match[2] || "/";
+    }
+  }
+
+  host = host.replace(/^(?:www|m|amp)\./, "");
+  path = path.replace(VARIANT_PATH_SUFFIX, "/").replace(/\/+$/, "") || "/";
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length
+    ? `?${new URLSearchParams(params).toString()}`
+    : "";
+
+  return `${host}${path.toLowerCase()}${query}`;
+}
+
+/**
+ * Splits text into lowercase words, dropping punctuation and numbers
+ */
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z\s-]/g, " ")
+    .split(/[\s-]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Dice similarity of two sets (1 = identical, 0 = nothing in common)
+ */
+function setSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  a.forEach((value) => {
+    if (b.has(value)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Strips a simple English plural so "onions" and "onion" match. Words ending
+ * in "ie"/"ies" become "y", so "cookie", "cookies", "berry" and "berries" each
+ * reduce to one form.
+ */
+function singular(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith("ie")) return `${word.slice(0, -2)}y`;
+  if (word.length > 4 && /(?:ches|shes|oes)$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * How similar two recipe titles are, ignoring filler like "easy" or "best"
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const keyWords = (title: string) =>
+    new Set(
+      words(title)
+        .filter((word) => !TITLE_STOP_WORDS.has(word))
+        .map(singular)
+    );
+
+  const aWords = keyWords(a);
+  const bWords = keyWords(b);
+  if (aWords.size === 0 && bWords.size === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  }
+  return setSimilarity(aWords, bWords);
+}
+
+/**
+ * Reduces each ingredient to its main word (e.g. "2 cups all-purpose flour,
+ * sifted" becomes "flour"), so lists can be compared regardless of amounts
+ */
+function ingredientKeys(ingredients: IngredientType[] = []): Set<string> {
+  const keys = new Set<string>();
+
+  const addIngredients = (items: IngredientType[]) => {
+    for (const item of items) {
+      if (item && typeof item === "object" && "sectionTitle" in item) {
+        addIngredients(item.ingredients || []);
+        continue;
+      }
+
+      // Drop notes in parentheses and preparation after a comma. Older
+      // recipes store ingredients as plain strings.
+      const text = String(typeof item === "string" ? item : item?.text || "")
+        .replace(/\([^)]*\)/g, " ")
+        .split(",")[0];
+      const mainWords = words(text).filter(
+        (word) => !INGREDIENT_NOISE_WORDS.has(word)
+      );
+      if (mainWords.length > 0) {
+        keys.add(singular(mainWords[mainWords.length - 1]));
+      }
+    }
+  };
+
+  addIngredients(ingredients);
+  return keys;
+}
+
+/**
+ * How much two ingredient lists overlap, comparing each ingredient's main word
+ */
+export function ingredientOverlap(
+  a: IngredientType[] = [],
+  b: IngredientType[] = []
+): number {
+  return setSimilarity(ingredientKeys(a), ingredientKeys(b));
+}
+
+/**
+ * Finds recipes the user already has that are likely the same as a new recipe
+ * @param candidate The recipe being created or imported
+ * @param userId The user whose recipes to check
+ * @param excludeRecipeId A recipe to leave out (e.g. the one being edited)
+ * @returns The likely duplicates, best match first
+ */
+export async function findDuplicateRecipes(
+  candidate: Partial<RecipeType>,
+  userId: unknown,
+  excludeRecipeId?: string
+): Promise<DuplicateMatch[]> {
+  const candidateUrl = canonicalizeSourceUrl(candidate.sourceUrl);
+  const candidateTitle = candidate.title || "";
+  const candidateKeys = ingredientKeys(candidate.ingredients || []);
+
+  const recipes = await Recipe.find({ user: userId }).select(
+    "title ingredients sourceUrl imageUrl"
+  );
+
+  const matches: DuplicateMatch[] = [];
+  for (const recipe of recipes as any[]) {
+    const recipeId = recipe._id.toString();
+    if (recipeId === excludeRecipeId) continue;
+
+    const reasons: DuplicateMatchReason[] = [];
+    let score = 0;
+
+    if (
+      candidateUrl &&
+      canonicalizeSourceUrl(recipe.sourceUrl) === candidateUrl
+    ) {
+      reasons.push("sourceUrl");
+      score = 1;
+    } else {
+      const titleScore = candidateTitle
+        ? titleSimilarity(candidateTitle, recipe.title || "")
+        : 0;
+      const ingredientScore = setSimilarity(
+        candidateKeys,
+        ingredientKeys(recipe.ingredients || [])
+      );
+
+      // A similar title needs some shared ingredients, and similar
+      // ingredients need some shared title words
+      const isMatch =
+        (titleScore >= STRONG_SIMILARITY &&
+          ingredientScore >= WEAK_SIMILARITY) ||
+        (ingredientScore >= STRONG_SIMILARITY &&
+          titleScore >= WEAK_SIMILARITY) ||
+        (titleScore >= MODERATE_SIMILARITY &&
+          ingredientScore >= MODERATE_SIMILARITY);
+      if (!isMatch) continue;
+
+      if (titleScore >= MODERATE_SIMILARITY) reasons.push("title");
+      if (ingredientScore >= MODERATE_SIMILARITY) reasons.push("ingredients");
+      score = (titleScore + ingredientScore) / 2;
+    }
+
+    matches.push({
+      recipeId,
+      title: recipe.title,
+      imageUrl: recipe.imageUrl,
+      sourceUrl: recipe.sourceUrl,
+      score: Math.round(score * 100) / 100,
+      reasons,
+    });
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, MAX_MATCHES);
+}
+
+/**
+ * Merges a new recipe into one the user already has. The existing recipe keeps
+ * its title, ingredients and steps; fields it is missing are filled in from
+ * the new recipe and the tags are combined.
+ * @param recipeId The existing recipe to merge into
+ * @param recipeData The recipe being created or imported
+ * @param userId The user doing the merge, who must own the existing recipe
+ * @param tagIds Tag IDs for the new recipe
+ * @returns The updated recipe, or null if the user has no such recipe
+ */
+export async function mergeIntoExistingRecipe(
+  recipeId: string,
+  recipeData: Partial<RecipeType>,
+  userId: unknown,
+  tagIds: unknown[] = []
+) {
+  const recipe = await Recipe.findOne({ _id: recipeId, user: userId });
+  if (!recipe) {
+    return null;
+  }
+
+  if (!recipe.description?.trim() || recipe.description === recipe.title) {
+    recipe.description = recipeData.description || recipe.description;
+  }
+  if (!recipe.cookingTime && recipeData.cookingTime) {
+    recipe.cookingTime = recipeData.cookingTime;
+  }
+  if (!recipe.servings && recipeData.servings) {
+    recipe.servings = recipeData.servings;
+  }
+  if (!recipe.sourceUrl && recipeData.sourceUrl) {
+    recipe.sourceUrl = recipeData.sourceUrl;
+  }
+  if (
+    (!recipe.imageUrl || recipe.imageUrl === "default-recipe.jpg") &&
+    recipeData.imageUrl &&
+    recipeData.imageUrl !== "default-recipe.jpg"
+  ) {
+    recipe.originalImageUrl = recipeData.imageUrl;
+    try {
+      // Download image and upload to S3
+      recipe.imageUrl = await processImageUrl(recipeData.imageUrl);
+    } catch (imageError) {
+      console.error("Error processing image during merge:", imageError);
+      // Continue with the original URL if there's an error
+      recipe.imageUrl = recipeData.imageUrl;
+    }
+  }
+
+  const existingTagIds = (recipe.tags || []).map((tag: unknown) => String(tag));
+  const newTagIds = tagIds.filter(
+    (tagId) => !existingTagIds.includes(String(tagId))
+  );
+  recipe.tags = [...(recipe.tags || []), ...newTagIds];
+
+  const savedRecipe = await recipe.save();
+  console.log(`Merged new recipe into existing recipe ${recipeId}`);
+  return savedRecipe;
+}
+
+// Export the module
+export default {
+  canonicalizeSourceUrl,
+  titleSimilarity,
+  ingredientOverlap,
+  findDuplicateRecipes,
+  mergeIntoExistingRecipe,
+};
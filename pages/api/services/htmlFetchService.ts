@@ -3,81 +3,503 @@
  *
  * Service for fetching HTML content from URLs, with various utilities for handling
  * different types of websites and error conditions.
+ *
+ * Requests to the same host are limited and spaced out, failures that may
+ * pass (rate limits, timeouts, server errors) are retried with backoff,
+ * honouring Retry-After, and pages are revalidated with ETag/Last-Modified
+ * instead of downloaded again. When a page still can't be fetched, its AMP
+ * and print versions are tried before giving up.
  */
 
 import axios from "axios";
 import * as cheerio from "cheerio";
+import { FetchFailureReason } from "../../../src/types/recipe";
+import { SafeFetchError, safeFetch } from "../utils/safeFetch";
+
+// Largest page accepted
+const MAX_HTML_BYTES = 10 * 1024 * 1024;
+
+// Content types accepted as pages (XML for sitemaps, plain text for sites
+// that mislabel their HTML)
+const HTML_CONTENT_TYPES = [
+  "text/html",
+  "application/xhtml+xml",
+  "application/xml",
+  "text/xml",
+  "text/plain",
+];
+
+// Most requests in flight to one host, shared by every fetch in this process
+const MAX_REQUESTS_PER_HOST = 2;
+
+// Minimum gap between starting two requests to the same host
+const HOST_DELAY_MS = 1000;
+
+// Retries after the first attempt, for failures that may pass
+const MAX_RETRIES = 2;
+
+// Delay before the first retry, doubled for each one after
+const BASE_RETRY_DELAY_MS = 1000;
+
+// Longest wait before a retry, even if Retry-After asks for more, to stay
+// within serverless time limits
+const MAX_RETRY_DELAY_MS = 10 * 1000;
+
+// No new attempts or fallbacks are started after this long
+const FETCH_TIME_BUDGET_MS = 40 * 1000;
+
+// Longest a single request may take
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+// Pages kept so they can be revalidated with a conditional request
+const MAX_CACHED_PAGES = 50;
+const MAX_CACHED_PAGE_LENGTH = 2 * 1024 * 1024;
+
+// Failures worth retrying, and those worth trying fallback URLs for
+const RETRYABLE_FAILURES: FetchFailureReason[] = [
+  "rate-limited",
+  "timeout",
+  "server-error",
+  "network-error",
+];
+const FALLBACK_FAILURES: FetchFailureReason[] = [
+  "forbidden",
+  "rate-limited",
+  "timeout",
+  "server-error",
+];
 
 /**
- * Fetches HTML content from a given URL and optimizes it for recipe extraction
- * @param url The URL to fetch HTML from
- * @returns The optimized HTML content as a string or null if fetch fails
+ * The result of fetching a page
  */
-export const fetchHtmlFromUrl = async (url: string): Promise<string | null> => {
-  try {
-    // Validate and normalize URL
-    if (!url) {
-      console.error("Invalid URL: URL is empty");
-      return null;
+export interface FetchPageResult {
+  // The page's HTML, or null if it couldn't be fetched
+  html: string | null;
+  // The URL the page came from, which may be a fallback URL
+  url: string;
+  // Why the page couldn't be fetched
+  failure?: FetchFailureReason;
+  // HTTP status of the last failed response, if there was one
+  status?: number;
+}
+
+/**
+ * A failed attempt to fetch a URL
+ */
+interface FetchAttemptFailure {
+  reason: FetchFailureReason;
+  status?: number;
+  // Whether trying again could help
+  retryable: boolean;
+  // How long the server asked us to wait, from Retry-After
+  retryAfterMs?: number;
+}
+
+/**
+ * A page kept for conditional requests
+ */
+interface CachedPage {
+  html: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Requests in flight to a host and when the next one may start
+ */
+interface HostState {
+  active: number;
+  nextStartAt: number;
+  waiting: Array<() => void>;
+}
+
+const hostStates = new Map<string, HostState>();
+const pageCache = new Map<string, CachedPage>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Waits for a free request slot for a host and for its delay to pass
+ */
+async function acquireHostSlot(host: string): Promise<void> {
+  let state = hostStates.get(host);
+  if (!state) {
+    state = { active: 0, nextStartAt: 0, waiting: [] };
+    hostStates.set(host, state);
+  }
+
+  while (state.active >= MAX_REQUESTS_PER_HOST) {
+    await new Promise<void>((resolve) => state!.waiting.push(resolve));
+  }
+  state.active++;
+
+  // Reserve the start time before waiting, so queued requests are spaced out
+  const now = Date.now();
+  const startAt = Math.max(now, state.nextStartAt);
+  state.nextStartAt = startAt + HOST_DELAY_MS;
+  if (startAt > now) {
+    await sleep(startAt - now);
+  }
+}
+
+/**
+ * Frees a host's request slot for the next waiting request
+ */
+function releaseHostSlot(host: string) {
+  const state = hostStates.get(host);
+  if (!state) return;
+
+  state.active--;
+  const next = state.waiting.shift();
+  if (next) {
+    next();
+  } else if (state.active === 0 && state.nextStartAt <= Date.now()) {
+    hostStates.delete(host);
+  }
+}
+
+/**
+ * Holds back every request to a host, e.g. after it answered with
+ * Retry-After
+ */
+function deferHost(host: string, delayMs: number) {
+  const state = hostStates.get(host);
+  if (state) {
+    state.nextStartAt = Math.max(state.nextStartAt, Date.now() + delayMs);
+  }
+}
+
+/**
+ * Reads a Retry-After header, given either in seconds or as an HTTP date
+ * @returns The delay in milliseconds, or undefined if it can't be read
+ */
+function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Works out why a request failed and whether it is worth retrying
+ */
+function classifyFetchError(error: unknown): FetchAttemptFailure {
+  // The DNS check refuses internal addresses from inside the request
+  const cause =
+    axios.isAxiosError(error) && error.cause instanceof SafeFetchError
+      ? error.cause
+      : error;
+
+  if (cause instanceof SafeFetchError) {
+    switch (cause.reason) {
+      case "invalid-url":
+        return { reason: "invalid-url", retryable: false };
+      case "blocked-address":
+        return { reason: "blocked", retryable: false };
+      case "too-large":
+        return { reason: "too-large", retryable: false };
+      case "unsupported-content-type":
+        return { reason: "not-a-page", retryable: false };
+      case "too-many-redirects":
+        return { reason: "network-error", retryable: false };
     }
 
-    // Make sure URL has protocol
-    if (!url.startsWith("http://") && !url.startsWith("https://")) {
-      url = `https://${url}`;
+    const status = cause.status || 0;
+    const retryAfterMs = parseRetryAfter(cause.retryAfter);
+    if (status === 404 || status === 410) {
+      return { reason: "not-found", status, retryable: false };
     }
+    if (status === 401 || status === 403 || status === 451) {
+      return { reason: "forbidden", status, retryable: false };
+    }
+    if (status === 429) {
+      return { reason: "rate-limited", status, retryable: true, retryAfterMs };
+    }
+    if (status === 408 || status === 504) {
+      return { reason: "timeout", status, retryable: true, retryAfterMs };
+    }
+    if (status >= 500) {
+      return { reason: "server-error", status, retryable: true, retryAfterMs };
+    }
+    return { reason: "network-error", status, retryable: false };
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return { reason: "timeout", retryable: true };
+    }
+    // The host doesn't exist, so trying again won't help
+    if (error.code === "ENOTFOUND") {
+      return { reason: "network-error", retryable: false };
+    }
+  }
 
-    console.log(`Fetching HTML from URL: ${url}`);
+  return { reason: "network-error", retryable: true };
+}
 
-    // Configure request
-    const config = {
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
-        Accept: "text/html,application/xhtml+xml,application/xml",
-      },
-      timeout: 15000, // 15 seconds timeout
-      maxContentLength: 10 * 1024 * 1024, // 10MB max
-      validateStatus: (status: number) => status >= 200 && status < 400,
-    };
+/**
+ * Makes one request for a page, revalidating the cached copy if there is one
+ * @param url The URL to fetch
+ * @param timeoutMs How long the request may take
+ * @throws The request's error if it fails
+ */
+async function requestPage(url: string, timeoutMs: number): Promise<string> {
+  const cached = pageCache.get(url);
+  const headers: Record<string, string> = {};
+  if (cached?.etag) headers["If-None-Match"] = cached.etag;
+  if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+
+  // Checks the URL and every redirect before connecting
+  const response = await safeFetch(url, {
+    accept: "text/html,application/xhtml+xml,application/xml",
+    allowedContentTypes: HTML_CONTENT_TYPES,
+    maxBytes: MAX_HTML_BYTES,
+    timeoutMs,
+    headers,
+  });
 
-    const response = await axios.get(url, config);
+  if (response.status === 304 && cached) {
+    console.log(`Page at ${url} has not changed, using the cached copy`);
+    // Move it to the end, so the least recently used page is dropped first
+    pageCache.delete(url);
+    pageCache.set(url, cached);
+    return cached.html;
+  }
 
-    if (!response.data || typeof response.data !== "string") {
+  const html = response.data.toString("utf8");
+  pageCache.delete(url);
+  if (
+    html &&
+    (response.etag || response.lastModified) &&
+    html.length <= MAX_CACHED_PAGE_LENGTH
+  ) {
+    pageCache.set(url, {
+      html,
+      etag: response.etag,
+      lastModified: response.lastModified,
+    });
+    if (pageCache.size > MAX_CACHED_PAGES) {
+      pageCache.delete(pageCache.keys().next().value as string);
+    }
+  }
+
+  return html;
+}
+
+/**
+ * Fetches a URL, waiting for its host's slot and retrying failures that may
+ * pass with exponential backoff
+ * @param url The URL to fetch
+ * @param retries How many times to retry
+ * @param deadline Time after which no retries are started, and by which any
+ *   request in progress times out
+ */
+async function fetchWithRetries(
+  url: string,
+  retries: number,
+  deadline: number
+): Promise<{ html: string } | FetchAttemptFailure> {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch (error) {
+    return { reason: "invalid-url", retryable: false };
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireHostSlot(host);
+    const timeLeft = deadline - Date.now();
+    if (timeLeft <= 0) {
+      releaseHostSlot(host);
+      return { reason: "timeout", retryable: false };
+    }
+
+    let failure: FetchAttemptFailure;
+    try {
+      const html = await requestPage(
+        url,
+        Math.min(REQUEST_TIMEOUT_MS, timeLeft)
+      );
+      if (html) {
+        return { html };
+      }
+      console.error(`Invalid response for URL: ${url}. Response is empty.`);
+      failure = { reason: "not-a-page", retryable: false };
+    } catch (error) {
+      failure = classifyFetchError(error);
+      if (failure.retryAfterMs) {
+        deferHost(host, Math.min(failure.retryAfterMs, MAX_RETRY_DELAY_MS));
+      }
       console.error(
-        `Invalid response for URL: ${url}. Response is not a string.`
+        `Error fetching HTML from ${url} (attempt ${attempt + 1}):`,
+        failure.reason,
+        error instanceof Error ? error.message : error
       );
-      return null;
+    } finally {
+      releaseHostSlot(host);
     }
 
-    console.log(
-      `Successfully fetched HTML from URL: ${url}, content length: ${response.data.length} characters`
+    // Back off exponentially with some jitter, or as long as the server asked
+    const delay = Math.min(
+      failure.retryAfterMs ??
+        BASE_RETRY_DELAY_MS * 2 ** attempt * (1 + Math.random() / 2),
+      MAX_RETRY_DELAY_MS
     );
+    if (
+      !failure.retryable ||
+      attempt >= retries ||
+      Date.now() + delay > deadline
+    ) {
+      return failure;
+    }
+
+    console.log(`Retrying ${url} in ${Math.round(delay)}ms`);
+    await sleep(delay);
+  }
+}
+
+/**
+ * Lists other URLs that may serve the same recipe when a page can't be
+ * fetched: the AMP version, the WP Recipe Maker and Tasty Recipes print
+ * pages, and the page with ?print added
+ * @param url The page URL
+ */
+export function fallbackUrls(url: string): string[] {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    return [];
+  }
+
+  const path = parsed.pathname.replace(/\/+$/, "");
+  const slug = path.split("/").filter(Boolean).pop();
+  if (!slug) {
+    return [];
+  }
 
-    // Process HTML to remove unnecessary content and optimize for OpenAI
-    const optimizedHtml = optimizeHtmlForRecipeExtraction(response.data);
+  const urls: string[] = [];
+  if (slug !== "amp") {
+    urls.push(`${parsed.origin}${path}/amp/`);
+  }
+  urls.push(`${parsed.origin}/wprm_print/${slug}`);
+  urls.push(`${parsed.origin}${path}/print/`);
+  if (!parsed.searchParams.has("print")) {
+    urls.push(
+      `${parsed.origin}${parsed.pathname}${
+        parsed.search ? `${parsed.search}&print` : "?print"
+      }`
+    );
+  }
 
+  return urls;
+}
+
+/**
+ * Fetches a page's raw HTML, retrying failures that may pass and trying the
+ * page's fallback URLs before giving up
+ * @param url The URL to fetch
+ * @param options fallbacks: false to only try the URL itself, e.g. for
+ *   listing pages and sitemaps; deadline: a time by which to give up, when
+ *   the caller has less time left than a fetch normally gets
+ * @returns The HTML and where it came from, or why it couldn't be fetched
+ */
+export const fetchPage = async (
+  url: string,
+  options: { fallbacks?: boolean; deadline?: number } = {}
+): Promise<FetchPageResult> => {
+  // Validate and normalize URL
+  if (!url) {
+    console.error("Invalid URL: URL is empty");
+    return { html: null, url, failure: "invalid-url" };
+  }
+
+  // Make sure URL has protocol
+  if (!url.startsWith("http://") && !url.startsWith("https://")) {
+    url = `https://${url}`;
+  }
+
+  console.log(`Fetching HTML from URL: ${url}`);
+  const deadline = Math.min(
+    Date.now() + FETCH_TIME_BUDGET_MS,
+    options.deadline ?? Infinity
+  );
+
+  const result = await fetchWithRetries(url, MAX_RETRIES, deadline);
+  if ("html" in result) {
     console.log(
-      `Optimized HTML for recipe extraction, reduced from ${
-        response.data.length
-      } to ${optimizedHtml.length} characters (${Math.round(
-        (optimizedHtml.length / response.data.length) * 100
-      )}%)`
+      `Successfully fetched HTML from URL: ${url}, content length: ${result.html.length} characters`
     );
+    return { html: result.html, url };
+  }
 
-    return optimizedHtml;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      console.error(
-        `Axios error fetching HTML from ${url}:`,
-        error.message,
-        error.response?.status ? `Status: ${error.response.status}` : "",
-        error.code ? `Code: ${error.code}` : ""
-      );
-    } else {
-      console.error(`Error fetching HTML from ${url}:`, error);
+  // Each fallback is tried once, as its host is the one already failing
+  if (
+    options.fallbacks !== false &&
+    FALLBACK_FAILURES.includes(result.reason)
+  ) {
+    for (const fallbackUrl of fallbackUrls(url)) {
+      if (Date.now() > deadline) break;
+
+      console.log(`Trying fallback URL: ${fallbackUrl}`);
+      const fallback = await fetchWithRetries(fallbackUrl, 0, deadline);
+      if ("html" in fallback) {
+        console.log(
+          `Successfully fetched HTML from fallback URL: ${fallbackUrl}, content length: ${fallback.html.length} characters`
+        );
+        return { html: fallback.html, url: fallbackUrl };
+      }
     }
+  }
+
+  return {
+    html: null,
+    url,
+    failure: result.reason,
+    status: result.status,
+  };
+};
+
+/**
+ * Fetches HTML content from a given URL and optimizes it for recipe extraction
+ * @param url The URL to fetch HTML from
+ * @returns The optimized HTML content as a string or null if fetch fails
+ */
+export const fetchHtmlFromUrl = async (url: string): Promise<string | null> => {
+  const rawHtml = await fetchRawHtmlFromUrl(url);
+  if (!rawHtml) {
     return null;
   }
+
+  // Process HTML to remove unnecessary content and optimize for OpenAI
+  const optimizedHtml = optimizeHtmlForRecipeExtraction(rawHtml);
+
+  console.log(
+    `Optimized HTML for recipe extraction, reduced from ${rawHtml.length} to ${
+      optimizedHtml.length
+    } characters (${Math.round(
+      (optimizedHtml.length / rawHtml.length) * 100
+    )}%)`
+  );
+
+  return optimizedHtml;
+};
+
+/**
+ * Fetches the raw, unmodified HTML from a given URL. Unlike fetchHtmlFromUrl,
+ * scripts are left in place so embedded structured data can still be read.
+ * Use fetchPage to find out why a page couldn't be fetched.
+ * @param url The URL to fetch HTML from
+ * @returns The raw HTML content as a string or null if fetch fails
+ */
+export const fetchRawHtmlFromUrl = async (
+  url: string
+): Promise<string | null> => {
+  const { html } = await fetchPage(url);
+  return html;
 };
 
 /**
@@ -87,7 +509,7 @@ export const fetchHtmlFromUrl = async (url: string): Promise<string | null> => {
  * @param htmlContent Original HTML content
  * @returns Optimized HTML content
  */
-function optimizeHtmlForRecipeExtraction(htmlContent: string): string {
+export function optimizeHtmlForRecipeExtraction(htmlContent: string): string {
   try {
     const $ = cheerio.load(htmlContent);
 
@@ -396,6 +818,10 @@ export const extractMainContent = (html: string): string => {
 
 // Export the module
 export default {
+  fetchPage,
+  fallbackUrls,
   fetchHtmlFromUrl,
+  fetchRawHtmlFromUrl,
+  optimizeHtmlForRecipeExtraction,
   extractMainContent,
 };
@@ -0,0 +1,313 @@
+/**
+ * Import Job Service
+ *
+ * Bulk URL imports. A job is stored in the database with one item per URL;
+ * each call to processImportJob imports the next batch of queued URLs with
+ * bounded concurrency, so progress survives between requests and the client
+ * drives the job by polling.
+ */
+
+import { Types } from "mongoose";
+import { describeFetchFailure } from "../../../src/utils/fetchFailures";
+import ImportJob, {
+  ImportJobDocument,
+  ImportJobItemDocument,
+} from "../models/ImportJob";
+import Recipe from "../models/Recipe";
+import Tag, { TagDocument } from "../models/Tag";
+import { mapWithConcurrency } from "../utils/concurrency";
+import {
+  canonicalizeSourceUrl,
+  findDuplicateRecipes,
+} from "./duplicateDetectionService";
+import { fetchPage } from "./htmlFetchService";
+import { extractRecipeFromPage } from "./recipeExtractionService";
+import { matchTags, saveImportedRecipe } from "./recipeImportService";
+
+// Maximum number of URLs accepted in a single job
+export const MAX_URLS_PER_JOB = 500;
+
+// Number of URLs imported at the same time
+const IMPORT_CONCURRENCY = 3;
+
+// Number of URLs imported per processing request, kept small so each request
+// finishes well within serverless time limits
+const BATCH_SIZE = 3;
+
+// How long a processing request holds the job before another may take over
+const LOCK_DURATION_MS = 5 * 60 * 1000;
+
+/**
+ * Normalizes a user-supplied URL, adding https:// when no scheme is given
+ * @returns The normalized URL, or null if it isn't a valid http(s) URL
+ */
+export function normalizeImportUrl(rawUrl: string): string | null {
+  const trimmed = rawUrl.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(
+      /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+    );
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.href
+      : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Creates an import job for a list of URLs. Invalid URLs are marked failed and
+ * URLs that were listed twice or already imported by the user are marked as
+ * duplicates up front.
+ * @param userId The ID of the user importing the recipes
+ * @param urls The URLs to import
+ */
+export async function createImportJob(
+  userId: Types.ObjectId,
+  urls: string[]
+): Promise<ImportJobDocument> {
+  const normalizedUrls = urls.map((url) => normalizeImportUrl(url));
+
+  // Index the user's recipes by source page, ignoring tracking parameters
+  // and AMP/print variants of the same page
+  const existingRecipes = await Recipe.find({
+    user: userId,
+    sourceUrl: { $nin: [null, ""] },
+  }).select("_id sourceUrl");
+  const existingByUrl = new Map<string, Types.ObjectId>();
+  existingRecipes.forEach((recipe: any) => {
+    const canonicalUrl = canonicalizeSourceUrl(recipe.sourceUrl);
+    if (canonicalUrl) existingByUrl.set(canonicalUrl, recipe._id);
+  });
+
+  const seenUrls = new Set<string>();
+  const items = urls.map((rawUrl, index) => {
+    const url = normalizedUrls[index];
+
+    if (!url) {
+      return {
+        url: rawUrl.trim(),
+        status: "failed",
+        reason: "Invalid URL",
+        fetchFailure: "invalid-url",
+      };
+    }
+    const canonicalUrl = canonicalizeSourceUrl(url) || url;
+    if (seenUrls.has(canonicalUrl)) {
+      return {
+        url,
+        status: "duplicate",
+        reason: "Listed more than once in this import",
+      };
+    }
+    seenUrls.add(canonicalUrl);
+
+    const existingId = existingByUrl.get(canonicalUrl);
+    if (existingId) {
+      return {
+        url,
+        status: "duplicate",
+        reason: "Already imported",
+        recipeId: existingId,
+      };
+    }
+
+    return { url, status: "queued" };
+  });
+
+  const hasQueuedItems = items.some((item) => item.status === "queued");
+  const job = await ImportJob.create({
+    user: userId,
+    status: hasQueuedItems ? "running" : "completed",
+    items,
+  });
+
+  console.log(
+    `Created import job ${job._id} with ${items.length} URLs for user ${userId}`
+  );
+  return job;
+}
+
+/**
+ * Imports a single URL: fetch the page, extract the recipe and save it
+ * (which uploads its image to S3)
+ */
+async function importJobItem(
+  item: ImportJobItemDocument,
+  userId: Types.ObjectId,
+  availableTags: TagDocument[]
+): Promise<Partial<ImportJobItemDocument>> {
+  try {
+    // The URL, or a variant of it with tracking parameters or an AMP path,
+    // may have been imported since the job was created
+    const [existing] = await findDuplicateRecipes(
+      { sourceUrl: item.url },
+      userId
+    );
+    if (existing) {
+      return {
+        status: "duplicate",
+        reason: "Already imported",
+        recipeId: new Types.ObjectId(existing.recipeId),
+      };
+    }
+
+    const { html: htmlContent, failure } = await fetchPage(item.url);
+    if (!htmlContent) {
+      return {
+        status: "failed",
+        reason: failure
+          ? describeFetchFailure(failure)
+          : "Could not fetch the page",
+        fetchFailure: failure,
+      };
+    }
+
+    const recipeData = await extractRecipeFromPage(
+      htmlContent,
+      item.url,
+      availableTags.map((tag) => tag.name)
+    );
+    if (!recipeData) {
+      return {
+        status: "failed",
+        reason: "No recipe found on the page",
+        fetchFailure: undefined,
+      };
+    }
+
+    const { matched } = matchTags(
+      recipeData.tags,
+      availableTags,
+      recipeData.ingredients
+    );
+    const savedRecipe = await saveImportedRecipe(
+      { ...recipeData, sourceUrl: item.url },
+      userId,
+      matched.map((tag) => tag._id)
+    );
+
+    return {
+      status: "succeeded",
+      reason: undefined,
+      fetchFailure: undefined,
+      recipeId: savedRecipe._id,
+    };
+  } catch (error) {
+    console.error(`Error importing ${item.url} in bulk import:`, error);
+    return {
+      status: "failed",
+      reason:
+        error instanceof Error && error.message
+          ? error.message
+          : "Unexpected error while importing",
+      fetchFailure: undefined,
+    };
+  }
+}
+
+/**
+ * Imports the next batch of queued URLs in a job. If another request is
+ * already processing the job, the job is returned unchanged.
+ * @param jobId The ID of the import job
+ * @param userId The ID of the user who owns the job
+ * @returns The updated job, or null if it doesn't exist
+ */
+export async function processImportJob(
+  jobId: string,
+  userId: Types.ObjectId
+): Promise<ImportJobDocument | null> {
+  const now = new Date();
+
+  // Take the lock so overlapping polls don't import the same URLs twice
+  const job = await ImportJob.findOneAndUpdate(
+    {
+      _id: jobId,
+      user: userId,
+      status: "running",
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lt: now } }],
+    },
+    { lockedUntil: new Date(now.getTime() + LOCK_DURATION_MS) },
+    { new: true }
+  );
+
+  if (!job) {
+    return ImportJob.findOne({ _id: jobId, user: userId });
+  }
+
+  try {
+    const batch = job.items
+      .filter((item) => item.status === "queued")
+      .slice(0, BATCH_SIZE);
+
+    if (batch.length > 0) {
+      const availableTags = await Tag.find().sort({ name: 1 });
+
+      const results = await mapWithConcurrency(
+        batch,
+        IMPORT_CONCURRENCY,
+        (item) => importJobItem(item, userId, availableTags)
+      );
+
+      batch.forEach((item, index) => {
+        item.set({ ...results[index], attempts: item.attempts + 1 });
+      });
+    }
+
+    if (!job.items.some((item) => item.status === "queued")) {
+      job.status = "completed";
+    }
+  } finally {
+    job.lockedUntil = null;
+    await job.save();
+  }
+
+  return job;
+}
+
+/**
+ * Puts a job's failed URLs back in the queue
+ * @param jobId The ID of the import job
+ * @param userId The ID of the user who owns the job
+ * @returns The updated job, or null if it doesn't exist
+ */
+export async function retryFailedItems(
+  jobId: string,
+  userId: Types.ObjectId
+): Promise<ImportJobDocument | null> {
+  const job = await ImportJob.findOne({ _id: jobId, user: userId });
+  if (!job) {
+    return null;
+  }
+
+  let retried = 0;
+  job.items.forEach((item) => {
+    // URLs that were never valid can't succeed on a retry
+    if (item.status === "failed" && normalizeImportUrl(item.url)) {
+      item.set({
+        status: "queued",
+        reason: undefined,
+        fetchFailure: undefined,
+      });
+      retried++;
+    }
+  });
+
+  if (retried > 0) {
+    job.status = "running";
+    await job.save();
+  }
+
+  console.log(`Re-queued ${retried} failed URLs in import job ${jobId}`);
+  return job;
+}
+
+// Export the module
+export default {
+  normalizeImportUrl,
+  createImportJob,
+  processImportJob,
+  retryFailedItems,
+};
@@ -0,0 +1,316 @@
+/**
+ * Listing Crawl Service
+ *
+ * Finds the recipes linked from a blog's index, category or sitemap page so a
+ * whole series can be imported at once. Links are kept to the listing's own
+ * site, and each one is counted as a recipe when its page embeds a JSON-LD
+ * Recipe or its URL or link text reads like a recipe. Every crawl stops after
+ * a fixed number of pages; the fetch service spaces out requests to the same
+ * host.
+ */
+
+import * as cheerio from "cheerio";
+import {
+  CrawlListingResult,
+  DiscoveredLinkReason,
+  DiscoveredRecipeLink,
+} from "../../../src/types/recipe";
+import { canonicalizeSourceUrl } from "./duplicateDetectionService";
+import { fetchPage } from "./htmlFetchService";
+import { MAX_URLS_PER_JOB, normalizeImportUrl } from "./importJobService";
+import { hasJsonLdRecipe } from "./structuredDataService";
+
+// Most pages fetched in one crawl, counting listing pages and recipe checks
+export const MAX_CRAWL_PAGES = 15;
+
+// Most listing pages (pagination or child sitemaps) read in one crawl
+const MAX_LISTING_PAGES = 5;
+
+// Crawls stop reading listings and checking links after this long, and no
+// request runs past it, to stay within serverless time limits
+const CRAWL_TIME_BUDGET_MS = 45 * 1000;
+
+// Words in a URL or link text that suggest a recipe
+const RECIPE_KEYWORDS =
+  /\b(?:recipes?|soups?|stews?|salads?|cakes?|cookies?|breads?|pies?|pasta|chicken|beef|pork|lamb|fish|salmon|shrimp|curry|chili|roast(?:ed)?|baked?|muffins?|sauces?|tarts?|casseroles?|noodles?|dumplings?|pancakes?|smoothies?|risotto|tacos?|brownies?|cheesecake|lasagna|granola|marinade|dressing)\b/i;
+
+// Paths that are site furniture rather than posts
+const EXCLUDED_PATHS =
+  /\/(?:tag|tags|category|categories|author|page|feed|search|wp-content|wp-admin|wp-json|cart|checkout|account|login|register|about|contact|privacy|terms|shop|comments?)(?:\/|$)/i;
+
+// Links to files rather than pages
+const EXCLUDED_EXTENSIONS =
+  /\.(?:jpe?g|png|gif|webp|svg|pdf|zip|mp4|mp3|css|js|xml|gz|txt)$/i;
+
+/**
+ * Fetches a listing or recipe page. Fallback URLs are skipped, since a
+ * listing's print or AMP version isn't what the crawl is after.
+ * @param url The page to fetch
+ * @param deadline When the crawl's time budget runs out
+ */
+async function fetchCrawlPage(
+  url: string,
+  deadline: number
+): Promise<string | null> {
+  const { html } = await fetchPage(url, { fallbacks: false, deadline });
+  return html;
+}
+
+/**
+ * Compares hosts ignoring a leading "www."
+ */
+function sameHost(a: URL, b: URL): boolean {
+  const strip = (host: string) => host.toLowerCase().replace(/^www\./, "");
+  return strip(a.hostname) === strip(b.hostname);
+}
+
+/**
+ * Turns the last part of a URL path into a readable title, e.g.
+ * "/2023/05/lemon-drizzle-cake/" becomes "Lemon drizzle cake"
+ */
+function titleFromUrl(url: URL): string {
+  let path = url.pathname;
+  try {
+    path = decodeURIComponent(path);
+  } catch (error) {
+    // A malformed escape like "%E0%A4%A" leaves the slug as it is
+  }
+  const slug = path.split("/").filter(Boolean).pop() || url.hostname;
+  const words = slug
+    .replace(/\.[a-z]+$/i, "")
+    .replace(/[-_]+/g, " ")
+    .trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Checks whether content is an XML sitemap or sitemap index
+ */
+function isSitemap(content: string): boolean {
+  return /^\s*(?:<\?xml[^>]*>\s*)?(?:<!--[\s\S]*?-->\s*)*<(?:urlset|sitemapindex)\b/i.test(
+    content
+  );
+}
+
+/**
+ * Reads the page and child sitemap URLs from a sitemap or sitemap index
+ */
+function readSitemap(content: string): { pages: string[]; sitemaps: string[] } {
+  const $ = cheerio.load(content, { xmlMode: true });
+  const locs = (selector: string) =>
+    $(selector)
+      .map((_, el) => $(el).text().trim())
+      .get()
+      .filter(Boolean);
+
+  return {
+    pages: locs("url > loc"),
+    sitemaps: locs("sitemap > loc"),
+  };
+}
+
+/**
+ * Reads the links on an HTML listing page, along with the link to the next
+ * page of the listing if there is one
+ */
+function readListingPage(
+  html: string,
+  pageUrl: string
+): { links: Array<{ url: string; text: string }>; nextPage: string | null } {
+  const $ = cheerio.load(html);
+
+  const resolve = (href: string | undefined) => {
+    if (
+      !href ||
+      href.startsWith("#") ||
+      /^(?:mailto|tel|javascript):/i.test(href)
+    ) {
+      return null;
+    }
+    try {
+      const url = new URL(href, pageUrl);
+      url.hash = "";
+      return url.href;
+    } catch (error) {
+      return null;
+    }
+  };
+
+  // Pagination links often sit in a <nav>, so find the next page first
+  const nextPage = resolve(
+    $('link[rel="next"]').attr("href") ||
+      $('a[rel="next"]').attr("href") ||
+      $("a.next, .pagination a.next, .nav-links a.next").attr("href")
+  );
+
+  // Navigation and page chrome link to everything; only read the content
+  $("header, nav, footer, aside, script, style, noscript").remove();
+
+  const links: Array<{ url: string; text: string }> = [];
+  $("a[href]").each((_, el) => {
+    const url = resolve($(el).attr("href"));
+    if (url) {
+      links.push({
+        url,
+        text: $(el).text().replace(/\s+/g, " ").trim(),
+      });
+    }
+  });
+
+  return { links, nextPage };
+}
+
+/**
+ * Crawls a listing, category or sitemap page and finds the recipe links on it
+ * @param listingUrl The page to crawl
+ * @returns The links that look like recipes, or null if the listing page
+ *   could not be fetched
+ */
+export async function discoverRecipeLinks(
+  listingUrl: string
+): Promise<CrawlListingResult | null> {
+  const startUrl = normalizeImportUrl(listingUrl);
+  if (!startUrl) {
+    return null;
+  }
+
+  const deadline = Date.now() + CRAWL_TIME_BUDGET_MS;
+  const origin = new URL(startUrl);
+  const listingQueue = [startUrl];
+  const visitedListings = new Set<string>();
+  let pagesFetched = 0;
+  let truncated = false;
+
+  // Candidate links by canonical URL, in the order they were found
+  const candidates = new Map<string, { url: string; text: string }>();
+
+  const addCandidate = (rawUrl: string, text: string) => {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch (error) {
+      return;
+    }
+
+    if (
+      (url.protocol !== "http:" && url.protocol !== "https:") ||
+      !sameHost(url, origin) ||
+      url.pathname === "/" ||
+      EXCLUDED_PATHS.test(url.pathname) ||
+      EXCLUDED_EXTENSIONS.test(url.pathname)
+    ) {
+      return;
+    }
+
+    const canonicalUrl = canonicalizeSourceUrl(url.href);
+    if (
+      !canonicalUrl ||
+      canonicalUrl === canonicalizeSourceUrl(startUrl) ||
+      candidates.has(canonicalUrl)
+    ) {
+      return;
+    }
+
+    candidates.set(canonicalUrl, { url: url.href, text });
+  };
+
+  // Read the listing, following pagination and child sitemaps
+  while (listingQueue.length > 0) {
+    const pageUrl = listingQueue.shift() as string;
+    if (visitedListings.has(pageUrl)) continue;
+
+    if (
+      visitedListings.size >= MAX_LISTING_PAGES ||
+      pagesFetched >= MAX_CRAWL_PAGES ||
+      Date.now() >= deadline
+    ) {
+      truncated = true;
+      break;
+    }
+    visitedListings.add(pageUrl);
+
+    const content = await fetchCrawlPage(pageUrl, deadline);
+    pagesFetched++;
+    if (!content) {
+      if (pageUrl === startUrl) return null;
+      continue;
+    }
+
+    if (isSitemap(content)) {
+      const { pages, sitemaps } = readSitemap(content);
+      pages.forEach((page) => addCandidate(page, ""));
+
+      // Recipe and post sitemaps are the useful ones in a sitemap index
+      sitemaps
+        .filter((sitemap) => sameHost(new URL(sitemap, pageUrl), origin))
+        .sort(
+          (a, b) =>
+            Number(/recipe|post/i.test(b)) - Number(/recipe|post/i.test(a))
+        )
+        .forEach((sitemap) => listingQueue.push(sitemap));
+    } else {
+      const { links, nextPage } = readListingPage(content, pageUrl);
+      links.forEach((link) => addCandidate(link.url, link.text));
+      if (nextPage && sameHost(new URL(nextPage), origin)) {
+        listingQueue.push(nextPage);
+      }
+    }
+  }
+
+  // Check links for a JSON-LD recipe, those that already read like recipes
+  // first, until the page limit or time budget runs out
+  const entries = Array.from(candidates.values()).map((candidate) => {
+    const url = new URL(candidate.url);
+    const reasons: DiscoveredLinkReason[] = RECIPE_KEYWORDS.test(
+      `${url.pathname.replace(/[-_/]+/g, " ")} ${candidate.text}`
+    )
+      ? ["keywords"]
+      : [];
+    return {
+      url: candidate.url,
+      title: candidate.text || titleFromUrl(url),
+      reasons,
+    };
+  });
+
+  const checkOrder = [...entries].sort(
+    (a, b) => b.reasons.length - a.reasons.length
+  );
+  for (const entry of checkOrder) {
+    if (pagesFetched >= MAX_CRAWL_PAGES || Date.now() >= deadline) {
+      truncated = true;
+      break;
+    }
+
+    const html = await fetchCrawlPage(entry.url, deadline);
+    pagesFetched++;
+    if (html && hasJsonLdRecipe(html)) {
+      entry.reasons.unshift("jsonLd");
+    }
+  }
+
+  const links: DiscoveredRecipeLink[] = entries
+    .filter((entry) => entry.reasons.length > 0)
+    .slice(0, MAX_URLS_PER_JOB)
+    .map(({ url, title, reasons }) => ({ url, title, reasons }));
+
+  console.log(
+    `Crawled ${startUrl}: ${pagesFetched} pages fetched, ${links.length} of ${
+      entries.length
+    } links look like recipes${
+      truncated ? " (stopped at page or time limit)" : ""
+    }`
+  );
+
+  return {
+    listingUrl: startUrl,
+    links,
+    pagesFetched,
+    truncated,
+  };
+}
+
+// Export the module
+export default {
+  discoverRecipeLinks,
+};
@@ -0,0 +1,243 @@
+/**
+ * LLM Service
+ *
+ * Provider layer for chat completions that return JSON. The provider is chosen
+ * by configuration so imports can run against OpenAI, a local OpenAI-compatible
+ * server (llama.cpp, Ollama, etc.) or canned fixtures without code changes.
+ *
+ * Environment variables:
+ *   LLM_PROVIDER  "openai" (default), "local" or "fixture"
+ *   LLM_MODEL     Model name (defaults depend on the provider)
+ *   LLM_BASE_URL  Base URL of the local server (default http://localhost:11434/v1)
+ *   LLM_API_KEY   API key for the local server, if it requires one
+ */
+
+import OpenAI from "openai";
+
+/**
+ * The kinds of requests the app makes, used by the fixture provider to pick a
+ * canned response
+ */
+export type LLMTask =
+  | "recipe-extraction"
+  | "recipe-chunk-extraction"
+  | "multi-recipe-extraction"
+  | "tag-generation";
+
+/**
+ * A single chat-completion request whose response must be a JSON object
+ */
+export interface JsonCompletionRequest {
+  task: LLMTask;
+  systemPrompt: string;
+  userPrompt: string;
+  temperature?: number;
+}
+
+/**
+ * A chat-completion provider that returns the raw JSON text of the response
+ */
+export interface LLMProvider {
+  name: string;
+  model: string;
+  completeJson: (request: JsonCompletionRequest) => Promise<string | null>;
+}
+
+const DEFAULT_OPENAI_MODEL = "gpt-4-turbo-preview";
+const DEFAULT_LOCAL_MODEL = "llama3.1";
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Creates a provider backed by any OpenAI-compatible chat completions API
+ */
+function createChatCompletionsProvider(
+  name: string,
+  client: OpenAI,
+  model: string
+): LLMProvider {
+  return {
+    name,
+    model,
+    completeJson: async (request) => {
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [
+          { role: "system", content: request.systemPrompt },
+          { role: "user", content: request.userPrompt },
+        ],
+        temperature: request.temperature ?? 0.2,
+        response_format: { type: "json_object" },
+      });
+
+      return completion.choices[0]?.message.content?.trim() || null;
+    },
+  };
+}
+
+/**
+ * Creates a provider that calls the OpenAI API
+ */
+export function createOpenAIProvider(
+  apiKey = process.env.OPENAI_API_KEY,
+  model = process.env.LLM_MODEL || DEFAULT_OPENAI_MODEL
+): LLMProvider {
+  return createChatCompletionsProvider("OpenAI", new OpenAI({ apiKey }), model);
+}
+
+/**
+ * Creates a provider that calls a local OpenAI-compatible server
+ */
+export function createLocalProvider(
+  baseURL = process.env.LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+  model = process.env.LLM_MODEL || DEFAULT_LOCAL_MODEL
+): LLMProvider {
+  // Local servers usually ignore the key, but the client requires one
+  const client = new OpenAI({
+    apiKey: process.env.LLM_API_KEY || "local",
+    baseURL,
+  });
+  return createChatCompletionsProvider(`local LLM (${baseURL})`, client, model);
+}
+
+/**
+ * Canned responses returned by the fixture provider for each task
+ */
+const FIXTURE_RESPONSES: Record<LLMTask, unknown> = {
+  "recipe-extraction": {
+    title: "Fixture Pancakes",
+    description: "A deterministic recipe returned by the fixture LLM provider.",
+    ingredients: [
+      { text: "1 1/2 cups all-purpose flour" },
+      { text: "2 tbsp sugar" },
+      { text: "1 tbsp baking powder" },
+      { text: "1 1/4 cups milk" },
+      { text: "1 egg" },
+      { text: "3 tbsp butter (melted)" },
+      { text: "1 cup blueberries", optional: true },
+    ],
+    instructions: [
+      { text: "Whisk the flour, sugar and baking powder together." },
+      { text: "Whisk in the milk, egg and melted butter until just combined." },
+      { text: "Cook 1/4 cup portions on a hot griddle until golden." },
+    ],
+    cookingTime: 20,
+    servings: 4,
+    imageUrl: "",
+    tags: ["breakfast", "easy"],
+  },
+  "recipe-chunk-extraction": {
+    title: "Fixture Pancakes",
+    ingredients: [
+      { text: "1 1/2 cups all-purpose flour" },
+      { text: "2 tbsp sugar" },
+      { text: "1 tbsp baking powder" },
+      { text: "1 1/4 cups milk" },
+      { text: "1 egg" },
+    ],
+    instructions: [
+      { text: "Whisk the flour, sugar and baking powder together." },
+      { text: "Whisk in the milk and egg until just combined." },
+    ],
+  },
+  "multi-recipe-extraction": {
+    recipes: [
+      {
+        startLine: 1,
+        endLine: 12,
+        title: "Fixture Roast Potatoes",
+        description: "Crisp roast potatoes from the fixture LLM provider.",
+        ingredients: [
+          { text: "2 lb potatoes (peeled and quartered)" },
+          { text: "3 tbsp olive oil" },
+          { text: "1 tsp salt" },
+        ],
+        instructions: [
+          { text: "Parboil the potatoes for 8 minutes, then drain." },
+          {
+            text: "Toss with the oil and salt and roast at 425°F for 45 minutes.",
+          },
+        ],
+        cookingTime: 55,
+        servings: 4,
+        tags: ["side dish"],
+      },
+      {
+        startLine: 13,
+        endLine: 24,
+        title: "Fixture Gravy",
+        description: "A simple gravy from the fixture LLM provider.",
+        ingredients: [
+          { text: "2 tbsp butter" },
+          { text: "2 tbsp flour" },
+          { text: "2 cups stock" },
+        ],
+        instructions: [
+          { text: "Melt the butter and whisk in the flour." },
+          { text: "Whisk in the stock and simmer until thickened." },
+        ],
+        cookingTime: 10,
+        servings: 6,
+        tags: ["sauce"],
+      },
+    ],
+  },
+  "tag-generation": {
+    tags: ["dinner", "easy"],
+  },
+};
+
+/**
+ * Creates a provider that returns deterministic canned responses, for local
+ * development without an API key
+ */
+export function createFixtureProvider(): LLMProvider {
+  return {
+    name: "fixture",
+    model: "fixture",
+    completeJson: async (request) =>
+      JSON.stringify(FIXTURE_RESPONSES[request.task] ?? {}),
+  };
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Returns the configured LLM provider, creating it on first use
+ */
+export function getLLMProvider(): LLMProvider {
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+
+  const providerName = (process.env.LLM_PROVIDER || "openai").toLowerCase();
+
+  switch (providerName) {
+    case "local":
+      cachedProvider = createLocalProvider();
+      break;
+    case "fixture":
+      cachedProvider = createFixtureProvider();
+      break;
+    case "openai":
+      cachedProvider = createOpenAIProvider();
+      break;
+    default:
+      console.warn(
+        `Unknown LLM_PROVIDER "${providerName}", falling back to OpenAI`
+      );
+      cachedProvider = createOpenAIProvider();
+  }
+
+  console.log(
+    `Using ${cachedProvider.name} LLM provider with model ${cachedProvider.model}`
+  );
+  return cachedProvider;
+}
+
+// Export the module
+export default {
+  getLLMProvider,
+  createOpenAIProvider,
+  createLocalProvider,
+  createFixtureProvider,
+};
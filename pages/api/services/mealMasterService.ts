@@ -0,0 +1,443 @@
+/**
+ * MealMaster Service
+ *
+ * Deterministic parser for MealMaster (.mmf) recipe files. A file can hold
+ * many recipes, each in a block like:
+ *
+ *   MMMMM----- Recipe via Meal-Master (tm) v8.05
+ *
+ *        Title: Chocolate Cake
+ *   Categories: Desserts, Cakes
+ *        Yield: 12 servings
+ *
+ *         2    c  Flour
+ *         1    ts Salt
+ *
+ *   MMMMM--------------------------FROSTING-------------------------
+ *         1    c  Sugar
+ *
+ *     Mix the flour and salt...
+ *
+ *   MMMMM
+ *
+ * Ingredient lines use fixed columns: quantity in columns 0-6, unit in 8-9 and
+ * the ingredient from column 11, optionally with a second ingredient column
+ * starting at column 41. Older exports use "-----" instead of "MMMMM".
+ */
+
+import {
+  IngredientItem,
+  IngredientSection,
+  IngredientType,
+  InstructionItem,
+  Recipe,
+} from "../../../src/types/recipe";
+
+// Start of a recipe block, e.g. "MMMMM----- Recipe via Meal-Master (tm) v8.05"
+const BLOCK_START = /^(?:MMMMM|-----)-*\s*Recipe via Meal-Master/i;
+
+// End of a recipe block: a line with only the delimiter
+const BLOCK_END = /^(?:MMMMM|-----)\s*$/;
+
+// Section heading inside a block, e.g. "MMMMM-----FROSTING-----"
+const SECTION_HEADING = /^(?:MMMMM|-----)-*\s*([^-].*?)\s*-*\s*$/;
+
+// Column where the second ingredient column starts in two-column layouts
+const SECOND_COLUMN = 41;
+
+// MealMaster unit abbreviations and how we write them out
+const UNITS: Record<string, string> = {
+  x: "",
+  sm: "small",
+  md: "medium",
+  lg: "large",
+  cn: "can",
+  pk: "package",
+  pn: "pinch",
+  dr: "drop",
+  ds: "dash",
+  ct: "carton",
+  bn: "bunch",
+  sl: "slice",
+  ea: "each",
+  t: "tsp",
+  ts: "tsp",
+  T: "tbsp",
+  tb: "tbsp",
+  fl: "fl oz",
+  c: "cup",
+  pt: "pint",
+  qt: "quart",
+  ga: "gallon",
+  oz: "oz",
+  lb: "lb",
+  ml: "ml",
+  cb: "cubic cm",
+  cl: "cl",
+  dl: "dl",
+  l: "liter",
+  mg: "mg",
+  cg: "cg",
+  dg: "dg",
+  g: "g",
+  kg: "kg",
+};
+
+// Written-out units that take a plural form for quantities over one
+const COUNTABLE_UNITS = [
+  "can",
+  "package",
+  "pinch",
+  "drop",
+  "dash",
+  "carton",
+  "bunch",
+  "slice",
+  "cup",
+  "pint",
+  "quart",
+  "gallon",
+  "liter",
+];
+
+/**
+ * Writes out a MealMaster unit, pluralized to match the quantity
+ * (e.g. "1 1/2" and "c" become "cups")
+ */
+function formatUnit(unit: string, quantity: string): string {
+  const name = UNITS[unit] || "";
+  if (!COUNTABLE_UNITS.includes(name)) {
+    return name;
+  }
+
+  // Use the largest number in the quantity, so ranges like "1-2" count as 2
+  const amounts = quantity.split("-").map((part) =>
+    part
+      .trim()
+      .split(/\s+/)
+      .reduce((total, piece) => {
+        const [numerator, denominator] = piece.split("/").map(Number);
+        return total + (denominator ? numerator / denominator : numerator || 0);
+      }, 0)
+  );
+
+  if (Math.max(...amounts) <= 1) {
+    return name;
+  }
+  return /(ch|sh)$/.test(name) ? `${name}es` : `${name}s`;
+}
+
+/**
+ * Checks whether text contains at least one MealMaster recipe block
+ */
+export function isMealMasterText(content: string): boolean {
+  return content.split(/\r?\n/).some((line) => BLOCK_START.test(line.trim()));
+}
+
+/**
+ * Splits MealMaster text into the lines of each recipe block
+ */
+function splitBlocks(content: string): string[][] {
+  const blocks: string[][] = [];
+  let current: string[] | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\t/g, "        ").replace(/\s+$/, "");
+
+    if (BLOCK_START.test(line.trim())) {
+      // A new header also ends a block that was missing its end marker
+      if (current) blocks.push(current);
+      current = [];
+    } else if (current && BLOCK_END.test(line.trim())) {
+      blocks.push(current);
+      current = null;
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  if (current) blocks.push(current);
+  return blocks;
+}
+
+/**
+ * Parses one fixed-column ingredient, returning null if the text doesn't
+ * follow the MealMaster column layout
+ * @returns The ingredient text, and whether it continues the previous line
+ */
+function parseIngredientColumn(
+  column: string
+): { text: string; continuation: boolean } | null {
+  const quantity = column.slice(0, 7);
+  const unit = column.slice(8, 10).trim();
+  const name = column.slice(11).trim();
+
+  if (
+    !/^[\d\s./-]*$/.test(quantity) ||
+    (column.length > 7 && column[7] !== " ") ||
+    (column.length > 10 && column[10] !== " ") ||
+    (unit && !(unit in UNITS)) ||
+    !name
+  ) {
+    return null;
+  }
+
+  // Lines starting with "-" continue the previous ingredient
+  if (!quantity.trim() && !unit && name.startsWith("-")) {
+    return { text: name.replace(/^-+\s*/, ""), continuation: true };
+  }
+
+  const unitText = unit ? formatUnit(unit, quantity) : "";
+  const text = [quantity.trim(), unitText, name].filter(Boolean).join(" ");
+  return { text, continuation: false };
+}
+
+/**
+ * Parses an ingredient line, which may hold one or two ingredient columns
+ * @returns The ingredients on the line keyed by column (0 = left, 1 = right),
+ *   or null if the line isn't an ingredient line
+ */
+function parseIngredientLine(
+  line: string
+): Array<{ column: number; text: string; continuation: boolean }> | null {
+  const leftText = line.slice(0, SECOND_COLUMN).trimEnd();
+  const rightText =
+    line.length > SECOND_COLUMN && line[SECOND_COLUMN - 1] === " "
+      ? line.slice(SECOND_COLUMN)
+      : "";
+
+  const right = rightText ? parseIngredientColumn(rightText) : null;
+
+  // Only the right column is filled in, e.g. a continuation of its ingredient
+  if (!leftText.trim()) {
+    return right ? [{ column: 1, ...right }] : null;
+  }
+
+  if (right) {
+    const left = parseIngredientColumn(leftText);
+    return left
+      ? [
+          { column: 0, ...left },
+          { column: 1, ...right },
+        ]
+      : null;
+  }
+
+  // Not a two-column line, so the whole line is one ingredient
+  const single = parseIngredientColumn(line);
+  return single ? [{ column: 0, ...single }] : null;
+}
+
+/**
+ * Adds ingredients from one group of lines (between section headings),
+ * reading the left column before the right column
+ */
+function addIngredientGroup(
+  lines: string[],
+  target: Array<IngredientItem | IngredientSection>
+) {
+  const columns: IngredientItem[][] = [[], []];
+
+  for (const line of lines) {
+    for (const ingredient of parseIngredientLine(line) || []) {
+      const column = columns[ingredient.column];
+      const previous = column[column.length - 1];
+
+      if (ingredient.continuation && previous) {
+        previous.text = `${previous.text} ${ingredient.text}`;
+      } else {
+        column.push({ text: ingredient.text });
+      }
+    }
+  }
+
+  target.push(...columns[0], ...columns[1]);
+}
+
+/**
+ * Turns the direction lines into steps: blank lines or numbered lines start a
+ * new step, and wrapped lines are joined
+ */
+function parseDirections(lines: string[]): InstructionItem[] {
+  const steps: string[] = [];
+  let current: string[] = [];
+
+  const finishStep = () => {
+    if (current.length > 0) {
+      steps.push(current.join(" "));
+      current = [];
+    }
+  };
+
+  for (const line of lines) {
+    const text = line.trim();
+    if (!text) {
+      finishStep();
+      continue;
+    }
+
+    // Section headings in the directions don't map to steps
+    if (SECTION_HEADING.test(text)) {
+      finishStep();
+      continue;
+    }
+
+    const numbered = text.match(/^\d+[.)]\s+(.*)$/);
+    if (numbered) {
+      finishStep();
+      current.push(numbered[1]);
+    } else {
+      current.push(text);
+    }
+  }
+  finishStep();
+
+  return steps.map((step) => ({ text: step.replace(/\s+/g, " ") }));
+}
+
+/**
+ * Parses a single MealMaster recipe block
+ * @param lines The lines between the block's start and end markers
+ * @param availableTags Optional tag names to match the categories against
+ * @returns The recipe, or null if the block has no title, ingredients or
+ *   directions
+ */
+function parseBlock(lines: string[], availableTags?: string[]): Recipe | null {
+  let title = "";
+  let categories: string[] = [];
+  let servings: number | undefined;
+  let index = 0;
+
+  // Header: Title, Categories and Yield/Servings lines
+  for (; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (!line) {
+      if (title) {
+        // The header ends at the first blank line after the title
+        const next = lines.slice(index + 1).find((l) => l.trim());
+        if (
+          !next ||
+          !/^(Title|Categories|Yield|Servings):/i.test(next.trim())
+        ) {
+          index++;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const header = line.match(/^(Title|Categories|Yield|Servings):\s*(.*)$/i);
+    if (!header) break;
+
+    const [, field, value] = header;
+    switch (field.toLowerCase()) {
+      case "title":
+        title = value.trim();
+        break;
+      case "categories":
+        categories = value
+          .split(",")
+          .map((category) => category.trim())
+          .filter((category) => category && category.toLowerCase() !== "none");
+        break;
+      default: {
+        const match = value.match(/\d+/);
+        servings = match ? parseInt(match[0], 10) || undefined : undefined;
+      }
+    }
+  }
+
+  // Ingredients run until the first line that isn't an ingredient, a heading
+  // or blank; everything after that is directions
+  const ingredients: IngredientType[] = [];
+  let currentSection: IngredientSection | null = null;
+  let group: string[] = [];
+
+  const flushGroup = () => {
+    addIngredientGroup(
+      group,
+      currentSection ? currentSection.ingredients : ingredients
+    );
+    group = [];
+  };
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      continue;
+    }
+
+    const heading = trimmed.match(SECTION_HEADING);
+    if (heading) {
+      flushGroup();
+      currentSection = { sectionTitle: heading[1].trim(), ingredients: [] };
+      ingredients.push(currentSection);
+      continue;
+    }
+
+    if (!parseIngredientLine(line)) {
+      break;
+    }
+    group.push(line);
+  }
+  flushGroup();
+
+  const instructions = parseDirections(lines.slice(index));
+
+  // Drop headings that turned out to have no ingredients under them
+  const filteredIngredients = ingredients.filter(
+    (item) => !("sectionTitle" in item) || item.ingredients.length > 0
+  );
+
+  if (!title || filteredIngredients.length === 0 || instructions.length === 0) {
+    return null;
+  }
+
+  const lowerCategories = categories.map((category) => category.toLowerCase());
+  const tags = (availableTags || []).filter((tag) =>
+    lowerCategories.includes(tag.toLowerCase())
+  );
+
+  return {
+    title,
+    description: title,
+    ingredients: filteredIngredients,
+    instructions,
+    servings,
+    // Tags are returned as names and matched to tag IDs when saving
+    tags: tags as any,
+  };
+}
+
+/**
+ * Parses every recipe in MealMaster text
+ * @param content The text of the .mmf file or pasted content
+ * @param availableTags Optional tag names to match the categories against
+ * @returns One recipe per valid block
+ */
+export function parseMealMaster(
+  content: string,
+  availableTags?: string[]
+): Recipe[] {
+  const recipes: Recipe[] = [];
+
+  for (const block of splitBlocks(content)) {
+    const recipe = parseBlock(block, availableTags);
+    if (recipe) {
+      recipes.push(recipe);
+    } else {
+      console.log("Skipping MealMaster block without a complete recipe");
+    }
+  }
+
+  console.log(`Parsed ${recipes.length} recipes from MealMaster text`);
+  return recipes;
+}
+
+// Export the module
+export default {
+  isMealMasterText,
+  parseMealMaster,
+};
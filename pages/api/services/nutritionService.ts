@@ -0,0 +1,484 @@
+/**
+ * Nutrition Service
+ *
+ * Estimates a recipe's nutrition from its ingredients using the bundled
+ * nutrient table, without calling an external API. Each ingredient's name is
+ * matched to a food in the table and its amount converted to grams (by weight,
+ * by volume using the food's density, or by count using a typical size), then
+ * the nutrients are added up for the whole recipe and per serving. Matches
+ * that are partial or rely on a guessed weight are flagged as low confidence,
+ * and the recipe's owner can choose a different match for any ingredient.
+ */
+
+import {
+  IngredientItem,
+  IngredientType,
+  NutrientValues,
+  NutritionEstimate,
+  NutritionFood,
+  NutritionIngredientMatch,
+  NutritionOverride,
+} from "../../../src/types/recipe";
+import {
+  parseIngredient,
+  splitIngredientAmount,
+} from "../../../src/utils/ingredientParser";
+import { readEquivalentAmount } from "../../../src/utils/recipeScaling";
+import { toBaseUnit } from "../../../src/utils/unitConversion";
+import { NUTRIENT_FOODS, NutrientFood } from "../data/nutrientTable";
+
+// Millilitres in a cup, to apply a food's grams per cup to a volume
+const CUP_ML = 236.588;
+
+// Weights used when a food doesn't have its own, in grams
+const DEFAULT_UNIT_WEIGHTS: Record<string, number> = {
+  pinch: 0.4,
+  dash: 0.6,
+  drop: 0.05,
+  can: 400,
+  handful: 30,
+};
+
+// Words in an ingredient name that don't say what the food is
+const NAME_NOISE_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "or",
+  "of",
+  "the",
+  "for",
+  "to",
+  "plus",
+  "more",
+  "fresh",
+  "large",
+  "medium",
+  "small",
+  "extra",
+  "organic",
+  "ripe",
+  "raw",
+  "good",
+  "quality",
+  "homemade",
+  "store-bought",
+]);
+
+// A food matched to an ingredient name
+interface FoodMatch {
+  food: NutrientFood;
+  // Whether the alias covered most of the name
+  partial: boolean;
+}
+
+// Foods by id, for overrides
+const FOODS_BY_ID = new Map(NUTRIENT_FOODS.map((food) => [food.id, food]));
+
+/**
+ * Returns a set of nutrient values that are all zero
+ */
+function emptyNutrients(): NutrientValues {
+  return {
+    calories: 0,
+    protein: 0,
+    fat: 0,
+    saturatedFat: 0,
+    carbohydrates: 0,
+    fiber: 0,
+    sugar: 0,
+    sodium: 0,
+    potassium: 0,
+    calcium: 0,
+    iron: 0,
+    vitaminC: 0,
+  };
+}
+
+/**
+ * Makes a word singular, roughly: "tomatoes" becomes "tomato", "berries"
+ * becomes "berry" and "leaves" becomes "leaf"
+ */
+function singular(word: string): string {
+  if (word === "leaves") return "leaf";
+  if (/[^aeiou]ies$/.test(word)) return word.slice(0, -3) + "y";
+  if (/(?:oes|ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Splits a name into lower case, singular words
+ */
+function nameWords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-zà-ÿ'\s-]/g, " ")
+    .split(/[\s-]+/)
+    .map((word) => word.replace(/^'+|'+$/g, ""))
+    .filter(Boolean)
+    .map(singular);
+}
+
+// A food's alias, split into words
+interface FoodAlias {
+  food: NutrientFood;
+  words: string[];
+}
+
+// Every alias as words, longest first so the most specific alias wins
+const ALIAS_INDEX: FoodAlias[] = NUTRIENT_FOODS.flatMap((food) =>
+  food.aliases.map((alias) => ({ food, words: nameWords(alias) }))
+).sort((a, b) => b.words.length - a.words.length);
+
+/**
+ * Finds where a run of words appears in a name
+ * @returns The index just after the last matching word, or -1 if it doesn't
+ *   appear
+ */
+function findWords(name: string[], words: string[]): number {
+  for (let start = name.length - words.length; start >= 0; start--) {
+    if (words.every((word, index) => name[start + index] === word)) {
+      return start + words.length;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Finds the most specific alias in some words: the longest, and between
+ * equally long aliases the one nearest the end, since that's usually what the
+ * food is ("chicken sausage" is a sausage)
+ */
+function findAlias(words: string[]): FoodAlias | undefined {
+  let best: { alias: FoodAlias; end: number } | undefined;
+  for (const alias of ALIAS_INDEX) {
+    if (best && alias.words.length < best.alias.words.length) break;
+    const end = findWords(words, alias.words);
+    if (end >= 0 && (!best || end > best.end)) {
+      best = { alias, end };
+    }
+  }
+  return best?.alias;
+}
+
+/**
+ * Finds the food in the table that best matches an ingredient name
+ * @param name The ingredient's name, e.g. "unsalted butter"
+ * @param line The whole ingredient line, which may hold a more specific name
+ *   ("diced tomatoes", where the parser took "diced" as preparation)
+ * @returns The food, or null if nothing in the table matches
+ */
+export function matchFood(name: string, line = ""): FoodMatch | null {
+  // What comes after "with" describes the food rather than naming it
+  const words = nameWords(name.split(/\s+(?:with|in)\s+/i)[0]);
+  const fromName = findAlias(words);
+  if (!fromName) {
+    return null;
+  }
+
+  const fromLine = findAlias(nameWords(line));
+  const best =
+    fromLine &&
+    fromLine.words.length > fromName.words.length &&
+    findWords(fromLine.words, fromName.words) >= 0
+      ? fromLine
+      : fromName;
+
+  // A match on one word of a long name ("chicken" in "chicken and leek pie
+  // filling") may well be the wrong food
+  const significant = words.filter((word) => !NAME_NOISE_WORDS.has(word));
+  return {
+    food: best.food,
+    partial: fromName.words.length / Math.max(1, significant.length) < 0.5,
+  };
+}
+
+/**
+ * Works out how many grams an amount of a food weighs
+ * @returns The weight and whether it had to be guessed, or null if it can't
+ *   be worked out
+ */
+function amountInGrams(
+  quantity: number,
+  unit: string | undefined,
+  packageSize: string | undefined,
+  food: NutrientFood
+): { grams: number; estimated: boolean } | null {
+  // A count of packages of a given size, e.g. "2 x 400g tins"
+  if (packageSize) {
+    const size = splitIngredientAmount(packageSize);
+    const weight =
+      size && size.unit
+        ? amountInGrams(size.quantity, size.unit, undefined, food)
+        : null;
+    return weight
+      ? { grams: quantity * weight.grams, estimated: weight.estimated }
+      : null;
+  }
+
+  if (unit === "mg") {
+    return { grams: quantity / 1000, estimated: false };
+  }
+
+  const measured = unit ? toBaseUnit(quantity, unit) : null;
+  if (measured && measured.measure === "weight") {
+    return { grams: measured.value, estimated: false };
+  }
+  if (measured && measured.measure === "volume") {
+    // Without a density, assume it weighs about the same as water
+    return {
+      grams: (measured.value / CUP_ML) * (food.gramsPerCup || CUP_ML),
+      estimated: !food.gramsPerCup,
+    };
+  }
+
+  const unitWeight = food.unitWeights?.[unit || "each"];
+  if (unitWeight !== undefined) {
+    return { grams: quantity * unitWeight, estimated: false };
+  }
+  if (unit && DEFAULT_UNIT_WEIGHTS[unit] !== undefined) {
+    return { grams: quantity * DEFAULT_UNIT_WEIGHTS[unit], estimated: true };
+  }
+  return null;
+}
+
+/**
+ * Works out how one ingredient counts towards the estimate
+ * @param text The ingredient line
+ * @param override The food the user chose for it, if any
+ */
+function matchIngredient(
+  text: string,
+  override?: NutritionOverride
+): { match: NutritionIngredientMatch; food?: NutrientFood } {
+  if (override && override.foodId === null) {
+    return {
+      match: {
+        text,
+        confidence: "none",
+        note: "Left out of the estimate",
+        overridden: true,
+      },
+    };
+  }
+
+  const overrideFood = override?.foodId
+    ? FOODS_BY_ID.get(override.foodId)
+    : undefined;
+  const matched = overrideFood
+    ? { food: overrideFood, partial: false }
+    : matchFood(parseIngredient(text).ingredient, text);
+  if (!matched) {
+    return {
+      match: { text, confidence: "none", note: "No match in the food table" },
+    };
+  }
+
+  const food = matched.food;
+  const base: NutritionIngredientMatch = {
+    text,
+    food: { id: food.id, name: food.name },
+    confidence: "high",
+    ...(overrideFood ? { overridden: true } : {}),
+  };
+
+  const amount = splitIngredientAmount(text);
+  if (!amount) {
+    return {
+      match: { ...base, confidence: "none", note: "No amount given" },
+    };
+  }
+
+  // Ranges count as their midpoint
+  const quantity =
+    amount.quantityMax !== undefined
+      ? (amount.quantity + amount.quantityMax) / 2
+      : amount.quantity;
+
+  // A weight given alongside a volume ("1 cup (120g) flour") is the most
+  // accurate amount there is. A package size ("2 (14 oz) cans") is not an
+  // equivalent: it's counted once per package below.
+  const equivalent = readEquivalentAmount(amount);
+  const equivalentWeight =
+    equivalent && equivalent.amount.unit
+      ? toBaseUnit(equivalent.amount.quantity, equivalent.amount.unit)
+      : null;
+  const weight =
+    equivalentWeight && equivalentWeight.measure === "weight"
+      ? { grams: equivalentWeight.value, estimated: false }
+      : amountInGrams(quantity, amount.unit, amount.packageSize, food);
+
+  if (!weight) {
+    return {
+      match: {
+        ...base,
+        confidence: "none",
+        note: "Couldn't work out how much this weighs",
+      },
+    };
+  }
+
+  const grams = Math.round(weight.grams * 10) / 10;
+  if (weight.estimated) {
+    return {
+      match: { ...base, grams, confidence: "low", note: "Weight estimated" },
+      food,
+    };
+  }
+  if (matched.partial) {
+    return {
+      match: {
+        ...base,
+        grams,
+        confidence: "low",
+        note: "Only part of the name matched",
+      },
+      food,
+    };
+  }
+  return { match: { ...base, grams }, food };
+}
+
+/**
+ * Lists every ingredient line in a recipe, including those in sections
+ */
+function ingredientLines(
+  ingredients: Array<IngredientType | string>
+): string[] {
+  return ingredients.flatMap((item) => {
+    if (typeof item === "string") return [item];
+    if (!item) return [];
+    if ("sectionTitle" in item) return ingredientLines(item.ingredients || []);
+    return [(item as IngredientItem).text];
+  });
+}
+
+/**
+ * Normalizes an ingredient line for matching it to an override
+ */
+function overrideKey(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Rounds every value to one decimal place
+ */
+function roundNutrients(values: NutrientValues): NutrientValues {
+  const rounded = emptyNutrients();
+  (Object.keys(values) as Array<keyof NutrientValues>).forEach((key) => {
+    rounded[key] = Math.round(values[key] * 10) / 10;
+  });
+  return rounded;
+}
+
+/**
+ * Estimates a recipe's nutrition from its ingredients
+ * @param recipe The recipe's ingredients, servings count and any matches the
+ *   user chose
+ * @returns Totals for the whole recipe, per-serving values when it has a
+ *   servings count, and how each ingredient was counted
+ */
+export function estimateNutrition(recipe: {
+  ingredients: Array<IngredientType | string>;
+  servings?: number;
+  nutritionOverrides?: NutritionOverride[];
+}): NutritionEstimate {
+  const overrides = new Map(
+    (recipe.nutritionOverrides || []).map((override) => [
+      overrideKey(override.ingredient),
+      override,
+    ])
+  );
+
+  const total = emptyNutrients();
+  const ingredients = ingredientLines(recipe.ingredients || [])
+    .filter((text) => text && text.trim())
+    .map((text) => {
+      const { match, food } = matchIngredient(
+        text,
+        overrides.get(overrideKey(text))
+      );
+      if (food && match.grams) {
+        (Object.keys(total) as Array<keyof NutrientValues>).forEach((key) => {
+          total[key] += (food.per100g[key] * match.grams!) / 100;
+        });
+      }
+      return match;
+    });
+
+  const estimate: NutritionEstimate = {
+    total: roundNutrients(total),
+    ingredients,
+  };
+  if (recipe.servings && recipe.servings > 0) {
+    const perServing = emptyNutrients();
+    (Object.keys(total) as Array<keyof NutrientValues>).forEach((key) => {
+      perServing[key] = total[key] / recipe.servings!;
+    });
+    estimate.perServing = roundNutrients(perServing);
+    estimate.servings = recipe.servings;
+  }
+  return estimate;
+}
+
+/**
+ * Lists the foods in the table, for choosing a match by hand
+ */
+export function listFoods(): NutritionFood[] {
+  return NUTRIENT_FOODS.map((food) => ({ id: food.id, name: food.name })).sort(
+    (a, b) => a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Checks whether a food id is in the table
+ */
+export function isKnownFood(foodId: string): boolean {
+  return FOODS_BY_ID.has(foodId);
+}
+
+/**
+ * Checks whether a recipe has an ingredient line, for validating overrides
+ */
+export function hasIngredient(
+  ingredients: Array<IngredientType | string>,
+  text: string
+): boolean {
+  const key = overrideKey(text);
+  return ingredientLines(ingredients || []).some(
+    (line) => overrideKey(line) === key
+  );
+}
+
+/**
+ * Sets (or clears) the match the user chose for an ingredient
+ * @param overrides The recipe's current overrides
+ * @param ingredient The ingredient line
+ * @param foodId A food id, null to leave the ingredient out, or undefined to
+ *   go back to the automatic match
+ * @returns The new list of overrides
+ */
+export function setOverride(
+  overrides: NutritionOverride[],
+  ingredient: string,
+  foodId: string | null | undefined
+): NutritionOverride[] {
+  const key = overrideKey(ingredient);
+  const others = (overrides || []).filter(
+    (override) => overrideKey(override.ingredient) !== key
+  );
+  return foodId === undefined
+    ? others
+    : [...others, { ingredient: ingredient.trim(), foodId }];
+}
+
+// Export the module
+export default {
+  matchFood,
+  estimateNutrition,
+  listFoods,
+  isKnownFood,
+  hasIngredient,
+  setOverride,
+};
@@ -1,259 +1,658 @@
 /**
  * OpenAI Service
  *
- * Service for extracting recipe data from HTML content using OpenAI's API
+ * Service for extracting recipe data from HTML content using the configured
+ * LLM provider (OpenAI by default, see llmService)
  */
 
-import OpenAI from "openai";
 import {
+  DocumentRecipe,
   IngredientItem,
   IngredientType,
-  InstructionItem,
+  InstructionType,
   Recipe,
 } from "../../../src/types/recipe";
+import { mapWithConcurrency } from "../utils/concurrency";
+import {
+  selectRecipeChunks,
+  selectRecipeWindow,
+} from "./contentChunkingService";
+import { getLLMProvider, LLMTask } from "./llmService";
 
 // Define the OpenAI response type
 interface OpenAIRecipeResponse extends Partial<Recipe> {
   error?: string;
 }
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// A recipe in a multi-recipe response, with the lines it came from
+interface OpenAIDocumentRecipeResponse extends OpenAIRecipeResponse {
+  startLine?: number | string;
+  endLine?: number | string;
+}
+
+// Maximum number of characters of content sent to the LLM
+const CONTENT_LIMIT = 60000;
+
+// A long page is extracted in chunks when the best window holds less than
+// this share of its recipe content
+const MIN_WINDOW_COVERAGE = 0.75;
+
+// Chunk extraction requests sent at once
+const CHUNK_CONCURRENCY = 2;
+
+// Ingredient and instruction sections nested deeper than this are merged into
+// their parent
+const MAX_SECTION_DEPTH = 4;
+
+const SYSTEM_PROMPT =
+  "You are a specialized recipe extraction assistant. Your job is to extract complete recipe information from HTML content and return it in a structured JSON format";
+
+const INGREDIENT_SECTIONS_EXAMPLE = `{
+           "ingredients": [
+             { "text": "1 cup flour" },
+             { "text": "2 tbsp sugar", "optional": true },
+             { 
+               "sectionTitle": "For the frosting",
+               "ingredients": [
+                 { "text": "1 cup powdered sugar" },
+                 { "text": "2 tbsp butter" }
+               ]
+             }
+           ]
+         }`;
+
+const INSTRUCTION_SECTIONS_EXAMPLE = `{
+           "instructions": [
+             { "text": "Preheat the oven to 350°F." },
+             {
+               "sectionTitle": "For the cake",
+               "instructions": [
+                 { "text": "Whisk the flour and sugar together." },
+                 { "text": "Bake for 30 minutes." }
+               ]
+             }
+           ]
+         }`;
 
 /**
- * Extract recipe data from HTML content using OpenAI
- * @param content The content (HTML or text) containing the recipe
- * @param sourceUrl Optional source URL of the recipe
- * @param availableTags Optional array of available tags to choose from
- * @returns A structured recipe object or null if extraction fails
+ * Truncates content to the LLM content limit, keeping the beginning. Used for
+ * documents, whose line numbers must stay in place; single recipes pick a
+ * window with selectRecipeWindow instead.
  */
-export const extractRecipeFromHTML = async (
-  content: string,
-  sourceUrl?: string,
-  availableTags?: string[]
-): Promise<Recipe | null> => {
-  try {
-    console.log(`Received content length: ${content.length} characters`);
-
-    // Check if we need to truncate content for token limits
-    const contentLimit = 60000;
-    let processedContent = content;
+function truncateContent(content: string): string {
+  if (content.length <= CONTENT_LIMIT) {
+    return content;
+  }
 
-    if (processedContent.length > contentLimit) {
-      console.log(
-        `Content exceeds OpenAI token limit (${processedContent.length} chars). Truncating...`
-      );
+  console.log(
+    `Content exceeds OpenAI token limit (${content.length} chars). Truncating...`
+  );
 
-      // Keep beginning, truncate end where comments usually are
-      processedContent =
-        processedContent.substring(0, contentLimit) +
-        "\n[CONTENT TRUNCATED FOR LENGTH]\n";
+  // Keep beginning, truncate end where comments usually are
+  const processedContent =
+    content.substring(0, CONTENT_LIMIT) + "\n[CONTENT TRUNCATED FOR LENGTH]\n";
 
-      console.log(
-        `Truncated content is now ${processedContent.length} characters`
-      );
-    }
+  console.log(`Truncated content is now ${processedContent.length} characters`);
+  return processedContent;
+}
 
-    // Add tag suggestions to the prompt if available
-    let tagSuggestionText = "";
-    if (availableTags && availableTags.length > 0) {
-      tagSuggestionText = `
+/**
+ * Describes the fields of a recipe for the prompt, including the tags the
+ * LLM may choose from
+ */
+function recipeFieldsPrompt(availableTags?: string[]): string {
+  // Add tag suggestions to the prompt if available
+  let tagSuggestionText = "";
+  if (availableTags && availableTags.length > 0) {
+    tagSuggestionText = `
       - tags: array (optional) - An array of relevant tags for the recipe. Choose from these available tags: ${availableTags.join(
         ", "
       )}.
         For example, if the recipe is for a dessert that uses chocolate, you might include tags like: ["dessert", "chocolate"].
         Only include tags that are in the provided list and are highly relevant to the recipe.
       `;
-    }
+  }
 
-    // Prepare prompt for OpenAI
-    const prompt = `
-      I need you to carefully extract the complete recipe information from the text or HTML content below. If HTML was provided, note that it may be very stripped down, and all p, div, span, h1, strong, etc tags may have been removed.
-      
-      You're looking for a recipe in this content. If you can identify a recipe:
-      
-      Return a valid JSON object with these fields:
+  return `
       - title: string (required) - The recipe title
       - description: string (required) - A brief description of the recipe
       - ingredients: array (required) - Array of ingredient objects, each with:
         - text: string (required) - The ingredient text with amount and unit
         - optional: boolean (optional) - Whether the ingredient is optional. Only mark this if the recipe explicitly says it's optional.
-        Notes: Don't add substitutes. Use imperial units instead of metric when both are given. If there is extra information, like the butter needs to be softened, that should be included in as few words as possible, no need to keep the exact original wording as long as the meaning is the same. Format should be '[amount] [ingredient] (extra info, if needed)'. If the recipe groups ingredients into sections (like "For the cake", "For the frosting"), organize them accordingly.
+        Notes: Don't add substitutes. Keep amounts in the units the recipe uses; when it gives both imperial and metric, keep both with the second in brackets, e.g. '1 cup (120g) flour'. If there is extra information, like the butter needs to be softened, that should be included in as few words as possible, no need to keep the exact original wording as long as the meaning is the same. Format should be '[amount] [ingredient] (extra info, if needed)'. If the recipe groups ingredients into sections (like "For the cake", "For the frosting"), organize them accordingly.
       - instructions: array (required) - Array of instruction objects, each with:
         - text: string (required) - A separate instruction step
+        Notes: If the recipe groups its steps into sections (like "For the sauce", "To assemble"), organize them accordingly.
       - cookingTime: number (optional) - Total cooking time in minutes. If not found, do not include this field.
       - servings: number (optional) - Number of servings. If not found, do not include this field.
       - imageUrl: string (optional) - URL of the recipe main image (hero image). Try to find the most relevant image, which will often be the first image in the article. If you cannot figure out the main image, try to use any image in the article. If you cannot find any images, leave as ""
-      ${tagSuggestionText}
+      ${tagSuggestionText}`;
+}
+
+/**
+ * Sends a prompt to the configured LLM provider and parses the JSON response
+ * @returns The parsed response, or null if the response was empty or invalid
+ */
+async function requestJson(
+  task: LLMTask,
+  prompt: string
+): Promise<Record<string, any> | null> {
+  const provider = getLLMProvider();
+  console.log(
+    `Sending request to ${provider.name} with prompt length:`,
+    prompt.length
+  );
+
+  // Call the configured LLM provider
+  const responseContent = await provider.completeJson({
+    task,
+    systemPrompt: SYSTEM_PROMPT,
+    userPrompt: prompt,
+    temperature: 0.2,
+  });
+
+  if (!responseContent) {
+    console.error(`Empty response from ${provider.name}`);
+    return null;
+  }
+
+  console.log(
+    `Received response from ${provider.name} (length: ` +
+      responseContent.length +
+      "):",
+    responseContent.substring(0, 300) + "..."
+  );
+
+  // Parse JSON response
+  try {
+    return JSON.parse(responseContent);
+  } catch (err) {
+    console.error("Failed to parse OpenAI response:", err);
+    console.error("Raw response:", responseContent);
+    return null;
+  }
+}
+
+/**
+ * Converts the ingredients returned by the LLM into ingredient items and
+ * sections. Plain strings become items, sections keep their ingredients and
+ * sub-sections, and blank items and empty sections are dropped. A section
+ * without a title, or nested deeper than MAX_SECTION_DEPTH, is replaced by
+ * its ingredients.
+ * @param value The ingredients from the response (usually an array)
+ * @param depth How many sections the list is nested inside
+ */
+function normalizeIngredients(value: unknown, depth = 0): IngredientType[] {
+  const items = Array.isArray(value) ? value : [value];
+  const normalized: IngredientType[] = [];
+
+  for (const item of items) {
+    if (typeof item === "string" || typeof item === "number") {
+      const text = String(item).trim();
+      if (text) {
+        normalized.push({ text });
+      }
+      continue;
+    }
+    if (!item || typeof item !== "object") continue;
+
+    const entry = item as Record<string, unknown>;
+
+    // Sections sometimes come back with "title" or "items" instead
+    const children = entry.ingredients ?? entry.items;
+    if (Array.isArray(children)) {
+      const sectionIngredients = normalizeIngredients(children, depth + 1);
+      if (sectionIngredients.length === 0) continue;
+
+      const sectionTitle = String(
+        entry.sectionTitle ?? entry.title ?? entry.name ?? ""
+      ).trim();
+      if (sectionTitle && depth < MAX_SECTION_DEPTH) {
+        normalized.push({ sectionTitle, ingredients: sectionIngredients });
+      } else {
+        normalized.push(...sectionIngredients);
+      }
+      continue;
+    }
+
+    const text = String(entry.text ?? "").trim();
+    if (!text) continue;
+
+    const ingredient: IngredientItem = { text };
+    if (entry.optional === true || entry.optional === "true") {
+      ingredient.optional = true;
+    }
+    normalized.push(ingredient);
+  }
+
+  return normalized;
+}
+
+/**
+ * Converts the instructions returned by the LLM into steps and sections, the
+ * same way as normalizeIngredients. Plain strings become steps, and a section
+ * without a title, or nested deeper than MAX_SECTION_DEPTH, is replaced by its
+ * steps.
+ * @param value The instructions from the response (usually an array)
+ * @param depth How many sections the list is nested inside
+ */
+function normalizeInstructions(value: unknown, depth = 0): InstructionType[] {
+  const items = Array.isArray(value) ? value : [value];
+  const normalized: InstructionType[] = [];
+
+  for (const item of items) {
+    if (typeof item === "string" || typeof item === "number") {
+      const text = String(item).trim();
+      if (text) {
+        normalized.push({ text });
+      }
+      continue;
+    }
+    if (!item || typeof item !== "object") continue;
+
+    const entry = item as Record<string, unknown>;
+
+    // Sections sometimes come back with "title" or "steps" instead
+    const children = entry.instructions ?? entry.steps;
+    if (Array.isArray(children)) {
+      const sectionInstructions = normalizeInstructions(children, depth + 1);
+      if (sectionInstructions.length === 0) continue;
+
+      const sectionTitle = String(
+        entry.sectionTitle ?? entry.title ?? entry.name ?? ""
+      ).trim();
+      if (sectionTitle && depth < MAX_SECTION_DEPTH) {
+        normalized.push({ sectionTitle, instructions: sectionInstructions });
+      } else {
+        normalized.push(...sectionInstructions);
+      }
+      continue;
+    }
+
+    const text = String(entry.text ?? "").trim();
+    if (text) {
+      normalized.push({ text });
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Checks the fields of a recipe returned by the LLM and converts them to the
+ * shapes the app stores
+ * @returns The recipe, or null if required fields are missing
+ */
+function normalizeRecipeResponse(
+  parsedResponse: OpenAIRecipeResponse,
+  sourceUrl?: string
+): Recipe | null {
+  // Ensure required fields are present
+  if (
+    !parsedResponse.title ||
+    !parsedResponse.ingredients ||
+    !parsedResponse.instructions
+  ) {
+    console.error("Missing required fields in OpenAI response");
+    return null;
+  }
+
+  // Keep ingredient sections, including nested ones, and drop blank entries
+  parsedResponse.ingredients = normalizeIngredients(parsedResponse.ingredients);
+  if (parsedResponse.ingredients.length === 0) {
+    console.error("No usable ingredients in OpenAI response");
+    return null;
+  }
+
+  // Keep instruction sections, including nested ones, and drop blank steps
+  parsedResponse.instructions = normalizeInstructions(
+    parsedResponse.instructions
+  );
+
+  // Parse numeric values
+  if (
+    parsedResponse.cookingTime &&
+    typeof parsedResponse.cookingTime === "string"
+  ) {
+    parsedResponse.cookingTime =
+      parseInt(parsedResponse.cookingTime, 10) || undefined;
+  }
+
+  if (parsedResponse.servings && typeof parsedResponse.servings === "string") {
+    parsedResponse.servings =
+      parseInt(parsedResponse.servings, 10) || undefined;
+  }
+
+  // Construct recipe object
+  const recipe: Partial<Recipe> = {
+    title: parsedResponse.title,
+    description: parsedResponse.description || "",
+    ingredients: parsedResponse.ingredients,
+    instructions: parsedResponse.instructions,
+    cookingTime: parsedResponse.cookingTime,
+    servings: parsedResponse.servings,
+    imageUrl: parsedResponse.imageUrl || "default-recipe.jpg",
+    // fullRecipe temporarily disabled to reduce API costs
+    // fullRecipe: parsedResponse.fullRecipe || content,
+    sourceUrl: sourceUrl || "",
+    user: { _id: "", username: "" }, // Will be set properly by the controller
+    createdAt: new Date().toISOString(),
+  };
+
+  // Include tags if provided in the response
+  if (parsedResponse.tags && Array.isArray(parsedResponse.tags)) {
+    recipe.tags = parsedResponse.tags;
+  }
+
+  return recipe as Recipe;
+}
+
+/**
+ * Sends one piece of content to the LLM and returns the recipe in it
+ * @param content The content to send, already within the content limit
+ * @param sourceUrl Optional source URL of the recipe
+ * @param availableTags Optional array of available tags to choose from
+ * @returns A structured recipe object or null if extraction fails
+ */
+async function extractRecipeFromWindow(
+  content: string,
+  sourceUrl?: string,
+  availableTags?: string[]
+): Promise<Recipe | null> {
+  // Prepare prompt for OpenAI
+  const prompt = `
+      I need you to carefully extract the complete recipe information from the text or HTML content below. If HTML was provided, note that it may be very stripped down, and all p, div, span, h1, strong, etc tags may have been removed. Parts of a long page may have been left out, marked with [CONTENT OMITTED].
+      
+      You're looking for a recipe in this content. If you can identify a recipe:
+      
+      Return a valid JSON object with these fields:${recipeFieldsPrompt(
+        availableTags
+      )}
       
       IMPORTANT:
       1. The response must ONLY contain the JSON object
       2. Look for ingredients lists, preparation steps, cooking times, and recipe metadata
       3. If the content doesn't contain recipe information, return { "error": "No recipe found" }
       4. Maintain the original measurements and ingredient names
-      5. For ingredients with sections, use this structure:
-         {
-           "ingredients": [
-             { "text": "1 cup flour" },
-             { "text": "2 tbsp sugar", "optional": true },
-             { 
-               "sectionTitle": "For the frosting",
-               "ingredients": [
-                 { "text": "1 cup powdered sugar" },
-                 { "text": "2 tbsp butter" }
-               ]
-             }
-           ]
-         }
+      5. For ingredients with sections, use this structure. A section can also contain sub-sections in the same shape:
+         ${INGREDIENT_SECTIONS_EXAMPLE}
+      6. For instructions with sections, use this structure. Steps are numbered within each section, so don't add numbers to the text:
+         ${INSTRUCTION_SECTIONS_EXAMPLE}
       
       Here's the content:
-      ${processedContent}
+      ${content}
     `;
 
-    console.log("Sending request to OpenAI with prompt length:", prompt.length);
-
-    // Call OpenAI API
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4-turbo-preview",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a specialized recipe extraction assistant. Your job is to extract complete recipe information from HTML content and return it in a structured JSON format",
-        },
-        { role: "user", content: prompt },
-      ],
-      temperature: 0.2,
-      response_format: { type: "json_object" },
-    });
+  const parsedResponse = (await requestJson(
+    "recipe-extraction",
+    prompt
+  )) as OpenAIRecipeResponse | null;
+  if (!parsedResponse) {
+    return null;
+  }
 
-    const responseContent = completion.choices[0].message.content?.trim();
+  // Check for error
+  if (parsedResponse.error) {
+    console.error("OpenAI extraction error:", parsedResponse.error);
+    console.log("Processed content length:", content.length);
+    console.log("Content sample:", content.substring(0, 500) + "...");
+    return null;
+  }
 
-    if (!responseContent) {
-      console.error("Empty response from OpenAI");
-      return null;
-    }
+  return normalizeRecipeResponse(parsedResponse, sourceUrl);
+}
 
-    console.log(
-      "Received response from OpenAI (length: " + responseContent.length + "):",
-      responseContent.substring(0, 300) + "..."
-    );
-
-    // Parse JSON response
-    let parsedResponse: OpenAIRecipeResponse;
-    try {
-      parsedResponse = JSON.parse(responseContent);
-    } catch (err) {
-      console.error("Failed to parse OpenAI response:", err);
-      console.error("Raw response:", responseContent);
-      return null;
-    }
+/**
+ * Builds a key for spotting the same ingredient or step in two partial
+ * results
+ */
+function mergeKey(item: IngredientType | InstructionType): string {
+  return JSON.stringify(item).toLowerCase().replace(/\s+/g, " ");
+}
 
-    // Check for error
-    if (parsedResponse.error) {
-      console.error("OpenAI extraction error:", parsedResponse.error);
-      console.log("Original content length:", content.length);
-      console.log("Processed content length:", processedContent.length);
-      console.log(
-        "Content sample:",
-        processedContent.substring(0, 500) + "..."
-      );
-      return null;
-    }
+/**
+ * Merges recipes extracted from separate chunks of one page. Ingredients and
+ * steps are joined in page order without repeats, and the other fields come
+ * from the most complete partial result.
+ * @param partials The partial results, in page order
+ */
+function mergePartialRecipes(
+  partials: OpenAIRecipeResponse[]
+): OpenAIRecipeResponse {
+  const ingredients: IngredientType[] = [];
+  const instructions: InstructionType[] = [];
+  const seen = new Set<string>();
+  const tags = new Set<string>();
 
-    // Ensure required fields are present
-    if (
-      !parsedResponse.title ||
-      !parsedResponse.ingredients ||
-      !parsedResponse.instructions
-    ) {
-      console.error("Missing required fields in OpenAI response");
-      return null;
+  const addUnique = <T extends IngredientType | InstructionType>(
+    list: T[],
+    items: T[]
+  ) => {
+    for (const item of items) {
+      const key = mergeKey(item);
+      if (!seen.has(key)) {
+        seen.add(key);
+        list.push(item);
+      }
     }
+  };
 
-    // Ensure arrays are properly formatted and structured correctly
-    if (!Array.isArray(parsedResponse.ingredients)) {
-      parsedResponse.ingredients = [
-        { text: String(parsedResponse.ingredients || "") } as IngredientItem,
-      ];
-    } else {
-      // Convert simple string ingredients to proper format if needed
-      parsedResponse.ingredients = parsedResponse.ingredients.map(
-        (item: string | IngredientType) => {
-          if (typeof item === "string") {
-            return { text: item } as IngredientItem;
-          }
-          // Make sure we return IngredientItem only
-          if ("sectionTitle" in item) {
-            // This is an IngredientSection, which we shouldn't have in OpenAI response
-            // Convert it to a simple ingredient
-            return { text: item.sectionTitle } as IngredientItem;
-          }
-          return item as IngredientItem;
-        }
-      );
+  const scored = partials.map((partial) => {
+    const partialIngredients = partial.ingredients
+      ? normalizeIngredients(partial.ingredients)
+      : [];
+    const partialInstructions = partial.instructions
+      ? normalizeInstructions(partial.instructions)
+      : [];
+    addUnique(ingredients, partialIngredients);
+    addUnique(instructions, partialInstructions);
+    (partial.tags || []).forEach((tag) => {
+      if (typeof tag === "string") tags.add(tag);
+    });
+
+    return {
+      partial,
+      size: partialIngredients.length + partialInstructions.length,
+    };
+  });
+
+  // Prefer the fields of the chunk holding most of the recipe, and fill any
+  // gaps from the others
+  const ordered = scored
+    .sort((a, b) => b.size - a.size)
+    .map(({ partial }) => partial);
+  const pick = <K extends keyof OpenAIRecipeResponse>(field: K) =>
+    ordered.map((partial) => partial[field]).find((value) => !!value);
+
+  return {
+    title: pick("title"),
+    description: pick("description"),
+    cookingTime: pick("cookingTime"),
+    servings: pick("servings"),
+    imageUrl: pick("imageUrl"),
+    ingredients,
+    instructions,
+    // Tag names are converted to tag IDs by the import controllers
+    tags: Array.from(tags) as any,
+  };
+}
+
+/**
+ * Extracts a recipe from a page too long for one request. The chunks most
+ * likely to hold the recipe are extracted separately and the partial results
+ * merged, for recipes whose parts are spread across the page.
+ * @param content The full page content
+ * @param sourceUrl Optional source URL of the recipe
+ * @param availableTags Optional array of available tags to choose from
+ * @returns A structured recipe object or null if extraction fails
+ */
+async function extractRecipeFromChunks(
+  content: string,
+  sourceUrl?: string,
+  availableTags?: string[]
+): Promise<Recipe | null> {
+  const chunks = selectRecipeChunks(content, CONTENT_LIMIT);
+
+  const responses = await mapWithConcurrency(
+    chunks,
+    CHUNK_CONCURRENCY,
+    (chunk, index) => {
+      const prompt = `
+      Below is part ${index + 1} of ${
+        chunks.length
+      } of a long page that contains a recipe. I need you to extract whatever parts of the recipe appear in this part. The recipe may start before or continue after this part, so it's fine to return only some of the fields. If HTML was provided, note that it may be very stripped down.
+      
+      Return a valid JSON object with any of these fields that you can find:${recipeFieldsPrompt(
+        availableTags
+      )}
+      
+      IMPORTANT:
+      1. The response must ONLY contain the JSON object
+      2. Only include ingredients and steps that are part of the recipe itself, not ones mentioned in passing in the article or comments
+      3. If this part doesn't contain any of the recipe, return { "error": "No recipe found" }
+      4. Maintain the original measurements and ingredient names
+      5. For ingredients with sections, use this structure. A section can also contain sub-sections in the same shape:
+         ${INGREDIENT_SECTIONS_EXAMPLE}
+      6. For instructions with sections, use this structure. Steps are numbered within each section, so don't add numbers to the text:
+         ${INSTRUCTION_SECTIONS_EXAMPLE}
+      
+      Here's the content:
+      ${chunk}
+    `;
+      return requestJson("recipe-chunk-extraction", prompt);
     }
+  );
+
+  const partials = responses.filter(
+    (response): response is OpenAIRecipeResponse =>
+      !!response && !response.error
+  );
+  console.log(
+    `Extracted ${partials.length} partial recipes from ${chunks.length} chunks`
+  );
+  if (partials.length === 0) {
+    return null;
+  }
+
+  return normalizeRecipeResponse(mergePartialRecipes(partials), sourceUrl);
+}
+
+/**
+ * Extract recipe data from HTML content using OpenAI. Long content is cut down
+ * to the stretch most likely to hold the recipe; when the recipe seems spread
+ * across the page, or nothing is found in that stretch, chunks of the page are
+ * extracted separately and merged.
+ * @param content The content (HTML or text) containing the recipe
+ * @param sourceUrl Optional source URL of the recipe
+ * @param availableTags Optional array of available tags to choose from
+ * @returns A structured recipe object or null if extraction fails
+ */
+export const extractRecipeFromHTML = async (
+  content: string,
+  sourceUrl?: string,
+  availableTags?: string[]
+): Promise<Recipe | null> => {
+  try {
+    console.log(`Received content length: ${content.length} characters`);
 
-    // Ensure instructions are in the right format
-    if (!Array.isArray(parsedResponse.instructions)) {
-      parsedResponse.instructions = [
-        { text: String(parsedResponse.instructions || "") } as InstructionItem,
-      ];
+    // Send the part of the page that reads most like a recipe
+    const window = selectRecipeWindow(content, CONTENT_LIMIT);
+    if (window.coverage >= MIN_WINDOW_COVERAGE) {
+      const recipe = await extractRecipeFromWindow(
+        window.content,
+        sourceUrl,
+        availableTags
+      );
+      if (recipe || content.length <= CONTENT_LIMIT) {
+        return recipe;
+      }
+      console.log("No recipe found in the selected window, trying chunks");
     } else {
-      // Convert simple string instructions to proper format if needed
-      parsedResponse.instructions = parsedResponse.instructions.map(
-        (item: string | InstructionItem) => {
-          if (typeof item === "string") {
-            return { text: item } as InstructionItem;
-          }
-          return item;
-        }
+      console.log(
+        `Selected window holds ${Math.round(
+          window.coverage * 100
+        )}% of the recipe content, extracting chunks instead`
       );
     }
 
-    // Parse numeric values
-    if (
-      parsedResponse.cookingTime &&
-      typeof parsedResponse.cookingTime === "string"
-    ) {
-      parsedResponse.cookingTime =
-        parseInt(parsedResponse.cookingTime, 10) || undefined;
-    }
+    return await extractRecipeFromChunks(content, sourceUrl, availableTags);
+  } catch (error) {
+    console.error("Error extracting recipe with OpenAI:", error);
+    return null;
+  }
+};
+
+/**
+ * Extract every recipe from a document that may hold several (a menu, a
+ * cookbook chapter, a family recipe collection). The document is sent with
+ * numbered lines so each recipe comes back with the lines it spans.
+ * @param content The document text
+ * @param availableTags Optional array of available tags to choose from
+ * @returns The recipes in document order (line numbers as reported by the
+ *   LLM, which may be missing), or null if extraction fails
+ */
+export const extractRecipesFromDocument = async (
+  content: string,
+  availableTags?: string[]
+): Promise<DocumentRecipe[] | null> => {
+  try {
+    console.log(`Received document length: ${content.length} characters`);
+
+    const numberedContent = content
+      .split(/\r?\n/)
+      .map((line, index) => `${index + 1}: ${line}`)
+      .join("\n");
+    const processedContent = truncateContent(numberedContent);
+
+    const prompt = `
+      I need you to find every recipe in the document below and extract each one completely. The document may be a menu, a cookbook chapter or a collection of recipes, so it can contain any number of recipes. Each line starts with its line number followed by a colon; the numbers are not part of the text.
+      
+      Return a valid JSON object with a "recipes" array, in the order the recipes appear. Each recipe is an object with these fields:
+      - startLine: number (required) - The line number where the recipe starts (usually its title)
+      - endLine: number (required) - The line number of the recipe's last line${recipeFieldsPrompt(
+        availableTags
+      )}
+      
+      IMPORTANT:
+      1. The response must ONLY contain the JSON object, like { "recipes": [ ... ] }
+      2. Don't merge two recipes into one, and don't split a recipe whose parts (like a cake and its frosting) are written as one recipe
+      3. Only include recipes that have both ingredients and instructions; skip notes, introductions and serving suggestions
+      4. If the document doesn't contain any recipes, return { "recipes": [] }
+      5. Maintain the original measurements and ingredient names
+      6. For ingredients with sections, use this structure. A section can also contain sub-sections in the same shape:
+         ${INGREDIENT_SECTIONS_EXAMPLE}
+      7. For instructions with sections, use this structure. Steps are numbered within each section, so don't add numbers to the text:
+         ${INSTRUCTION_SECTIONS_EXAMPLE}
+      
+      Here's the document:
+      ${processedContent}
+    `;
 
-    if (
-      parsedResponse.servings &&
-      typeof parsedResponse.servings === "string"
-    ) {
-      parsedResponse.servings =
-        parseInt(parsedResponse.servings, 10) || undefined;
+    const parsedResponse = await requestJson("multi-recipe-extraction", prompt);
+    if (!parsedResponse || !Array.isArray(parsedResponse.recipes)) {
+      console.error("OpenAI response has no recipes array");
+      return null;
     }
 
-    // Construct recipe object
-    const recipe: Partial<Recipe> = {
-      title: parsedResponse.title,
-      description: parsedResponse.description || "",
-      ingredients: parsedResponse.ingredients,
-      instructions: parsedResponse.instructions,
-      cookingTime: parsedResponse.cookingTime,
-      servings: parsedResponse.servings,
-      imageUrl: parsedResponse.imageUrl || "default-recipe.jpg",
-      // fullRecipe temporarily disabled to reduce API costs
-      // fullRecipe: parsedResponse.fullRecipe || content,
-      sourceUrl: sourceUrl || "",
-      user: { _id: "", username: "" }, // Will be set properly by the controller
-      createdAt: new Date().toISOString(),
-    };
+    const recipes: DocumentRecipe[] = [];
+    for (const item of parsedResponse.recipes as OpenAIDocumentRecipeResponse[]) {
+      if (!item || typeof item !== "object") continue;
+
+      const { startLine, endLine, ...recipeResponse } = item;
+      const recipe = normalizeRecipeResponse(recipeResponse);
+      if (!recipe) continue;
 
-    // Include tags if provided in the response
-    if (parsedResponse.tags && Array.isArray(parsedResponse.tags)) {
-      recipe.tags = parsedResponse.tags;
+      recipes.push({
+        recipe,
+        startLine: Number(startLine) || 0,
+        endLine: Number(endLine) || 0,
+      });
     }
 
-    return recipe as Recipe;
+    console.log(`Extracted ${recipes.length} recipes from the document`);
+    return recipes;
   } catch (error) {
-    console.error("Error extracting recipe with OpenAI:", error);
+    console.error("Error extracting recipes with OpenAI:", error);
     return null;
   }
 };
@@ -261,4 +660,5 @@ export const extractRecipeFromHTML = async (
 // Export the module
 export default {
   extractRecipeFromHTML,
+  extractRecipesFromDocument,
 };
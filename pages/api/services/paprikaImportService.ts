@@ -0,0 +1,302 @@
+/**
+ * Paprika Import Service
+ *
+ * Imports a Paprika `.paprikarecipes` export. The export is a zip archive with
+ * one `.paprikarecipe` entry per recipe, each a gzipped JSON document with the
+ * photo embedded as base64.
+ */
+
+import JSZip from "jszip";
+import { Types } from "mongoose";
+import { promisify } from "util";
+import { gunzip } from "zlib";
+import {
+  IngredientItem,
+  IngredientSection,
+  IngredientType,
+  InstructionItem,
+} from "../../../src/types/recipe";
+import { parseIngredients } from "../../../src/utils/ingredientParser";
+import Recipe from "../models/Recipe";
+import Tag, { TagDocument } from "../models/Tag";
+import { processImageData, processImageUrl } from "../utils/awsS3";
+import { parseDuration, parseRecipeYield } from "./structuredDataService";
+
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * The fields of a Paprika recipe that we import
+ */
+export interface PaprikaRecipe {
+  uid?: string;
+  name?: string;
+  description?: string;
+  notes?: string;
+  ingredients?: string;
+  directions?: string;
+  servings?: string;
+  prep_time?: string;
+  cook_time?: string;
+  total_time?: string;
+  categories?: string[];
+  source?: string;
+  source_url?: string;
+  image_url?: string;
+  photo_data?: string | null;
+}
+
+/**
+ * The outcome of importing one recipe from the archive
+ */
+export interface PaprikaImportResult {
+  name: string;
+  status: "succeeded" | "failed";
+  recipeId?: string;
+  reason?: string;
+}
+
+/**
+ * Reads a single recipe entry from the archive
+ */
+async function readPaprikaEntry(
+  entry: JSZip.JSZipObject
+): Promise<PaprikaRecipe> {
+  const compressed = await entry.async("nodebuffer");
+  const json = await gunzipAsync(compressed);
+  return JSON.parse(json.toString("utf8")) as PaprikaRecipe;
+}
+
+/**
+ * Splits a block of Paprika text into trimmed, non-empty lines
+ */
+function splitLines(text: string | undefined): string[] {
+  return (text || "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Converts Paprika's ingredient text (one ingredient per line) into
+ * ingredients. Lines like "For the sauce:" start a new section.
+ */
+export function parsePaprikaIngredients(
+  text: string | undefined
+): IngredientType[] {
+  const ingredients: IngredientType[] = [];
+  let currentSection: IngredientSection | null = null;
+
+  for (const line of splitLines(text)) {
+    const heading = line.match(/^([^\d].*?):$/);
+    if (heading) {
+      currentSection = { sectionTitle: heading[1].trim(), ingredients: [] };
+      ingredients.push(currentSection);
+      continue;
+    }
+
+    const item: IngredientItem = { text: line.replace(/^[-*•]\s*/, "") };
+    if (currentSection) {
+      currentSection.ingredients.push(item);
+    } else {
+      ingredients.push(item);
+    }
+  }
+
+  // Drop headings that had no ingredients under them
+  return ingredients.filter(
+    (item) => !("sectionTitle" in item) || item.ingredients.length > 0
+  );
+}
+
+/**
+ * Converts Paprika's directions (one step per line or paragraph) into
+ * instruction steps, removing any step numbers
+ */
+export function parsePaprikaDirections(
+  text: string | undefined
+): InstructionItem[] {
+  return splitLines(text)
+    .map((line) => line.replace(/^(?:step\s*)?\d+[.):]\s*/i, "").trim())
+    .filter(Boolean)
+    .map((line) => ({ text: line }));
+}
+
+/**
+ * Parses a Paprika time field, which is free text ("1 hr 20 mins") or a bare
+ * number of minutes
+ */
+function parsePaprikaTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value.trim(), 10) || undefined;
+  }
+  return parseDuration(value);
+}
+
+/**
+ * Finds the tags for a recipe's Paprika categories, creating any that don't
+ * exist yet. Tags are cached by lowercase name for the rest of the import.
+ */
+async function findOrCreateTags(
+  categories: string[] | undefined,
+  tagCache: Map<string, TagDocument>
+): Promise<TagDocument[]> {
+  const tags: TagDocument[] = [];
+
+  for (const category of categories || []) {
+    const name = String(category).trim().toLowerCase();
+    if (!name) continue;
+
+    let tag = tagCache.get(name);
+    if (!tag) {
+      tag = await Tag.create({ name });
+      console.log(`Created tag "${name}" from Paprika category`);
+      tagCache.set(name, tag);
+    }
+    if (!tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Saves a single Paprika recipe, uploading its photo to S3
+ */
+async function importPaprikaRecipe(
+  paprikaRecipe: PaprikaRecipe,
+  userId: Types.ObjectId,
+  tagCache: Map<string, TagDocument>
+) {
+  const title = paprikaRecipe.name?.trim();
+  const ingredients = parsePaprikaIngredients(paprikaRecipe.ingredients);
+  const instructions = parsePaprikaDirections(paprikaRecipe.directions);
+
+  if (!title) {
+    throw new Error("Recipe has no name");
+  }
+  if (ingredients.length === 0) {
+    throw new Error("Recipe has no ingredients");
+  }
+  if (instructions.length === 0) {
+    throw new Error("Recipe has no directions");
+  }
+
+  // Prefer the embedded photo; fall back to the photo's original URL
+  let imageUrl = "default-recipe.jpg";
+  let originalImageUrl: string | undefined;
+  if (paprikaRecipe.photo_data) {
+    try {
+      imageUrl = await processImageData(
+        Buffer.from(paprikaRecipe.photo_data, "base64")
+      );
+    } catch (imageError) {
+      console.error(`Error uploading photo for "${title}":`, imageError);
+    }
+  } else if (paprikaRecipe.image_url) {
+    originalImageUrl = paprikaRecipe.image_url;
+    imageUrl = await processImageUrl(paprikaRecipe.image_url);
+  }
+
+  const prepTime = parsePaprikaTime(paprikaRecipe.prep_time);
+  const cookTime = parsePaprikaTime(paprikaRecipe.cook_time);
+  const cookingTime =
+    parsePaprikaTime(paprikaRecipe.total_time) ||
+    (prepTime || cookTime ? (prepTime || 0) + (cookTime || 0) : undefined);
+
+  const tags = await findOrCreateTags(paprikaRecipe.categories, tagCache);
+
+  const recipe = new Recipe({
+    title,
+    description: paprikaRecipe.description?.trim() || title,
+    ingredients: parseIngredients(ingredients),
+    instructions,
+    cookingTime,
+    servings: parseRecipeYield(paprikaRecipe.servings),
+    sourceUrl: paprikaRecipe.source_url || "",
+    user: userId,
+    imageUrl,
+    originalImageUrl,
+    tags: tags.map((tag) => tag._id),
+  });
+
+  return recipe.save();
+}
+
+/**
+ * Imports every recipe in a `.paprikarecipes` archive
+ * @param archive The contents of the archive
+ * @param userId The ID of the user importing the recipes
+ * @returns The outcome of each recipe in the archive
+ */
+export async function importPaprikaArchive(
+  archive: Buffer,
+  userId: Types.ObjectId
+): Promise<PaprikaImportResult[]> {
+  const zip = await JSZip.loadAsync(archive);
+  const entries = Object.values(zip.files).filter(
+    (file) => !file.dir && /\.paprikarecipe$/i.test(file.name)
+  );
+  console.log(`Found ${entries.length} recipes in Paprika archive`);
+
+  // Cache existing tags by lowercase name
+  const tagCache = new Map<string, TagDocument>();
+  (await Tag.find()).forEach((tag) => {
+    tagCache.set(tag.name.toLowerCase(), tag);
+  });
+
+  const results: PaprikaImportResult[] = [];
+
+  // Unpack and import one recipe at a time to keep memory use down with
+  // large photos
+  for (const entry of entries) {
+    let paprikaRecipe: PaprikaRecipe;
+    try {
+      paprikaRecipe = await readPaprikaEntry(entry);
+    } catch (error) {
+      console.error(`Error reading Paprika entry ${entry.name}:`, error);
+      results.push({
+        name: entry.name.replace(/\.paprikarecipe$/i, ""),
+        status: "failed",
+        reason: "Could not read this recipe from the archive",
+      });
+      continue;
+    }
+
+    const name =
+      paprikaRecipe.name || entry.name.replace(/\.paprikarecipe$/i, "");
+
+    try {
+      const savedRecipe = await importPaprikaRecipe(
+        paprikaRecipe,
+        userId,
+        tagCache
+      );
+      results.push({
+        name,
+        status: "succeeded",
+        recipeId: String(savedRecipe._id),
+      });
+    } catch (error) {
+      console.error(`Error importing Paprika recipe "${name}":`, error);
+      results.push({
+        name,
+        status: "failed",
+        reason:
+          error instanceof Error && error.message
+            ? error.message
+            : "Unexpected error while importing",
+      });
+    }
+  }
+
+  return results;
+}
+
+// Export the module
+export default {
+  parsePaprikaIngredients,
+  parsePaprikaDirections,
+  importPaprikaArchive,
+};
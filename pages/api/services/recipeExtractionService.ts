@@ -0,0 +1,157 @@
+/**
+ * Recipe Extraction Service
+ *
+ * Chooses the cheapest way to turn page content into a recipe: structured data
+ * embedded in the page first, and the LLM only when none is usable.
+ */
+
+import { DocumentRecipe, Recipe } from "../../../src/types/recipe";
+import { optimizeHtmlForRecipeExtraction } from "./htmlFetchService";
+import { isMealMasterText, parseMealMaster } from "./mealMasterService";
+import {
+  extractRecipeFromHTML,
+  extractRecipesFromDocument,
+} from "./openaiService";
+import { extractRecipeFromStructuredData } from "./structuredDataService";
+
+/**
+ * Extract a recipe from a raw HTML page
+ * @param rawHtml The unmodified HTML of the page
+ * @param sourceUrl Optional source URL of the recipe
+ * @param availableTags Optional array of available tags to choose from
+ * @returns A structured recipe object or null if extraction fails
+ */
+export const extractRecipeFromPage = async (
+  rawHtml: string,
+  sourceUrl?: string,
+  availableTags?: string[]
+): Promise<Recipe | null> => {
+  const structuredRecipe = extractRecipeFromStructuredData(
+    rawHtml,
+    sourceUrl,
+    availableTags
+  );
+  if (structuredRecipe) {
+    return structuredRecipe;
+  }
+
+  console.log("No usable structured data found, falling back to OpenAI");
+  const optimizedHtml = optimizeHtmlForRecipeExtraction(rawHtml);
+  return extractRecipeFromHTML(optimizedHtml, sourceUrl, availableTags);
+};
+
+/**
+ * Extract a recipe from pasted text or HTML. Pasted content is sent to the LLM
+ * as-is, unless it contains structured data (e.g. a pasted page source).
+ * @param content The pasted content
+ * @param sourceUrl Optional source URL of the recipe
+ * @param availableTags Optional array of available tags to choose from
+ * @returns A structured recipe object or null if extraction fails
+ */
+export const extractRecipeFromContent = async (
+  content: string,
+  sourceUrl?: string,
+  availableTags?: string[]
+): Promise<Recipe | null> => {
+  const structuredRecipe = extractRecipeFromStructuredData(
+    content,
+    sourceUrl,
+    availableTags
+  );
+  if (structuredRecipe) {
+    return structuredRecipe;
+  }
+
+  return extractRecipeFromHTML(content, sourceUrl, availableTags);
+};
+
+/**
+ * Extract a recipe from a plain text or Markdown document. There is no markup
+ * to look for structured data in, so the text goes straight to the LLM.
+ * @param text The document text
+ * @param availableTags Optional array of available tags to choose from
+ * @returns A structured recipe object or null if extraction fails
+ */
+export const extractRecipeFromText = async (
+  text: string,
+  availableTags?: string[]
+): Promise<Recipe | null> => {
+  return extractRecipeFromHTML(text, undefined, availableTags);
+};
+
+/**
+ * Fixes the line ranges of recipes found in a document, so they are in order,
+ * don't overlap and lie within the document. A recipe with a missing or
+ * impossible start is placed at the first line after the previous recipe that
+ * mentions its title, and a recipe's range ends where the next one starts.
+ * @param content The document text
+ * @param recipes The recipes in document order
+ */
+function fixRecipeLines(
+  content: string,
+  recipes: DocumentRecipe[]
+): DocumentRecipe[] {
+  const lines = content.split(/\r?\n/);
+  const lineCount = lines.length;
+
+  let previousStart = 0;
+  const starts = recipes.map(({ recipe, startLine }) => {
+    if (startLine > previousStart && startLine <= lineCount) {
+      previousStart = startLine;
+      return startLine;
+    }
+
+    const title = (recipe.title || "").trim().toLowerCase();
+    const titleIndex = title
+      ? lines.findIndex(
+          (line, index) =>
+            index >= previousStart && line.toLowerCase().includes(title)
+        )
+      : -1;
+    previousStart =
+      titleIndex >= 0 ? titleIndex + 1 : Math.min(previousStart + 1, lineCount);
+    return previousStart;
+  });
+
+  return recipes.map((documentRecipe, index) => {
+    const startLine = starts[index];
+    const nextStart =
+      index + 1 < starts.length ? starts[index + 1] : lineCount + 1;
+    const endLine =
+      documentRecipe.endLine >= startLine && documentRecipe.endLine < nextStart
+        ? documentRecipe.endLine
+        : Math.max(startLine, nextStart - 1);
+    return { ...documentRecipe, startLine, endLine };
+  });
+}
+
+/**
+ * Extract every recipe from a pasted document that may hold several of them.
+ * MealMaster text is parsed directly; anything else goes to the LLM.
+ * @param content The pasted document
+ * @param availableTags Optional array of available tags to choose from
+ * @returns The recipes with the lines each came from, or null if extraction
+ *   fails
+ */
+export const extractRecipesFromContent = async (
+  content: string,
+  availableTags?: string[]
+): Promise<DocumentRecipe[] | null> => {
+  const recipes: DocumentRecipe[] | null = isMealMasterText(content)
+    ? parseMealMaster(content, availableTags).map((recipe) => ({
+        recipe,
+        startLine: 0,
+        endLine: 0,
+      }))
+    : await extractRecipesFromDocument(content, availableTags);
+
+  return recipes ? fixRecipeLines(content, recipes) : null;
+};
+
+// Export the module
+export default {
+  extractRecipeFromPage,
+  extractRecipeFromContent,
+  extractRecipeFromText,
+  extractRecipesFromContent,
+};
@@ -0,0 +1,420 @@
+/**
+ * Recipe Import Service
+ *
+ * Shared steps of the import endpoints: turning extracted tag names into tag
+ * IDs (with diet tags checked against the ingredients), building a reviewable
+ * preview of an import, and saving an imported recipe (including uploading
+ * its image to S3).
+ */
+
+import * as cheerio from "cheerio";
+import {
+  DietCompatibility,
+  ImportedRecipeResult,
+  ImportPreview,
+  IngredientType,
+  Recipe as RecipeType,
+  Tag as TagType,
+} from "../../../src/types/recipe";
+import {
+  applyDietTags,
+  classifyIngredients,
+  explainTriggers,
+} from "../../../src/utils/dietClassifier";
+import { parseIngredients } from "../../../src/utils/ingredientParser";
+import { countInstructionSteps } from "../../../src/utils/recipeInstructions";
+import Recipe from "../models/Recipe";
+import { TagDocument } from "../models/Tag";
+import { processImageUrl } from "../utils/awsS3";
+import { findDuplicateRecipes } from "./duplicateDetectionService";
+
+// Maximum number of alternative images offered in an import preview
+const MAX_IMAGE_CANDIDATES = 8;
+
+/**
+ * Gets the lowercase tag name from an extracted tag, which may be a plain
+ * string or an object with a name
+ */
+function getTagName(tagItem: unknown): string | null {
+  if (typeof tagItem === "string") {
+    return tagItem.toLowerCase();
+  }
+  if (tagItem && typeof tagItem === "object" && "name" in tagItem) {
+    return String((tagItem as { name: unknown }).name).toLowerCase();
+  }
+  return null;
+}
+
+/**
+ * Matches extracted tag names against the tags in the database. When the
+ * recipe's ingredients are given, its diet tags are corrected from them (see
+ * utils/dietClassifier): tags for diets it fits are added (except
+ * gluten-free, dairy-free and vegan, which someone has to choose), and tags
+ * for diets its ingredients rule out are dropped.
+ * @param tags Tag names (or tag-like objects) suggested during extraction
+ * @param availableTags All tags in the database
+ * @param ingredients Optional ingredients of the recipe
+ * @returns The matching tag documents, the names that had no match, and the
+ * diet tags that were dropped
+ */
+export function matchTags(
+  tags: unknown,
+  availableTags: TagDocument[],
+  ingredients?: Array<IngredientType | string>
+): {
+  matched: TagDocument[];
+  unmatched: string[];
+  removedDiets: DietCompatibility[];
+} {
+  const matched: TagDocument[] = [];
+  const unmatched: string[] = [];
+
+  let tagNames = (Array.isArray(tags) ? tags : [])
+    .map(getTagName)
+    .filter((name): name is string => Boolean(name));
+  let addedDiets: string[] = [];
+  let removedDiets: DietCompatibility[] = [];
+
+  if (ingredients) {
+    const dietTags = applyDietTags(tagNames, classifyIngredients(ingredients));
+    tagNames = dietTags.tags;
+    addedDiets = dietTags.added;
+    removedDiets = dietTags.removed;
+  }
+
+  // Create a map of lowercase tag names to tag documents
+  const tagNameMap = new Map<string, TagDocument>();
+  availableTags.forEach((tag) => {
+    tagNameMap.set(tag.name.toLowerCase(), tag);
+  });
+
+  for (const tagName of tagNames) {
+    // Only add the tag if it exists in our database
+    const tag = tagNameMap.get(tagName);
+    if (tag) {
+      if (!matched.includes(tag)) {
+        matched.push(tag);
+      }
+    } else if (!addedDiets.includes(tagName)) {
+      console.log(`Tag "${tagName}" not found in database, skipping`);
+      unmatched.push(tagName);
+    }
+  }
+
+  return { matched, unmatched, removedDiets };
+}
+
+/**
+ * Collects candidate images for a recipe: the extracted image first, then
+ * social preview images and images in the page content
+ */
+export function findImageCandidates(
+  content: string | undefined,
+  sourceUrl?: string,
+  primaryImageUrl?: string
+): string[] {
+  const candidates: string[] = [];
+
+  const addCandidate = (url: string | undefined) => {
+    if (!url || url === "default-recipe.jpg") return;
+    if (/^(data|blob):/i.test(url) || /\.svg(\?|$)/i.test(url)) return;
+    if (/logo|icon|avatar|gravatar|pixel|spinner/i.test(url)) return;
+
+    let resolved = url.trim();
+    try {
+      resolved = sourceUrl
+        ? new URL(resolved, sourceUrl).href
+        : new URL(resolved).href;
+    } catch (error) {
+      // Relative URLs without a source URL can't be downloaded
+      return;
+    }
+
+    if (!candidates.includes(resolved)) {
+      candidates.push(resolved);
+    }
+  };
+
+  addCandidate(primaryImageUrl);
+
+  if (content && /<[a-z][\s\S]*>/i.test(content)) {
+    try {
+      const $ = cheerio.load(content);
+
+      $(
+        'meta[property="og:image"], meta[name="twitter:image"], meta[itemprop="image"]'
+      ).each(function () {
+        addCandidate($(this).attr("content"));
+      });
+
+      $("img").each(function () {
+        addCandidate(
+          $(this).attr("data-src") ||
+            $(this).attr("data-lazy-src") ||
+            $(this).attr("src")
+        );
+      });
+    } catch (error) {
+      console.error("Error finding image candidates:", error);
+    }
+  }
+
+  return candidates.slice(0, MAX_IMAGE_CANDIDATES);
+}
+
+/**
+ * Finds the original URL of a page saved from a browser, using the canonical
+ * link, the og:url meta tag or the "saved from url" comment browsers add
+ * @returns The page URL, or undefined if none is found
+ */
+export function findSavedPageUrl(html: string): string | undefined {
+  const candidates: Array<string | undefined> = [];
+
+  try {
+    const $ = cheerio.load(html);
+    candidates.push($('link[rel="canonical"]').attr("href"));
+    candidates.push($('meta[property="og:url"]').attr("content"));
+  } catch (error) {
+    console.error("Error reading saved page URL:", error);
+  }
+
+  const savedFromMatch = html.match(
+    /<!--\s*saved from url=\(\d+\)(\S+?)\s*-->/i
+  );
+  candidates.push(savedFromMatch?.[1]);
+
+  for (const candidate of candidates) {
+    if (candidate && /^https?:\/\//i.test(candidate.trim())) {
+      return candidate.trim();
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds a preview of an import without persisting anything or touching S3
+ * @param recipeData The extracted recipe
+ * @param availableTags All tags in the database
+ * @param content The raw page or pasted content, used to find more images
+ * @param sourceUrl Optional source URL of the recipe
+ */
+export function buildImportPreview(
+  recipeData: RecipeType,
+  availableTags: TagDocument[],
+  content?: string,
+  sourceUrl?: string
+): ImportPreview {
+  const { matched, unmatched, removedDiets } = matchTags(
+    recipeData.tags,
+    availableTags,
+    recipeData.ingredients
+  );
+  const imageCandidates = findImageCandidates(
+    content,
+    sourceUrl,
+    recipeData.imageUrl
+  );
+
+  const warnings: string[] = [];
+  if (imageCandidates.length === 0) {
+    warnings.push("No recipe image was found.");
+  }
+  if (!recipeData.cookingTime) {
+    warnings.push("No cooking time was found.");
+  }
+  if (!recipeData.servings) {
+    warnings.push("No servings count was found.");
+  }
+  if (recipeData.ingredients.length < 2) {
+    warnings.push("Only one ingredient was found. Check the ingredient list.");
+  }
+  if (countInstructionSteps(recipeData.instructions) < 2) {
+    warnings.push("Only one instruction step was found. Check the steps.");
+  }
+  if (unmatched.length > 0) {
+    warnings.push(
+      `Suggested tags not in the tag list: ${unmatched.join(", ")}`
+    );
+  }
+  removedDiets.forEach(({ diet, triggers }) => {
+    warnings.push(
+      `Left out the ${diet} tag because of ${explainTriggers(triggers)}.`
+    );
+  });
+
+  const draft: Partial<RecipeType> = {
+    title: recipeData.title,
+    description: recipeData.description,
+    ingredients: recipeData.ingredients,
+    instructions: recipeData.instructions,
+    cookingTime: recipeData.cookingTime,
+    servings: recipeData.servings,
+    imageUrl: imageCandidates[0] || "",
+    sourceUrl: sourceUrl || recipeData.sourceUrl || "",
+  };
+
+  const suggestedTags: TagType[] = matched.map((tag) => ({
+    _id: String(tag._id),
+    name: tag.name,
+  }));
+
+  return { draft, suggestedTags, imageCandidates, warnings };
+}
+
+/**
+ * Saves an imported recipe, downloading its image and uploading it to S3
+ * @param recipeData The extracted or reviewed recipe
+ * @param userId The ID of the user importing the recipe
+ * @param tagIds IDs of the tags to attach to the recipe
+ * @returns The saved recipe document
+ */
+export async function saveImportedRecipe(
+  recipeData: Partial<RecipeType>,
+  userId: unknown,
+  tagIds: unknown[] = []
+) {
+  // Process the image URL if provided
+  let processedImageUrl = "default-recipe.jpg";
+  const originalImageUrl = recipeData.imageUrl;
+
+  if (recipeData.imageUrl && recipeData.imageUrl !== "default-recipe.jpg") {
+    try {
+      // Download image and upload to S3
+      processedImageUrl = await processImageUrl(recipeData.imageUrl);
+      console.log(`Processed image URL during import: ${processedImageUrl}`);
+    } catch (imageError) {
+      console.error("Error processing image during import:", imageError);
+      // Continue with the original URL if there's an error
+      processedImageUrl = recipeData.imageUrl;
+    }
+  }
+
+  // Create a new recipe, with each ingredient's quantity, unit and name
+  // parsed from its text
+  const recipe = new Recipe({
+    title: recipeData.title,
+    description: recipeData.description,
+    ingredients: parseIngredients(recipeData.ingredients || []),
+    instructions: recipeData.instructions,
+    cookingTime: recipeData.cookingTime,
+    servings: recipeData.servings,
+    sourceUrl: recipeData.sourceUrl || "",
+    user: userId,
+    imageUrl: processedImageUrl,
+    originalImageUrl,
+    // fullRecipe temporarily disabled to reduce API costs
+    tags: tagIds,
+  });
+
+  // Save to database
+  const savedRecipe = await recipe.save();
+  console.log(`Recipe saved with ID: ${savedRecipe._id}`);
+
+  return savedRecipe;
+}
+
+/**
+ * Collects the IDs of the tags to attach to an imported recipe: the available
+ * tags matching its tag names and ingredients, plus the shared tags
+ */
+function importedRecipeTagIds(
+  recipeData: Partial<RecipeType>,
+  availableTags: TagDocument[],
+  sharedTagIds: unknown[]
+) {
+  const { matched } = matchTags(
+    recipeData.tags,
+    availableTags,
+    recipeData.ingredients
+  );
+  const tagIds: unknown[] = matched.map((tag) => tag._id);
+  sharedTagIds.forEach((tagId) => {
+    if (!tagIds.some((id) => String(id) === String(tagId))) {
+      tagIds.push(tagId);
+    }
+  });
+
+  return tagIds;
+}
+
+/**
+ * Saves several imported recipes (e.g. every recipe in a MealMaster file)
+ * independently, so one that fails doesn't stop the rest or leave the batch
+ * half-saved without saying which
+ * @param recipes The extracted recipes
+ * @param userId The ID of the user importing the recipes
+ * @param availableTags All tags in the database
+ * @param sharedTagIds IDs of tags to attach to every recipe
+ * @param skipDuplicates Whether to skip recipes that look like ones the user
+ *   already has, including ones saved earlier in the batch
+ * @returns Each recipe's result, in order: its saved ID, why it failed, or the
+ *   recipes it looks like
+ */
+export async function saveEachImportedRecipe(
+  recipes: Partial<RecipeType>[],
+  userId: unknown,
+  availableTags: TagDocument[],
+  sharedTagIds: unknown[] = [],
+  skipDuplicates = false
+): Promise<ImportedRecipeResult[]> {
+  const results: ImportedRecipeResult[] = [];
+
+  for (const recipeData of recipes) {
+    const title = recipeData.title || "Untitled recipe";
+    try {
+      if (skipDuplicates) {
+        const duplicates = await findDuplicateRecipes(recipeData, userId);
+        if (duplicates.length > 0) {
+          results.push({ title, duplicates });
+          continue;
+        }
+      }
+
+      const tagIds = importedRecipeTagIds(
+        recipeData,
+        availableTags,
+        sharedTagIds
+      );
+      const savedRecipe = await saveImportedRecipe(recipeData, userId, tagIds);
+      results.push({ title, recipeId: String(savedRecipe._id) });
+    } catch (error) {
+      console.error(`Error saving imported recipe "${title}":`, error);
+      results.push({
+        title,
+        error: error instanceof Error ? error.message : "Failed to save",
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Summarizes the results of saving several recipes, e.g. "Imported 3 recipes
+ * successfully; 1 skipped as a likely duplicate"
+ */
+export function describeImportResults(results: ImportedRecipeResult[]): string {
+  const saved = results.filter((result) => result.recipeId).length;
+  const skipped = results.filter((result) => result.duplicates).length;
+  const failed = results.length - saved - skipped;
+
+  return [
+    `Imported ${saved} recipe${saved === 1 ? "" : "s"} successfully`,
+    ...(skipped > 0
+      ? [`${skipped} skipped as likely duplicate${skipped === 1 ? "" : "s"}`]
+      : []),
+    ...(failed > 0 ? [`${failed} could not be saved`] : []),
+  ].join("; ");
+}
+
+// Export the module
+export default {
+  matchTags,
+  findImageCandidates,
+  findSavedPageUrl,
+  buildImportPreview,
+  saveImportedRecipe,
+  saveEachImportedRecipe,
+  describeImportResults,
+};
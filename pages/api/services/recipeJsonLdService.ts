@@ -0,0 +1,45 @@
+/**
+ * Recipe JSON-LD Service
+ *
+ * Loads a recipe's schema.org data for pages rendered on the server. Pages
+ * import this module lazily, so building them doesn't load the database
+ * connection (which needs MONGODB_URI).
+ */
+
+import mongoose from "mongoose";
+import {
+  jsonLdScriptContent,
+  recipeToJsonLd,
+} from "../../../src/utils/recipeJsonLd";
+import Recipe from "../models/Recipe";
+import { connectDB } from "../utils/auth";
+
+/**
+ * Loads a recipe and writes its schema.org data for an inline script tag
+ * @param id The recipe's ID
+ * @param baseUrl The site's origin, used for the recipe's URL
+ * @returns The script content, or null when the recipe wasn't found
+ */
+export async function getRecipeJsonLdScript(
+  id: string,
+  baseUrl: string
+): Promise<string | null> {
+  if (!mongoose.isValidObjectId(id)) {
+    return null;
+  }
+
+  await connectDB();
+  const recipe = await Recipe.findById(id)
+    .populate("user", "username")
+    .populate("tags", "name");
+  if (!recipe) {
+    return null;
+  }
+
+  return jsonLdScriptContent(recipeToJsonLd(recipe.toJSON(), { baseUrl }));
+}
+
+// Export the module
+export default {
+  getRecipeJsonLdScript,
+};
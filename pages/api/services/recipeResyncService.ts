@@ -0,0 +1,177 @@
+/**
+ * Recipe Resync Service
+ *
+ * Re-extracts an imported recipe from its source page and compares it with
+ * the stored recipe field by field, so the user can pick which changes to take
+ * (e.g. after the blog updated the recipe) without losing their own edits.
+ */
+
+import {
+  IngredientType,
+  InstructionType,
+  Recipe as RecipeType,
+  ResyncChange,
+  ResyncDiff,
+  ResyncField,
+} from "../../../src/types/recipe";
+import { parseIngredients } from "../../../src/utils/ingredientParser";
+import Tag from "../models/Tag";
+import { processImageUrl } from "../utils/awsS3";
+import { computeDiff } from "../utils/batchOperations";
+import { fetchRawHtmlFromUrl } from "./htmlFetchService";
+import { extractRecipeFromPage } from "./recipeExtractionService";
+
+// Fields that can be refreshed, in the order they are shown
+export const RESYNC_FIELDS: ResyncField[] = [
+  "title",
+  "description",
+  "ingredients",
+  "instructions",
+  "cookingTime",
+  "servings",
+  "imageUrl",
+];
+
+/**
+ * Picks the refreshable fields from a recipe. The stored image is our S3 copy,
+ * so the URL it was copied from is compared instead, and ingredients are
+ * parsed on both sides so only changes to their text count.
+ */
+function getResyncValues(
+  recipe: Partial<RecipeType>
+): Partial<Record<ResyncField, unknown>> {
+  const values: Partial<Record<ResyncField, unknown>> = {};
+
+  for (const field of RESYNC_FIELDS) {
+    const value =
+      field === "imageUrl"
+        ? recipe.originalImageUrl || recipe.imageUrl
+        : field === "ingredients" && Array.isArray(recipe.ingredients)
+        ? parseIngredients(recipe.ingredients)
+        : recipe[field];
+    if (value !== undefined && value !== null && value !== "") {
+      values[field] = value;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Re-extracts a recipe from its source URL and compares it with the stored
+ * recipe
+ * @param recipe The stored recipe, which must have a sourceUrl
+ * @returns The fields that differ, or null if the page could not be fetched
+ *   or no recipe could be extracted from it
+ */
+export async function buildResyncDiff(recipe: any): Promise<ResyncDiff | null> {
+  const sourceUrl: string = recipe.sourceUrl;
+
+  const htmlContent = await fetchRawHtmlFromUrl(sourceUrl);
+  if (!htmlContent) {
+    console.log(`Could not fetch ${sourceUrl} to resync recipe ${recipe._id}`);
+    return null;
+  }
+
+  const availableTags = await Tag.find().sort({ name: 1 });
+  const extracted = await extractRecipeFromPage(
+    htmlContent,
+    sourceUrl,
+    availableTags.map((tag) => tag.name)
+  );
+  if (!extracted) {
+    console.log(`Could not extract a recipe from ${sourceUrl} to resync`);
+    return null;
+  }
+
+  const original = getResyncValues(recipe.toObject());
+  const updated = getResyncValues(extracted);
+
+  // Fields the page no longer has are not offered as changes, so a partial
+  // extraction can't wipe out stored values
+  const diff = computeDiff(original, updated);
+  const changes: ResyncChange[] = RESYNC_FIELDS.filter(
+    (field) => diff[field] && diff[field].after !== undefined
+  ).map((field) => ({
+    field,
+    before: diff[field].before,
+    after: diff[field].after,
+  }));
+
+  return {
+    recipeId: recipe._id.toString(),
+    sourceUrl,
+    changes,
+  };
+}
+
+/**
+ * Applies the changes the user accepted to a stored recipe. Unknown fields
+ * and invalid values are ignored.
+ * @param recipe The stored recipe document
+ * @param fields The accepted values, keyed by field
+ * @returns The saved recipe and the fields that were updated
+ */
+export async function applyResyncChanges(
+  recipe: any,
+  fields: Partial<Record<ResyncField, unknown>>
+) {
+  const applied: ResyncField[] = [];
+
+  for (const field of RESYNC_FIELDS) {
+    const value = fields[field];
+    if (value === undefined) continue;
+
+    switch (field) {
+      case "title":
+      case "description":
+        if (typeof value === "string" && value.trim()) {
+          recipe[field] = value.trim();
+          applied.push(field);
+        }
+        break;
+      case "ingredients":
+        if (Array.isArray(value) && value.length > 0) {
+          recipe.ingredients = parseIngredients(value as IngredientType[]);
+          applied.push(field);
+        }
+        break;
+      case "instructions":
+        if (Array.isArray(value) && value.length > 0) {
+          recipe.instructions = value as InstructionType[];
+          applied.push(field);
+        }
+        break;
+      case "cookingTime":
+      case "servings": {
+        const number = Number(value);
+        if (Number.isFinite(number) && number > 0) {
+          recipe[field] = Math.round(number);
+          applied.push(field);
+        }
+        break;
+      }
+      case "imageUrl":
+        if (typeof value === "string" && /^https?:\/\//i.test(value)) {
+          // Copy the new image to S3, like an import does
+          recipe.originalImageUrl = value;
+          recipe.imageUrl = await processImageUrl(value);
+          applied.push(field);
+        }
+        break;
+    }
+  }
+
+  const savedRecipe = await recipe.save();
+  console.log(
+    `Resynced recipe ${savedRecipe._id}: ${applied.join(", ") || "no changes"}`
+  );
+
+  return { recipe: savedRecipe, applied };
+}
+
+// Export the module
+export default {
+  buildResyncDiff,
+  applyResyncChanges,
+};
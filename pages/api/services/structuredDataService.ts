@@ -0,0 +1,624 @@
+/**
+ * Structured Data Service
+ *
+ * Service for extracting recipe data directly from the structured markup that
+ * most recipe sites embed (schema.org JSON-LD, microdata or RDFa, and the older
+ * hRecipe microformat), so we only need to fall back to the LLM when a page has
+ * no usable structured data.
+ */
+
+import * as cheerio from "cheerio";
+import type { Element } from "domhandler";
+import {
+  IngredientItem,
+  InstructionType,
+  Recipe,
+} from "../../../src/types/recipe";
+
+/**
+ * Extract a recipe from the structured data embedded in raw HTML
+ * @param html The raw HTML of the page (scripts must not be stripped yet)
+ * @param sourceUrl Optional source URL of the recipe
+ * @param availableTags Optional array of available tags to match categories against
+ * @returns A structured recipe object or null if no usable structured data exists
+ */
+export const extractRecipeFromStructuredData = (
+  html: string,
+  sourceUrl?: string,
+  availableTags?: string[]
+): Recipe | null => {
+  try {
+    const $ = cheerio.load(html);
+
+    // Try each markup format in order of how reliable it tends to be
+    const sources: Array<[string, () => Record<string, any> | null]> = [
+      ["JSON-LD", () => findJsonLdRecipe($)],
+      ["microdata", () => findMicrodataRecipe($)],
+      ["RDFa", () => findRdfaRecipe($)],
+      ["hRecipe", () => findHRecipe($)],
+    ];
+
+    for (const [format, findRecipe] of sources) {
+      const recipeNode = findRecipe();
+      if (!recipeNode) continue;
+
+      const recipe = mapSchemaRecipe(recipeNode, sourceUrl, availableTags);
+      if (!recipe) {
+        console.log(
+          `Found ${format} Recipe, but it is missing required fields`
+        );
+        continue;
+      }
+
+      console.log(
+        `Extracted recipe from ${format} structured data: ${recipe.title}`
+      );
+      return recipe;
+    }
+
+    return null;
+  } catch (error) {
+    console.error("Error extracting structured recipe data:", error);
+    return null;
+  }
+};
+
+/**
+ * Checks whether raw HTML embeds a schema.org Recipe in its JSON-LD
+ * @param html The raw HTML of the page (scripts must not be stripped yet)
+ */
+export const hasJsonLdRecipe = (html: string): boolean => {
+  try {
+    return findJsonLdRecipe(cheerio.load(html)) !== null;
+  } catch (error) {
+    console.error("Error checking page for JSON-LD recipe:", error);
+    return false;
+  }
+};
+
+/**
+ * Finds the first schema.org Recipe object in the page's JSON-LD scripts,
+ * looking inside arrays and @graph containers
+ */
+function findJsonLdRecipe($: cheerio.CheerioAPI): Record<string, any> | null {
+  let found: Record<string, any> | null = null;
+
+  $('script[type="application/ld+json"]').each(function () {
+    if (found) return;
+
+    const raw = $(this).contents().text().trim();
+    if (!raw) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      // Some sites leave trailing commas or raw control characters in their JSON-LD
+      try {
+        parsed = JSON.parse(
+          raw.replace(/,\s*([\]}])/g, "$1").replace(/[\u0000-\u001f]+/g, " ")
+        );
+      } catch (retryError) {
+        console.warn("Skipping unparseable JSON-LD block");
+        return;
+      }
+    }
+
+    found = findRecipeNode(parsed);
+  });
+
+  return found;
+}
+
+/**
+ * Recursively searches a parsed JSON-LD value for a node typed as Recipe
+ */
+function findRecipeNode(value: unknown): Record<string, any> | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const node = findRecipeNode(item);
+      if (node) return node;
+    }
+    return null;
+  }
+
+  const node = value as Record<string, any>;
+  if (hasType(node, "Recipe")) {
+    return node;
+  }
+
+  if (node["@graph"]) {
+    return findRecipeNode(node["@graph"]);
+  }
+
+  // Some pages nest the recipe under mainEntity or mainEntityOfPage
+  if (node.mainEntity) {
+    return findRecipeNode(node.mainEntity);
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether a JSON-LD node has the given @type (which may be an array)
+ */
+function hasType(node: Record<string, any>, type: string): boolean {
+  const nodeType = node["@type"];
+  if (Array.isArray(nodeType)) {
+    return nodeType.some((t) => String(t).toLowerCase() === type.toLowerCase());
+  }
+  return String(nodeType || "").toLowerCase() === type.toLowerCase();
+}
+
+/**
+ * Finds the first microdata Recipe (itemscope/itemtype/itemprop) and converts
+ * it to the same shape as a JSON-LD Recipe node
+ */
+function findMicrodataRecipe(
+  $: cheerio.CheerioAPI
+): Record<string, any> | null {
+  const scope = $("[itemscope][itemtype]")
+    .filter((_, el) => isSchemaType($(el).attr("itemtype"), "Recipe"))
+    .first();
+
+  if (scope.length === 0) {
+    return null;
+  }
+
+  return readScopedItem($, scope.get(0) as Element, {
+    propertyAttr: "itemprop",
+    scopeAttr: "itemscope",
+    typeAttr: "itemtype",
+  });
+}
+
+/**
+ * Finds the first RDFa Recipe (typeof/property) and converts it to the same
+ * shape as a JSON-LD Recipe node
+ */
+function findRdfaRecipe($: cheerio.CheerioAPI): Record<string, any> | null {
+  const scope = $("[typeof]")
+    .filter((_, el) => isSchemaType($(el).attr("typeof"), "Recipe"))
+    .first();
+
+  if (scope.length === 0) {
+    return null;
+  }
+
+  return readScopedItem($, scope.get(0) as Element, {
+    propertyAttr: "property",
+    scopeAttr: "typeof",
+    typeAttr: "typeof",
+  });
+}
+
+/**
+ * Finds the first hRecipe microformat (classic or microformats2 class names)
+ * and converts it to the same shape as a JSON-LD Recipe node
+ */
+function findHRecipe($: cheerio.CheerioAPI): Record<string, any> | null {
+  const scope = $(".hrecipe, .h-recipe").first();
+  if (scope.length === 0) {
+    return null;
+  }
+
+  const texts = (selector: string) =>
+    scope
+      .find(selector)
+      .toArray()
+      .map((el) => readElementText($, el))
+      .filter((text) => text.length > 0);
+
+  const durations = scope
+    .find(".duration, .dt-duration")
+    .toArray()
+    .map((el) => $(el).attr("title") || $(el).attr("datetime") || $(el).text());
+
+  const instructionElements = scope
+    .find(".instructions, .e-instructions")
+    .toArray();
+
+  return {
+    "@type": "Recipe",
+    name: texts(".fn, .p-name")[0],
+    description: texts(".summary, .p-summary")[0],
+    recipeIngredient: texts(".ingredient, .p-ingredient"),
+    recipeInstructions: instructionElements.flatMap((el) =>
+      readListItems($, el)
+    ),
+    totalTime: durations[0],
+    recipeYield: texts(".yield, .p-yield")[0],
+    image: scope
+      .find(".photo, .u-photo")
+      .toArray()
+      .map((el) => $(el).attr("src") || $(el).attr("href"))
+      .filter(Boolean),
+    recipeCategory: texts(".tag, .category, .p-category"),
+  };
+}
+
+/**
+ * Attribute names that describe items and their properties in an HTML
+ * markup format (microdata or RDFa)
+ */
+interface ScopedMarkupAttributes {
+  propertyAttr: string;
+  scopeAttr: string;
+  typeAttr: string;
+}
+
+/**
+ * Reads the properties belonging to an item scope into a plain object.
+ * Properties on nested items are attached to that item rather than to the
+ * outer scope, and nested items (e.g. HowToStep, ImageObject) become objects.
+ */
+function readScopedItem(
+  $: cheerio.CheerioAPI,
+  scope: Element,
+  attrs: ScopedMarkupAttributes
+): Record<string, any> {
+  const item: Record<string, any> = {
+    "@type": stripSchemaPrefix($(scope).attr(attrs.typeAttr) || ""),
+  };
+
+  $(scope)
+    .find(`[${attrs.propertyAttr}]`)
+    .each((_, el) => {
+      // Skip properties that belong to a nested item
+      const owner = $(el).parent().closest(`[${attrs.scopeAttr}]`).get(0);
+      if (owner !== scope) return;
+
+      const value =
+        $(el).attr(attrs.scopeAttr) !== undefined
+          ? readScopedItem($, el, attrs)
+          : readPropertyValue($, el);
+
+      const names = ($(el).attr(attrs.propertyAttr) || "")
+        .split(/\s+/)
+        .map(stripSchemaPrefix)
+        .filter(Boolean);
+
+      for (const name of names) {
+        item[name] =
+          item[name] === undefined ? value : [...toArray(item[name]), value];
+      }
+    });
+
+  return item;
+}
+
+/**
+ * Reads a property value the way the microdata and RDFa specs define it:
+ * content attributes first, then URLs for media and links, then text
+ */
+function readPropertyValue($: cheerio.CheerioAPI, el: Element): unknown {
+  const element = $(el);
+  const content = element.attr("content");
+  if (content !== undefined) {
+    return content;
+  }
+
+  switch (el.tagName.toLowerCase()) {
+    case "img":
+    case "audio":
+    case "video":
+    case "source":
+      return element.attr("src") || element.attr("data-src") || "";
+    case "a":
+    case "link":
+    case "area":
+      return element.attr("href") || "";
+    case "time":
+      return element.attr("datetime") || element.text();
+    case "data":
+    case "meter":
+      return element.attr("value") || element.text();
+  }
+
+  // Instruction containers usually hold a list or paragraphs, one per step
+  const listItems = readListItems($, el);
+  return listItems.length > 1 ? listItems : readElementText($, el);
+}
+
+/**
+ * Splits an element into one string per list item or paragraph, falling back
+ * to the element's own text
+ */
+function readListItems($: cheerio.CheerioAPI, el: Element): string[] {
+  const blocks = $(el).find("li, p").toArray();
+  const texts = (blocks.length > 0 ? blocks : [el])
+    .map((block) => readElementText($, block))
+    .filter((text) => text.length > 0);
+
+  return texts;
+}
+
+/**
+ * Gets an element's text with whitespace collapsed
+ */
+function readElementText($: cheerio.CheerioAPI, el: Element): string {
+  return $(el).text().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Checks whether a microdata itemtype or RDFa typeof value names a schema.org type
+ */
+function isSchemaType(value: string | undefined, type: string): boolean {
+  return (value || "")
+    .split(/\s+/)
+    .some((t) => stripSchemaPrefix(t).toLowerCase() === type.toLowerCase());
+}
+
+/**
+ * Strips a vocabulary URL or prefix, e.g. "https://schema.org/Recipe" or
+ * "schema:recipeIngredient", down to the bare term
+ */
+function stripSchemaPrefix(value: string): string {
+  return value.replace(/^.*[/#:]/, "");
+}
+
+/**
+ * Maps a schema.org Recipe node onto our Recipe type
+ * Returns null if the node lacks a title, ingredients or instructions
+ */
+function mapSchemaRecipe(
+  node: Record<string, any>,
+  sourceUrl?: string,
+  availableTags?: string[]
+): Recipe | null {
+  const title = cleanText(node.name || node.headline);
+
+  const ingredients: IngredientItem[] = toArray(
+    node.recipeIngredient || node.ingredients
+  )
+    .map((item) => cleanText(item))
+    .filter((text) => text.length > 0)
+    .map((text) => ({ text }));
+
+  const instructions = parseJsonLdInstructions(node.recipeInstructions);
+
+  if (!title || ingredients.length === 0 || instructions.length === 0) {
+    return null;
+  }
+
+  // Prefer the total time, falling back to prep + cook time
+  let cookingTime = parseDuration(node.totalTime);
+  if (!cookingTime) {
+    const combined =
+      (parseDuration(node.prepTime) || 0) + (parseDuration(node.cookTime) || 0);
+    cookingTime = combined > 0 ? combined : undefined;
+  }
+
+  const recipe: Partial<Recipe> = {
+    title,
+    description: cleanText(node.description) || title,
+    ingredients,
+    instructions,
+    cookingTime,
+    servings: parseRecipeYield(node.recipeYield),
+    imageUrl: parseImageUrl(node.image, sourceUrl) || "default-recipe.jpg",
+    sourceUrl: sourceUrl || "",
+    user: { _id: "", username: "" }, // Will be set properly by the controller
+    createdAt: new Date().toISOString(),
+  };
+
+  const tags = matchAvailableTags(node, availableTags);
+  if (tags.length > 0) {
+    // Tag names are converted to tag IDs by the import controllers
+    recipe.tags = tags as any;
+  }
+
+  return recipe as Recipe;
+}
+
+/**
+ * Reads recipeInstructions, which may be a string, an array of strings,
+ * HowToStep objects or HowToSection objects containing further steps. Named
+ * HowToSections become instruction sections; other lists are flattened.
+ */
+function parseJsonLdInstructions(value: unknown): InstructionType[] {
+  const visit = (item: unknown, instructions: InstructionType[]) => {
+    if (!item) return;
+
+    if (typeof item === "string") {
+      // A single string often contains every step separated by newlines
+      item
+        .split(/\n+/)
+        .map((line) => cleanText(line))
+        .filter((line) => line.length > 0)
+        .forEach((text) => instructions.push({ text }));
+      return;
+    }
+
+    if (Array.isArray(item)) {
+      item.forEach((child) => visit(child, instructions));
+      return;
+    }
+
+    if (typeof item === "object") {
+      const node = item as Record<string, any>;
+
+      if (hasType(node, "HowToSection") || node.itemListElement) {
+        const steps: InstructionType[] = [];
+        visit(node.itemListElement, steps);
+
+        const sectionTitle = hasType(node, "HowToSection")
+          ? cleanText(node.name)
+          : "";
+        if (sectionTitle && steps.length > 0) {
+          instructions.push({ sectionTitle, instructions: steps });
+        } else {
+          instructions.push(...steps);
+        }
+        return;
+      }
+
+      const text = cleanText(node.text || node.name || node.description);
+      if (text) {
+        instructions.push({ text });
+      }
+    }
+  };
+
+  const instructions: InstructionType[] = [];
+  visit(value, instructions);
+  return instructions;
+}
+
+/**
+ * Parses a duration into minutes. Accepts ISO-8601 durations as well as the
+ * human-readable text ("1 hr 30 mins") that microformats often use.
+ */
+export function parseDuration(value: unknown): number | undefined {
+  const first = toArray(value)[0];
+  if (!first || typeof first !== "string") {
+    return undefined;
+  }
+
+  const isoMinutes = parseIsoDuration(first);
+  if (isoMinutes !== undefined) {
+    return isoMinutes;
+  }
+
+  const hours = first.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hours?)\b/i);
+  const minutes = first.match(/(\d+)\s*(?:m|min|mins|minutes?)\b/i);
+  if (!hours && !minutes) {
+    return undefined;
+  }
+
+  const total =
+    parseFloat(hours?.[1] || "0") * 60 + parseInt(minutes?.[1] || "0", 10);
+  return total > 0 ? Math.round(total) : undefined;
+}
+
+/**
+ * Parses an ISO-8601 duration (e.g. "PT1H30M" or "P0DT0H45M") into minutes
+ */
+export function parseIsoDuration(value: unknown): number | undefined {
+  if (!value || typeof value !== "string") {
+    return undefined;
+  }
+
+  const match = value
+    .trim()
+    .match(
+      /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i
+    );
+
+  if (!match) {
+    return undefined;
+  }
+
+  const [, days, hours, minutes, seconds] = match;
+  const total =
+    parseFloat(days || "0") * 24 * 60 +
+    parseFloat(hours || "0") * 60 +
+    parseFloat(minutes || "0") +
+    parseFloat(seconds || "0") / 60;
+
+  return total > 0 ? Math.round(total) : undefined;
+}
+
+/**
+ * Parses recipeYield, which may be a number, a string like "4 servings" or
+ * "Makes 12", or an array of such values
+ */
+export function parseRecipeYield(value: unknown): number | undefined {
+  for (const item of toArray(value)) {
+    if (typeof item === "number" && item > 0) {
+      return Math.round(item);
+    }
+
+    const match = String(item).match(/\d+/);
+    if (match) {
+      const servings = parseInt(match[0], 10);
+      if (servings > 0) {
+        return servings;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Picks an image URL from a string, an ImageObject or an array of either,
+ * resolving relative URLs against the source URL when one is known
+ */
+function parseImageUrl(value: unknown, sourceUrl?: string): string | undefined {
+  for (const item of toArray(value)) {
+    let url: unknown = item;
+    if (item && typeof item === "object") {
+      url =
+        (item as Record<string, any>).url ||
+        (item as Record<string, any>).contentUrl;
+    }
+
+    if (typeof url === "string" && url.trim()) {
+      try {
+        return sourceUrl ? new URL(url.trim(), sourceUrl).href : url.trim();
+      } catch (error) {
+        return url.trim();
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Matches the recipe's category, cuisine and keywords against the available tags
+ */
+function matchAvailableTags(
+  node: Record<string, any>,
+  availableTags?: string[]
+): string[] {
+  if (!availableTags || availableTags.length === 0) {
+    return [];
+  }
+
+  const terms = [
+    ...toArray(node.recipeCategory),
+    ...toArray(node.recipeCuisine),
+    ...toArray(node.keywords).flatMap((keyword) => String(keyword).split(",")),
+  ]
+    .map((term) => cleanText(term).toLowerCase())
+    .filter((term) => term.length > 0);
+
+  return availableTags.filter((tag) => terms.includes(tag.toLowerCase()));
+}
+
+/**
+ * Wraps a single value in an array, leaving arrays untouched
+ */
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Converts a JSON-LD text value to plain text, decoding HTML entities and
+ * stripping any markup some sites leave in their structured data
+ */
+function cleanText(value: unknown): string {
+  if (value === undefined || value === null || typeof value === "object") {
+    return "";
+  }
+
+  const text = String(value);
+  const decoded = /[<&]/.test(text) ? cheerio.load(text).root().text() : text;
+
+  return decoded.replace(/\s+/g, " ").trim();
+}
+
+// Export the module
+export default {
+  extractRecipeFromStructuredData,
+  hasJsonLdRecipe,
+};
@@ -0,0 +1,54 @@
+import { NextApiResponse } from "next";
+import {
+  backupStorageKey,
+  createBackupArchive,
+} from "../services/backupService";
+import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
+import { getBackupDownloadUrl, uploadBackupFile } from "../utils/awsS3";
+
+// @desc    Create a backup archive of the user's recipes, order and favorites,
+//          returning a short-lived link to download it from S3 (backups
+//          include image copies, so they're too large to send directly)
+// @route   GET /api/users/backup
+// @access  Private
+async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
+  // Connect to the database
+  await connectDB();
+
+  // Only allow GET method for this endpoint
+  if (req.method !== "GET") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const zip = await createBackupArchive(req.user._id, req.user.username);
+
+    const date = new Date().toISOString().slice(0, 10);
+    const fileName = `simple-recipes-backup-${date}.zip`;
+    const key = backupStorageKey(req.user._id, "downloads");
+    await uploadBackupFile(
+      key,
+      zip.generateNodeStream({
+        type: "nodebuffer",
+        streamFiles: true,
+        compression: "DEFLATE",
+      })
+    );
+
+    return res.status(200).json({
+      downloadUrl: await getBackupDownloadUrl(key, fileName),
+      fileName,
+    });
+  } catch (error) {
+    console.error("Error creating backup:", error);
+    return res
+      .status(500)
+      .json({ message: "Server error while creating backup" });
+  }
+}
+
+export default withProtect(handler);
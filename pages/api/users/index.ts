@@ -36,6 +36,7 @@ export default async function handler(
       return res.status(201).json({
         _id: user._id,
         username: user.username,
+        unitPreference: user.unitPreference,
         token: generateToken(user._id.toString()),
       });
     } else {
@@ -59,6 +59,7 @@ export default async function handler(
     return res.json({
       _id: user._id,
       username: user.username,
+      unitPreference: user.unitPreference || "original",
       token,
     });
   } catch (error) {
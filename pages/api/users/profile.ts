@@ -1,7 +1,10 @@
 import { NextApiResponse } from "next";
+import { UnitPreference } from "../../../src/types/recipe";
 import User from "../models/User";
 import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
 
+const UNIT_PREFERENCES: UnitPreference[] = ["us", "metric", "original"];
+
 // @desc    Get or update user profile
 // @route   GET/PUT /api/users/profile
 // @access  Private
@@ -30,6 +33,7 @@ async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
       return res.json({
         _id: user._id,
         username: user.username,
+        unitPreference: user.unitPreference || "original",
       });
     }
 
@@ -41,11 +45,23 @@ async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
         user.password = req.body.password;
       }
 
+      if (req.body.unitPreference !== undefined) {
+        if (!UNIT_PREFERENCES.includes(req.body.unitPreference)) {
+          return res.status(400).json({
+            message: `Unit preference must be one of: ${UNIT_PREFERENCES.join(
+              ", "
+            )}`,
+          });
+        }
+        user.unitPreference = req.body.unitPreference;
+      }
+
       const updatedUser = await user.save();
 
       return res.json({
         _id: updatedUser._id,
         username: updatedUser.username,
+        unitPreference: updatedUser.unitPreference || "original",
         token: req.headers.authorization?.split(" ")[1], // Return the same token
       });
     }
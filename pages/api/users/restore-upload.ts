@@ -0,0 +1,38 @@
+import { NextApiResponse } from "next";
+import { MAX_BACKUP_SIZE, backupStorageKey } from "../services/backupService";
+import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
+import { getBackupUploadUrl } from "../utils/awsS3";
+
+// @desc    Get a short-lived link to upload a backup archive to S3, to be
+//          restored with POST /api/users/restore
+// @route   POST /api/users/restore-upload
+// @access  Private
+async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
+  // Connect to the database
+  await connectDB();
+
+  // Only allow POST method for this endpoint
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    const key = backupStorageKey(req.user._id, "uploads");
+    return res.status(200).json({
+      uploadUrl: await getBackupUploadUrl(key),
+      key,
+      maxSize: MAX_BACKUP_SIZE,
+    });
+  } catch (error) {
+    console.error("Error preparing backup upload:", error);
+    return res
+      .status(500)
+      .json({ message: "Server error while preparing the upload" });
+  }
+}
+
+export default withProtect(handler);
@@ -0,0 +1,90 @@
+import { NextApiResponse } from "next";
+import {
+  BackupContents,
+  MAX_BACKUP_SIZE,
+  isUserUploadKey,
+  readBackupArchive,
+  restoreBackup,
+} from "../services/backupService";
+import { AuthNextApiRequest, connectDB, withProtect } from "../utils/auth";
+import { deleteBackupFile, readBackupFile } from "../utils/awsS3";
+
+// @desc    Restore a backup archive into the user's account, once it's been
+//          uploaded to S3 through POST /api/users/restore-upload
+// @route   POST /api/users/restore
+// @access  Private
+async function handler(req: AuthNextApiRequest, res: NextApiResponse) {
+  // Connect to the database
+  await connectDB();
+
+  // Only allow POST method for this endpoint
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authorized" });
+    }
+
+    // Only the user's own uploads can be restored
+    const { key } = req.body;
+    if (!isUserUploadKey(key, req.user._id)) {
+      return res.status(400).json({ message: "Backup file is required" });
+    }
+
+    let archive: Buffer | null;
+    try {
+      archive = await readBackupFile(key, MAX_BACKUP_SIZE);
+    } catch (readError) {
+      console.error("Error reading uploaded backup:", readError);
+      return res
+        .status(400)
+        .json({ message: "The backup wasn't uploaded. Please try again." });
+    }
+    // The upload has been read (or refused), so it isn't needed any more
+    await deleteBackupFile(key).catch((deleteError) =>
+      console.error("Error deleting uploaded backup:", deleteError)
+    );
+    if (!archive) {
+      return res.status(413).json({
+        message: `Backup is too large (maximum ${
+          MAX_BACKUP_SIZE / 1024 / 1024
+        } MB)`,
+      });
+    }
+    if (archive.length === 0) {
+      return res.status(400).json({ message: "Backup file is required" });
+    }
+
+    let contents: BackupContents;
+    try {
+      contents = await readBackupArchive(archive);
+    } catch (archiveError) {
+      console.error("Error reading backup:", archiveError);
+      return res.status(400).json({
+        message:
+          archiveError instanceof Error
+            ? archiveError.message
+            : "The file is not a valid backup archive",
+      });
+    }
+
+    console.log(
+      `Restoring backup with ${contents.recipes.length} recipes for user ${req.user._id}`
+    );
+    const result = await restoreBackup(contents, req.user._id);
+
+    return res.status(200).json({
+      message: `Restored ${result.recipesRestored} recipes, skipped ${result.recipesSkipped} already in your account`,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error restoring backup:", error);
+    return res
+      .status(500)
+      .json({ message: "Server error while restoring backup" });
+  }
+}
+
+export default withProtect(handler);
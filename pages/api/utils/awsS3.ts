@@ -1,10 +1,10 @@
 import AWS from "aws-sdk";
-import axios from "axios";
 import { createReadStream, writeFile } from "fs";
 import { unlink } from "fs/promises";
 import { tmpdir } from "os";
 import path from "path";
 import { promisify } from "util";
+import { SafeFetchError, SafeFetchOptions, safeFetch } from "./safeFetch";
 
 // Promisify writeFile
 const writeFileAsync = promisify(writeFile);
@@ -20,20 +20,32 @@ AWS.config.update({
 const s3 = new AWS.S3();
 const bucketName = process.env.AWS_S3_BUCKET_IMAGES;
 const cloudfrontDomain = process.env.AWS_CLOUDFRONT_DOMAIN;
+// Backups go in their own bucket when one is set. They're private: only
+// reachable through short-lived signed links. A lifecycle rule on the
+// "backups/" prefix should expire them after a day.
+const backupBucketName =
+  process.env.AWS_S3_BUCKET_BACKUPS || process.env.AWS_S3_BUCKET_IMAGES;
+
+// How long a signed backup download or upload link works
+const SIGNED_URL_EXPIRY_SECONDS = 15 * 60;
+
+// Images are only downloaded from public addresses, up to 15MB, and some
+// CDNs serve them as generic binary data
+const IMAGE_FETCH_OPTIONS: SafeFetchOptions = {
+  accept: "image/*",
+  allowedContentTypes: ["image/", "application/octet-stream"],
+  maxBytes: 15 * 1024 * 1024,
+};
 
 /**
  * Downloads an image from a URL and returns the local file path
  */
 export async function downloadImage(imageUrl: string): Promise<string> {
   try {
-    const response = await axios({
-      method: "GET",
-      url: imageUrl,
-      responseType: "arraybuffer",
-    });
+    const response = await safeFetch(imageUrl, IMAGE_FETCH_OPTIONS);
 
     // Get the file extension from the URL or Content-Type
-    const contentType = response.headers["content-type"];
+    const contentType = response.contentType;
     let extension = ".jpg"; // default extension
 
     if (contentType) {
@@ -69,6 +81,18 @@ export async function downloadImage(imageUrl: string): Promise<string> {
   }
 }
 
+/**
+ * Downloads an image from a URL and returns its data, without writing it to
+ * disk (e.g. to add to a backup archive)
+ */
+export async function downloadImageData(imageUrl: string): Promise<Buffer> {
+  const response = await safeFetch(imageUrl, {
+    ...IMAGE_FETCH_OPTIONS,
+    timeoutMs: 30000,
+  });
+  return response.data;
+}
+
 /**
  * Uploads an image to S3 and returns the S3 URL
  */
@@ -161,8 +185,8 @@ export async function processImageUrl(
   } catch (error) {
     console.error("Error processing image:", error);
 
-    // Retry logic (max 2 retries)
-    if (retryCount < 2) {
+    // Retry logic (max 2 retries); refused URLs would only be refused again
+    if (retryCount < 2 && !(error instanceof SafeFetchError)) {
       console.log(
         `Retrying image processing for ${imageUrl} (attempt ${retryCount + 1})`
       );
@@ -174,6 +198,43 @@ export async function processImageUrl(
   }
 }
 
+/**
+ * Works out an image file extension from the first bytes of the image data
+ */
+function getImageExtension(data: Buffer): string {
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e) {
+    return ".png";
+  }
+  if (data.subarray(0, 3).toString("ascii") === "GIF") {
+    return ".gif";
+  }
+  if (
+    data.subarray(0, 4).toString("ascii") === "RIFF" &&
+    data.subarray(8, 12).toString("ascii") === "WEBP"
+  ) {
+    return ".webp";
+  }
+  return ".jpg";
+}
+
+/**
+ * Processes raw image data (e.g. a photo embedded in an import file):
+ * writes it to a temporary file and uploads it to S3
+ * Returns the new CloudFront URL
+ */
+export async function processImageData(data: Buffer): Promise<string> {
+  const extension = getImageExtension(data);
+  const fileName = `recipe-${Date.now()}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}${extension}`;
+
+  // Write the image to a temporary file so it goes through the usual upload
+  const filePath = path.join(tmpdir(), `recipe-image-${fileName}`);
+  await writeFileAsync(filePath, data);
+
+  return uploadImageToS3(filePath, fileName);
+}
+
 /**
  * Processes HTML content, finding all <img> tags,
  * downloading the images, uploading to S3, and replacing
@@ -323,3 +384,81 @@ export async function processImagesInHtml(
     return htmlContent;
   }
 }
+
+/**
+ * Uploads a backup archive to S3. Streams are uploaded as they're generated,
+ * so the whole archive never has to be in memory.
+ */
+export async function uploadBackupFile(
+  key: string,
+  body: Buffer | NodeJS.ReadableStream
+): Promise<void> {
+  await s3
+    .upload({
+      Bucket: backupBucketName as string,
+      Key: key,
+      Body: body,
+      ContentType: "application/zip",
+    })
+    .promise();
+}
+
+/**
+ * Creates a short-lived link to download a backup straight from S3, saved
+ * under the given file name
+ */
+export function getBackupDownloadUrl(
+  key: string,
+  fileName: string
+): Promise<string> {
+  return s3.getSignedUrlPromise("getObject", {
+    Bucket: backupBucketName,
+    Key: key,
+    Expires: SIGNED_URL_EXPIRY_SECONDS,
+    ResponseContentDisposition: `attachment; filename="${fileName}"`,
+  });
+}
+
+/**
+ * Creates a short-lived link the browser can upload a backup to with a PUT,
+ * so the archive doesn't pass through a request body
+ */
+export function getBackupUploadUrl(key: string): Promise<string> {
+  return s3.getSignedUrlPromise("putObject", {
+    Bucket: backupBucketName,
+    Key: key,
+    Expires: SIGNED_URL_EXPIRY_SECONDS,
+    ContentType: "application/zip",
+  });
+}
+
+/**
+ * Reads an uploaded backup from S3
+ * @returns The archive, or null if it's larger than maxBytes
+ * @throws If there's no file with that key
+ */
+export async function readBackupFile(
+  key: string,
+  maxBytes: number
+): Promise<Buffer | null> {
+  const head = await s3
+    .headObject({ Bucket: backupBucketName as string, Key: key })
+    .promise();
+  if ((head.ContentLength || 0) > maxBytes) {
+    return null;
+  }
+
+  const object = await s3
+    .getObject({ Bucket: backupBucketName as string, Key: key })
+    .promise();
+  return object.Body as Buffer;
+}
+
+/**
+ * Deletes a backup from S3 once it's been restored
+ */
+export async function deleteBackupFile(key: string): Promise<void> {
+  await s3
+    .deleteObject({ Bucket: backupBucketName as string, Key: key })
+    .promise();
+}
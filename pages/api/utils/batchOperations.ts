@@ -6,7 +6,7 @@ import { connectDB } from "./auth";
  * Utility function to compute the difference between two objects
  * Returns an object containing only the properties that changed
  */
-function computeDiff(
+export function computeDiff(
   original: Record<string, any>,
   updated: Record<string, any>
 ): Record<string, any> {
@@ -0,0 +1,28 @@
+/**
+ * Runs an async function over a list of items with at most `limit` calls in
+ * flight at once. Results are returned in the same order as the items.
+ * @param items The items to process
+ * @param limit Maximum number of concurrent calls
+ * @param fn The async function to run for each item
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  // Each worker keeps taking the next unprocessed item until none are left
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
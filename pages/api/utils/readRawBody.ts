@@ -0,0 +1,24 @@
+import { NextApiRequest } from "next";
+
+/**
+ * Reads the raw request body, rejecting bodies larger than maxBytes. The route
+ * must disable Next's body parser for the body to still be available.
+ * @returns The body, or null if it was larger than maxBytes
+ */
+export async function readRawBody(
+  req: NextApiRequest,
+  maxBytes: number
+): Promise<Buffer | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      return null;
+    }
+    chunks.push(Buffer.from(chunk));
+  }
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,31 @@
+import { IncomingMessage } from "http";
+
+/**
+ * Works out the site's origin (e.g. "https://example.com"). The SITE_URL
+ * environment variable is used when set. Otherwise the origin comes from the
+ * request's Host header; x-forwarded-host is ignored, as any client can set
+ * it. Works for API routes and for pages rendered on the server.
+ */
+export function getRequestOrigin(req: IncomingMessage): string {
+  const siteUrl = process.env.SITE_URL?.trim();
+  if (siteUrl) {
+    return siteUrl.replace(/\/+$/, "");
+  }
+
+  const forwardedProto = req.headers["x-forwarded-proto"];
+  const proto = (
+    Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto
+  )
+    ?.split(",")[0]
+    .trim()
+    .toLowerCase();
+  const protocol = proto === "https" ? "https" : "http";
+
+  // Only accept a plain host name with an optional port
+  const host = req.headers.host?.trim();
+  if (!host || !/^[a-z0-9.-]+(:\d+)?$/i.test(host)) {
+    return `${protocol}://localhost:3000`;
+  }
+
+  return `${protocol}://${host}`;
+}
@@ -0,0 +1,397 @@
+/**
+ * Safe Fetch
+ *
+ * Fetches user-supplied URLs from the server without letting them reach the
+ * server's own network. Only http(s) on web ports is allowed, every host name
+ * is resolved and refused if it points at a private, loopback, link-local or
+ * otherwise internal address (checked when connecting, so DNS can't change in
+ * between), redirects are followed by hand so each hop is checked the same
+ * way, and responses are limited in size and content type.
+ *
+ * Environment variables:
+ *   ALLOW_PRIVATE_FETCH  "true" to allow internal addresses outside
+ *                        production, e.g. to import from a local test server
+ */
+
+import axios, { LookupAddressEntry } from "axios";
+import dns from "dns";
+import net from "net";
+import { Readable } from "stream";
+
+// Most redirects followed for one request
+const MAX_REDIRECTS = 5;
+
+const ALLOWED_PROTOCOLS = ["http:", "https:"];
+
+// Ports a URL may use ("" is the protocol's default)
+const ALLOWED_PORTS = ["", "80", "443", "8080", "8443"];
+
+// Host names that always point at the local machine or network
+const BLOCKED_HOSTNAMES =
+  /^(?:localhost|.*\.localhost|.*\.local|.*\.internal)$/i;
+
+const DEFAULT_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36";
+
+// Addresses that are not on the public internet
+const blockedAddresses = new net.BlockList();
+[
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, including cloud metadata services
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // Documentation
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["198.51.100.0", 24], // Documentation
+  ["203.0.113.0", 24], // Documentation
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+].forEach(([address, prefix]) =>
+  blockedAddresses.addSubnet(address as string, prefix as number, "ipv4")
+);
+[
+  ["::", 128], // Unspecified
+  ["::1", 128], // Loopback
+  ["64:ff9b::", 96], // NAT64, which can reach IPv4 addresses
+  ["2001:db8::", 32], // Documentation
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+].forEach(([address, prefix]) =>
+  blockedAddresses.addSubnet(address as string, prefix as number, "ipv6")
+);
+
+/**
+ * Why a URL could not be fetched safely
+ */
+export type SafeFetchFailure =
+  | "invalid-url"
+  | "blocked-address"
+  | "too-many-redirects"
+  | "too-large"
+  | "unsupported-content-type"
+  | "http-error";
+
+/**
+ * Error thrown when a URL is refused or its response breaks a limit
+ */
+export class SafeFetchError extends Error {
+  reason: SafeFetchFailure;
+  status?: number;
+  // The Retry-After header of a failed response, if it had one
+  retryAfter?: string;
+
+  constructor(
+    reason: SafeFetchFailure,
+    message: string,
+    status?: number,
+    retryAfter?: string
+  ) {
+    super(message);
+    this.name = "SafeFetchError";
+    this.reason = reason;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Options for a safe fetch
+ */
+export interface SafeFetchOptions {
+  // Accept header sent with the request
+  accept: string;
+  // Content types the response may have (matched on the start of the
+  // header, e.g. "image/"); a response without a content type is allowed
+  allowedContentTypes: string[];
+  // Largest response body accepted, in bytes
+  maxBytes: number;
+  // Time allowed for each request, in milliseconds
+  timeoutMs?: number;
+  // Extra request headers, e.g. for conditional requests
+  headers?: Record<string, string>;
+}
+
+/**
+ * A response fetched by safeFetch
+ */
+export interface SafeFetchResponse {
+  // The URL the response came from, after redirects
+  url: string;
+  // 200-299, or 304 (with no data) when a conditional request matched
+  status: number;
+  contentType: string;
+  // Validators for conditional requests, if the server sent them
+  etag?: string;
+  lastModified?: string;
+  data: Buffer;
+}
+
+/**
+ * Whether internal addresses may be fetched (only ever outside production)
+ */
+function allowPrivateAddresses(): boolean {
+  return (
+    process.env.NODE_ENV !== "production" &&
+    process.env.ALLOW_PRIVATE_FETCH === "true"
+  );
+}
+
+/**
+ * Checks whether an IP address is on the public internet. IPv4 addresses
+ * written as IPv6 ("::ffff:127.0.0.1") are checked as IPv4.
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(
+    /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i
+  );
+  if (mapped) {
+    const ipv4 = mapped[1]
+      ? mapped[1]
+      : [mapped[2], mapped[3]]
+          .map((group) => parseInt(group, 16))
+          .flatMap((value) => [value >> 8, value & 0xff])
+          .join(".");
+    return isPublicAddress(ipv4);
+  }
+
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Checks that a URL may be fetched: an http(s) URL on an allowed port whose
+ * host isn't an internal name or address. Host names are resolved when
+ * connecting, by safeLookup.
+ * @throws SafeFetchError if the URL is refused
+ */
+export function assertSafeUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    throw new SafeFetchError("invalid-url", `Invalid URL: ${url}`);
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+    throw new SafeFetchError(
+      "invalid-url",
+      `Only http and https URLs can be fetched: ${url}`
+    );
+  }
+  if (!ALLOWED_PORTS.includes(parsed.port)) {
+    throw new SafeFetchError(
+      "invalid-url",
+      `Port ${parsed.port} is not allowed: ${url}`
+    );
+  }
+  if (parsed.username || parsed.password) {
+    throw new SafeFetchError(
+      "invalid-url",
+      `URLs with credentials are not allowed: ${url}`
+    );
+  }
+
+  if (allowPrivateAddresses()) {
+    return parsed;
+  }
+
+  // IP literals are connected to directly, so check them here
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  if (
+    BLOCKED_HOSTNAMES.test(hostname) ||
+    (net.isIP(hostname) !== 0 && !isPublicAddress(hostname))
+  ) {
+    throw new SafeFetchError(
+      "blocked-address",
+      `Refusing to fetch an internal address: ${url}`
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * DNS lookup used for every connection: resolves the host and refuses it if
+ * any of its addresses are internal
+ */
+function safeLookup(
+  hostname: string,
+  options: object,
+  callback: (err: Error | null, addresses: LookupAddressEntry[]) => void
+) {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, []);
+      return;
+    }
+
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked && !allowPrivateAddresses()) {
+      callback(
+        new SafeFetchError(
+          "blocked-address",
+          `Refusing to connect to ${hostname}: it resolves to an internal address (${blocked.address})`
+        ),
+        []
+      );
+      return;
+    }
+
+    // axios picks the first address itself when Node asks for only one
+    callback(
+      null,
+      addresses.map((entry) => ({
+        address: entry.address,
+        family: entry.family === 6 ? 6 : 4,
+      }))
+    );
+  });
+}
+
+/**
+ * Reads a response stream into a buffer, stopping once it passes the limit
+ */
+async function readLimited(
+  stream: Readable,
+  maxBytes: number,
+  url: string
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      stream.destroy();
+      throw new SafeFetchError(
+        "too-large",
+        `Response from ${url} is larger than ${maxBytes} bytes`
+      );
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Fetches a user-supplied URL, checking it and every redirect hop first and
+ * enforcing the size and content type limits
+ * @param url The URL to fetch
+ * @param options The Accept header, allowed content types and size limit
+ * @returns The response body and where it came from
+ * @throws SafeFetchError if the URL is refused or a limit is broken, or the
+ *   request's own error if it fails
+ */
+export async function safeFetch(
+  url: string,
+  options: SafeFetchOptions
+): Promise<SafeFetchResponse> {
+  let currentUrl = assertSafeUrl(url).href;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await axios.get<Readable>(currentUrl, {
+      headers: {
+        "User-Agent": DEFAULT_USER_AGENT,
+        Accept: options.accept,
+        ...options.headers,
+      },
+      responseType: "stream",
+      timeout: options.timeoutMs ?? 15000,
+      maxRedirects: 0,
+      maxContentLength: options.maxBytes,
+      // Environment proxies would connect on our behalf, skipping the checks
+      proxy: false,
+      lookup: safeLookup,
+      validateStatus: () => true,
+    });
+
+    // Follow redirects ourselves, so each hop is checked
+    const location = response.headers["location"];
+    if (response.status >= 300 && response.status < 400 && location) {
+      response.data.destroy();
+      currentUrl = assertSafeUrl(
+        new URL(String(location), currentUrl).href
+      ).href;
+      continue;
+    }
+
+    const etag = response.headers["etag"]
+      ? String(response.headers["etag"])
+      : undefined;
+    const lastModified = response.headers["last-modified"]
+      ? String(response.headers["last-modified"])
+      : undefined;
+
+    // The copy the caller already has is still current
+    if (response.status === 304) {
+      response.data.destroy();
+      return {
+        url: currentUrl,
+        status: 304,
+        contentType: "",
+        etag,
+        lastModified,
+        data: Buffer.alloc(0),
+      };
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      response.data.destroy();
+      const retryAfter = response.headers["retry-after"];
+      throw new SafeFetchError(
+        "http-error",
+        `Request to ${currentUrl} failed with status ${response.status}`,
+        response.status,
+        retryAfter ? String(retryAfter) : undefined
+      );
+    }
+
+    const contentType = String(response.headers["content-type"] || "")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+    if (
+      contentType &&
+      !options.allowedContentTypes.some((allowed) =>
+        contentType.startsWith(allowed)
+      )
+    ) {
+      response.data.destroy();
+      throw new SafeFetchError(
+        "unsupported-content-type",
+        `Unexpected content type "${contentType}" from ${currentUrl}`
+      );
+    }
+
+    const declaredLength = Number(response.headers["content-length"]);
+    if (declaredLength > options.maxBytes) {
+      response.data.destroy();
+      throw new SafeFetchError(
+        "too-large",
+        `Response from ${currentUrl} is larger than ${options.maxBytes} bytes`
+      );
+    }
+
+    const data = await readLimited(response.data, options.maxBytes, currentUrl);
+    return {
+      url: currentUrl,
+      status: response.status,
+      contentType,
+      etag,
+      lastModified,
+      data,
+    };
+  }
+
+  throw new SafeFetchError(
+    "too-many-redirects",
+    `Too many redirects fetching ${url}`
+  );
+}
@@ -13,6 +13,12 @@ import { useRouter } from "next/router";
 import React, { useEffect, useState } from "react";
 import { useAuth } from "../../src/context/AuthContext";
 import { recipeAPI } from "../../src/services/api";
+import { IngredientType } from "../../src/types/recipe";
+import {
+  ALLERGEN_LABELS,
+  classifyIngredients,
+  explainTriggers,
+} from "../../src/utils/dietClassifier";
 import TagBadge from "./TagBadge";
 
 // Create a global event bus for favorites updates
@@ -30,6 +36,7 @@ interface RecipeCardProps {
     sourceUrl?: string;
     order?: number;
     tags?: Array<{ _id: string; name: string }>;
+    ingredients?: IngredientType[];
     user?: { _id: string; username: string };
   };
   from?: string;
@@ -82,6 +89,23 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
 
   const placeholderGradient = getGradientColors(recipe?.title || "Recipe");
 
+  // Allergens found in the ingredients, with the ingredients that contain
+  // them shown on hover
+  const allergens = classifyIngredients(recipe.ingredients || []).allergens;
+  const allergenBadges = allergens.length > 0 && (
+    <div className="mt-2 flex flex-wrap gap-1" aria-label="Allergens">
+      {allergens.map(({ allergen, triggers }) => (
+        <span
+          key={allergen}
+          title={`${ALLERGEN_LABELS[allergen]}: ${explainTriggers(triggers)}`}
+          className="text-xs px-2 py-0.5 rounded-full bg-amber-50 text-amber-800 border border-amber-200"
+        >
+          {ALLERGEN_LABELS[allergen]}
+        </span>
+      ))}
+    </div>
+  );
+
   // Setup drag and drop with dnd-kit
   const {
     attributes,
@@ -303,6 +327,7 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
               <p className="text-gray-600 text-sm line-clamp-2">
                 {recipe?.description || "No description available"}
               </p>
+              {allergenBadges}
             </div>
 
             {/* Display tags and edit/delete icons in the same line */}
@@ -430,6 +455,7 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
               <p className="text-gray-600 text-sm line-clamp-2">
                 {recipe?.description || "No description available"}
               </p>
+              {allergenBadges}
             </div>
 
             {/* Display tags and edit/delete icons in the same line */}
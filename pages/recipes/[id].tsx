@@ -2,28 +2,47 @@ import {
   ArrowLeftIcon,
   ArrowsPointingInIcon,
   ArrowsPointingOutIcon,
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
   ArrowTopRightOnSquareIcon,
   ClockIcon,
   HeartIcon,
   PencilIcon,
   TrashIcon,
-  UsersIcon,
 } from "@heroicons/react/24/outline";
+import { GetServerSideProps } from "next";
 import Head from "next/head";
 import Link from "next/link";
 import { useRouter } from "next/router";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import NutritionPanel from "../../src/components/NutritionPanel";
+import ServingsStepper from "../../src/components/ServingsStepper";
+import UnitPreferenceToggle from "../../src/components/UnitPreferenceToggle";
 import { useAuth } from "../../src/context/AuthContext";
 import { recipeAPI } from "../../src/services/api";
-import { IngredientItem, IngredientType, Recipe } from "../../src/types/recipe";
+import {
+  IngredientItem,
+  IngredientType,
+  InstructionType,
+  Recipe,
+} from "../../src/types/recipe";
+import { getRequestOrigin } from "../api/utils/requestOrigin";
+import { scaleIngredients } from "../../src/utils/recipeScaling";
+import {
+  convertIngredients,
+  convertInstructions,
+} from "../../src/utils/unitConversion";
 import { favoritesUpdated } from "../components/RecipeCard";
 import TagBadge from "../components/TagBadge";
 
-// Helper component to recursively render ingredients
+// Helper component to recursively render ingredients. Sections can contain
+// sub-sections, which are indented under smaller headings.
 const RenderIngredients = ({
   ingredients,
+  depth = 0,
 }: {
   ingredients: Array<IngredientType>;
+  depth?: number;
 }) => {
   // Helper function to render optional ingredients with appropriate formatting
   const renderIngredientText = (item: IngredientItem) => {
@@ -43,17 +62,24 @@ const RenderIngredients = ({
   };
 
   return (
-    <ul className="space-y-3">
+    <ul className={`space-y-3 ${depth > 1 ? "pl-4" : ""}`}>
       {ingredients.map((item, index) => {
         // Check if this is a section or a regular ingredient
         if ("sectionTitle" in item) {
           // This is a section
           return (
             <li key={index} className="mt-4 first:mt-0">
-              <h3 className="font-bold text-gray-800 mb-2 text-lg">
+              <h3
+                className={`font-bold text-gray-800 mb-2 ${
+                  depth === 0 ? "text-lg" : "text-base"
+                }`}
+              >
                 {item.sectionTitle}
               </h3>
-              <RenderIngredients ingredients={item.ingredients} />
+              <RenderIngredients
+                ingredients={item.ingredients}
+                depth={depth + 1}
+              />
             </li>
           );
         } else {
@@ -69,10 +95,103 @@ const RenderIngredients = ({
   );
 };
 
-export default function RecipeDetail() {
+const RenderInstructions = ({
+  instructions,
+  compact = false,
+  depth = 0,
+}: {
+  instructions: Array<InstructionType>;
+  // Smaller spacing and text for the mobile layout
+  compact?: boolean;
+  depth?: number;
+}) => {
+  // Steps are numbered within each section, so a section heading doesn't
+  // take a number from the steps around it
+  let stepNumber = 0;
+
+  return (
+    <ol
+      className={`${compact ? "space-y-3" : "space-y-6"} ${
+        depth > 0 ? "mt-2" : ""
+      }`}
+    >
+      {instructions.map((item, index) => {
+        if ("sectionTitle" in item) {
+          return (
+            <li key={index} className="list-none">
+              <h3
+                className={`font-bold text-gray-800 mb-2 ${
+                  compact || depth > 0 ? "text-base" : "text-lg"
+                }`}
+              >
+                {item.sectionTitle}
+              </h3>
+              <RenderInstructions
+                instructions={item.instructions}
+                compact={compact}
+                depth={depth + 1}
+              />
+            </li>
+          );
+        }
+
+        stepNumber++;
+        return (
+          <li
+            key={index}
+            value={stepNumber}
+            className={
+              compact
+                ? "ml-5 list-decimal text-base text-gray-700"
+                : "ml-6 list-decimal text-gray-700 text-lg leading-relaxed"
+            }
+          >
+            {item.text}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+type RecipeDetailProps = {
+  // schema.org Recipe data, ready for an inline script tag, or null when the
+  // recipe wasn't found
+  jsonLd: string | null;
+};
+
+// The recipe's schema.org data is written into the server-rendered HTML, so
+// crawlers and recipe managers that don't run JavaScript can read it. The
+// rest of the page still loads the recipe on the client.
+export const getServerSideProps: GetServerSideProps<
+  RecipeDetailProps
+> = async ({ params, req }) => {
+  const id = params?.id;
+  if (typeof id !== "string") {
+    return { props: { jsonLd: null } };
+  }
+
+  try {
+    // Import the database code lazily so building the page doesn't need it
+    const { getRecipeJsonLdScript } = await import(
+      "../api/services/recipeJsonLdService"
+    );
+    return {
+      props: {
+        jsonLd: await getRecipeJsonLdScript(id, getRequestOrigin(req)),
+      },
+    };
+  } catch (error) {
+    // The page can still show the recipe without its structured data
+    console.error("Error loading recipe structured data:", error);
+    return { props: { jsonLd: null } };
+  }
+};
+
+export default function RecipeDetail({ jsonLd }: RecipeDetailProps) {
   const router = useRouter();
   const { id } = router.query;
-  const { user } = useAuth();
+  const { user, unitPreference, setUnitPreference } = useAuth();
   const [recipe, setRecipe] = useState<Recipe | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -82,6 +201,25 @@ export default function RecipeDetail() {
     "ingredients" | "instructions" | null
   >(null);
   const [imageError, setImageError] = useState(false);
+  // How much the ingredients are scaled by, set with the servings stepper
+  const [scaleFactor, setScaleFactor] = useState(1);
+
+  // Ingredients and instructions as shown: scaled, then in the user's units
+  const scaledIngredients = useMemo(
+    () =>
+      recipe
+        ? convertIngredients(
+            scaleIngredients(recipe.ingredients, scaleFactor),
+            unitPreference
+          )
+        : [],
+    [recipe, scaleFactor, unitPreference]
+  );
+  const convertedInstructions = useMemo(
+    () =>
+      recipe ? convertInstructions(recipe.instructions, unitPreference) : [],
+    [recipe, unitPreference]
+  );
 
   // Generate a consistent color based on recipe title
   const getGradientColors = (title: string) => {
@@ -115,6 +253,7 @@ export default function RecipeDetail() {
         setLoading(true);
         const data = await recipeAPI.getRecipeById(id as string);
         setRecipe(data);
+        setScaleFactor(1);
         setIsFavorite(data.isFavorite || false);
         setImageError(!data.imageUrl);
       } catch (err) {
@@ -217,9 +356,22 @@ export default function RecipeDetail() {
     setImageError(true);
   };
 
+  // Rendered with every state of the page, so the structured data is in the
+  // server-rendered HTML even though the recipe is still loading there
+  const structuredData = jsonLd && (
+    <Head>
+      {/* schema.org Recipe data for recipe managers and smart displays */}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: jsonLd }}
+      />
+    </Head>
+  );
+
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
+        {structuredData}
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
       </div>
     );
@@ -228,6 +380,7 @@ export default function RecipeDetail() {
   if (error || !recipe) {
     return (
       <div className="container max-w-4xl mx-auto my-8 px-4">
+        {structuredData}
         <Link href="/" className="text-blue-500 hover:underline font-medium">
           ← Back to Home
         </Link>
@@ -247,6 +400,7 @@ export default function RecipeDetail() {
         <title>{recipe.title} | Simple Recipes</title>
         <meta name="description" content={recipe.description} />
       </Head>
+      {structuredData}
 
       {/* Desktop Version */}
       <div className="container max-w-6xl mx-auto my-8 px-4 md:block hidden">
@@ -340,7 +494,8 @@ export default function RecipeDetail() {
                 </div>
               )}
 
-              {/* Display metadata: cooking time, servings, source */}
+              {/* Display metadata: cooking time (servings are shown with the
+                  ingredients, where they can be changed) */}
               <div className="flex flex-wrap gap-4 text-sm text-gray-600 mb-4">
                 {recipe.cookingTime && (
                   <div className="flex items-center">
@@ -348,13 +503,6 @@ export default function RecipeDetail() {
                     <span>{recipe.cookingTime} minutes</span>
                   </div>
                 )}
-
-                {recipe.servings && (
-                  <div className="flex items-center">
-                    <UsersIcon className="h-5 w-5 mr-1 text-gray-500" />
-                    <span>{recipe.servings} servings</span>
-                  </div>
-                )}
               </div>
 
               {/* Source URL and Full Recipe links */}
@@ -370,6 +518,27 @@ export default function RecipeDetail() {
                     View Original Recipe
                   </a>
                 )}
+                {recipe.sourceUrl &&
+                  user &&
+                  recipe.user &&
+                  user._id === recipe.user._id && (
+                    <Link
+                      href={`/recipes/${recipe._id}/resync`}
+                      className="text-blue-500 hover:underline flex items-center"
+                    >
+                      <ArrowPathIcon className="h-5 w-5 mr-1" />
+                      Refresh from Source
+                    </Link>
+                  )}
+                <a
+                  href={`/api/recipes/${recipe._id}?format=cooklang${
+                    scaleFactor !== 1 ? `&scale=${scaleFactor}` : ""
+                  }`}
+                  className="text-blue-500 hover:underline flex items-center"
+                >
+                  <ArrowDownTrayIcon className="h-5 w-5 mr-1" />
+                  Download Cooklang
+                </a>
               </div>
             </div>
 
@@ -378,9 +547,20 @@ export default function RecipeDetail() {
                 <div className="bg-gray-50 rounded-lg border border-gray-200 h-auto max-h-[600px] overflow-y-auto">
                   <div className="sticky top-0 bg-gray-50 z-10 p-4 pb-2 border-b border-gray-100">
                     <h2 className="text-xl font-semibold">Ingredients</h2>
+                    <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+                      <ServingsStepper
+                        baseServings={recipe.servings}
+                        factor={scaleFactor}
+                        onChange={setScaleFactor}
+                      />
+                      <UnitPreferenceToggle
+                        value={unitPreference}
+                        onChange={setUnitPreference}
+                      />
+                    </div>
                   </div>
                   <div className="px-4 pb-4">
-                    <RenderIngredients ingredients={recipe.ingredients} />
+                    <RenderIngredients ingredients={scaledIngredients} />
                   </div>
                 </div>
               </div>
@@ -390,19 +570,22 @@ export default function RecipeDetail() {
                   <div className="sticky top-0 bg-white z-10 pb-2 border-b border-gray-100">
                     <h2 className="text-xl font-semibold">Instructions</h2>
                   </div>
-                  <ol className="space-y-6 mt-4 list-decimal pl-6">
-                    {recipe.instructions.map((instruction, index) => (
-                      <li
-                        key={index}
-                        className="text-gray-700 text-lg leading-relaxed"
-                      >
-                        {instruction.text}
-                      </li>
-                    ))}
-                  </ol>
+                  <div className="mt-4">
+                    <RenderInstructions instructions={convertedInstructions} />
+                  </div>
                 </div>
               </div>
             </div>
+
+            <div className="mt-8">
+              <NutritionPanel
+                recipeId={recipe._id!}
+                version={recipe.updatedAt}
+                canEdit={
+                  !!user && !!recipe.user && user._id === recipe.user._id
+                }
+              />
+            </div>
           </div>
         </div>
       </div>
@@ -472,7 +655,20 @@ export default function RecipeDetail() {
               </button>
             </div>
             <div className="p-3 pt-2">
-              <RenderIngredients ingredients={recipe.ingredients} />
+              <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+                <ServingsStepper
+                  baseServings={recipe.servings}
+                  factor={scaleFactor}
+                  onChange={setScaleFactor}
+                  compact
+                />
+                <UnitPreferenceToggle
+                  value={unitPreference}
+                  onChange={setUnitPreference}
+                  compact
+                />
+              </div>
+              <RenderIngredients ingredients={scaledIngredients} />
             </div>
           </div>
 
@@ -506,13 +702,12 @@ export default function RecipeDetail() {
                 </span>
               </button>
             </div>
-            <ol className="space-y-3 p-3 pt-2">
-              {recipe.instructions.map((instruction, index) => (
-                <li key={index} className="ml-5 list-decimal text-base">
-                  <p className="text-gray-700">{instruction.text}</p>
-                </li>
-              ))}
-            </ol>
+            <div className="p-3 pt-2">
+              <RenderInstructions
+                instructions={convertedInstructions}
+                compact
+              />
+            </div>
           </div>
         </div>
 
@@ -544,6 +739,14 @@ export default function RecipeDetail() {
               >
                 Delete Recipe
               </button>
+              {recipe.sourceUrl && (
+                <Link
+                  href={`/recipes/${recipe._id}/resync`}
+                  className="col-span-2 bg-blue-100 text-blue-600 py-1 px-3 rounded-md text-center text-sm"
+                >
+                  Refresh from Source
+                </Link>
+              )}
             </div>
           )}
         </div>
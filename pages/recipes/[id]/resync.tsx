@@ -0,0 +1,285 @@
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useEffect, useState } from "react";
+import AuthErrorBanner from "../../../src/components/AuthErrorBanner";
+import ProtectedRoute from "../../../src/components/ProtectedRoute";
+import { recipeAPI } from "../../../src/services/api";
+import {
+  IngredientType,
+  InstructionType,
+  ResyncDiff,
+  ResyncField,
+} from "../../../src/types/recipe";
+
+const FIELD_LABELS: Record<ResyncField, string> = {
+  title: "Title",
+  description: "Description",
+  ingredients: "Ingredients",
+  instructions: "Instructions",
+  cookingTime: "Cooking time",
+  servings: "Servings",
+  imageUrl: "Image",
+};
+
+/**
+ * Renders a list of ingredients, including section headings
+ */
+const IngredientList = ({ items }: { items: IngredientType[] }) => (
+  <ul className="list-disc pl-5 space-y-1">
+    {items.map((item, index) =>
+      "sectionTitle" in item ? (
+        <li key={index} className="list-none -ml-5">
+          <p className="font-medium">{item.sectionTitle}</p>
+          <IngredientList items={item.ingredients || []} />
+        </li>
+      ) : (
+        <li key={index}>
+          {item.text}
+          {item.optional && " (optional)"}
+        </li>
+      )
+    )}
+  </ul>
+);
+
+/**
+ * Renders a list of steps, numbered within each section
+ */
+const InstructionList = ({ items }: { items: InstructionType[] }) => (
+  <ol className="list-decimal pl-5 space-y-1">
+    {items.map((item, index) =>
+      "sectionTitle" in item ? (
+        <li key={index} className="list-none -ml-5">
+          <p className="font-medium">{item.sectionTitle}</p>
+          <InstructionList items={item.instructions || []} />
+        </li>
+      ) : (
+        <li key={index}>{item.text}</li>
+      )
+    )}
+  </ol>
+);
+
+/**
+ * Renders one side of a change in a readable form
+ */
+const FieldValue = ({
+  field,
+  value,
+}: {
+  field: ResyncField;
+  value: unknown;
+}) => {
+  if (value === undefined || value === null || value === "") {
+    return <p className="text-gray-400 italic">Not set</p>;
+  }
+
+  switch (field) {
+    case "ingredients":
+      return <IngredientList items={value as IngredientType[]} />;
+    case "instructions":
+      return <InstructionList items={value as InstructionType[]} />;
+    case "cookingTime":
+      return <p>{String(value)} minutes</p>;
+    case "servings":
+      return <p>{String(value)} servings</p>;
+    case "imageUrl":
+      return (
+        <img
+          src={String(value)}
+          alt=""
+          className="w-full max-w-xs h-40 object-cover rounded-md"
+        />
+      );
+    default:
+      return <p>{String(value)}</p>;
+  }
+};
+
+const ResyncRecipePage = () => {
+  const router = useRouter();
+  const { id } = router.query;
+
+  const [diff, setDiff] = useState<ResyncDiff | null>(null);
+  const [accepted, setAccepted] = useState<ResyncField[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDiff = async () => {
+      if (!id) return;
+
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await recipeAPI.getRecipeResyncDiff(id as string);
+        setDiff(data);
+        setAccepted([]);
+      } catch (err: unknown) {
+        console.error("Failed to refresh recipe:", err);
+        const error = err as { message?: string };
+        setError(
+          error.message || "Failed to refresh this recipe from its source."
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDiff();
+  }, [id]);
+
+  const handleToggleField = (field: ResyncField) => {
+    setAccepted((current) =>
+      current.includes(field)
+        ? current.filter((f) => f !== field)
+        : [...current, field]
+    );
+  };
+
+  const handleApply = async () => {
+    if (!diff || accepted.length === 0) return;
+
+    const fields: Partial<Record<ResyncField, unknown>> = {};
+    diff.changes
+      .filter((change) => accepted.includes(change.field))
+      .forEach((change) => {
+        fields[change.field] = change.after;
+      });
+
+    try {
+      setApplying(true);
+      setError(null);
+      await recipeAPI.applyRecipeResync(diff.recipeId, fields);
+      router.push(`/recipes/${diff.recipeId}`);
+    } catch (err: unknown) {
+      console.error("Failed to apply changes:", err);
+      const error = err as { message?: string };
+      setError(error.message || "Failed to apply the selected changes.");
+      setApplying(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <Head>
+          <title>Refresh Recipe | Simple Recipes</title>
+        </Head>
+
+        <div className="max-w-5xl mx-auto pt-10 pb-20 px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center mb-6">
+            <h1 className="text-3xl font-bold text-gray-900">
+              Refresh From Source
+            </h1>
+            {id && (
+              <Link
+                href={`/recipes/${id}`}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+              >
+                Back to Recipe
+              </Link>
+            )}
+          </div>
+
+          {error && <AuthErrorBanner error={error} className="mb-6" />}
+
+          {loading && (
+            <div className="bg-white p-6 rounded-lg shadow-md flex items-center text-gray-600">
+              <ArrowPathIcon className="animate-spin mr-2 h-5 w-5 text-indigo-600" />
+              Fetching the source page and comparing...
+            </div>
+          )}
+
+          {!loading && diff && (
+            <>
+              <p className="text-gray-600 mb-4">
+                Compared with{" "}
+                <a
+                  href={diff.sourceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-500 hover:underline break-all"
+                >
+                  {diff.sourceUrl}
+                </a>
+                . Choose the changes to take; everything else stays as it is.
+              </p>
+
+              {diff.changes.length === 0 ? (
+                <div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-800">
+                  This recipe already matches its source page.
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-4 mb-6">
+                    {diff.changes.map((change) => (
+                      <div
+                        key={change.field}
+                        className="bg-white p-4 rounded-lg shadow-md"
+                      >
+                        <label className="flex items-center font-semibold text-gray-900 mb-3">
+                          <input
+                            type="checkbox"
+                            checked={accepted.includes(change.field)}
+                            onChange={() => handleToggleField(change.field)}
+                            className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                            disabled={applying}
+                          />
+                          {FIELD_LABELS[change.field]}
+                        </label>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-700">
+                          <div>
+                            <p className="text-xs font-medium uppercase text-gray-500 mb-1">
+                              Current
+                            </p>
+                            <FieldValue
+                              field={change.field}
+                              value={change.before}
+                            />
+                          </div>
+                          <div>
+                            <p className="text-xs font-medium uppercase text-gray-500 mb-1">
+                              From source
+                            </p>
+                            <FieldValue
+                              field={change.field}
+                              value={change.after}
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <button
+                    type="button"
+                    onClick={handleApply}
+                    className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 flex items-center justify-center disabled:opacity-50"
+                    disabled={applying || accepted.length === 0}
+                  >
+                    {applying ? (
+                      <>
+                        <ArrowPathIcon className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" />
+                        Applying...
+                      </>
+                    ) : (
+                      `Apply ${accepted.length} Selected Change${
+                        accepted.length === 1 ? "" : "s"
+                      }`
+                    )}
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+};
+
+export default ResyncRecipePage;
@@ -0,0 +1,204 @@
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+import Head from "next/head";
+import Link from "next/link";
+import React, { useState } from "react";
+import AuthErrorBanner from "../../src/components/AuthErrorBanner";
+import ProtectedRoute from "../../src/components/ProtectedRoute";
+import { authAPI } from "../../src/services/api";
+
+type RestoreResult = Awaited<ReturnType<typeof authAPI.restoreBackup>>;
+
+const BackupPage = () => {
+  const [downloading, setDownloading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [restoreResult, setRestoreResult] = useState<RestoreResult | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    setError(null);
+    setDownloading(true);
+
+    try {
+      const { downloadUrl, fileName } = await authAPI.downloadBackup();
+
+      // Save the zip through a temporary link to its signed storage URL
+      const link = document.createElement("a");
+      link.href = downloadUrl;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+    } catch (err: unknown) {
+      console.error("Error downloading backup:", err);
+      const error = err as { message?: string };
+      setError(error.message || "Failed to create a backup");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setRestoreResult(null);
+    setBackupFile(e.target.files?.[0] || null);
+  };
+
+  const handleRestore = async () => {
+    setError(null);
+    setRestoreResult(null);
+
+    if (!backupFile) {
+      setError("Please choose a backup file");
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      setRestoreResult(await authAPI.restoreBackup(backupFile));
+      setBackupFile(null);
+    } catch (err: unknown) {
+      console.error("Error restoring backup:", err);
+      const error = err as { message?: string };
+      setError(error.message || "Failed to restore the backup");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <Head>
+          <title>Backup &amp; Restore | Simple Recipes</title>
+          <meta
+            name="description"
+            content="Back up and restore your Simple Recipes account"
+          />
+        </Head>
+
+        <div className="max-w-4xl mx-auto pt-10 pb-20 px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center mb-6">
+            <h1 className="text-3xl font-bold text-gray-900">
+              Backup &amp; Restore
+            </h1>
+            <Link
+              href="/recipes/my-recipes"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+            >
+              Back to My Recipes
+            </Link>
+          </div>
+
+          {error && <AuthErrorBanner error={error} className="mb-6" />}
+
+          {/* Backup section */}
+          <div className="bg-white p-6 rounded-lg shadow-md mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">
+              Download a backup
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Creates a zip file with all of your recipes, their images and
+              tags, and your recipe order and favorites.
+            </p>
+            <button
+              type="button"
+              onClick={handleDownload}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 flex items-center justify-center"
+              disabled={downloading}
+            >
+              {downloading ? (
+                <>
+                  <ArrowPathIcon className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" />
+                  Creating backup...
+                </>
+              ) : (
+                "Download Backup"
+              )}
+            </button>
+          </div>
+
+          {/* Restore section */}
+          <div className="bg-white p-6 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">
+              Restore a backup
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Adds the recipes from a backup to your account. Recipes you
+              already have are skipped, so restoring the same backup twice is
+              safe.
+            </p>
+
+            <div className="mb-4">
+              <label
+                htmlFor="backup-file"
+                className="block text-gray-700 font-medium mb-2"
+              >
+                Choose backup file
+              </label>
+              <input
+                id="backup-file"
+                type="file"
+                accept=".zip"
+                onChange={handleFileChange}
+                className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-indigo-100 file:text-indigo-700 hover:file:bg-indigo-200"
+                disabled={restoring}
+              />
+            </div>
+
+            {restoreResult && (
+              <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-md text-sm text-green-800">
+                <p className="font-medium">{restoreResult.message}</p>
+                <p className="mt-1">
+                  {restoreResult.userRecipesRestored} order and favorite entries
+                  restored.
+                </p>
+                {restoreResult.unknownTags.length > 0 && (
+                  <p className="mt-1">
+                    These tags aren't available here, so they were left off:{" "}
+                    {restoreResult.unknownTags.join(", ")}.
+                  </p>
+                )}
+                {restoreResult.failures.length > 0 && (
+                  <ul className="mt-2 text-red-600 list-disc pl-5">
+                    {restoreResult.failures.map((failure, index) => (
+                      <li key={index}>
+                        {failure.title}: {failure.reason}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <Link
+                  href="/recipes/my-recipes"
+                  className="inline-block mt-2 text-indigo-600 hover:text-indigo-800"
+                >
+                  View my recipes
+                </Link>
+              </div>
+            )}
+
+            <button
+              type="button"
+              onClick={handleRestore}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 flex items-center justify-center"
+              disabled={restoring}
+            >
+              {restoring ? (
+                <>
+                  <ArrowPathIcon className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" />
+                  Restoring...
+                </>
+              ) : (
+                "Restore Backup"
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+};
+
+export default BackupPage;
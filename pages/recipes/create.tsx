@@ -2,35 +2,49 @@ import Head from "next/head";
 import Link from "next/link";
 import { useRouter } from "next/router";
 import { useState } from "react";
+import BulkImportForm from "../../src/components/BulkImportForm";
 import CollapsibleSection from "../../src/components/CollapsibleSection";
+import CrawlListingForm from "../../src/components/CrawlListingForm";
 import CreateManuallyForm from "../../src/components/CreateManuallyForm";
 import PasteTextForm from "../../src/components/PasteTextForm";
 import ProtectedRoute from "../../src/components/ProtectedRoute";
 import QuickImportForm from "../../src/components/QuickImportForm";
 import UploadFileForm from "../../src/components/UploadFileForm";
-import { Recipe } from "../../src/types/recipe";
+import { ImportPreview, Recipe } from "../../src/types/recipe";
 
 const CreateRecipePage = () => {
   const router = useRouter();
   const [importedRecipe, setImportedRecipe] = useState<Partial<Recipe> | null>(
     null
   );
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(
+    null
+  );
+  // Bumped on every import so the form re-initializes with the new data
+  const [importCount, setImportCount] = useState(0);
 
   // UI state for expandable sections
   const [activeSection, setActiveSection] = useState<
-    "manual" | "paste" | "upload" | null
+    "manual" | "paste" | "upload" | "bulk" | "crawl" | null
   >(null);
 
   const handleRecipeCreated = (recipeId: string) => {
     router.push(`/recipes/${recipeId}`);
   };
 
-  const handleImportForEdit = (recipeData: Partial<Recipe>) => {
+  const handleImportForEdit = (
+    recipeData: Partial<Recipe>,
+    preview?: ImportPreview
+  ) => {
     setImportedRecipe(recipeData);
+    setImportPreview(preview || null);
+    setImportCount((count) => count + 1);
     setActiveSection("manual");
   };
 
-  const toggleSection = (section: "manual" | "paste" | "upload") => {
+  const toggleSection = (
+    section: "manual" | "paste" | "upload" | "bulk" | "crawl"
+  ) => {
     if (activeSection === section) {
       setActiveSection(null);
     } else {
@@ -68,6 +82,24 @@ const CreateRecipePage = () => {
             />
           </div>
 
+          {/* Bulk URL import section */}
+          <CollapsibleSection
+            title="Bulk Import URLs"
+            isActive={activeSection === "bulk"}
+            onToggle={() => toggleSection("bulk")}
+          >
+            <BulkImportForm />
+          </CollapsibleSection>
+
+          {/* Listing crawl section */}
+          <CollapsibleSection
+            title="Import From a Listing Page"
+            isActive={activeSection === "crawl"}
+            onToggle={() => toggleSection("crawl")}
+          >
+            <CrawlListingForm />
+          </CollapsibleSection>
+
           {/* Paste text section */}
           <CollapsibleSection
             title="Paste Text"
@@ -86,7 +118,7 @@ const CreateRecipePage = () => {
             isActive={activeSection === "upload"}
             onToggle={() => toggleSection("upload")}
           >
-            <UploadFileForm />
+            <UploadFileForm onImportSuccess={handleRecipeCreated} />
           </CollapsibleSection>
 
           {/* Manual creation section */}
@@ -96,7 +128,9 @@ const CreateRecipePage = () => {
             onToggle={() => toggleSection("manual")}
           >
             <CreateManuallyForm
+              key={importCount}
               initialData={importedRecipe || undefined}
+              importPreview={importPreview}
               onSuccess={handleRecipeCreated}
             />
           </CollapsibleSection>
@@ -1,15 +1,19 @@
 import { PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
 import { useRouter } from "next/router";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { recipeAPI } from "../../../src/services/api";
 import {
   IngredientItem,
   IngredientSection,
   IngredientType,
-  InstructionItem,
+  InstructionType,
   Recipe as RecipeType,
   Tag,
 } from "../../../src/types/recipe";
+import DietTagSuggestions from "../../../src/components/DietTagSuggestions";
+import InstructionListEditor, {
+  removeEmptyInstructions,
+} from "../../../src/components/InstructionListEditor";
 import TagSelector from "../../components/TagSelector";
 
 export default function EditRecipe() {
@@ -24,83 +28,13 @@ export default function EditRecipe() {
     title: "",
     description: "",
     ingredients: [] as IngredientType[],
-    instructions: [] as InstructionItem[],
+    instructions: [] as InstructionType[],
     cookingTime: "",
     servings: "",
     imageUrl: "",
     tags: [] as Tag[],
   });
 
-  // Add refs object to store refs for textareas
-  const textareaRefs = useRef<{ [key: number]: HTMLTextAreaElement }>({});
-
-  // Add a state to track mobile view
-  const [isMobile, setIsMobile] = useState(false);
-
-  // Add a function to calculate text height
-  const calculateTextHeight = (text: string): number => {
-    // Create a temporary div to measure text height
-    const div = document.createElement("div");
-    div.style.visibility = "hidden";
-    div.style.position = "absolute";
-    div.style.whiteSpace = "pre-wrap";
-    div.style.width = "100%";
-    div.style.padding = "8px 12px";
-    div.style.fontSize = "16px";
-    div.style.lineHeight = "1.5";
-    div.style.border = "1px solid #d1d5db";
-    div.style.borderRadius = "0.375rem";
-    div.textContent = text;
-    document.body.appendChild(div);
-    const height = div.offsetHeight;
-    document.body.removeChild(div);
-    return height;
-  };
-
-  // Add state to track textarea heights
-  const [textareaHeights, setTextareaHeights] = useState<{
-    [key: number]: number;
-  }>({});
-
-  // Update useEffect to detect mobile view
-  useEffect(() => {
-    const checkMobile = () => {
-      setIsMobile(window.innerWidth < 640);
-    };
-
-    // Initial check
-    checkMobile();
-
-    // Add event listener for resize
-    window.addEventListener("resize", checkMobile);
-
-    // Cleanup
-    return () => window.removeEventListener("resize", checkMobile);
-  }, []);
-
-  // Update the adjustTextareaHeight function to respect mobile setting
-  const adjustTextareaHeight = (index: number) => {
-    const textarea = textareaRefs.current[index];
-    if (!textarea || isMobile) return;
-
-    // Reset height to auto to get the correct scrollHeight
-    textarea.style.height = "auto";
-
-    // Calculate new height (scrollHeight gives content height)
-    const newHeight = textarea.scrollHeight;
-
-    // Set new height
-    textarea.style.height = `${newHeight}px`;
-  };
-
-  // Effect to adjust textareas when instructions change
-  useEffect(() => {
-    // Adjust height for all instruction textareas
-    formData.instructions.forEach((_, index) => {
-      adjustTextareaHeight(index);
-    });
-  }, [formData.instructions]);
-
   useEffect(() => {
     const fetchRecipe = async () => {
       if (!id) return;
@@ -172,6 +106,7 @@ export default function EditRecipe() {
       setLoading(true);
       await recipeAPI.updateRecipe(recipe._id as string, {
         ...formData,
+        instructions: removeEmptyInstructions(formData.instructions),
         cookingTime: formData.cookingTime
           ? parseInt(formData.cookingTime)
           : undefined,
@@ -259,30 +194,6 @@ export default function EditRecipe() {
     }
   };
 
-  // Update useEffect to calculate heights when instructions change
-  useEffect(() => {
-    const newHeights: { [key: number]: number } = {};
-    formData.instructions.forEach((instruction, index) => {
-      const height = calculateTextHeight(instruction.text);
-      newHeights[index] = height;
-    });
-    setTextareaHeights(newHeights);
-  }, [formData.instructions]);
-
-  // Update the handleInstructionChange function
-  const handleInstructionChange = (index: number, value: string) => {
-    const newInstructions = [...formData.instructions];
-    newInstructions[index] = { ...newInstructions[index], text: value };
-    setFormData({ ...formData, instructions: newInstructions });
-
-    // Calculate new height for this textarea
-    const height = calculateTextHeight(value);
-    setTextareaHeights((prev) => ({ ...prev, [index]: height }));
-
-    // Schedule height adjustment for the next render
-    setTimeout(() => adjustTextareaHeight(index), 0);
-  };
-
   const addIngredient = () => {
     setFormData({
       ...formData,
@@ -307,16 +218,21 @@ export default function EditRecipe() {
     });
   };
 
+  const addInstructionSection = () => {
+    setFormData({
+      ...formData,
+      instructions: [
+        ...formData.instructions,
+        { sectionTitle: "", instructions: [{ text: "" }] },
+      ],
+    });
+  };
+
   const removeIngredient = (index: number) => {
     const newIngredients = formData.ingredients.filter((_, i) => i !== index);
     setFormData({ ...formData, ingredients: newIngredients });
   };
 
-  const removeInstruction = (index: number) => {
-    const newInstructions = formData.instructions.filter((_, i) => i !== index);
-    setFormData({ ...formData, instructions: newInstructions });
-  };
-
   const addIngredientBeforeSection = (sectionIndex: number) => {
     const newIngredients = [...formData.ingredients];
     // Insert a new ingredient at the specified index
@@ -440,6 +356,14 @@ export default function EditRecipe() {
               className="border border-gray-300 rounded-md p-3"
               recipeCounts={tagCounts}
             />
+            <DietTagSuggestions
+              ingredients={formData.ingredients}
+              availableTags={availableTags}
+              selectedTags={formData.tags || []}
+              onChange={(selected) =>
+                setFormData({ ...formData, tags: selected })
+              }
+            />
           </div>
 
           <div className="bg-gray-50 p-3 sm:p-4 rounded-lg">
@@ -619,33 +543,13 @@ export default function EditRecipe() {
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Instructions
             </label>
-            <div className="space-y-3">
-              {formData.instructions.map((instruction, index) => (
-                <div key={index} className="flex flex-col sm:flex-row gap-2">
-                  <textarea
-                    value={instruction.text}
-                    onChange={(e) =>
-                      handleInstructionChange(index, e.target.value)
-                    }
-                    ref={(el) => {
-                      if (el) textareaRefs.current[index] = el;
-                    }}
-                    className={`flex-1 px-3 sm:px-4 py-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                      isMobile ? "overflow-auto" : "overflow-hidden"
-                    }`}
-                    placeholder={`Step ${index + 1}`}
-                    rows={isMobile ? (textareaHeights[index] > 60 ? 3 : 2) : 2}
-                    required
-                  />
-                  <button
-                    type="button"
-                    onClick={() => removeInstruction(index)}
-                    className="self-start sm:self-center px-3 py-2 text-red-600 hover:text-red-800 hover:bg-red-50 rounded transition-colors"
-                  >
-                    <TrashIcon className="h-5 w-5" />
-                  </button>
-                </div>
-              ))}
+            <InstructionListEditor
+              instructions={formData.instructions}
+              onChange={(instructions) =>
+                setFormData({ ...formData, instructions })
+              }
+            />
+            <div className="flex flex-wrap gap-2 mt-4">
               <button
                 type="button"
                 onClick={addInstruction}
@@ -654,6 +558,14 @@ export default function EditRecipe() {
                 <PlusIcon className="h-5 w-5 mr-1" />
                 Add Instruction
               </button>
+              <button
+                type="button"
+                onClick={addInstructionSection}
+                className="inline-flex items-center px-3 py-2 text-sm text-green-600 hover:text-green-800 hover:bg-green-50 rounded transition-colors"
+              >
+                <PlusIcon className="h-5 w-5 mr-1" />
+                Add Section
+              </button>
             </div>
           </div>
 
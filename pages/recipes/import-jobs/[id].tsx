@@ -0,0 +1,211 @@
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useEffect, useState } from "react";
+import AuthErrorBanner from "../../../src/components/AuthErrorBanner";
+import ProtectedRoute from "../../../src/components/ProtectedRoute";
+import { recipeAPI } from "../../../src/services/api";
+import { ImportJob, ImportJobItemStatus } from "../../../src/types/recipe";
+
+// Delay between processing requests while the job is running
+const POLL_INTERVAL_MS = 1000;
+
+const STATUS_STYLES: Record<ImportJobItemStatus, string> = {
+  queued: "bg-gray-100 text-gray-700",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  duplicate: "bg-yellow-100 text-yellow-800",
+};
+
+const STATUS_LABELS: Record<ImportJobItemStatus, string> = {
+  queued: "Queued",
+  succeeded: "Imported",
+  failed: "Failed",
+  duplicate: "Duplicate",
+};
+
+const ImportJobPage = () => {
+  const router = useRouter();
+  const { id } = router.query;
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the job
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchJob = async () => {
+      try {
+        setLoading(true);
+        setJob(await recipeAPI.getImportJob(id as string));
+        setError(null);
+      } catch (err) {
+        console.error("Failed to fetch import job:", err);
+        setError("Failed to load this import. Please try again later.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchJob();
+  }, [id]);
+
+  // Keep processing batches until nothing is left in the queue
+  const isRunning = job?.status === "running";
+  useEffect(() => {
+    if (!id || !isRunning) return;
+
+    let cancelled = false;
+
+    const processNextBatch = async () => {
+      try {
+        const updatedJob = await recipeAPI.processImportJob(id as string);
+        if (cancelled) return;
+
+        setJob(updatedJob);
+        if (updatedJob.status === "running") {
+          setTimeout(processNextBatch, POLL_INTERVAL_MS);
+        }
+      } catch (err) {
+        console.error("Failed to process import job:", err);
+        if (!cancelled) {
+          setError("Lost connection while importing. Refresh to resume.");
+        }
+      }
+    };
+
+    processNextBatch();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, isRunning]);
+
+  const handleRetry = async () => {
+    try {
+      setRetrying(true);
+      setError(null);
+      setJob(await recipeAPI.retryImportJob(id as string));
+    } catch (err) {
+      console.error("Failed to retry import job:", err);
+      setError("Failed to retry the failed recipes. Please try again.");
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const countByStatus = (status: ImportJobItemStatus) =>
+    job ? job.items.filter((item) => item.status === status).length : 0;
+
+  const total = job?.items.length || 0;
+  const finished = total - countByStatus("queued");
+  const failedCount = countByStatus("failed");
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <Head>
+          <title>Bulk Import | Simple Recipes</title>
+        </Head>
+
+        <div className="max-w-4xl mx-auto pt-10 pb-20 px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center mb-6">
+            <h1 className="text-3xl font-bold text-gray-900">Bulk Import</h1>
+            <Link
+              href="/recipes/my-recipes"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+            >
+              My Recipes
+            </Link>
+          </div>
+
+          {error && <AuthErrorBanner error={error} className="mb-6" />}
+
+          {loading && !job ? (
+            <div className="flex justify-center py-12">
+              <ArrowPathIcon className="animate-spin h-8 w-8 text-indigo-600" />
+            </div>
+          ) : job ? (
+            <div className="bg-white p-6 rounded-lg shadow-md">
+              {/* Progress summary */}
+              <div className="mb-6">
+                <div className="flex justify-between text-sm text-gray-700 mb-2">
+                  <span>
+                    {isRunning
+                      ? `Importing... ${finished} of ${total} done`
+                      : `Finished ${total} URL${total === 1 ? "" : "s"}`}
+                  </span>
+                  <span>
+                    {countByStatus("succeeded")} imported, {failedCount} failed,{" "}
+                    {countByStatus("duplicate")} duplicates
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-indigo-600 h-2 rounded-full transition-all"
+                    style={{
+                      width: `${total ? (finished / total) * 100 : 0}%`,
+                    }}
+                  />
+                </div>
+              </div>
+
+              {!isRunning && failedCount > 0 && (
+                <button
+                  type="button"
+                  onClick={handleRetry}
+                  className="mb-6 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 flex items-center"
+                  disabled={retrying}
+                >
+                  {retrying && (
+                    <ArrowPathIcon className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" />
+                  )}
+                  Retry {failedCount} failed
+                </button>
+              )}
+
+              {/* Per-URL status */}
+              <ul className="divide-y divide-gray-200">
+                {job.items.map((item) => (
+                  <li
+                    key={item._id}
+                    className="py-3 flex flex-col sm:flex-row sm:items-center gap-2"
+                  >
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium w-fit ${
+                        STATUS_STYLES[item.status]
+                      }`}
+                    >
+                      {STATUS_LABELS[item.status]}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 truncate">
+                        {item.url}
+                      </p>
+                      {item.reason && (
+                        <p className="text-xs text-gray-500">{item.reason}</p>
+                      )}
+                    </div>
+                    {item.recipeId && (
+                      <Link
+                        href={`/recipes/${item.recipeId}`}
+                        className="text-sm text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+                      >
+                        View recipe
+                      </Link>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+};
+
+export default ImportJobPage;
@@ -356,6 +356,12 @@ const MyRecipesPage = () => {
               </svg>
               Create Recipe
             </Link>
+            <Link
+              href="/recipes/backup"
+              className="px-4 py-2 bg-indigo-100 text-indigo-700 rounded-md hover:bg-indigo-200 transition-colors flex items-center justify-center"
+            >
+              Backup &amp; Restore
+            </Link>
           </div>
         </div>
 
@@ -0,0 +1,95 @@
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+import { useRouter } from "next/router";
+import { useState } from "react";
+import { recipeAPI } from "../services/api";
+import AuthErrorBanner from "./AuthErrorBanner";
+
+const BulkImportForm = () => {
+  const router = useRouter();
+  const [urlText, setUrlText] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // One URL per line, ignoring blank lines
+  const urls = urlText
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const handleSubmit = async () => {
+    setError(null);
+
+    if (urls.length === 0) {
+      setError("Please enter at least one URL");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const { job } = await recipeAPI.createImportJob(urls);
+      router.push(`/recipes/import-jobs/${job._id}`);
+    } catch (err: unknown) {
+      console.error("Error creating import job:", err);
+      const error = err as { status?: number; message?: string };
+      if (error.status === 401) {
+        setError("You need to be logged in to import recipes.");
+      } else {
+        setError(
+          error.message || "Failed to start the import. Please try again."
+        );
+      }
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      {error && <AuthErrorBanner error={error} className="mb-6" />}
+
+      <div className="mb-4">
+        <label
+          htmlFor="bulk-import-urls"
+          className="block text-gray-700 font-medium mb-2"
+        >
+          Recipe URLs (one per line)
+        </label>
+        <textarea
+          id="bulk-import-urls"
+          value={urlText}
+          onChange={(e) => {
+            setUrlText(e.target.value);
+            setError(null);
+          }}
+          rows={8}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+          placeholder={
+            "https://example.com/recipe-one\nhttps://example.com/recipe-two"
+          }
+          disabled={submitting}
+        />
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSubmit}
+        className="w-full sm:w-auto mt-2 sm:mt-0 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 flex items-center justify-center sm:whitespace-nowrap"
+        disabled={submitting}
+      >
+        {submitting ? (
+          <>
+            <ArrowPathIcon className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" />
+            Starting import...
+          </>
+        ) : (
+          `Import ${urls.length || ""} Recipe${urls.length === 1 ? "" : "s"}`
+        )}
+      </button>
+      <p className="text-sm text-gray-500 mt-1">
+        Recipes are imported in the background. You can follow the progress and
+        retry any that fail.
+      </p>
+    </div>
+  );
+};
+
+export default BulkImportForm;
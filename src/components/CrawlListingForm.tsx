@@ -0,0 +1,226 @@
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+import { useRouter } from "next/router";
+import { useState } from "react";
+import { recipeAPI } from "../services/api";
+import { CrawlListingResult, DiscoveredLinkReason } from "../types/recipe";
+import AuthErrorBanner from "./AuthErrorBanner";
+
+const REASON_LABELS: Record<DiscoveredLinkReason, string> = {
+  jsonLd: "recipe data found",
+  keywords: "recipe keywords",
+};
+
+const CrawlListingForm = () => {
+  const router = useRouter();
+  const [listingUrl, setListingUrl] = useState("");
+  const [result, setResult] = useState<CrawlListingResult | null>(null);
+  const [selectedUrls, setSelectedUrls] = useState<string[]>([]);
+  const [crawling, setCrawling] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCrawl = async () => {
+    setError(null);
+    setResult(null);
+
+    if (!listingUrl.trim()) {
+      setError("Please enter a URL");
+      return;
+    }
+
+    try {
+      setCrawling(true);
+      const crawlResult = await recipeAPI.crawlListing(listingUrl.trim());
+      setResult(crawlResult);
+      // Links confirmed by recipe data are selected to start with
+      setSelectedUrls(
+        crawlResult.links
+          .filter((link) => link.reasons.includes("jsonLd"))
+          .map((link) => link.url)
+      );
+    } catch (err: unknown) {
+      console.error("Error crawling listing page:", err);
+      const error = err as { status?: number; message?: string };
+      if (error.status === 401) {
+        setError("You need to be logged in to import recipes.");
+      } else {
+        setError(error.message || "Failed to read the page. Please try again.");
+      }
+    } finally {
+      setCrawling(false);
+    }
+  };
+
+  const toggleUrl = (url: string) => {
+    setSelectedUrls((current) =>
+      current.includes(url)
+        ? current.filter((u) => u !== url)
+        : [...current, url]
+    );
+  };
+
+  const handleImport = async () => {
+    setError(null);
+
+    if (selectedUrls.length === 0) {
+      setError("Please select at least one recipe");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const { job } = await recipeAPI.createImportJob(selectedUrls);
+      router.push(`/recipes/import-jobs/${job._id}`);
+    } catch (err: unknown) {
+      console.error("Error creating import job:", err);
+      const error = err as { message?: string };
+      setError(
+        error.message || "Failed to start the import. Please try again."
+      );
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      {error && <AuthErrorBanner error={error} className="mb-6" />}
+
+      <div className="mb-4">
+        <label
+          htmlFor="crawl-listing-url"
+          className="block text-gray-700 font-medium mb-2"
+        >
+          Category, index or sitemap URL
+        </label>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            id="crawl-listing-url"
+            type="text"
+            value={listingUrl}
+            onChange={(e) => {
+              setListingUrl(e.target.value);
+              setError(null);
+            }}
+            className="flex-grow px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="https://example.com/category/soups/"
+            disabled={crawling || submitting}
+          />
+          <button
+            type="button"
+            onClick={handleCrawl}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 flex items-center justify-center sm:whitespace-nowrap"
+            disabled={crawling || submitting}
+          >
+            {crawling ? (
+              <>
+                <ArrowPathIcon className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" />
+                Finding recipes...
+              </>
+            ) : (
+              "Find Recipes"
+            )}
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Only links on the same site are followed, and pages are fetched
+          slowly, so this can take up to a minute.
+        </p>
+      </div>
+
+      {result && (
+        <div>
+          {result.truncated && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-300 rounded-md text-sm text-yellow-800">
+              Stopped after {result.pagesFetched} pages, so some recipes may be
+              missing or unconfirmed.
+            </div>
+          )}
+
+          {result.links.length === 0 ? (
+            <p className="text-gray-600">No recipe links found on this page.</p>
+          ) : (
+            <>
+              <div className="flex justify-between items-center mb-2 text-sm">
+                <span className="text-gray-700">
+                  {result.links.length} recipe link
+                  {result.links.length === 1 ? "" : "s"} found
+                </span>
+                <div className="flex gap-3">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setSelectedUrls(result.links.map((link) => link.url))
+                    }
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    Select all
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedUrls([])}
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    Select none
+                  </button>
+                </div>
+              </div>
+
+              <ul className="max-h-96 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-200 mb-4">
+                {result.links.map((link) => (
+                  <li key={link.url}>
+                    <label className="flex items-start gap-2 p-2 text-sm cursor-pointer hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={selectedUrls.includes(link.url)}
+                        onChange={() => toggleUrl(link.url)}
+                        className="mt-1 h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                        disabled={submitting}
+                      />
+                      <span className="min-w-0">
+                        <span className="block font-medium text-gray-900 truncate">
+                          {link.title}
+                        </span>
+                        <span className="block text-gray-500 truncate">
+                          {link.url}
+                        </span>
+                        <span className="block text-xs text-gray-400">
+                          {link.reasons
+                            .map((reason) => REASON_LABELS[reason])
+                            .join(", ")}
+                        </span>
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+
+              <button
+                type="button"
+                onClick={handleImport}
+                className="w-full sm:w-auto bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 flex items-center justify-center sm:whitespace-nowrap"
+                disabled={submitting || selectedUrls.length === 0}
+              >
+                {submitting ? (
+                  <>
+                    <ArrowPathIcon className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" />
+                    Starting import...
+                  </>
+                ) : (
+                  `Import ${selectedUrls.length} Selected Recipe${
+                    selectedUrls.length === 1 ? "" : "s"
+                  }`
+                )}
+              </button>
+              <p className="text-sm text-gray-500 mt-1">
+                Selected recipes are imported in the background, like a bulk
+                import.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CrawlListingForm;
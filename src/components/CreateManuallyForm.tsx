@@ -1,22 +1,31 @@
 import { PlusIcon } from "@heroicons/react/24/outline";
 import { useRouter } from "next/router";
 import React, { useState } from "react";
-import { recipeAPI } from "../services/api";
+import { ApiError, DuplicateOptions, recipeAPI } from "../services/api";
 import {
-  IngredientItem,
-  IngredientSection,
+  DuplicateMatch,
+  ImportPreview,
   IngredientType,
-  InstructionItem,
+  InstructionType,
   Recipe,
 } from "../types/recipe";
+import DuplicateRecipeNotice from "./DuplicateRecipeNotice";
+import IngredientListEditor, {
+  removeEmptyIngredients,
+} from "./IngredientListEditor";
+import InstructionListEditor, {
+  removeEmptyInstructions,
+} from "./InstructionListEditor";
 
 type CreateManuallyFormProps = {
   initialData?: Partial<Recipe>;
+  importPreview?: ImportPreview | null;
   onSuccess?: (recipeId: string) => void;
 };
 
 const CreateManuallyForm = ({
   initialData,
+  importPreview,
   onSuccess,
 }: CreateManuallyFormProps) => {
   const router = useRouter();
@@ -40,21 +49,41 @@ const CreateManuallyForm = ({
       : [{ text: "" }]
   );
 
-  // Track if we have any ingredient sections
-  const [hasIngredientSections, setHasIngredientSections] = useState(false);
-
   // Default to a single empty instruction
-  const [instructions, setInstructions] = useState<InstructionItem[]>(
+  const [instructions, setInstructions] = useState<InstructionType[]>(
     initialData?.instructions?.length
-      ? (initialData.instructions as InstructionItem[])
+      ? (initialData.instructions as InstructionType[])
       : [{ text: "" }]
   );
 
+  // Tags suggested by an import preview, selected by default
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>(
+    importPreview?.suggestedTags.map((tag) => tag._id) || []
+  );
+
+  // Existing recipes that look like this one, from the import preview or a
+  // create request that was stopped as a likely duplicate
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>(
+    importPreview?.duplicates || []
+  );
+
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleToggleTag = (tagId: string) => {
+    setSelectedTagIds((current) =>
+      current.includes(tagId)
+        ? current.filter((id) => id !== tagId)
+        : [...current, tagId]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    submitRecipe();
+  };
+
+  const submitRecipe = async (options: DuplicateOptions = {}) => {
     setError(null);
 
     if (!title || !description) {
@@ -62,28 +91,11 @@ const CreateManuallyForm = ({
       return;
     }
 
-    // Filter out empty ingredients
-    const filteredIngredients = hasIngredientSections
-      ? ingredients.filter((item) => {
-          if ("sectionTitle" in item) {
-            // For sections, keep if they have a title and at least one non-empty ingredient
-            return (
-              item.sectionTitle.trim() &&
-              item.ingredients.some((ing) =>
-                "text" in ing ? ing.text.trim() : true
-              )
-            );
-          } else {
-            // For regular ingredients, keep if they have text
-            return item.text.trim();
-          }
-        })
-      : ingredients.filter((item) => "text" in item && item.text.trim());
+    // Filter out empty ingredients and sections, keeping nested sections
+    const filteredIngredients = removeEmptyIngredients(ingredients);
 
-    // Filter out empty instructions
-    const filteredInstructions = instructions.filter((inst) =>
-      inst.text.trim()
-    );
+    // Filter out empty steps and sections, keeping nested sections
+    const filteredInstructions = removeEmptyInstructions(instructions);
 
     if (filteredIngredients.length === 0) {
       setError("At least one ingredient is required.");
@@ -123,18 +135,34 @@ const CreateManuallyForm = ({
 
     try {
       setIsLoading(true);
-      const response = await recipeAPI.createRecipe(recipeData);
 
-      if (onSuccess && response._id) {
-        onSuccess(response._id);
-      } else if (response._id) {
-        router.push(`/recipes/${response._id}`);
+      // Reviewed imports are saved through the import commit step so the
+      // image is copied to S3 and the selected tags are attached
+      const recipeId = importPreview
+        ? (
+            await recipeAPI.commitImportedRecipe(
+              recipeData,
+              selectedTagIds,
+              options.mergeInto
+            )
+          ).recipeId
+        : (await recipeAPI.createRecipe(recipeData, options))._id;
+
+      if (onSuccess && recipeId) {
+        onSuccess(recipeId);
+      } else if (recipeId) {
+        router.push(`/recipes/${recipeId}`);
       } else {
         throw new Error("Recipe created but no ID was returned");
       }
     } catch (err) {
       console.error("Failed to create recipe:", err);
-      setError("Failed to create recipe. Please try again.");
+      const error = err as ApiError;
+      if (error.status === 409 && error.duplicates) {
+        setDuplicates(error.duplicates);
+      } else {
+        setError("Failed to create recipe. Please try again.");
+      }
       setIsLoading(false);
     }
   };
@@ -143,37 +171,15 @@ const CreateManuallyForm = ({
     setIngredients([...ingredients, { text: "" }]);
   };
 
-  const handleRemoveIngredient = (index: number) => {
-    const newIngredients = [...ingredients];
-    newIngredients.splice(index, 1);
-    setIngredients(newIngredients);
-  };
-
-  const handleIngredientChange = (index: number, value: string) => {
-    const newIngredients = [...ingredients];
-
-    // Check if this ingredient is a simple ingredient item
-    if ("text" in newIngredients[index]) {
-      (newIngredients[index] as IngredientItem).text = value;
-    }
-
-    setIngredients(newIngredients);
-  };
-
   const handleAddInstruction = () => {
     setInstructions([...instructions, { text: "" }]);
   };
 
-  const handleRemoveInstruction = (index: number) => {
-    const newInstructions = [...instructions];
-    newInstructions.splice(index, 1);
-    setInstructions(newInstructions);
-  };
-
-  const handleInstructionChange = (index: number, value: string) => {
-    const newInstructions = [...instructions];
-    newInstructions[index].text = value;
-    setInstructions(newInstructions);
+  const handleAddInstructionSection = () => {
+    setInstructions([
+      ...instructions,
+      { sectionTitle: "New Section", instructions: [{ text: "" }] },
+    ]);
   };
 
   return (
@@ -184,6 +190,32 @@ const CreateManuallyForm = ({
         </div>
       )}
 
+      {importPreview && importPreview.warnings.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-400 text-yellow-800 px-4 py-3 rounded mb-6">
+          <p className="font-medium mb-1">Check these before saving:</p>
+          <ul className="list-disc pl-5 text-sm">
+            {importPreview.warnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {duplicates.length > 0 && (
+        <DuplicateRecipeNotice
+          duplicates={duplicates}
+          // Reviewed imports are saved with the form's own save button
+          onSaveAnyway={
+            importPreview
+              ? undefined
+              : () => submitRecipe({ allowDuplicate: true })
+          }
+          saveAnywayLabel="Save Anyway"
+          onMerge={(recipeId) => submitRecipe({ mergeInto: recipeId })}
+          busy={isLoading}
+        />
+      )}
+
       <form
         onSubmit={handleSubmit}
         className="bg-white shadow-md rounded-lg p-6"
@@ -239,8 +271,59 @@ const CreateManuallyForm = ({
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             placeholder="https://example.com/image.jpg"
           />
+          {importPreview && importPreview.imageCandidates.length > 1 && (
+            <div className="mt-3">
+              <p className="text-sm text-gray-600 mb-2">
+                Other images found on the page:
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {importPreview.imageCandidates.map((candidate) => (
+                  <button
+                    key={candidate}
+                    type="button"
+                    onClick={() => setImageUrl(candidate)}
+                    className={`h-20 w-20 rounded-md overflow-hidden border-2 ${
+                      imageUrl === candidate
+                        ? "border-indigo-600"
+                        : "border-transparent hover:border-gray-300"
+                    }`}
+                  >
+                    <img
+                      src={candidate}
+                      alt="Image candidate"
+                      className="h-full w-full object-cover"
+                    />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
+        {importPreview && importPreview.suggestedTags.length > 0 && (
+          <div className="mb-6">
+            <label className="block text-gray-700 font-medium mb-2">
+              Suggested Tags
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {importPreview.suggestedTags.map((tag) => (
+                <button
+                  key={tag._id}
+                  type="button"
+                  onClick={() => handleToggleTag(tag._id)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium ${
+                    selectedTagIds.includes(tag._id)
+                      ? "bg-indigo-600 text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {tag.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
           <div>
             <label
@@ -306,217 +389,10 @@ const CreateManuallyForm = ({
               Add Ingredient
             </button>
           </div>
-          {ingredients.map((ingredient, index) => (
-            <div key={index} className="flex items-center gap-2 mb-2">
-              {/* Check if this is a regular ingredient or a section */}
-              {"text" in ingredient ? (
-                // Regular ingredient
-                <div className="flex flex-col w-full">
-                  <div className="flex items-center gap-2">
-                    <input
-                      type="text"
-                      value={ingredient.text}
-                      onChange={(e) =>
-                        handleIngredientChange(index, e.target.value)
-                      }
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      placeholder="Ingredient"
-                    />
-                    {/* Button to convert to section */}
-                    <button
-                      type="button"
-                      onClick={() => {
-                        const newIngredients = [...ingredients];
-                        newIngredients[index] = {
-                          sectionTitle:
-                            "text" in ingredient && ingredient.text
-                              ? ingredient.text
-                              : "New Section",
-                          ingredients: [{ text: "" }],
-                        };
-                        setIngredients(newIngredients);
-                        setHasIngredientSections(true);
-                      }}
-                      className="text-indigo-600 hover:text-indigo-800"
-                    >
-                      Make Section
-                    </button>
-                  </div>
-                  <div className="flex items-center mt-1 ml-1">
-                    <input
-                      type="checkbox"
-                      id={`ingredient-optional-${index}`}
-                      checked={ingredient.optional || false}
-                      onChange={(e) => {
-                        const newIngredients = [...ingredients];
-                        (newIngredients[index] as IngredientItem).optional =
-                          e.target.checked;
-                        setIngredients(newIngredients);
-                      }}
-                      className="mr-2 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                    />
-                    <label
-                      htmlFor={`ingredient-optional-${index}`}
-                      className="text-sm text-gray-600"
-                    >
-                      Optional ingredient
-                    </label>
-                  </div>
-                </div>
-              ) : (
-                // Section
-                <div className="w-full border border-gray-200 rounded-md p-3 mb-2">
-                  <input
-                    type="text"
-                    value={ingredient.sectionTitle}
-                    onChange={(e) => {
-                      const newIngredients = [...ingredients];
-                      (
-                        newIngredients[index] as IngredientSection
-                      ).sectionTitle = e.target.value;
-                      setIngredients(newIngredients);
-                    }}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 mb-2"
-                    placeholder="Section Title"
-                  />
-
-                  {/* Sub-ingredients */}
-                  {ingredient.ingredients.map((subIngredient, subIndex) => (
-                    <div
-                      key={subIndex}
-                      className="flex flex-col gap-1 mb-2 pl-4"
-                    >
-                      <div className="flex items-center gap-2">
-                        <input
-                          type="text"
-                          value={
-                            "text" in subIngredient ? subIngredient.text : ""
-                          }
-                          onChange={(e) => {
-                            const newIngredients = [...ingredients];
-                            const section = newIngredients[
-                              index
-                            ] as IngredientSection;
-                            if ("text" in section.ingredients[subIndex]) {
-                              (
-                                section.ingredients[subIndex] as IngredientItem
-                              ).text = e.target.value;
-                            }
-                            setIngredients(newIngredients);
-                          }}
-                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          placeholder="Ingredient"
-                        />
-
-                        {/* Remove sub-ingredient button */}
-                        {ingredient.ingredients.length > 1 && (
-                          <button
-                            type="button"
-                            onClick={() => {
-                              const newIngredients = [...ingredients];
-                              const section = newIngredients[
-                                index
-                              ] as IngredientSection;
-                              section.ingredients = section.ingredients.filter(
-                                (_, i) => i !== subIndex
-                              );
-                              setIngredients(newIngredients);
-                            }}
-                            className="text-red-500 hover:text-red-700"
-                          >
-                            <span className="sr-only">Remove</span>
-                            <svg
-                              xmlns="http://www.w3.org/2000/svg"
-                              className="h-5 w-5"
-                              viewBox="0 0 20 20"
-                              fill="currentColor"
-                            >
-                              <path
-                                fillRule="evenodd"
-                                d="M10 18a8 8 0 100-16 8 8 0 000 16zM7 9a1 1 0 000 2h6a1 1 0 100-2H7z"
-                                clipRule="evenodd"
-                              />
-                            </svg>
-                          </button>
-                        )}
-                      </div>
-
-                      {/* Optional checkbox for sub-ingredients */}
-                      {"text" in subIngredient && (
-                        <div className="flex items-center ml-1">
-                          <input
-                            type="checkbox"
-                            id={`sub-ingredient-optional-${index}-${subIndex}`}
-                            checked={subIngredient.optional || false}
-                            onChange={(e) => {
-                              const newIngredients = [...ingredients];
-                              const section = newIngredients[
-                                index
-                              ] as IngredientSection;
-                              if ("text" in section.ingredients[subIndex]) {
-                                (
-                                  section.ingredients[
-                                    subIndex
-                                  ] as IngredientItem
-                                ).optional = e.target.checked;
-                              }
-                              setIngredients(newIngredients);
-                            }}
-                            className="mr-2 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                          />
-                          <label
-                            htmlFor={`sub-ingredient-optional-${index}-${subIndex}`}
-                            className="text-sm text-gray-600"
-                          >
-                            Optional ingredient
-                          </label>
-                        </div>
-                      )}
-                    </div>
-                  ))}
-
-                  {/* Add sub-ingredient button */}
-                  <button
-                    type="button"
-                    onClick={() => {
-                      const newIngredients = [...ingredients];
-                      const section = newIngredients[
-                        index
-                      ] as IngredientSection;
-                      section.ingredients.push({ text: "" });
-                      setIngredients(newIngredients);
-                    }}
-                    className="ml-4 text-indigo-600 hover:text-indigo-800"
-                  >
-                    + Add Ingredient to Section
-                  </button>
-                </div>
-              )}
-
-              {/* Remove ingredient button */}
-              {ingredients.length > 1 && (
-                <button
-                  type="button"
-                  onClick={() => handleRemoveIngredient(index)}
-                  className="text-red-500 hover:text-red-700"
-                >
-                  <span className="sr-only">Remove</span>
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    className="h-5 w-5"
-                    viewBox="0 0 20 20"
-                    fill="currentColor"
-                  >
-                    <path
-                      fillRule="evenodd"
-                      d="M10 18a8 8 0 100-16 8 8 0 000 16zM7 9a1 1 0 000 2h6a1 1 0 100-2H7z"
-                      clipRule="evenodd"
-                    />
-                  </svg>
-                </button>
-              )}
-            </div>
-          ))}
+          <IngredientListEditor
+            ingredients={ingredients}
+            onChange={setIngredients}
+          />
         </div>
 
         <div className="mb-6">
@@ -524,53 +400,27 @@ const CreateManuallyForm = ({
             <label className="block text-gray-700 font-semibold">
               Instructions
             </label>
-            <button
-              type="button"
-              onClick={handleAddInstruction}
-              className="text-indigo-600 hover:text-indigo-800"
-            >
-              + Add Step
-            </button>
-          </div>
-          {instructions.map((instruction, index) => (
-            <div key={index} className="mb-2">
-              <div className="flex gap-2 items-start">
-                <span className="bg-gray-200 rounded-full w-6 h-6 flex items-center justify-center text-gray-700 font-medium flex-shrink-0 mt-2">
-                  {index + 1}
-                </span>
-                <textarea
-                  value={instruction.text}
-                  onChange={(e) =>
-                    handleInstructionChange(index, e.target.value)
-                  }
-                  rows={2}
-                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder={`Step ${index + 1}`}
-                />
-                {instructions.length > 1 && (
-                  <button
-                    type="button"
-                    onClick={() => handleRemoveInstruction(index)}
-                    className="text-red-500 hover:text-red-700 mt-2"
-                  >
-                    <span className="sr-only">Remove</span>
-                    <svg
-                      xmlns="http://www.w3.org/2000/svg"
-                      className="h-5 w-5"
-                      viewBox="0 0 20 20"
-                      fill="currentColor"
-                    >
-                      <path
-                        fillRule="evenodd"
-                        d="M10 18a8 8 0 100-16 8 8 0 000 16zM7 9a1 1 0 000 2h6a1 1 0 100-2H7z"
-                        clipRule="evenodd"
-                      />
-                    </svg>
-                  </button>
-                )}
-              </div>
+            <div className="flex gap-4">
+              <button
+                type="button"
+                onClick={handleAddInstruction}
+                className="text-indigo-600 hover:text-indigo-800"
+              >
+                + Add Step
+              </button>
+              <button
+                type="button"
+                onClick={handleAddInstructionSection}
+                className="text-indigo-600 hover:text-indigo-800"
+              >
+                + Add Section
+              </button>
             </div>
-          ))}
+          </div>
+          <InstructionListEditor
+            instructions={instructions}
+            onChange={setInstructions}
+          />
         </div>
 
         <div className="flex justify-end">
@@ -579,7 +429,13 @@ const CreateManuallyForm = ({
             className="bg-indigo-600 hover:bg-indigo-700 text-white font-medium py-2 px-6 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
             disabled={isLoading}
           >
-            {isLoading ? "Creating..." : "Create Recipe"}
+            {importPreview
+              ? isLoading
+                ? "Saving..."
+                : "Save Imported Recipe"
+              : isLoading
+              ? "Creating..."
+              : "Create Recipe"}
           </button>
         </div>
       </form>
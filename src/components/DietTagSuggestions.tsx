@@ -0,0 +1,91 @@
+import { ExclamationTriangleIcon, PlusIcon } from "@heroicons/react/24/outline";
+import { useMemo } from "react";
+import { IngredientType, Tag } from "../types/recipe";
+import {
+  applyDietTags,
+  classifyIngredients,
+  explainTriggers,
+} from "../utils/dietClassifier";
+
+type DietTagSuggestionsProps = {
+  ingredients: IngredientType[];
+  availableTags: Tag[];
+  selectedTags: Tag[];
+  onChange: (tags: Tag[]) => void;
+};
+
+/**
+ * Suggests diet tags from a recipe's ingredients as they're edited: tags for
+ * diets the recipe fits that aren't selected yet, and a warning for selected
+ * diet tags its ingredients rule out, naming the ingredients
+ */
+const DietTagSuggestions = ({
+  ingredients,
+  availableTags,
+  selectedTags,
+  onChange,
+}: DietTagSuggestionsProps) => {
+  const classification = useMemo(
+    () => classifyIngredients(ingredients),
+    [ingredients]
+  );
+  const { removed } = applyDietTags(
+    selectedTags.map((tag) => tag.name),
+    classification
+  );
+
+  // Every diet the recipe fits is offered here, including gluten-free,
+  // dairy-free and vegan, which are never added automatically. Only tags
+  // that exist are suggested.
+  const selectedNames = selectedTags.map((tag) => tag.name.toLowerCase());
+  const suggestions = classification.suggestedTags
+    .filter((diet) => !selectedNames.includes(diet))
+    .map((diet) => availableTags.find((tag) => tag.name.toLowerCase() === diet))
+    .filter((tag): tag is Tag => Boolean(tag));
+
+  if (suggestions.length === 0 && removed.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 space-y-1 text-sm">
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-gray-600">Suggested from ingredients:</span>
+          {suggestions.map((tag) => (
+            <button
+              key={tag._id}
+              type="button"
+              onClick={() => onChange([...selectedTags, tag])}
+              className="flex items-center px-2 py-0.5 rounded-full bg-green-50 text-green-800 border border-green-200 hover:bg-green-100"
+            >
+              <PlusIcon className="h-3 w-3 mr-1" />
+              {tag.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {removed.map(({ diet, triggers }) => (
+        <div key={diet} className="flex items-start text-amber-700">
+          <ExclamationTriangleIcon className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+          <span>
+            Tagged {diet}, but contains {explainTriggers(triggers)}.{" "}
+            <button
+              type="button"
+              onClick={() =>
+                onChange(
+                  selectedTags.filter((tag) => tag.name.toLowerCase() !== diet)
+                )
+              }
+              className="text-blue-500 hover:underline"
+            >
+              Remove tag
+            </button>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DietTagSuggestions;
@@ -0,0 +1,171 @@
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+import { useEffect, useState } from "react";
+import { recipeAPI } from "../services/api";
+import { DocumentRecipe, Tag } from "../types/recipe";
+import { countInstructionSteps } from "../utils/recipeInstructions";
+
+type DocumentRecipeListProps = {
+  recipes: DocumentRecipe[];
+  // Recipes that failed to save are passed back so they can be retried
+  onSaved: (recipeIds: string[], unsaved: DocumentRecipe[]) => void;
+  onError: (message: string) => void;
+};
+
+const DocumentRecipeList = ({
+  recipes,
+  onSaved,
+  onError,
+}: DocumentRecipeListProps) => {
+  // Every recipe found is selected to start with
+  const [selected, setSelected] = useState<number[]>(
+    recipes.map((_, index) => index)
+  );
+  const [availableTags, setAvailableTags] = useState<Tag[]>([]);
+  const [sharedTagIds, setSharedTagIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Start over with every recipe selected when the list changes, e.g. when
+  // only the recipes that failed to save are left
+  useEffect(() => {
+    setSelected(recipes.map((_, index) => index));
+  }, [recipes]);
+
+  useEffect(() => {
+    recipeAPI
+      .getAllTags()
+      .then(setAvailableTags)
+      .catch((err) => console.error("Error loading tags:", err));
+  }, []);
+
+  const toggleRecipe = (index: number) => {
+    setSelected((current) =>
+      current.includes(index)
+        ? current.filter((i) => i !== index)
+        : [...current, index]
+    );
+  };
+
+  const toggleTag = (tagId: string) => {
+    setSharedTagIds((current) =>
+      current.includes(tagId)
+        ? current.filter((id) => id !== tagId)
+        : [...current, tagId]
+    );
+  };
+
+  const handleSave = async () => {
+    if (selected.length === 0) return;
+
+    try {
+      setSaving(true);
+      const chosen = recipes.filter((_, index) => selected.includes(index));
+      const { results, recipeIds } = await recipeAPI.importRecipeBatch(
+        chosen.map(({ recipe }) => recipe),
+        sharedTagIds
+      );
+      // Results come back in the order the recipes were sent
+      onSaved(
+        recipeIds,
+        chosen.filter((_, index) => !results[index]?.recipeId)
+      );
+    } catch (err: unknown) {
+      console.error("Error saving recipes:", err);
+      const error = err as { message?: string };
+      onError(error.message || "Failed to save the recipes. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <p className="text-gray-700 font-medium mb-2">
+        Found {recipes.length} recipe{recipes.length === 1 ? "" : "s"}. Choose
+        the ones to save:
+      </p>
+
+      <ul className="border border-gray-200 rounded-md divide-y divide-gray-200 mb-4">
+        {recipes.map(({ recipe, startLine, endLine }, index) => (
+          <li key={index}>
+            <label className="flex items-start gap-2 p-3 text-sm cursor-pointer hover:bg-gray-50">
+              <input
+                type="checkbox"
+                checked={selected.includes(index)}
+                onChange={() => toggleRecipe(index)}
+                className="mt-1 h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                disabled={saving}
+              />
+              <span className="min-w-0">
+                <span className="block font-medium text-gray-900">
+                  {recipe.title}
+                </span>
+                <span className="block text-gray-500">
+                  {startLine === endLine
+                    ? `Line ${startLine}`
+                    : `Lines ${startLine}–${endLine}`}
+                  {" · "}
+                  {recipe.ingredients?.length || 0} ingredients
+                  {" · "}
+                  {countInstructionSteps(recipe.instructions || [])} steps
+                </span>
+                {recipe.tags && recipe.tags.length > 0 && (
+                  <span className="block text-xs text-gray-400">
+                    Suggested tags:{" "}
+                    {recipe.tags
+                      .map((tag) => (typeof tag === "string" ? tag : tag.name))
+                      .join(", ")}
+                  </span>
+                )}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      {availableTags.length > 0 && (
+        <div className="mb-4">
+          <p className="block text-gray-700 font-medium mb-2">
+            Tags for every saved recipe
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {availableTags.map((tag) => (
+              <button
+                key={tag._id}
+                type="button"
+                onClick={() => toggleTag(tag._id)}
+                className={`px-3 py-1 rounded-full text-sm font-medium ${
+                  sharedTagIds.includes(tag._id)
+                    ? "bg-indigo-600 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+                disabled={saving}
+              >
+                {tag.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleSave}
+        className="w-full sm:w-auto bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 flex items-center justify-center sm:whitespace-nowrap disabled:opacity-50"
+        disabled={saving || selected.length === 0}
+      >
+        {saving ? (
+          <>
+            <ArrowPathIcon className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" />
+            Saving...
+          </>
+        ) : (
+          `Save ${selected.length} Selected Recipe${
+            selected.length === 1 ? "" : "s"
+          }`
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default DocumentRecipeList;
@@ -0,0 +1,85 @@
+import Link from "next/link";
+import { DuplicateMatch, DuplicateMatchReason } from "../types/recipe";
+
+type DuplicateRecipeNoticeProps = {
+  duplicates: DuplicateMatch[];
+  // Save the new recipe anyway; omitted when saving is a separate step
+  onSaveAnyway?: () => void;
+  saveAnywayLabel?: string;
+  onMerge: (recipeId: string) => void;
+  busy?: boolean;
+};
+
+const REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  sourceUrl: "same source page",
+  title: "similar title",
+  ingredients: "similar ingredients",
+};
+
+const DuplicateRecipeNotice = ({
+  duplicates,
+  onSaveAnyway,
+  saveAnywayLabel = "Import Anyway",
+  onMerge,
+  busy = false,
+}: DuplicateRecipeNoticeProps) => {
+  return (
+    <div className="mb-4 p-4 bg-yellow-50 border border-yellow-300 rounded-md text-sm text-yellow-800">
+      <p className="font-medium mb-2">
+        This looks like {duplicates.length === 1 ? "a recipe" : "recipes"} you
+        already have:
+      </p>
+      <ul className="divide-y divide-yellow-200">
+        {duplicates.map((duplicate) => (
+          <li
+            key={duplicate.recipeId}
+            className="py-2 flex items-center justify-between gap-2"
+          >
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 truncate">
+                {duplicate.title}
+              </p>
+              <p className="text-yellow-700">
+                {duplicate.reasons
+                  .map((reason) => REASON_LABELS[reason])
+                  .join(", ")}
+              </p>
+            </div>
+            <div className="flex gap-3 flex-shrink-0">
+              <Link
+                href={`/recipes/${duplicate.recipeId}`}
+                className="text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+              >
+                Open existing
+              </Link>
+              <button
+                type="button"
+                onClick={() => onMerge(duplicate.recipeId)}
+                className="text-indigo-600 hover:text-indigo-800 whitespace-nowrap disabled:opacity-50"
+                disabled={busy}
+              >
+                Merge
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-yellow-700">
+        Merging keeps your existing recipe and fills in anything it is missing,
+        such as the photo, times and tags.
+      </p>
+      {onSaveAnyway && (
+        <button
+          type="button"
+          onClick={onSaveAnyway}
+          className="mt-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+          disabled={busy}
+        >
+          {saveAnywayLabel}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateRecipeNotice;
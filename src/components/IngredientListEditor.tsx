@@ -0,0 +1,224 @@
+import { IngredientItem, IngredientType } from "../types/recipe";
+
+// Number of levels of sections that can be created in the editor
+const MAX_SECTION_DEPTH = 2;
+
+type IngredientListEditorProps = {
+  ingredients: IngredientType[];
+  onChange: (ingredients: IngredientType[]) => void;
+  // How many sections this list is nested inside (0 = top level)
+  depth?: number;
+  // Makes element IDs unique across nested lists
+  idPrefix?: string;
+};
+
+/**
+ * Removes blank ingredients and untitled or empty sections, at every level.
+ * The ingredients of an untitled section are kept in its place.
+ */
+export function removeEmptyIngredients(
+  ingredients: IngredientType[]
+): IngredientType[] {
+  const cleaned: IngredientType[] = [];
+
+  for (const item of ingredients) {
+    if ("sectionTitle" in item) {
+      const children = removeEmptyIngredients(item.ingredients || []);
+      if (children.length === 0) continue;
+
+      if (item.sectionTitle.trim()) {
+        cleaned.push({
+          sectionTitle: item.sectionTitle.trim(),
+          ingredients: children,
+        });
+      } else {
+        cleaned.push(...children);
+      }
+    } else if (item.text.trim()) {
+      cleaned.push(item);
+    }
+  }
+
+  return cleaned;
+}
+
+const RemoveButton = ({ onClick }: { onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="text-red-500 hover:text-red-700"
+  >
+    <span className="sr-only">Remove</span>
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      className="h-5 w-5"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+    >
+      <path
+        fillRule="evenodd"
+        d="M10 18a8 8 0 100-16 8 8 0 000 16zM7 9a1 1 0 000 2h6a1 1 0 100-2H7z"
+        clipRule="evenodd"
+      />
+    </svg>
+  </button>
+);
+
+/**
+ * Editor for a list of ingredients and ingredient sections. Sections render
+ * another editor for their own ingredients, so sections can be nested.
+ */
+const IngredientListEditor = ({
+  ingredients,
+  onChange,
+  depth = 0,
+  idPrefix = "ingredient",
+}: IngredientListEditorProps) => {
+  const updateItem = (index: number, item: IngredientType) => {
+    onChange(ingredients.map((current, i) => (i === index ? item : current)));
+  };
+
+  const removeItem = (index: number) => {
+    onChange(ingredients.filter((_, i) => i !== index));
+  };
+
+  const canAddSection = depth < MAX_SECTION_DEPTH;
+
+  return (
+    <>
+      {ingredients.map((ingredient, index) => {
+        const id = `${idPrefix}-${index}`;
+
+        return (
+          <div
+            key={index}
+            className={`flex items-center gap-2 mb-2 ${
+              depth > 0 ? "pl-4" : ""
+            }`}
+          >
+            {/* Check if this is a regular ingredient or a section */}
+            {"text" in ingredient ? (
+              // Regular ingredient
+              <div className="flex flex-col w-full">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={ingredient.text}
+                    onChange={(e) =>
+                      updateItem(index, { ...ingredient, text: e.target.value })
+                    }
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Ingredient"
+                  />
+                  {/* Button to convert to section */}
+                  {canAddSection && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateItem(index, {
+                          sectionTitle: ingredient.text || "New Section",
+                          ingredients: [{ text: "" }],
+                        })
+                      }
+                      className="text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+                    >
+                      Make Section
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center mt-1 ml-1">
+                  <input
+                    type="checkbox"
+                    id={`${id}-optional`}
+                    checked={ingredient.optional || false}
+                    onChange={(e) =>
+                      updateItem(index, {
+                        ...ingredient,
+                        optional: e.target.checked,
+                      } as IngredientItem)
+                    }
+                    className="mr-2 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  />
+                  <label
+                    htmlFor={`${id}-optional`}
+                    className="text-sm text-gray-600"
+                  >
+                    Optional ingredient
+                  </label>
+                </div>
+              </div>
+            ) : (
+              // Section
+              <div className="w-full border border-gray-200 rounded-md p-3 mb-2">
+                <input
+                  type="text"
+                  value={ingredient.sectionTitle}
+                  onChange={(e) =>
+                    updateItem(index, {
+                      ...ingredient,
+                      sectionTitle: e.target.value,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 mb-2"
+                  placeholder="Section Title"
+                />
+
+                {/* The section's own ingredients and sub-sections */}
+                <IngredientListEditor
+                  ingredients={ingredient.ingredients}
+                  onChange={(children) =>
+                    updateItem(index, { ...ingredient, ingredients: children })
+                  }
+                  depth={depth + 1}
+                  idPrefix={id}
+                />
+
+                <div className="flex gap-4 ml-4">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateItem(index, {
+                        ...ingredient,
+                        ingredients: [...ingredient.ingredients, { text: "" }],
+                      })
+                    }
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    + Add Ingredient to Section
+                  </button>
+                  {depth + 1 < MAX_SECTION_DEPTH && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateItem(index, {
+                          ...ingredient,
+                          ingredients: [
+                            ...ingredient.ingredients,
+                            {
+                              sectionTitle: "New Section",
+                              ingredients: [{ text: "" }],
+                            },
+                          ],
+                        })
+                      }
+                      className="text-indigo-600 hover:text-indigo-800"
+                    >
+                      + Add Sub-section
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Remove ingredient or section button */}
+            {ingredients.length > 1 && (
+              <RemoveButton onClick={() => removeItem(index)} />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default IngredientListEditor;
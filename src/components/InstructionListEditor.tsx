@@ -0,0 +1,230 @@
+import { useEffect, useRef } from "react";
+import { InstructionType } from "../types/recipe";
+
+// Number of levels of sections that can be created in the editor
+const MAX_SECTION_DEPTH = 2;
+
+// Below this width the textareas keep a fixed size and scroll instead
+const MOBILE_BREAKPOINT = 640;
+
+type InstructionListEditorProps = {
+  instructions: InstructionType[];
+  onChange: (instructions: InstructionType[]) => void;
+  // How many sections this list is nested inside (0 = top level)
+  depth?: number;
+};
+
+/**
+ * Removes blank steps and untitled or empty sections, at every level. The
+ * steps of an untitled section are kept in its place.
+ */
+export function removeEmptyInstructions(
+  instructions: InstructionType[]
+): InstructionType[] {
+  const cleaned: InstructionType[] = [];
+
+  for (const item of instructions) {
+    if ("sectionTitle" in item) {
+      const children = removeEmptyInstructions(item.instructions || []);
+      if (children.length === 0) continue;
+
+      if (item.sectionTitle.trim()) {
+        cleaned.push({
+          sectionTitle: item.sectionTitle.trim(),
+          instructions: children,
+        });
+      } else {
+        cleaned.push(...children);
+      }
+    } else if (item.text.trim()) {
+      cleaned.push(item);
+    }
+  }
+
+  return cleaned;
+}
+
+/**
+ * A step textarea that grows to fit its text on larger screens
+ */
+const StepTextarea = ({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    // Reset first so scrollHeight measures the content, not the old height
+    textarea.style.height = "auto";
+    if (window.innerWidth >= MOBILE_BREAKPOINT) {
+      textarea.style.height = `${textarea.scrollHeight}px`;
+    }
+  }, [value]);
+
+  return (
+    <textarea
+      ref={textareaRef}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      rows={value.length > 80 ? 3 : 2}
+      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 overflow-auto sm:overflow-hidden"
+      placeholder={placeholder}
+    />
+  );
+};
+
+const RemoveButton = ({ onClick }: { onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="text-red-500 hover:text-red-700 mt-2"
+  >
+    <span className="sr-only">Remove</span>
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      className="h-5 w-5"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+    >
+      <path
+        fillRule="evenodd"
+        d="M10 18a8 8 0 100-16 8 8 0 000 16zM7 9a1 1 0 000 2h6a1 1 0 100-2H7z"
+        clipRule="evenodd"
+      />
+    </svg>
+  </button>
+);
+
+/**
+ * Editor for a list of steps and instruction sections. Steps are numbered
+ * within their own list, and sections render another editor for their steps,
+ * so sections can be nested.
+ */
+const InstructionListEditor = ({
+  instructions,
+  onChange,
+  depth = 0,
+}: InstructionListEditorProps) => {
+  const updateItem = (index: number, item: InstructionType) => {
+    onChange(instructions.map((current, i) => (i === index ? item : current)));
+  };
+
+  const removeItem = (index: number) => {
+    onChange(instructions.filter((_, i) => i !== index));
+  };
+
+  // Section headings don't take a step number
+  let stepNumber = 0;
+
+  return (
+    <>
+      {instructions.map((instruction, index) => {
+        if ("text" in instruction) {
+          stepNumber++;
+        }
+
+        return (
+          <div
+            key={index}
+            className={`flex gap-2 items-start mb-2 ${depth > 0 ? "pl-4" : ""}`}
+          >
+            {"text" in instruction ? (
+              // Regular step
+              <>
+                <span className="bg-gray-200 rounded-full w-6 h-6 flex items-center justify-center text-gray-700 font-medium flex-shrink-0 mt-2">
+                  {stepNumber}
+                </span>
+                <StepTextarea
+                  value={instruction.text}
+                  onChange={(text) => updateItem(index, { text })}
+                  placeholder={`Step ${stepNumber}`}
+                />
+              </>
+            ) : (
+              // Section
+              <div className="w-full border border-gray-200 rounded-md p-3 mb-2">
+                <input
+                  type="text"
+                  value={instruction.sectionTitle}
+                  onChange={(e) =>
+                    updateItem(index, {
+                      ...instruction,
+                      sectionTitle: e.target.value,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-semibold mb-2"
+                  placeholder="Section Title"
+                />
+
+                {/* The section's own steps and sub-sections */}
+                <InstructionListEditor
+                  instructions={instruction.instructions}
+                  onChange={(children) =>
+                    updateItem(index, {
+                      ...instruction,
+                      instructions: children,
+                    })
+                  }
+                  depth={depth + 1}
+                />
+
+                <div className="flex gap-4 ml-4">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateItem(index, {
+                        ...instruction,
+                        instructions: [
+                          ...instruction.instructions,
+                          { text: "" },
+                        ],
+                      })
+                    }
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    + Add Step to Section
+                  </button>
+                  {depth + 1 < MAX_SECTION_DEPTH && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateItem(index, {
+                          ...instruction,
+                          instructions: [
+                            ...instruction.instructions,
+                            {
+                              sectionTitle: "New Section",
+                              instructions: [{ text: "" }],
+                            },
+                          ],
+                        })
+                      }
+                      className="text-indigo-600 hover:text-indigo-800"
+                    >
+                      + Add Sub-section
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Remove step or section button */}
+            {instructions.length > 1 && (
+              <RemoveButton onClick={() => removeItem(index)} />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default InstructionListEditor;
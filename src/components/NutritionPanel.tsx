@@ -0,0 +1,252 @@
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import { useEffect, useState } from "react";
+import { recipeAPI } from "../services/api";
+import {
+  NutrientValues,
+  NutritionEstimate,
+  NutritionFood,
+  NutritionIngredientMatch,
+} from "../types/recipe";
+
+// Values in the select for going back to the automatic match, or leaving an
+// ingredient out
+const AUTOMATIC_MATCH = "__automatic";
+const LEAVE_OUT = "__none";
+
+// Nutrients shown in the panel: macros in grams, micronutrients in
+// milligrams
+const MACROS: Array<{ key: keyof NutrientValues; label: string }> = [
+  { key: "protein", label: "Protein" },
+  { key: "carbohydrates", label: "Carbs" },
+  { key: "fat", label: "Fat" },
+  { key: "saturatedFat", label: "Saturated fat" },
+  { key: "fiber", label: "Fiber" },
+  { key: "sugar", label: "Sugar" },
+];
+const MICROS: Array<{ key: keyof NutrientValues; label: string }> = [
+  { key: "sodium", label: "Sodium" },
+  { key: "potassium", label: "Potassium" },
+  { key: "calcium", label: "Calcium" },
+  { key: "iron", label: "Iron" },
+  { key: "vitaminC", label: "Vitamin C" },
+];
+
+type NutritionPanelProps = {
+  recipeId: string;
+  // Changes when the recipe is saved, so the estimate is fetched again
+  version?: string;
+  // Whether the user can change the matches (they own the recipe)
+  canEdit: boolean;
+};
+
+/**
+ * Formats an amount in grams or milligrams: one decimal place for small
+ * amounts, whole numbers otherwise
+ */
+const formatAmount = (value: number) =>
+  value < 10 ? String(Math.round(value * 10) / 10) : String(Math.round(value));
+
+/**
+ * Panel showing a recipe's estimated nutrition, with how each ingredient was
+ * matched. Uncertain matches are flagged, and the owner can pick a different
+ * food for any ingredient.
+ */
+const NutritionPanel = ({
+  recipeId,
+  version,
+  canEdit,
+}: NutritionPanelProps) => {
+  const [estimate, setEstimate] = useState<NutritionEstimate | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showMatches, setShowMatches] = useState(false);
+  const [foods, setFoods] = useState<NutritionFood[]>([]);
+  const [savingIngredient, setSavingIngredient] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    recipeAPI
+      .getRecipeNutrition(recipeId)
+      .then((data) => {
+        if (!cancelled) setEstimate(data);
+      })
+      .catch((err) => {
+        console.error("Error fetching nutrition:", err);
+        if (!cancelled) setError("Couldn't estimate nutrition for this recipe");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recipeId, version]);
+
+  // Load the foods to choose from the first time the matches are shown
+  useEffect(() => {
+    if (!showMatches || !canEdit || foods.length > 0) return;
+    recipeAPI
+      .getNutritionFoods()
+      .then(setFoods)
+      .catch((err) => console.error("Error fetching foods:", err));
+  }, [showMatches, canEdit, foods.length]);
+
+  const handleMatchChange = async (
+    match: NutritionIngredientMatch,
+    value: string
+  ) => {
+    setSavingIngredient(match.text);
+    try {
+      const foodId =
+        value === AUTOMATIC_MATCH
+          ? undefined
+          : value === LEAVE_OUT
+          ? null
+          : value;
+      setEstimate(
+        await recipeAPI.updateNutritionMatch(recipeId, match.text, foodId)
+      );
+    } catch (err) {
+      console.error("Error updating nutrition match:", err);
+      setError("Couldn't save the match");
+    } finally {
+      setSavingIngredient(null);
+    }
+  };
+
+  if (loading && !estimate) {
+    return <p className="text-gray-500 text-sm">Estimating nutrition...</p>;
+  }
+  if (!estimate) {
+    return error ? <p className="text-red-500 text-sm">{error}</p> : null;
+  }
+
+  const values = estimate.perServing || estimate.total;
+  const counted = estimate.ingredients.filter(
+    (match) => match.confidence !== "none"
+  ).length;
+  const flagged = estimate.ingredients.filter(
+    (match) => match.confidence !== "high" && !match.overridden
+  ).length;
+
+  const selectValue = (match: NutritionIngredientMatch) => {
+    if (!match.overridden) return AUTOMATIC_MATCH;
+    return match.food ? match.food.id : LEAVE_OUT;
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg border border-gray-200 p-4">
+      <div className="flex justify-between items-baseline">
+        <h2 className="text-xl font-semibold">Nutrition</h2>
+        <span className="text-sm text-gray-500">
+          {estimate.perServing
+            ? `Per serving (serves ${estimate.servings})`
+            : "Whole recipe"}
+        </span>
+      </div>
+
+      <div className="mt-3 grid grid-cols-4 gap-2">
+        <div className="bg-white rounded-md border border-gray-200 p-2 text-center">
+          <div className="text-2xl font-bold">
+            {Math.round(values.calories)}
+          </div>
+          <div className="text-xs text-gray-500">Calories</div>
+        </div>
+        {MACROS.map(({ key, label }) => (
+          <div
+            key={key}
+            className="bg-white rounded-md border border-gray-200 p-2 text-center"
+          >
+            <div className="text-lg font-semibold">
+              {formatAmount(values[key])} g
+            </div>
+            <div className="text-xs text-gray-500">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+        {MICROS.map(({ key, label }) => (
+          <span key={key}>
+            {label}: {formatAmount(values[key])} mg
+          </span>
+        ))}
+      </div>
+
+      <div className="mt-3 text-sm text-gray-500 flex flex-wrap items-center gap-x-3">
+        <span>
+          Estimated from {counted} of {estimate.ingredients.length} ingredients.
+        </span>
+        {flagged > 0 && (
+          <span className="flex items-center text-amber-600">
+            <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+            {flagged} {flagged === 1 ? "match needs" : "matches need"} checking
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={() => setShowMatches(!showMatches)}
+          className="text-blue-500 hover:underline"
+        >
+          {showMatches ? "Hide ingredient matches" : "Show ingredient matches"}
+        </button>
+      </div>
+
+      {error && <p className="mt-2 text-red-500 text-sm">{error}</p>}
+
+      {showMatches && (
+        <ul className="mt-3 divide-y divide-gray-200 text-sm">
+          {estimate.ingredients.map((match, index) => (
+            <li
+              key={`${match.text}-${index}`}
+              className="py-2 flex flex-wrap items-center gap-x-3 gap-y-1"
+            >
+              <span className="flex-1 min-w-[12rem]">{match.text}</span>
+              <span className="text-gray-600">
+                {match.food ? match.food.name : "—"}
+                {match.grams !== undefined &&
+                  match.confidence !== "none" &&
+                  ` · ${formatAmount(match.grams)} g`}
+              </span>
+              {match.confidence !== "high" && (
+                <span
+                  className={`flex items-center ${
+                    match.overridden ? "text-gray-500" : "text-amber-600"
+                  }`}
+                >
+                  {!match.overridden && (
+                    <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+                  )}
+                  {match.note}
+                </span>
+              )}
+              {canEdit && (
+                <select
+                  value={selectValue(match)}
+                  onChange={(e) => handleMatchChange(match, e.target.value)}
+                  disabled={savingIngredient === match.text}
+                  className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                  aria-label={`Food for ${match.text}`}
+                >
+                  <option value={AUTOMATIC_MATCH}>Automatic match</option>
+                  <option value={LEAVE_OUT}>Leave out</option>
+                  {foods.map((food) => (
+                    <option key={food.id} value={food.id}>
+                      {food.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NutritionPanel;
@@ -1,13 +1,23 @@
 import { ArrowPathIcon } from "@heroicons/react/24/outline";
 import { useRouter } from "next/router";
 import { useState } from "react";
-import { recipeAPI } from "../services/api";
-import { Recipe } from "../types/recipe";
+import { ApiError, DuplicateOptions, recipeAPI } from "../services/api";
+import {
+  DocumentRecipe,
+  DuplicateMatch,
+  ImportPreview,
+  Recipe,
+} from "../types/recipe";
 import AuthErrorBanner from "./AuthErrorBanner";
+import DocumentRecipeList from "./DocumentRecipeList";
+import DuplicateRecipeNotice from "./DuplicateRecipeNotice";
 
 type PasteTextFormProps = {
   onImportSuccess?: (recipeId: string) => void;
-  onImportForEdit?: (recipeData: Partial<Recipe>) => void;
+  onImportForEdit?: (
+    recipeData: Partial<Recipe>,
+    preview?: ImportPreview
+  ) => void;
 };
 
 const PasteTextForm = ({
@@ -19,10 +29,16 @@ const PasteTextForm = ({
   const [processing, setProcessing] = useState(false);
   const [status, setStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [reviewBeforeSaving, setReviewBeforeSaving] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [multipleRecipes, setMultipleRecipes] = useState(false);
+  const [documentRecipes, setDocumentRecipes] = useState<DocumentRecipe[]>([]);
 
-  const handleProcess = async () => {
+  const handleProcess = async (options: DuplicateOptions = {}) => {
     setError(null);
     setStatus(null);
+    setDuplicates([]);
+    setDocumentRecipes([]);
 
     // Validate content
     if (!content.trim()) {
@@ -34,12 +50,42 @@ const PasteTextForm = ({
       setProcessing(true);
       setStatus("Processing content...");
 
-      const result = await recipeAPI.importRecipeFromText(content);
+      // Multiple mode: list the recipes found so the user can pick which to
+      // save
+      if (multipleRecipes) {
+        const { recipes } = await recipeAPI.extractRecipesFromText(content);
+        setStatus(null);
+        setDocumentRecipes(recipes);
+        return;
+      }
+
+      // Review mode: extract a draft without saving, then hand it to the editor
+      if (reviewBeforeSaving && onImportForEdit) {
+        const { preview } = await recipeAPI.previewRecipeImportFromText(
+          content
+        );
+        setStatus(
+          "Recipe extracted! Review it below, then save when you're happy."
+        );
+        onImportForEdit(preview.draft, preview);
+        setContent("");
+        return;
+      }
+
+      const result = await recipeAPI.importRecipeFromText(content, options);
 
       if (result && result.recipe) {
-        if (result.recipeId) {
+        if (result.results) {
+          // MealMaster text can hold several recipes; the message counts the
+          // ones saved, skipped and not saved
           setStatus(
-            "Recipe imported successfully! Redirecting to recipe page..."
+            `${result.message}. <a href="/recipes/my-recipes" class="underline">View your recipes</a>`
+          );
+        } else if (result.recipeId) {
+          setStatus(
+            options.mergeInto
+              ? "Recipe merged into your existing recipe! Redirecting to recipe page..."
+              : "Recipe imported successfully! Redirecting to recipe page..."
           );
 
           setTimeout(() => {
@@ -67,8 +113,13 @@ const PasteTextForm = ({
       }
     } catch (err: unknown) {
       console.error("Error importing recipe:", err);
-      const error = err as { status?: number; message?: string };
-      if (error.status === 400) {
+      const error = err as ApiError;
+      if (error.status === 409 && error.duplicates) {
+        // Let the user choose between the existing recipe, merging or
+        // importing anyway
+        setStatus(null);
+        setDuplicates(error.duplicates);
+      } else if (error.status === 400) {
         setError(
           "Failed to extract recipe data from the provided content. Please make sure it contains a valid recipe."
         );
@@ -94,6 +145,41 @@ const PasteTextForm = ({
 
       {error && <AuthErrorBanner error={error} className="mb-6" />}
 
+      {documentRecipes.length > 0 && (
+        <DocumentRecipeList
+          recipes={documentRecipes}
+          onSaved={(recipeIds, unsaved) => {
+            setDocumentRecipes(unsaved);
+            if (unsaved.length === 0) {
+              setContent("");
+            }
+            setStatus(
+              `Imported ${recipeIds.length} recipe${
+                recipeIds.length === 1 ? "" : "s"
+              }! <a href="/recipes/my-recipes" class="underline">View your recipes</a>${
+                unsaved.length > 0
+                  ? `<br />${unsaved.length} recipe${
+                      unsaved.length === 1 ? "" : "s"
+                    } couldn't be saved and ${
+                      unsaved.length === 1 ? "is" : "are"
+                    } still listed below to try again.`
+                  : ""
+              }`
+            );
+          }}
+          onError={setError}
+        />
+      )}
+
+      {duplicates.length > 0 && (
+        <DuplicateRecipeNotice
+          duplicates={duplicates}
+          onSaveAnyway={() => handleProcess({ allowDuplicate: true })}
+          onMerge={(recipeId) => handleProcess({ mergeInto: recipeId })}
+          busy={processing}
+        />
+      )}
+
       <div className="mb-4">
         <label
           htmlFor="recipe-content"
@@ -107,6 +193,8 @@ const PasteTextForm = ({
           onChange={(e) => {
             setContent(e.target.value);
             setError(null);
+            setDuplicates([]);
+            setDocumentRecipes([]);
           }}
           rows={10}
           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -115,9 +203,36 @@ const PasteTextForm = ({
         />
       </div>
 
+      <label className="mb-4 mr-6 inline-flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={multipleRecipes}
+          onChange={(e) => {
+            setMultipleRecipes(e.target.checked);
+            setDocumentRecipes([]);
+          }}
+          className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+          disabled={processing}
+        />
+        Contains several recipes
+      </label>
+
+      {onImportForEdit && !multipleRecipes && (
+        <label className="mb-4 inline-flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={reviewBeforeSaving}
+            onChange={(e) => setReviewBeforeSaving(e.target.checked)}
+            className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+            disabled={processing}
+          />
+          Review before saving
+        </label>
+      )}
+
       <button
         type="button"
-        onClick={handleProcess}
+        onClick={() => handleProcess()}
         className="w-full sm:w-auto mt-2 sm:mt-0 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 flex items-center justify-center sm:whitespace-nowrap"
         disabled={processing}
       >
@@ -126,6 +241,8 @@ const PasteTextForm = ({
             <ArrowPathIcon className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" />
             Processing...
           </>
+        ) : multipleRecipes ? (
+          "Find Recipes"
         ) : (
           "Import Recipe"
         )}
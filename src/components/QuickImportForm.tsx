@@ -1,13 +1,18 @@
 import { ArrowPathIcon } from "@heroicons/react/24/outline";
 import { useRouter } from "next/router";
 import { useState } from "react";
-import { recipeAPI } from "../services/api";
-import { Recipe } from "../types/recipe";
+import { ApiError, DuplicateOptions, recipeAPI } from "../services/api";
+import { DuplicateMatch, ImportPreview, Recipe } from "../types/recipe";
+import { describeFetchFailure } from "../utils/fetchFailures";
 import AuthErrorBanner from "./AuthErrorBanner";
+import DuplicateRecipeNotice from "./DuplicateRecipeNotice";
 
 type QuickImportFormProps = {
   onImportSuccess?: (recipeId: string) => void;
-  onImportForEdit?: (recipeData: Partial<Recipe>) => void;
+  onImportForEdit?: (
+    recipeData: Partial<Recipe>,
+    preview?: ImportPreview
+  ) => void;
 };
 
 const QuickImportForm = ({
@@ -21,10 +26,13 @@ const QuickImportForm = ({
   const [importing, setImporting] = useState(false);
   const [importStatus, setImportStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [reviewBeforeSaving, setReviewBeforeSaving] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
 
-  const handleImport = async () => {
+  const handleImport = async (options: DuplicateOptions = {}) => {
     setError(null);
     setImportStatus(null);
+    setDuplicates([]);
 
     // Validate URL
     if (!url.trim()) {
@@ -44,12 +52,25 @@ const QuickImportForm = ({
       setImporting(true);
       setImportStatus("Fetching recipe page...");
 
-      const result = await recipeAPI.importRecipeFromUrl(url);
+      // Review mode: extract a draft without saving, then hand it to the editor
+      if (reviewBeforeSaving && onImportForEdit) {
+        const { preview } = await recipeAPI.previewRecipeImportFromUrl(url);
+        setImportStatus(
+          "Recipe extracted! Review it below, then save when you're happy."
+        );
+        onImportForEdit(preview.draft, preview);
+        setUrl("");
+        return;
+      }
+
+      const result = await recipeAPI.importRecipeFromUrl(url, options);
 
       if (result && result.recipe) {
         if (result.recipeId) {
           setImportStatus(
-            "Recipe imported successfully! Redirecting to recipe page..."
+            options.mergeInto
+              ? "Recipe merged into your existing recipe! Redirecting to recipe page..."
+              : "Recipe imported successfully! Redirecting to recipe page..."
           );
 
           setTimeout(() => {
@@ -77,8 +98,16 @@ const QuickImportForm = ({
       }
     } catch (err: unknown) {
       console.error("Error importing recipe:", err);
-      const error = err as { status?: number; message?: string };
-      if (error.status === 400) {
+      const error = err as ApiError;
+      if (error.status === 409 && error.duplicates) {
+        // Let the user choose between the existing recipe, merging or
+        // importing anyway
+        setImportStatus(null);
+        setDuplicates(error.duplicates);
+      } else if (error.status === 400 && error.fetchFailure) {
+        // The page couldn't be fetched, so say why
+        setError(describeFetchFailure(error.fetchFailure));
+      } else if (error.status === 400) {
         setError(
           "Failed to extract recipe data from the provided URL. Please make sure it's a valid recipe page."
         );
@@ -115,6 +144,15 @@ const QuickImportForm = ({
 
       {error && <AuthErrorBanner error={error} className="mb-6" />}
 
+      {duplicates.length > 0 && (
+        <DuplicateRecipeNotice
+          duplicates={duplicates}
+          onSaveAnyway={() => handleImport({ allowDuplicate: true })}
+          onMerge={(recipeId) => handleImport({ mergeInto: recipeId })}
+          busy={importing}
+        />
+      )}
+
       <form
         onSubmit={(e) => {
           e.preventDefault();
@@ -129,6 +167,7 @@ const QuickImportForm = ({
           onChange={(e) => {
             setUrl(e.target.value);
             setError(null);
+            setDuplicates([]);
           }}
           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
           disabled={importing}
@@ -152,6 +191,18 @@ const QuickImportForm = ({
         Paste a URL to a recipe page and we'll automatically extract the recipe
         details
       </p>
+      {onImportForEdit && (
+        <label className="mt-3 inline-flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={reviewBeforeSaving}
+            onChange={(e) => setReviewBeforeSaving(e.target.checked)}
+            className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+            disabled={importing}
+          />
+          Review before saving
+        </label>
+      )}
     </div>
   );
 };
@@ -0,0 +1,93 @@
+import { MinusIcon, PlusIcon, UsersIcon } from "@heroicons/react/24/outline";
+
+// Most servings (or times the recipe) the stepper goes up to
+const MAX_SERVINGS = 100;
+const MAX_MULTIPLIER = 10;
+
+type ServingsStepperProps = {
+  // The recipe's own servings count; without one the stepper multiplies the
+  // recipe instead ("×2")
+  baseServings?: number;
+  // How much the recipe is currently scaled by
+  factor: number;
+  onChange: (factor: number) => void;
+  // Smaller text for the mobile layout
+  compact?: boolean;
+};
+
+/**
+ * Stepper for scaling a recipe: steps one serving at a time, or by halves of
+ * the recipe when it has no servings count
+ */
+const ServingsStepper = ({
+  baseServings,
+  factor,
+  onChange,
+  compact = false,
+}: ServingsStepperProps) => {
+  const hasServings = !!baseServings && baseServings > 0;
+  const servings = hasServings ? Math.round(baseServings * factor) : 0;
+
+  const canDecrease = hasServings ? servings > 1 : factor > 0.5;
+  const canIncrease = hasServings
+    ? servings < MAX_SERVINGS
+    : factor < MAX_MULTIPLIER;
+
+  const step = (direction: 1 | -1) => {
+    if (hasServings) {
+      onChange((servings + direction) / baseServings);
+    } else {
+      onChange(factor + direction * 0.5);
+    }
+  };
+
+  const buttonClass = `rounded-full border border-gray-300 text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent ${
+    compact ? "p-0.5" : "p-1"
+  }`;
+
+  return (
+    <div
+      className={`flex items-center gap-2 ${
+        compact ? "text-sm" : ""
+      } text-gray-600`}
+    >
+      <UsersIcon
+        className={`${compact ? "h-4 w-4" : "h-5 w-5"} text-gray-500`}
+      />
+      <button
+        type="button"
+        onClick={() => step(-1)}
+        disabled={!canDecrease}
+        className={buttonClass}
+        aria-label={hasServings ? "Fewer servings" : "Smaller batch"}
+      >
+        <MinusIcon className="h-4 w-4" />
+      </button>
+      <span className="min-w-[5rem] text-center">
+        {hasServings
+          ? `${servings} ${servings === 1 ? "serving" : "servings"}`
+          : `×${factor}`}
+      </span>
+      <button
+        type="button"
+        onClick={() => step(1)}
+        disabled={!canIncrease}
+        className={buttonClass}
+        aria-label={hasServings ? "More servings" : "Larger batch"}
+      >
+        <PlusIcon className="h-4 w-4" />
+      </button>
+      {factor !== 1 && (
+        <button
+          type="button"
+          onClick={() => onChange(1)}
+          className="text-blue-500 hover:underline"
+        >
+          Reset
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ServingsStepper;
@@ -0,0 +1,53 @@
+import { UnitPreference } from "../types/recipe";
+
+const OPTIONS: Array<{ value: UnitPreference; label: string }> = [
+  { value: "original", label: "Original" },
+  { value: "us", label: "US" },
+  { value: "metric", label: "Metric" },
+];
+
+type UnitPreferenceToggleProps = {
+  value: UnitPreference;
+  onChange: (preference: UnitPreference) => void;
+  // Smaller text for the mobile layout
+  compact?: boolean;
+};
+
+/**
+ * Switch between showing a recipe's units as written, in US units or in
+ * metric
+ */
+const UnitPreferenceToggle = ({
+  value,
+  onChange,
+  compact = false,
+}: UnitPreferenceToggleProps) => {
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Units"
+      className={`inline-flex rounded-md border border-gray-300 overflow-hidden ${
+        compact ? "text-xs" : "text-sm"
+      }`}
+    >
+      {OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          role="radio"
+          aria-checked={value === option.value}
+          onClick={() => onChange(option.value)}
+          className={`${compact ? "px-2 py-0.5" : "px-3 py-1"} ${
+            value === option.value
+              ? "bg-blue-500 text-white"
+              : "bg-white text-gray-600 hover:bg-gray-100"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default UnitPreferenceToggle;
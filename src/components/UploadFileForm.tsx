@@ -1,7 +1,313 @@
-const UploadFileForm = () => {
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import React, { useState } from "react";
+import { recipeAPI } from "../services/api";
+import AuthErrorBanner from "./AuthErrorBanner";
+
+type UploadFileFormProps = {
+  onImportSuccess?: (recipeId: string) => void;
+};
+
+type FileResult = {
+  fileName: string;
+  status: "pending" | "importing" | "succeeded" | "failed";
+  recipeId?: string;
+  message?: string;
+  // Recipes from an archive or MealMaster file that could not be imported
+  failures?: Array<{ name: string; reason?: string }>;
+};
+
+// File types the import endpoints accept
+const ACCEPTED_EXTENSIONS = [
+  ".html",
+  ".htm",
+  ".txt",
+  ".md",
+  ".mmf",
+  ".cook",
+  ".paprikarecipes",
+];
+
+// Largest file we send, to stay under the endpoint's request size limit
+const MAX_FILE_SIZE = 3 * 1024 * 1024;
+
+// Paprika exports are sent as they are, up to the endpoint's request size
+// limit
+const MAX_ARCHIVE_SIZE = 4 * 1024 * 1024;
+
+const isPaprikaArchive = (file: File) =>
+  file.name.toLowerCase().endsWith(".paprikarecipes");
+
+const UploadFileForm = ({ onImportSuccess }: UploadFileFormProps) => {
+  const router = useRouter();
+  const [files, setFiles] = useState<File[]>([]);
+  const [results, setResults] = useState<FileResult[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setResults([]);
+
+    const selectedFiles = Array.from(e.target.files || []);
+    const unsupported = selectedFiles.filter(
+      (file) =>
+        !ACCEPTED_EXTENSIONS.some((ext) =>
+          file.name.toLowerCase().endsWith(ext)
+        )
+    );
+
+    if (unsupported.length > 0) {
+      setError(
+        `Unsupported file type: ${unsupported
+          .map((file) => file.name)
+          .join(
+            ", "
+          )}. Please choose .html, .htm, .txt, .md, .mmf, .cook or .paprikarecipes files.`
+      );
+    }
+
+    setFiles(selectedFiles.filter((file) => !unsupported.includes(file)));
+  };
+
+  const updateResult = (index: number, update: Partial<FileResult>) => {
+    setResults((current) =>
+      current.map((result, i) =>
+        i === index ? { ...result, ...update } : result
+      )
+    );
+  };
+
+  const handleUpload = async () => {
+    setError(null);
+
+    if (files.length === 0) {
+      setError("Please choose at least one file");
+      return;
+    }
+
+    setUploading(true);
+    setResults(
+      files.map((file) => ({ fileName: file.name, status: "pending" }))
+    );
+
+    // Upload one file at a time so each request stays small
+    const importedIds: string[] = [];
+    for (let index = 0; index < files.length; index++) {
+      const file = files[index];
+
+      if (isPaprikaArchive(file)) {
+        if (file.size > MAX_ARCHIVE_SIZE) {
+          updateResult(index, {
+            status: "failed",
+            message:
+              "Paprika export is too large (maximum 4 MB). Try exporting fewer recipes at a time.",
+          });
+          continue;
+        }
+
+        try {
+          updateResult(index, { status: "importing" });
+          const result = await recipeAPI.importPaprikaArchive(file);
+
+          result.results.forEach((recipeResult) => {
+            if (recipeResult.recipeId) {
+              importedIds.push(recipeResult.recipeId);
+            }
+          });
+          updateResult(index, {
+            status: result.imported > 0 ? "succeeded" : "failed",
+            message: result.message,
+            failures: result.results
+              .filter((recipeResult) => recipeResult.status === "failed")
+              .map(({ name, reason }) => ({ name, reason })),
+          });
+        } catch (err: unknown) {
+          console.error(`Error importing ${file.name}:`, err);
+          const error = err as { message?: string };
+          updateResult(index, {
+            status: "failed",
+            message: error.message || "Failed to import this Paprika export",
+          });
+        }
+        continue;
+      }
+
+      if (file.size > MAX_FILE_SIZE) {
+        updateResult(index, {
+          status: "failed",
+          message: "File is too large (maximum 3 MB)",
+        });
+        continue;
+      }
+
+      try {
+        updateResult(index, { status: "importing" });
+        const content = await file.text();
+        const result = await recipeAPI.importRecipeFromFile(file.name, content);
+
+        // MealMaster files can hold several recipes
+        const recipeIds =
+          result.recipeIds || (result.recipeId ? [result.recipeId] : []);
+        importedIds.push(...recipeIds);
+        const failures = (result.results || [])
+          .filter((recipeResult) => !recipeResult.recipeId)
+          .map(({ title, error, duplicates }) => ({
+            name: title,
+            reason: duplicates?.length
+              ? `Looks like "${duplicates[0].title}", which you already have`
+              : error,
+          }));
+        updateResult(index, {
+          status: "succeeded",
+          recipeId:
+            recipeIds.length === 1 && failures.length === 0
+              ? recipeIds[0]
+              : undefined,
+          message:
+            recipeIds.length > 1 || failures.length > 0
+              ? result.message
+              : result.recipe?.title,
+          failures,
+        });
+      } catch (err: unknown) {
+        console.error(`Error importing ${file.name}:`, err);
+        const error = err as { status?: number; message?: string };
+        updateResult(index, {
+          status: "failed",
+          message:
+            error.status === 401
+              ? "You need to be logged in to import recipes."
+              : error.message || "Failed to import this file",
+        });
+      }
+    }
+
+    setUploading(false);
+    setFiles([]);
+
+    // A single imported recipe opens straight away, like the other import forms
+    if (
+      files.length === 1 &&
+      !isPaprikaArchive(files[0]) &&
+      importedIds.length === 1
+    ) {
+      if (onImportSuccess) {
+        onImportSuccess(importedIds[0]);
+      } else {
+        router.push(`/recipes/${importedIds[0]}`);
+      }
+    }
+  };
+
   return (
-    <div className="p-4 bg-gray-50 rounded-lg text-center text-gray-600">
-      Coming soon!
+    <div>
+      {error && <AuthErrorBanner error={error} className="mb-6" />}
+
+      <div className="mb-4">
+        <label
+          htmlFor="recipe-files"
+          className="block text-gray-700 font-medium mb-2"
+        >
+          Choose recipe files
+        </label>
+        <input
+          id="recipe-files"
+          type="file"
+          accept={ACCEPTED_EXTENSIONS.join(",")}
+          multiple
+          onChange={handleFileChange}
+          className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-indigo-100 file:text-indigo-700 hover:file:bg-indigo-200"
+          disabled={uploading}
+        />
+      </div>
+
+      {results.length > 0 && (
+        <ul className="mb-4 divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {results.map((result, index) => (
+            <li
+              key={index}
+              className="px-3 py-2 flex items-center justify-between gap-2 text-sm"
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">
+                  {result.fileName}
+                </p>
+                {result.message && (
+                  <p
+                    className={
+                      result.status === "failed"
+                        ? "text-red-600"
+                        : "text-gray-500"
+                    }
+                  >
+                    {result.message}
+                  </p>
+                )}
+                {result.failures && result.failures.length > 0 && (
+                  <ul className="mt-1 text-red-600 list-disc pl-5">
+                    {result.failures.map((failure, failureIndex) => (
+                      <li key={failureIndex}>
+                        {failure.name}
+                        {failure.reason && `: ${failure.reason}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              {result.status === "importing" && (
+                <ArrowPathIcon className="animate-spin h-4 w-4 text-indigo-600 flex-shrink-0" />
+              )}
+              {result.status === "pending" && (
+                <span className="text-gray-500">Waiting...</span>
+              )}
+              {result.status === "succeeded" && !result.recipeId && (
+                <Link
+                  href="/recipes/my-recipes"
+                  className="text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+                >
+                  My recipes
+                </Link>
+              )}
+              {result.status === "succeeded" && result.recipeId && (
+                <Link
+                  href={`/recipes/${result.recipeId}`}
+                  className="text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+                >
+                  View recipe
+                </Link>
+              )}
+              {result.status === "failed" && (
+                <span className="text-red-600 whitespace-nowrap">Failed</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        type="button"
+        onClick={handleUpload}
+        className="w-full sm:w-auto mt-2 sm:mt-0 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 flex items-center justify-center sm:whitespace-nowrap"
+        disabled={uploading}
+      >
+        {uploading ? (
+          <>
+            <ArrowPathIcon className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" />
+            Importing...
+          </>
+        ) : files.length > 1 ? (
+          `Import ${files.length} Files`
+        ) : (
+          "Import File"
+        )}
+      </button>
+      <p className="text-sm text-gray-500 mt-1">
+        Upload saved web pages (.html), text, Markdown, MealMaster (.mmf) or
+        Cooklang (.cook) files, or a Paprika export (.paprikarecipes). Saving a
+        page from your browser works for sites that block automatic imports.
+      </p>
     </div>
   );
 };
@@ -6,11 +6,17 @@ import {
   useEffect,
   useState,
 } from "react";
+import { authAPI } from "../services/api";
+import { UnitPreference } from "../types/recipe";
+
+// Where the unit preference is kept for visitors who aren't logged in
+const UNIT_PREFERENCE_KEY = "unitPreference";
 
 // Define types for the auth user and context
 interface AuthUser {
   _id: string;
   username: string;
+  unitPreference?: UnitPreference;
   token: string;
 }
 
@@ -22,6 +28,8 @@ interface AuthContextType {
   login: (username: string, password: string) => Promise<void>;
   logout: () => void;
   clearError: () => void;
+  unitPreference: UnitPreference;
+  setUnitPreference: (preference: UnitPreference) => Promise<void>;
 }
 
 // Create the context with a default value
@@ -45,6 +53,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [guestUnitPreference, setGuestUnitPreference] =
+    useState<UnitPreference>("original");
   const router = useRouter();
 
   // Load user from localStorage on initial render
@@ -53,6 +63,10 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     if (storedUser) {
       setUser(JSON.parse(storedUser));
     }
+    const storedPreference = localStorage.getItem(UNIT_PREFERENCE_KEY);
+    if (storedPreference) {
+      setGuestUnitPreference(storedPreference as UnitPreference);
+    }
     setLoading(false);
   }, []);
 
@@ -134,6 +148,31 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     setError(null);
   };
 
+  // Logged-in users keep their unit preference on their profile
+  const unitPreference = user
+    ? user.unitPreference || "original"
+    : guestUnitPreference;
+
+  // Change the units recipes are shown in
+  const setUnitPreference = async (preference: UnitPreference) => {
+    if (!user) {
+      setGuestUnitPreference(preference);
+      localStorage.setItem(UNIT_PREFERENCE_KEY, preference);
+      return;
+    }
+
+    // Show the change straight away, then save it to the profile
+    const updatedUser = { ...user, unitPreference: preference };
+    setUser(updatedUser);
+    localStorage.setItem("user", JSON.stringify(updatedUser));
+
+    try {
+      await authAPI.updateProfile({ unitPreference: preference });
+    } catch (err) {
+      console.error("Error saving unit preference:", err);
+    }
+  };
+
   // Create the context value
   const value = {
     user,
@@ -143,6 +182,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     login,
     logout,
     clearError,
+    unitPreference,
+    setUnitPreference,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -1,10 +1,37 @@
-import { Recipe, Tag } from "../types/recipe";
+import {
+  CrawlListingResult,
+  DocumentRecipe,
+  DuplicateMatch,
+  FetchFailureReason,
+  ImportedRecipeResult,
+  ImportJob,
+  ImportPreview,
+  NutritionEstimate,
+  NutritionFood,
+  Recipe,
+  ResyncDiff,
+  ResyncField,
+  Tag,
+  UnitPreference,
+} from "../types/recipe";
 
 const API_URL = "/api";
 
 // Types
-interface ApiError extends Error {
+export interface ApiError extends Error {
   status?: number;
+  // Likely duplicates, when a create or import is stopped with a 409
+  duplicates?: DuplicateMatch[];
+  // Why the page couldn't be fetched, when an import fails with a 400
+  fetchFailure?: FetchFailureReason;
+}
+
+// What to do when a new recipe looks like one the user already has
+export interface DuplicateOptions {
+  // Save the recipe even though it looks like a duplicate
+  allowDuplicate?: boolean;
+  // ID of an existing recipe to merge the new recipe into instead
+  mergeInto?: string;
 }
 
 interface RegisterData {
@@ -20,18 +47,29 @@ interface LoginData {
 export interface User {
   _id: string;
   username: string;
+  unitPreference?: UnitPreference;
   token: string;
 }
 
+interface ProfileUpdate {
+  username?: string;
+  password?: string;
+  unitPreference?: UnitPreference;
+}
+
 // Helper function to handle API responses
 const handleResponse = async <T>(response: Response): Promise<T> => {
   const data = await response.json();
 
   if (!response.ok) {
-    const error = new Error(data.message || "An error occurred") as Error & {
-      status?: number;
-    };
+    const error = new Error(data.message || "An error occurred") as ApiError;
     error.status = response.status;
+    if (data.duplicates) {
+      error.duplicates = data.duplicates;
+    }
+    if (data.reason) {
+      error.fetchFailure = data.reason;
+    }
     throw error;
   }
 
@@ -100,6 +138,107 @@ export const authAPI = {
 
     return handleResponse<User>(response);
   },
+
+  // Update the user's profile (requires authentication)
+  updateProfile: async (updates: ProfileUpdate): Promise<User> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/users/profile`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(updates),
+    });
+
+    return handleResponse<User>(response);
+  },
+
+  // Get a link to download a backup archive of the user's account (requires
+  // authentication)
+  downloadBackup: async (): Promise<{
+    downloadUrl: string;
+    fileName: string;
+  }> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/users/backup`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+
+    return handleResponse(response);
+  },
+
+  // Restore a backup archive into the user's account (requires
+  // authentication). The archive is uploaded straight to storage first, since
+  // it's too large for a request body.
+  restoreBackup: async (
+    archive: Blob
+  ): Promise<{
+    message?: string;
+    recipesRestored: number;
+    recipesSkipped: number;
+    userRecipesRestored: number;
+    unknownTags: string[];
+    failures: Array<{ title: string; reason: string }>;
+  }> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const uploadResponse = await fetch(`${API_URL}/users/restore-upload`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    const { uploadUrl, key, maxSize } = await handleResponse<{
+      uploadUrl: string;
+      key: string;
+      maxSize: number;
+    }>(uploadResponse);
+
+    if (archive.size > maxSize) {
+      throw new Error(
+        `Backup is too large (maximum ${Math.round(maxSize / 1024 / 1024)} MB)`
+      );
+    }
+
+    const upload = await fetch(uploadUrl, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/zip",
+      },
+      body: archive,
+    });
+    if (!upload.ok) {
+      throw new Error("Failed to upload the backup. Please try again.");
+    }
+
+    const response = await fetch(`${API_URL}/users/restore`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ key }),
+    });
+
+    return handleResponse(response);
+  },
 };
 
 // Recipe API calls
@@ -139,7 +278,10 @@ export const recipeAPI = {
   },
 
   // Create a new recipe (requires authentication)
-  createRecipe: async (recipeData: Partial<Recipe>): Promise<Recipe> => {
+  createRecipe: async (
+    recipeData: Partial<Recipe>,
+    options: DuplicateOptions = {}
+  ): Promise<Recipe> => {
     const token = getAuthToken();
 
     if (!token) {
@@ -151,6 +293,7 @@ export const recipeAPI = {
     // Current time in milliseconds as a negative number will ensure newer recipes have smaller values
     const recipeWithOrder = {
       ...recipeData,
+      ...options,
       order: -1 * Date.now(),
     };
 
@@ -285,10 +428,12 @@ export const recipeAPI = {
 
   // Import a recipe from a URL (requires authentication)
   importRecipeFromUrl: async (
-    url: string
+    url: string,
+    options: DuplicateOptions = {}
   ): Promise<{
     recipe: Partial<Recipe>;
     recipeId?: string;
+    recipeIds?: string[];
     message?: string;
   }> => {
     const token = getAuthToken();
@@ -303,7 +448,7 @@ export const recipeAPI = {
         "Content-Type": "application/json",
         Authorization: `Bearer ${token}`,
       },
-      body: JSON.stringify({ url, order: -1 * Date.now() }),
+      body: JSON.stringify({ url, ...options, order: -1 * Date.now() }),
     });
 
     return handleResponse(response);
@@ -311,10 +456,151 @@ export const recipeAPI = {
 
   // Import a recipe from pasted text or HTML (requires authentication)
   importRecipeFromText: async (
+    content: string,
+    options: DuplicateOptions = {}
+  ): Promise<{
+    recipe: Partial<Recipe>;
+    recipeId?: string;
+    recipeIds?: string[];
+    // Each recipe's result, when the text or file holds several
+    results?: ImportedRecipeResult[];
+    message?: string;
+  }> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/import-text`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ content, ...options, order: -1 * Date.now() }),
+    });
+
+    return handleResponse(response);
+  },
+
+  // Import a recipe from an uploaded HTML, text or Markdown file (requires authentication)
+  importRecipeFromFile: async (
+    fileName: string,
     content: string
   ): Promise<{
     recipe: Partial<Recipe>;
     recipeId?: string;
+    recipeIds?: string[];
+    // Each recipe's result, when the text or file holds several
+    results?: ImportedRecipeResult[];
+    message?: string;
+  }> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/import-file`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ fileName, content }),
+    });
+
+    return handleResponse(response);
+  },
+
+  // Import recipes from a Paprika .paprikarecipes export (requires authentication)
+  importPaprikaArchive: async (
+    archive: Blob
+  ): Promise<{
+    message?: string;
+    imported: number;
+    failed: number;
+    results: Array<{
+      name: string;
+      status: "succeeded" | "failed";
+      recipeId?: string;
+      reason?: string;
+    }>;
+  }> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/import-paprika`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/octet-stream",
+        Authorization: `Bearer ${token}`,
+      },
+      body: archive,
+    });
+
+    return handleResponse(response);
+  },
+
+  // Preview a recipe import from a URL without saving it (requires authentication)
+  previewRecipeImportFromUrl: async (
+    url: string
+  ): Promise<{
+    preview: ImportPreview;
+    message?: string;
+  }> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/import`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ url, preview: true }),
+    });
+
+    return handleResponse(response);
+  },
+
+  // Preview a recipe import from pasted text or HTML without saving it (requires authentication)
+  previewRecipeImportFromText: async (
+    content: string
+  ): Promise<{
+    preview: ImportPreview;
+    message?: string;
+  }> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/import-text`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ content, preview: true }),
+    });
+
+    return handleResponse(response);
+  },
+
+  // Extract every recipe from pasted text without saving (requires authentication)
+  extractRecipesFromText: async (
+    content: string
+  ): Promise<{
+    recipes: DocumentRecipe[];
     message?: string;
   }> => {
     const token = getAuthToken();
@@ -329,7 +615,245 @@ export const recipeAPI = {
         "Content-Type": "application/json",
         Authorization: `Bearer ${token}`,
       },
-      body: JSON.stringify({ content, order: -1 * Date.now() }),
+      body: JSON.stringify({ content, multiple: true }),
+    });
+
+    return handleResponse(response);
+  },
+
+  // Save several extracted recipes with shared tags (requires authentication)
+  importRecipeBatch: async (
+    recipes: Partial<Recipe>[],
+    tagIds: string[]
+  ): Promise<{
+    results: ImportedRecipeResult[];
+    recipeIds: string[];
+    message?: string;
+  }> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/import-batch`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ recipes, tags: tagIds }),
+    });
+
+    return handleResponse(response);
+  },
+
+  // Save a reviewed import draft (requires authentication)
+  commitImportedRecipe: async (
+    recipe: Partial<Recipe>,
+    tagIds: string[],
+    mergeInto?: string
+  ): Promise<{
+    recipe: Recipe;
+    recipeId: string;
+    message?: string;
+  }> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/import-commit`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ recipe, tags: tagIds, mergeInto }),
+    });
+
+    return handleResponse(response);
+  },
+
+  // Re-extract a recipe from its source URL and compare it with the stored
+  // recipe (requires authentication)
+  getRecipeResyncDiff: async (id: string): Promise<ResyncDiff> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/${id}/resync`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+
+    return handleResponse<ResyncDiff>(response);
+  },
+
+  // Apply the resync changes the user accepted (requires authentication)
+  applyRecipeResync: async (
+    id: string,
+    fields: Partial<Record<ResyncField, unknown>>
+  ): Promise<{
+    message?: string;
+    recipe: Recipe;
+    applied: ResyncField[];
+  }> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/${id}/resync`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ fields }),
+    });
+
+    return handleResponse(response);
+  },
+
+  // Estimate a recipe's nutrition from its ingredients
+  getRecipeNutrition: async (id: string): Promise<NutritionEstimate> => {
+    const response = await fetch(`${API_URL}/recipes/${id}/nutrition`);
+    return handleResponse<NutritionEstimate>(response);
+  },
+
+  // Choose the food an ingredient is matched to for nutrition: a food id,
+  // null to leave it out, or undefined for the automatic match (requires
+  // authentication)
+  updateNutritionMatch: async (
+    id: string,
+    ingredient: string,
+    foodId: string | null | undefined
+  ): Promise<NutritionEstimate> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/${id}/nutrition`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ ingredient, foodId }),
+    });
+
+    return handleResponse<NutritionEstimate>(response);
+  },
+
+  // List the foods an ingredient can be matched to for nutrition
+  getNutritionFoods: async (): Promise<NutritionFood[]> => {
+    const response = await fetch(`${API_URL}/recipes/nutrition-foods`);
+    return handleResponse<NutritionFood[]>(response);
+  },
+
+  // Create a bulk import job from a list of URLs (requires authentication)
+  createImportJob: async (
+    urls: string[]
+  ): Promise<{ job: ImportJob; message?: string }> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/import-jobs`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ urls }),
+    });
+
+    return handleResponse(response);
+  },
+
+  // Find the recipe links on a listing or sitemap page (requires authentication)
+  crawlListing: async (url: string): Promise<CrawlListingResult> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/crawl`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ url }),
+    });
+
+    return handleResponse(response);
+  },
+
+  // Get the progress of a bulk import job (requires authentication)
+  getImportJob: async (id: string): Promise<ImportJob> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/import-jobs/${id}`, {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+
+    return handleResponse(response);
+  },
+
+  // Import the next batch of queued URLs in a bulk import job (requires authentication)
+  processImportJob: async (id: string): Promise<ImportJob> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(
+      `${API_URL}/recipes/import-jobs/${id}/process`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      }
+    );
+
+    return handleResponse(response);
+  },
+
+  // Re-queue the failed URLs in a bulk import job (requires authentication)
+  retryImportJob: async (id: string): Promise<ImportJob> => {
+    const token = getAuthToken();
+
+    if (!token) {
+      throw new Error("Authentication required");
+    }
+
+    const response = await fetch(`${API_URL}/recipes/import-jobs/${id}/retry`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
     });
 
     return handleResponse(response);
@@ -8,6 +8,16 @@
 export interface IngredientItem {
   text: string;
   optional?: boolean;
+  // Parsed from text when the recipe is saved (see utils/ingredientParser)
+  quantity?: number;
+  // Upper end of a range like "2-3"
+  quantityMax?: number;
+  // Canonical unit, e.g. "cup", "tbsp" or "g"
+  unit?: string;
+  // The ingredient's name, e.g. "garlic"
+  ingredient?: string;
+  // Notes such as "minced", "to taste" or "about 200g"
+  preparation?: string;
 }
 
 /**
@@ -30,6 +40,19 @@ export interface InstructionItem {
   text: string;
 }
 
+/**
+ * Represents a section of instructions (like "To assemble")
+ */
+export interface InstructionSection {
+  sectionTitle: string;
+  instructions: Array<InstructionItem | InstructionSection>;
+}
+
+/**
+ * Union type for instruction structure (can be either a step or a section)
+ */
+export type InstructionType = InstructionItem | InstructionSection;
+
 /**
  * Represents a tag for recipes
  */
@@ -47,7 +70,7 @@ export interface Recipe {
   imageUrl?: string;
   description: string;
   ingredients: Array<IngredientType>;
-  instructions: Array<InstructionItem>;
+  instructions: Array<InstructionType>;
   cookingTime?: number;
   servings?: number;
   fullRecipe?: string;
@@ -61,4 +84,287 @@ export interface Recipe {
   isFavorite?: boolean;
   originalImageUrl?: string;
   tags?: Tag[];
+  nutritionOverrides?: NutritionOverride[];
+}
+
+/**
+ * Why an existing recipe was flagged as a likely duplicate
+ */
+export type DuplicateMatchReason = "sourceUrl" | "title" | "ingredients";
+
+/**
+ * An existing recipe that looks like the one being created or imported
+ */
+export interface DuplicateMatch {
+  recipeId: string;
+  title: string;
+  imageUrl?: string;
+  sourceUrl?: string;
+  // 0-1, where 1 is the same source page
+  score: number;
+  reasons: DuplicateMatchReason[];
+}
+
+/**
+ * Recipe fields that can be refreshed from the recipe's source page
+ */
+export type ResyncField =
+  | "title"
+  | "description"
+  | "ingredients"
+  | "instructions"
+  | "cookingTime"
+  | "servings"
+  | "imageUrl";
+
+/**
+ * A field whose value on the source page differs from the stored recipe
+ */
+export interface ResyncChange {
+  field: ResyncField;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Result of re-extracting a recipe from its source page
+ */
+export interface ResyncDiff {
+  recipeId: string;
+  sourceUrl: string;
+  changes: ResyncChange[];
+}
+
+/**
+ * Result of previewing an import: an editable draft that has not been saved
+ */
+export interface ImportPreview {
+  draft: Partial<Recipe>;
+  suggestedTags: Tag[];
+  imageCandidates: string[];
+  warnings: string[];
+  duplicates?: DuplicateMatch[];
+}
+
+/**
+ * A recipe found in a document that holds several recipes, such as a menu or
+ * a cookbook chapter, with the lines of the document it came from
+ */
+export interface DocumentRecipe {
+  recipe: Partial<Recipe>;
+  // 1-based, inclusive line numbers in the pasted document
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Result of saving one recipe of a batch: its saved ID, why it failed, or the
+ * recipes it looks like when it was skipped as a likely duplicate
+ */
+export interface ImportedRecipeResult {
+  title: string;
+  recipeId?: string;
+  error?: string;
+  duplicates?: DuplicateMatch[];
+}
+
+/**
+ * Why a recipe page could not be fetched
+ */
+export type FetchFailureReason =
+  | "invalid-url"
+  | "blocked"
+  | "not-found"
+  | "forbidden"
+  | "rate-limited"
+  | "timeout"
+  | "server-error"
+  | "too-large"
+  | "not-a-page"
+  | "network-error";
+
+/**
+ * Status of a single URL in a bulk import job
+ */
+export type ImportJobItemStatus =
+  | "queued"
+  | "succeeded"
+  | "failed"
+  | "duplicate";
+
+/**
+ * A single URL in a bulk import job
+ */
+export interface ImportJobItem {
+  _id: string;
+  url: string;
+  status: ImportJobItemStatus;
+  reason?: string;
+  // Set when the page itself could not be fetched
+  fetchFailure?: FetchFailureReason;
+  recipeId?: string;
+  attempts: number;
+}
+
+/**
+ * A bulk import job and the status of each of its URLs
+ */
+export interface ImportJob {
+  _id: string;
+  status: "running" | "completed";
+  items: ImportJobItem[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Why a link found by crawling a listing page looks like a recipe
+ */
+export type DiscoveredLinkReason = "jsonLd" | "keywords";
+
+/**
+ * A recipe-looking link found on a listing, category or sitemap page
+ */
+export interface DiscoveredRecipeLink {
+  url: string;
+  title: string;
+  reasons: DiscoveredLinkReason[];
+}
+
+/**
+ * The recipe links found by crawling a listing page
+ */
+export interface CrawlListingResult {
+  listingUrl: string;
+  links: DiscoveredRecipeLink[];
+  pagesFetched: number;
+  // True when the page or time limit stopped the crawl before every link was
+  // checked
+  truncated: boolean;
+}
+
+/**
+ * Units a user wants recipes shown in: US customary, metric, or as written
+ */
+export type UnitPreference = "us" | "metric" | "original";
+
+/**
+ * Calories, macros (in grams) and key micronutrients (in milligrams)
+ */
+export interface NutrientValues {
+  calories: number;
+  protein: number;
+  fat: number;
+  saturatedFat: number;
+  carbohydrates: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+  potassium: number;
+  calcium: number;
+  iron: number;
+  vitaminC: number;
+}
+
+/**
+ * How sure a nutrition estimate is of an ingredient: "low" when the name only
+ * partly matched or its weight had to be guessed, "none" when it isn't counted
+ */
+export type NutritionConfidence = "high" | "low" | "none";
+
+/**
+ * A food in the nutrient table
+ */
+export interface NutritionFood {
+  id: string;
+  name: string;
+}
+
+/**
+ * A match the user chose for an ingredient: a food, or null to leave the
+ * ingredient out of the estimate
+ */
+export interface NutritionOverride {
+  ingredient: string;
+  foodId: string | null;
+}
+
+/**
+ * How one ingredient was counted in a nutrition estimate
+ */
+export interface NutritionIngredientMatch {
+  text: string;
+  food?: NutritionFood;
+  grams?: number;
+  confidence: NutritionConfidence;
+  // Why the match is uncertain, or why the ingredient isn't counted
+  note?: string;
+  // True when the user chose the match
+  overridden?: boolean;
+}
+
+/**
+ * Nutrition estimated from a recipe's ingredients
+ */
+export interface NutritionEstimate {
+  total: NutrientValues;
+  // Set when the recipe has a servings count
+  perServing?: NutrientValues;
+  servings?: number;
+  ingredients: NutritionIngredientMatch[];
+}
+
+/**
+ * Major allergens detected in a recipe's ingredients. "nuts" means tree nuts;
+ * peanuts are listed separately.
+ */
+export type Allergen =
+  | "gluten"
+  | "dairy"
+  | "egg"
+  | "nuts"
+  | "peanuts"
+  | "soy"
+  | "shellfish"
+  | "fish"
+  | "sesame";
+
+/**
+ * Diets checked against a recipe's ingredients, named after their tags
+ */
+export type Diet = "vegetarian" | "vegan" | "gluten-free" | "dairy-free";
+
+/**
+ * The ingredient that caused a flag, and the words in it that matched
+ */
+export interface DietTrigger {
+  ingredient: string;
+  term: string;
+}
+
+/**
+ * An allergen found in a recipe, with every ingredient that contains it
+ */
+export interface AllergenFlag {
+  allergen: Allergen;
+  triggers: DietTrigger[];
+}
+
+/**
+ * Whether a recipe fits a diet, with the ingredients that rule it out
+ */
+export interface DietCompatibility {
+  diet: Diet;
+  compatible: boolean;
+  triggers: DietTrigger[];
+}
+
+/**
+ * Allergens and diets found by classifying a recipe's ingredients
+ */
+export interface DietClassification {
+  allergens: AllergenFlag[];
+  diets: DietCompatibility[];
+  // Tags for the diets the recipe fits
+  suggestedTags: Diet[];
 }
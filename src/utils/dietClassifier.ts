@@ -0,0 +1,561 @@
+/**
+ * Classifies a recipe by its ingredient text: which of the major allergens it
+ * contains and whether it fits a vegetarian, vegan, gluten-free or dairy-free
+ * diet. The rules are plain word lists, so the same ingredients always give
+ * the same result, and every flag names the ingredient that caused it.
+ * Look-alikes such as "coconut milk", "eggplant" or "gluten-free flour" are
+ * not flagged. Shared by the API and the pages.
+ */
+
+import {
+  Allergen,
+  AllergenFlag,
+  Diet,
+  DietClassification,
+  DietCompatibility,
+  DietTrigger,
+  IngredientItem,
+  IngredientType,
+} from "../types/recipe";
+
+// What an ingredient can contain: an allergen, or something else a diet
+// rules out
+type Category = Allergen | "meat" | "honey";
+
+/**
+ * Words that mean an ingredient contains something, with look-alikes that
+ * don't
+ */
+interface ClassifierRule {
+  pattern: RegExp;
+  // Removed from the line before matching, e.g. "coconut milk" for dairy
+  exceptions?: RegExp;
+  // Words that say the ingredient is made without it, e.g. "dairy-free".
+  // The few words naming what they describe ("dairy-free milk") are not
+  // matched.
+  freeFrom: string;
+}
+
+// Ingredients made to replace animal products
+const PLANT_BASED = "vegan|plant[- ]based";
+
+// The words after a "free from" qualifier that name the ingredient it
+// describes: up to three, stopping at a joining word like "and", so
+// "dairy-free milk and 1 cup milk" only leaves out the first milk
+const QUALIFIED_NAME = String.raw`(?:[\s-]+(?!(?:and|or|plus|with|to|for|in|of)\b)[a-z'-]+){0,3}`;
+
+// Diets not tagged without someone choosing them: a wrong gluten-free,
+// dairy-free or vegan tag is a food safety problem for someone avoiding an
+// allergen, and a missed ingredient is all it takes
+const CONFIRMED_DIETS: Diet[] = ["gluten-free", "dairy-free", "vegan"];
+
+/**
+ * Builds a pattern matching any of the words or phrases, listed longest
+ * first so the whole phrase is reported
+ */
+function words(list: string[]): RegExp {
+  return new RegExp(`\\b(?:${list.join("|")})\\b`);
+}
+
+const RULES: Record<Category, ClassifierRule> = {
+  gluten: {
+    pattern: words([
+      "soy sauce",
+      "malt vinegar",
+      "cream of [a-z]+(?: [a-z]+)? soup",
+      "condensed [a-z]+(?: [a-z]+)? soup",
+      "stock cubes?",
+      "bouillon",
+      "gravy",
+      // Sauces thickened with a flour roux
+      "bechamel",
+      "roux",
+      "pie crust",
+      "pizza dough",
+      "cake mix",
+      "dumpling wrappers?",
+      "wheat",
+      "flour",
+      "breadcrumbs?",
+      "bread",
+      "shortbread",
+      "gingerbread",
+      "panko",
+      "pasta",
+      "spaghetti",
+      "linguine",
+      "fettuccine",
+      "penne",
+      "rigatoni",
+      "macaroni",
+      "lasagn[ae]",
+      "orzo",
+      "ravioli",
+      "tortellini",
+      "gnocchi",
+      "noodles?",
+      "ramen",
+      "udon",
+      "couscous",
+      "bulgur",
+      "barley",
+      "rye",
+      "semolina",
+      "spelt",
+      "farro",
+      "seitan",
+      "tortillas?",
+      "pitas?",
+      "naan",
+      "baguettes?",
+      "brioche",
+      "croissants?",
+      "crackers?",
+      "croutons?",
+      "cookies?",
+      "biscuits?",
+      "buns?",
+      "pastry",
+      "phyllo",
+      "filo",
+      "dough",
+      "teriyaki",
+      "hoisin",
+      "malt",
+      "beer",
+      "graham",
+      "wonton",
+      "durum",
+      "farina",
+      "matzo",
+      // Oats are nearly always grown and milled alongside wheat
+      "oats?",
+      "oatmeal",
+      "granola",
+      "muesli",
+    ]),
+    exceptions:
+      /\b(?:rice|almond|coconut|corn|chickpea|gram|tapioca|potato|cassava|buckwheat|sorghum|millet|quinoa|teff|arrowroot|nut|hazelnut|cashew|banana)\s+(?:flour|starch|noodles?|pasta)\b|\b(?:glass|cellophane|shirataki|zucchini|kelp)\s+noodles?\b|\bcorn\s+tortillas?\b|\btortilla\s+chips?\b|\brice\s+paper\b/g,
+    freeFrom: "gluten[- ]free",
+  },
+  dairy: {
+    pattern: words([
+      "half[- ]and[- ]half",
+      "ice cream",
+      "creme fraiche",
+      "monterey jack",
+      "buttermilk",
+      "milk",
+      "butter",
+      "creamer",
+      "cream",
+      "cheeses?",
+      "parmesan",
+      "parmigiano",
+      "mozzarella",
+      "cheddar",
+      "ricotta",
+      "feta",
+      "gruyere",
+      "brie",
+      "camembert",
+      "mascarpone",
+      "pecorino",
+      "gouda",
+      "provolone",
+      "halloumi",
+      "paneer",
+      "gorgonzola",
+      "manchego",
+      "emmental",
+      "queso",
+      "cotija",
+      "burrata",
+      "yogh?urt",
+      "ghee",
+      "whey",
+      "casein",
+      "custard",
+      "kefir",
+      "quark",
+      "skyr",
+      "labneh",
+      // Sauces and dips usually made with cheese, cream or yogurt
+      "pesto",
+      "alfredo",
+      "bechamel",
+      "hollandaise",
+      "bearnaise",
+      "tzatziki",
+      "raita",
+      "ranch (?:dressing|dip|seasoning|mix)",
+      "caesar dressing",
+    ]),
+    exceptions:
+      /\b(?:coconut|almond|oat|soy|soya|rice|cashew|hemp|macadamia|pea|plant|nut)\s+(?:milk|cream|creamer|butter|yogh?urt|cheese)\b|\b(?:peanut|sunflower|seed|cocoa|cacao|apple|shea|pumpkin)\s+butter\b|\bbutter\s+(?:lettuce|beans?)\b|\bcream\s+of\s+(?:tartar|coconut)\b/g,
+    freeFrom: `dairy[- ]free|non[- ]dairy|${PLANT_BASED}`,
+  },
+  egg: {
+    pattern: words([
+      "egg whites?",
+      "egg yolks?",
+      "eggs?",
+      "yolks?",
+      "mayonnaise",
+      "mayo",
+      "meringue",
+      "aioli",
+      "eggnog",
+      "hollandaise",
+      "bearnaise",
+      "tartar sauce",
+      "caesar dressing",
+      "ranch dressing",
+      "nougat",
+    ]),
+    exceptions: /\b(?:flax|chia)\s+eggs?\b|\begg\s+replacer\b/g,
+    freeFrom: `egg[- ]free|eggless|${PLANT_BASED}`,
+  },
+  nuts: {
+    pattern: words([
+      "brazil nuts?",
+      "pine nuts?",
+      "almond extract",
+      "nuts?",
+      "almonds?",
+      "cashews?",
+      "walnuts?",
+      "pecans?",
+      "pistachios?",
+      "hazelnuts?",
+      "macadamias?",
+      "chestnuts?",
+      "pralines?",
+      "marzipan",
+      "frangipane",
+      "nutella",
+      "gianduja",
+      "amaretto",
+      // Sauces and sweets usually made with nuts
+      "pesto",
+      "romesco",
+      "dukkah",
+      "baklava",
+      "nougat",
+    ]),
+    exceptions: /\b(?:water\s+chestnuts?|tiger\s+nuts?)\b/g,
+    freeFrom: "(?:tree[- ])?nut[- ]free",
+  },
+  peanuts: {
+    pattern: words(["peanut butter", "peanuts?", "groundnuts?", "satay"]),
+    freeFrom: "peanut[- ]free",
+  },
+  soy: {
+    pattern: words([
+      "soy sauce",
+      "soy milk",
+      "soybeans?",
+      "soya",
+      "soy",
+      "tofu",
+      "tempeh",
+      "edamame",
+      "miso",
+      "tamari",
+      "shoyu",
+      "teriyaki",
+      "hoisin",
+      "natto",
+    ]),
+    freeFrom: "soy[- ]free",
+  },
+  shellfish: {
+    pattern: words([
+      "oyster sauce",
+      "shrimps?",
+      "prawns?",
+      "crabmeat",
+      "crabs?",
+      "lobsters?",
+      "crayfish",
+      "crawfish",
+      "langoustines?",
+      "scallops?",
+      "clams?",
+      "mussels?",
+      "oysters?",
+      "squid",
+      "calamari",
+      "octopus",
+      "cockles?",
+      "krill",
+    ]),
+    exceptions:
+      /\boyster\s+mushrooms?\b|\bcrab\s+apples?\b|\bimitation\s+crab\b/g,
+    freeFrom: "shellfish[- ]free",
+  },
+  fish: {
+    pattern: words([
+      "fish sauce",
+      "imitation crab",
+      "sea bass",
+      "mahi[- ]mahi",
+      "fish",
+      "salmon",
+      "tuna",
+      "cod",
+      "anchov(?:y|ies)",
+      "sardines?",
+      "halibut",
+      "tilapia",
+      "trout",
+      "mackerel",
+      "haddock",
+      "snapper",
+      "bass",
+      "swordfish",
+      "catfish",
+      "monkfish",
+      "pollock",
+      "herring",
+      "flounder",
+      "branzino",
+      "grouper",
+      "whitefish",
+      "kippers?",
+      "lox",
+      "bonito",
+      "dashi",
+      "worcestershire",
+      "caesar dressing",
+      "surimi",
+      "caviar",
+      "roe",
+      "eel",
+    ]),
+    freeFrom: `fish[- ]free|${PLANT_BASED}`,
+  },
+  sesame: {
+    pattern: words(["sesame", "tahini", "halvah?", "za'?atar", "gomasio"]),
+    freeFrom: "sesame[- ]free",
+  },
+  meat: {
+    pattern: words([
+      "short ribs",
+      "spare ribs",
+      "bone broth",
+      "hot dogs?",
+      "meatballs?",
+      "meats?",
+      "chicken",
+      "beef",
+      "pork",
+      "lamb",
+      "mutton",
+      "veal",
+      "turkey",
+      "duck",
+      "goose",
+      "venison",
+      "bison",
+      "rabbit",
+      "quail",
+      "bacon",
+      "ham",
+      "sausages?",
+      "chorizo",
+      "pancetta",
+      "prosciutto",
+      "guanciale",
+      "salami",
+      "pepperoni",
+      "kielbasa",
+      "bratwurst",
+      "pastrami",
+      "steaks?",
+      "brisket",
+      "oxtail",
+      "liver",
+      "gelatine?",
+      "lard",
+      "suet",
+      "drippings",
+      "mincemeat",
+      "jerky",
+    ]),
+    exceptions:
+      /\b(?:duck|quail)\s+eggs?\b|\blamb'?s\s+lettuce\b|\bcauliflower\s+steaks?\b/g,
+    freeFrom: `vegetarian|meatless|meat[- ]free|veggie|${PLANT_BASED}`,
+  },
+  honey: {
+    pattern: words(["honeycomb", "honey"]),
+    freeFrom: PLANT_BASED,
+  },
+};
+
+const ALLERGENS: Allergen[] = [
+  "gluten",
+  "dairy",
+  "egg",
+  "nuts",
+  "peanuts",
+  "soy",
+  "shellfish",
+  "fish",
+  "sesame",
+];
+
+// What each diet rules out
+const DIET_EXCLUSIONS: Record<Diet, Category[]> = {
+  vegetarian: ["meat", "fish", "shellfish"],
+  vegan: ["meat", "fish", "shellfish", "dairy", "egg", "honey"],
+  "gluten-free": ["gluten"],
+  "dairy-free": ["dairy"],
+};
+
+/**
+ * Names of the allergens for badges and messages
+ */
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  gluten: "Gluten",
+  dairy: "Dairy",
+  egg: "Egg",
+  nuts: "Tree nuts",
+  peanuts: "Peanuts",
+  soy: "Soy",
+  shellfish: "Shellfish",
+  fish: "Fish",
+  sesame: "Sesame",
+};
+
+/**
+ * Lowercases a line and drops accents, so "Crème fraîche" matches
+ * "creme fraiche"
+ */
+function normalizeLine(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\u2018\u2019]/g, "'")
+    .toLowerCase();
+}
+
+/**
+ * Finds what in an ingredient line matches a rule, ignoring look-alikes and
+ * anything described as free from it
+ * @returns The matching words, or null when the line doesn't match
+ */
+function matchRule(line: string, rule: ClassifierRule): string | null {
+  let text = line.replace(
+    new RegExp(`\\b(?:${rule.freeFrom})\\b${QUALIFIED_NAME}`, "g"),
+    " "
+  );
+  if (rule.exceptions) {
+    text = text.replace(rule.exceptions, " ");
+  }
+  const match = text.match(rule.pattern);
+  return match ? match[0] : null;
+}
+
+/**
+ * Lists the text of every ingredient in a recipe, including those in
+ * sections
+ */
+function ingredientLines(
+  ingredients: Array<IngredientType | string>
+): string[] {
+  return ingredients.flatMap((item) => {
+    if (typeof item === "string") return [item];
+    if (!item) return [];
+    if ("sectionTitle" in item) return ingredientLines(item.ingredients || []);
+    return [(item as IngredientItem).text || ""];
+  });
+}
+
+/**
+ * Classifies a recipe's ingredients
+ * @param ingredients The recipe's ingredients, as items, sections or lines
+ * @returns The allergens found, whether each diet fits, and the diet tags to
+ * suggest. A recipe without ingredients gets no suggestions.
+ */
+export function classifyIngredients(
+  ingredients: Array<IngredientType | string>
+): DietClassification {
+  const lines = ingredientLines(ingredients)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const found = new Map<Category, DietTrigger[]>();
+  for (const line of lines) {
+    const normalized = normalizeLine(line);
+    for (const category of Object.keys(RULES) as Category[]) {
+      const term = matchRule(normalized, RULES[category]);
+      if (!term) continue;
+      const triggers = found.get(category) || [];
+      triggers.push({ ingredient: line, term });
+      found.set(category, triggers);
+    }
+  }
+
+  const allergens: AllergenFlag[] = ALLERGENS.filter((allergen) =>
+    found.has(allergen)
+  ).map((allergen) => ({ allergen, triggers: found.get(allergen)! }));
+
+  const diets: DietCompatibility[] = (
+    Object.keys(DIET_EXCLUSIONS) as Diet[]
+  ).map((diet) => {
+    const triggers = DIET_EXCLUSIONS[diet].flatMap(
+      (category) => found.get(category) || []
+    );
+    return { diet, compatible: triggers.length === 0, triggers };
+  });
+
+  const suggestedTags =
+    lines.length > 0
+      ? diets.filter((result) => result.compatible).map(({ diet }) => diet)
+      : [];
+
+  return { allergens, diets, suggestedTags };
+}
+
+/**
+ * Describes the ingredients behind a flag, e.g.
+ * `butter ("2 tbsp butter"), parmesan ("1/2 cup parmesan")`
+ */
+export function explainTriggers(triggers: DietTrigger[]): string {
+  return triggers
+    .map(({ ingredient, term }) => `${term} ("${ingredient}")`)
+    .join(", ");
+}
+
+/**
+ * Corrects a recipe's diet tags using its classification: tags for diets the
+ * recipe fits are added, and tags for diets its ingredients rule out are
+ * removed. Other tags are kept as they are. Gluten-free, dairy-free and vegan
+ * are only ever removed, never added: they're offered as suggestions for
+ * someone to confirm instead.
+ * @param tagNames The recipe's current or suggested tag names
+ * @param classification The classification of the recipe's ingredients
+ * @returns The corrected tag names, and which diet tags were added or removed
+ */
+export function applyDietTags(
+  tagNames: string[],
+  classification: DietClassification
+): { tags: string[]; added: Diet[]; removed: DietCompatibility[] } {
+  const current = new Set(tagNames.map((name) => name.toLowerCase()));
+
+  const removed = classification.diets.filter(
+    (result) => !result.compatible && current.has(result.diet)
+  );
+  const added = classification.suggestedTags.filter(
+    (diet) => !current.has(diet) && !CONFIRMED_DIETS.includes(diet)
+  );
+
+  const removedNames = new Set<string>(removed.map(({ diet }) => diet));
+  const tags = [
+    ...tagNames.filter((name) => !removedNames.has(name.toLowerCase())),
+    ...added,
+  ];
+
+  return { tags, added, removed };
+}
@@ -0,0 +1,30 @@
+/**
+ * Messages for the reasons a recipe page could not be fetched. Shared by the
+ * API, which returns them with failed imports, and the pages.
+ */
+
+import { FetchFailureReason } from "../types/recipe";
+
+const FETCH_FAILURE_MESSAGES: Record<FetchFailureReason, string> = {
+  "invalid-url": "That doesn't look like a valid web address.",
+  blocked: "That address can't be imported from.",
+  "not-found": "The page wasn't found. Check the link and try again.",
+  forbidden:
+    "The site refused the request. It may block automated imports; try pasting the recipe text instead.",
+  "rate-limited":
+    "The site is limiting requests right now. Try again in a few minutes.",
+  timeout: "The site took too long to respond. Try again later.",
+  "server-error": "The site had an error loading the page. Try again later.",
+  "too-large": "The page is too large to import.",
+  "not-a-page": "The link doesn't point to a web page.",
+  "network-error":
+    "The site couldn't be reached. Check the link and try again.",
+};
+
+/**
+ * Describes why a page could not be fetched, in words that can be shown to
+ * the user
+ */
+export function describeFetchFailure(reason: FetchFailureReason): string {
+  return FETCH_FAILURE_MESSAGES[reason] || "Failed to fetch content from URL";
+}
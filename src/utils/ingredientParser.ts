@@ -0,0 +1,510 @@
+/**
+ * Deterministic ingredient parser. Splits an ingredient line like
+ * "1½ cups (200g) flour, sifted" into its quantity, unit, ingredient name and
+ * preparation notes, so recipes can be scaled, converted and analysed. The
+ * original text is always kept; the parsed fields sit alongside it. Shared by
+ * the API, which parses ingredients when recipes are saved, and the pages.
+ */
+
+import { IngredientItem, IngredientType } from "../types/recipe";
+
+/**
+ * The parts of an ingredient line
+ */
+export interface ParsedIngredient {
+  quantity?: number;
+  quantityMax?: number;
+  unit?: string;
+  ingredient: string;
+  preparation?: string;
+}
+
+// Unicode vulgar fractions and their values
+const UNICODE_FRACTIONS: Record<string, string> = {
+  "½": "1/2",
+  "⅓": "1/3",
+  "⅔": "2/3",
+  "¼": "1/4",
+  "¾": "3/4",
+  "⅕": "1/5",
+  "⅖": "2/5",
+  "⅗": "3/5",
+  "⅘": "4/5",
+  "⅙": "1/6",
+  "⅚": "5/6",
+  "⅐": "1/7",
+  "⅛": "1/8",
+  "⅜": "3/8",
+  "⅝": "5/8",
+  "⅞": "7/8",
+  "⅑": "1/9",
+  "⅒": "1/10",
+};
+
+// Number words accepted in place of a quantity
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  half: 0.5,
+  dozen: 12,
+};
+
+// Canonical units and the spellings that mean them. Matching is case
+// insensitive except for the single letters "T" (tablespoon) and "t"
+// (teaspoon).
+const UNIT_ALIASES: Record<string, string[]> = {
+  cup: ["cups", "cup", "c"],
+  tbsp: ["tablespoons", "tablespoon", "tbsps", "tbsp", "tbls", "tbl", "tbs"],
+  tsp: ["teaspoons", "teaspoon", "tsps", "tsp"],
+  "fl oz": ["fluid ounces", "fluid ounce", "fl oz", "fl. oz"],
+  oz: ["ounces", "ounce", "oz"],
+  lb: ["pounds", "pound", "lbs", "lb"],
+  mg: ["milligrams", "milligram", "mg"],
+  g: ["grams", "gram", "gr", "g"],
+  kg: ["kilograms", "kilogram", "kgs", "kg"],
+  ml: ["millilitres", "milliliters", "millilitre", "milliliter", "mls", "ml"],
+  cl: ["centilitres", "centiliters", "cl"],
+  dl: ["decilitres", "deciliters", "dl"],
+  l: ["litres", "liters", "litre", "liter", "l"],
+  pint: ["pints", "pint", "pts", "pt"],
+  quart: ["quarts", "quart", "qts", "qt"],
+  gallon: ["gallons", "gallon", "gal"],
+  inch: ["inches", "inch", "in"],
+  cm: ["centimetres", "centimeters", "cm"],
+  pinch: ["pinches", "pinch"],
+  dash: ["dashes", "dash"],
+  drop: ["drops", "drop"],
+  clove: ["cloves", "clove"],
+  can: ["cans", "can", "tins", "tin"],
+  jar: ["jars", "jar"],
+  package: ["packages", "package", "packets", "packet", "pkgs", "pkg"],
+  stick: ["sticks", "stick"],
+  box: ["boxes", "box"],
+  bag: ["bags", "bag"],
+  slice: ["slices", "slice"],
+  piece: ["pieces", "piece", "pcs"],
+  bunch: ["bunches", "bunch"],
+  sprig: ["sprigs", "sprig"],
+  head: ["heads", "head"],
+  stalk: ["stalks", "stalk"],
+  handful: ["handfuls", "handful"],
+};
+
+// Units that count packages as sold, which can have a size, e.g. "1 (14 oz)
+// can" or "2 x 400g tins"
+const PACKAGE_UNITS = ["can", "jar", "package", "stick", "box", "bag"];
+
+// Units that give the size of an item when they come before a noun, e.g. "12
+// inch tortillas", rather than an amount
+const SIZE_UNITS = ["inch", "cm"];
+
+// Every alias, longest first so "cups" is read whole rather than as "c"
+const UNIT_LOOKUP: Array<[string, string]> = Object.entries(UNIT_ALIASES)
+  .flatMap(([unit, aliases]) =>
+    aliases.map((alias): [string, string] => [alias, unit])
+  )
+  .sort((a, b) => b[0].length - a[0].length);
+
+// One number: a mixed number ("1 1/2"), a fraction or a decimal. A comma
+// followed by three digits separates thousands ("1,000"); followed by one or
+// two it is a decimal mark ("1,5").
+const NUMBER = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+|,\d{1,2}(?!\d))?`;
+
+// A quantity at the start of a line, optionally a range ("2-3", "2 to 3")
+const QUANTITY = new RegExp(
+  String.raw`^(${NUMBER})(?:\s*(?:-|to|or)\s*(${NUMBER}))?(?![\d/])`,
+  "i"
+);
+
+// Phrases that stand in for a quantity, moved to the preparation notes
+const AMOUNT_PHRASES =
+  /,?\s*\b(to taste|as needed|as required|for serving|for garnish|for dusting|for greasing|for frying|optional)\b\.?/gi;
+
+// Words at the start of the name that describe how it is prepared
+const PREPARATION_WORDS =
+  /^((?:(?:finely|roughly|coarsely|thinly|freshly|lightly|very|well)\s+)?(?:chopped|diced|minced|sliced|grated|shredded|crushed|melted|softened|beaten|peeled|cubed|halved|quartered|julienned|toasted|drained|rinsed|zested|juiced|packed|sifted|divided|trimmed|pitted|seeded|cored)\b(?:\s*(?:,|and)\s*)?)+/i;
+
+/**
+ * Rewrites unicode fractions and dashes so they can be parsed, e.g.
+ * "1½–2 cups" becomes "1 1/2-2 cups"
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/(\d)?([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅐⅛⅜⅝⅞⅑⅒])/g, (_, whole, fraction) =>
+      whole
+        ? `${whole} ${UNICODE_FRACTIONS[fraction]}`
+        : UNICODE_FRACTIONS[fraction]
+    )
+    .replace(/⁄/g, "/")
+    .replace(/\s*[–—]\s*/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Reads a number written as a mixed number, fraction or decimal
+ */
+function parseNumber(value: string): number | undefined {
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  }
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    return Number(fraction[2]) === 0
+      ? undefined
+      : Number(fraction[1]) / Number(fraction[2]);
+  }
+  const number = Number(
+    /^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/.test(value)
+      ? value.replace(/,/g, "")
+      : value.replace(",", ".")
+  );
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Rounds a parsed quantity so thirds don't carry endless decimals
+ */
+function roundQuantity(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Reads a unit at the start of some text
+ * @returns The canonical unit, the unit as written and the text after it, or
+ *   null if there's none
+ */
+function readUnit(
+  text: string
+): { unit: string; written: string; rest: string } | null {
+  for (const [alias, unit] of UNIT_LOOKUP) {
+    // The unit must end at a word boundary, optionally with a full stop
+    const after = text.slice(alias.length);
+    if (
+      text.slice(0, alias.length).toLowerCase() === alias &&
+      !/^[a-z]/i.test(after)
+    ) {
+      return {
+        unit,
+        written: text.slice(0, alias.length),
+        rest: after.replace(/^\.\s*|^\s*/, ""),
+      };
+    }
+  }
+
+  // Single-letter "T" and "t" aren't in the aliases, as they're case
+  // sensitive
+  const letter = text.match(/^([Tt])\.?(?:\s|$)/);
+  if (letter) {
+    return {
+      unit: letter[1] === "T" ? "tbsp" : "tsp",
+      written: letter[1],
+      rest: text.slice(letter[0].length).trim(),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Reads a number as it might be written in a recipe, e.g. "1½", "3/4" or "2.5"
+ * @returns The number, or undefined if the text isn't one
+ */
+export function readNumber(text: string): number | undefined {
+  return parseNumber(normalizeText(text));
+}
+
+/**
+ * Checks whether a unit counts packages, like cans or jars
+ * @param unit A canonical unit
+ */
+export function isPackageUnit(unit: string | undefined): boolean {
+  return !!unit && PACKAGE_UNITS.includes(unit);
+}
+
+/**
+ * The amount at the start of an ingredient line
+ */
+export interface IngredientAmount {
+  quantity: number;
+  quantityMax?: number;
+  // The size of each package counted, e.g. "400g" in "2 x 400g tins" or
+  // "14 oz" in "1 (14 oz) can" and "2 cans (14 oz)"
+  packageSize?: string;
+  // Where the package size was written: after an "x", or in brackets before
+  // or after the unit
+  packageSizePosition?: "x" | "before" | "after";
+  unit?: string;
+  // The unit as written, e.g. "tins" for the unit "can"
+  unitText?: string;
+  // The size of each item, e.g. "12-inch" in "12 inch tortillas". The size
+  // stands in for a count of one.
+  itemSize?: string;
+  // The rest of the line after the amount
+  rest: string;
+}
+
+/**
+ * Reads an amount with a unit in brackets at the start of some text, like the
+ * "(14 oz)" in "(14 oz) can tomatoes" or "(8 oz each)"
+ * @returns The amount as written and the text after it, or null if the text
+ *   doesn't start with one
+ */
+function readBracketedSize(
+  text: string
+): { size: string; rest: string } | null {
+  const match = text.match(/^\(([^()]+)\)\s*/);
+  const size = match ? readAmount(match[1].trim()) : null;
+  if (!match || !size || !size.unit || !/^(?:each)?$/i.test(size.rest)) {
+    return null;
+  }
+  return { size: match[1].trim(), rest: text.slice(match[0].length) };
+}
+
+/**
+ * Reads a size unit that describes the noun after it, like the "inch" in "12
+ * inch tortillas", "12-inch tortillas" or "1 inch piece ginger". A plural
+ * unit, like "2 inches ginger", is an amount rather than a size.
+ * @returns The unit as written and the text after it, or null if the text
+ *   doesn't start with one
+ */
+function readItemSizeUnit(
+  text: string
+): { written: string; rest: string } | null {
+  const hyphenated = text.startsWith("-");
+  const unit = readUnit(text.replace(/^-\s*/, ""));
+  if (
+    !unit ||
+    !SIZE_UNITS.includes(unit.unit) ||
+    !/^[a-z]/i.test(unit.rest) ||
+    /^of\b/i.test(unit.rest) ||
+    (!hyphenated && /^(?:inches|centimet)/i.test(unit.written))
+  ) {
+    return null;
+  }
+  return { written: unit.written, rest: unit.rest };
+}
+
+/**
+ * Reads the quantity, package size and unit at the start of some text
+ * @returns The amount, or null if the text doesn't start with one
+ */
+function readAmount(text: string): IngredientAmount | null {
+  let rest = text;
+  let amount: IngredientAmount | null = null;
+
+  const quantity = rest.match(QUANTITY);
+  const min = quantity ? parseNumber(quantity[1]) : undefined;
+  if (quantity && min !== undefined) {
+    const max = quantity[2] ? parseNumber(quantity[2]) : undefined;
+    amount = { quantity: roundQuantity(min), rest: "" };
+    if (max !== undefined && max > min) {
+      amount.quantityMax = roundQuantity(max);
+    }
+    rest = rest.slice(quantity[0].length).trim();
+  } else {
+    // Number words, e.g. "a pinch of salt" or "two eggs"
+    const word = rest.match(/^([a-z]+)\s+/i);
+    const value = word ? NUMBER_WORDS[word[1].toLowerCase()] : undefined;
+    if (word && value !== undefined) {
+      const afterWord = rest.slice(word[0].length);
+      // "a" and "an" only count as one before a unit ("a pinch", not "a few")
+      if (!/^an?$/i.test(word[1]) || readUnit(afterWord)) {
+        amount = { quantity: value, rest: "" };
+        rest = afterWord;
+      }
+    }
+  }
+
+  if (!amount) {
+    return null;
+  }
+
+  // A count of packages, e.g. "2 x 400g tins"
+  const packageSize = rest.match(
+    new RegExp(String.raw`^x\s*((?:${NUMBER})\s*[a-z]+\.?)\s+`, "i")
+  );
+  if (packageSize && readUnit(packageSize[1].replace(/^[\d\s/.,]+/, ""))) {
+    amount.packageSize = packageSize[1];
+    amount.packageSizePosition = "x";
+    rest = rest.slice(packageSize[0].length);
+  }
+
+  // A package size in brackets before the unit, e.g. "1 (14 oz) can"
+  const before = !amount.packageSize && readBracketedSize(rest);
+  const unitAfterSize = before ? readUnit(before.rest) : null;
+  if (before && unitAfterSize && isPackageUnit(unitAfterSize.unit)) {
+    amount.packageSize = before.size;
+    amount.packageSizePosition = "before";
+    rest = before.rest;
+  }
+
+  // A size before a noun describes one item, e.g. "12 inch tortillas"
+  const itemSize =
+    quantity && amount.quantityMax === undefined && !amount.packageSize
+      ? readItemSizeUnit(rest)
+      : null;
+  if (quantity && itemSize) {
+    amount.itemSize = `${quantity[1]}-${itemSize.written}`;
+    amount.quantity = 1;
+    rest = itemSize.rest;
+  }
+
+  const unit = readUnit(rest);
+  if (unit) {
+    amount.unit = unit.unit;
+    amount.unitText = unit.written;
+    rest = unit.rest;
+
+    // A package size in brackets after the unit, e.g. "2 cans (14 oz)".
+    // Sticks are left out: in "2 sticks (1 cup) butter" the bracket is the
+    // total.
+    const after = !amount.packageSize && readBracketedSize(rest);
+    if (after && isPackageUnit(unit.unit) && unit.unit !== "stick") {
+      amount.packageSize = after.size;
+      amount.packageSizePosition = "after";
+      rest = after.rest;
+    }
+
+    rest = rest.replace(/^of\s+/i, "");
+  }
+
+  amount.rest = rest;
+  return amount;
+}
+
+/**
+ * Splits the amount off the start of an ingredient line, leaving the rest of
+ * the line as written (apart from fractions and dashes, which are
+ * normalized), e.g. for rewriting the amount when a recipe is scaled
+ * @param text The ingredient line, e.g. "1½ cups flour (sifted)"
+ * @returns The amount and the rest of the line, or null if there's no amount
+ */
+export function splitIngredientAmount(text: string): IngredientAmount | null {
+  return readAmount(normalizeText(text).replace(/^[-*•]\s*/, ""));
+}
+
+/**
+ * Parses a single ingredient line into its quantity, unit, name and
+ * preparation notes. Nothing is ever dropped: text that isn't a quantity,
+ * unit or note stays in the ingredient name.
+ * @param text The ingredient line, e.g. "2–3 cloves garlic, minced"
+ */
+export function parseIngredient(text: string): ParsedIngredient {
+  let rest = normalizeText(text).replace(/^[-*•]\s*/, "");
+  const notes: string[] = [];
+
+  // Parenthetical notes, e.g. "(about 200g)" or "(optional)"
+  rest = rest
+    .replace(/\(([^()]*)\)/g, (_, note: string) => {
+      if (note.trim()) notes.push(note.trim());
+      return " ";
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+
+  // Amounts like "to taste" that stand in for a quantity
+  rest = rest
+    .replace(AMOUNT_PHRASES, (_, phrase: string) => {
+      notes.push(phrase.toLowerCase());
+      return "";
+    })
+    .trim();
+
+  const parsed: ParsedIngredient = { ingredient: "" };
+
+  const amount = readAmount(rest);
+  if (amount) {
+    parsed.quantity = amount.quantity;
+    parsed.quantityMax = amount.quantityMax;
+    parsed.unit = amount.unit;
+    // The package size or item size becomes a note
+    if (amount.packageSize) notes.push(amount.packageSize);
+    if (amount.itemSize) notes.push(amount.itemSize);
+    rest = amount.rest;
+  }
+
+  // Everything after the first comma is preparation, e.g. "onion, diced"
+  const comma = rest.indexOf(",");
+  if (comma !== -1) {
+    const after = rest.slice(comma + 1).trim();
+    if (after) notes.unshift(after);
+    rest = rest.slice(0, comma).trim();
+  }
+
+  // Preparation words before the name, e.g. "finely chopped parsley"
+  const leading = rest.match(PREPARATION_WORDS);
+  if (leading && leading[0].length < rest.length) {
+    notes.unshift(
+      leading[0]
+        .replace(/\s*(?:,|and)\s*$/i, "")
+        .trim()
+        .toLowerCase()
+    );
+    rest = rest.slice(leading[0].length).trim();
+  }
+
+  parsed.ingredient = rest
+    .replace(/^of\s+/i, "")
+    .replace(/[,;.\s]+$/, "")
+    .trim();
+  if (notes.length > 0) {
+    parsed.preparation = notes.join(", ");
+  }
+
+  return parsed;
+}
+
+/**
+ * Parses a single ingredient item, replacing any fields parsed from older
+ * text. Older recipes may store ingredients as plain strings.
+ */
+function parseIngredientItem(item: IngredientItem | string): IngredientItem {
+  const text = typeof item === "string" ? item.trim() : item.text;
+  const { quantity, quantityMax, unit, ingredient, preparation } =
+    parseIngredient(text || "");
+
+  // Only set fields that were found, so stale ones from older text go away
+  const parsed: IngredientItem = { text };
+  if (typeof item !== "string" && item.optional !== undefined) {
+    parsed.optional = item.optional;
+  }
+  if (quantity !== undefined) parsed.quantity = quantity;
+  if (quantityMax !== undefined) parsed.quantityMax = quantityMax;
+  if (unit) parsed.unit = unit;
+  if (ingredient) parsed.ingredient = ingredient;
+  if (preparation) parsed.preparation = preparation;
+
+  return parsed;
+}
+
+/**
+ * Parses every ingredient in a list, including those in sections
+ * @param ingredients The recipe's ingredients
+ * @returns The ingredients with their parsed fields set
+ */
+export function parseIngredients(
+  ingredients: Array<IngredientType | string>
+): IngredientType[] {
+  return ingredients.map((item) =>
+    typeof item === "object" && item && "sectionTitle" in item
+      ? {
+          sectionTitle: item.sectionTitle,
+          ingredients: parseIngredients(item.ingredients || []),
+        }
+      : parseIngredientItem(item as IngredientItem | string)
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * Helpers for recipe instructions, which can be a flat list of steps or be
+ * grouped into (possibly nested) sections. Shared by the API and the pages.
+ */
+
+import {
+  InstructionItem,
+  InstructionSection,
+  InstructionType,
+} from "../types/recipe";
+
+/**
+ * Checks whether an instruction is a section rather than a step
+ */
+export function isInstructionSection(
+  instruction: InstructionType
+): instruction is InstructionSection {
+  return "sectionTitle" in instruction;
+}
+
+/**
+ * Lists every step in order, dropping section headings, for places that only
+ * deal with a flat list of steps
+ */
+export function flattenInstructions(
+  instructions: InstructionType[]
+): InstructionItem[] {
+  return instructions.flatMap((instruction) =>
+    isInstructionSection(instruction)
+      ? flattenInstructions(instruction.instructions || [])
+      : [instruction]
+  );
+}
+
+/**
+ * Counts the steps in a list of instructions, including those in sections
+ */
+export function countInstructionSteps(instructions: InstructionType[]): number {
+  return flattenInstructions(instructions).length;
+}
@@ -0,0 +1,238 @@
+/**
+ * Serializes recipes as schema.org JSON-LD, so recipe managers, search
+ * engines and smart displays can read them. Shared by the API exporter and the
+ * recipe detail page.
+ */
+
+import { IngredientType, InstructionType, Recipe } from "../types/recipe";
+
+const SCHEMA_CONTEXT = "https://schema.org";
+
+/**
+ * A schema.org HowToStep
+ */
+export interface HowToStepJsonLd {
+  "@type": "HowToStep";
+  position: number;
+  text: string;
+}
+
+/**
+ * A schema.org HowToSection, a titled group of steps
+ */
+export interface HowToSectionJsonLd {
+  "@type": "HowToSection";
+  position: number;
+  name: string;
+  itemListElement: Array<HowToStepJsonLd | HowToSectionJsonLd>;
+}
+
+/**
+ * A schema.org Recipe document
+ */
+export interface RecipeJsonLd {
+  "@context"?: string;
+  "@type": "Recipe";
+  "@id"?: string;
+  url?: string;
+  name: string;
+  description?: string;
+  image?: string[];
+  author?: { "@type": "Person"; name: string };
+  datePublished?: string;
+  dateModified?: string;
+  totalTime?: string;
+  recipeYield?: string;
+  keywords?: string;
+  recipeIngredient: string[];
+  recipeInstructions: Array<HowToStepJsonLd | HowToSectionJsonLd>;
+  isBasedOn?: string;
+}
+
+/**
+ * A schema.org ItemList of recipes
+ */
+export interface RecipeListJsonLd {
+  "@context": string;
+  "@type": "ItemList";
+  numberOfItems: number;
+  itemListElement: Array<{
+    "@type": "ListItem";
+    position: number;
+    item: RecipeJsonLd;
+  }>;
+}
+
+/**
+ * Options for building JSON-LD
+ */
+export interface JsonLdOptions {
+  // Origin of the site (e.g. "https://example.com"), used to build absolute
+  // URLs for the recipe page and relative images
+  baseUrl?: string;
+}
+
+/**
+ * Formats a number of minutes as an ISO 8601 duration (e.g. 80 -> "PT1H20M")
+ */
+export function minutesToIsoDuration(minutes: number): string {
+  const total = Math.round(minutes);
+  const hours = Math.floor(total / 60);
+  const remaining = total % 60;
+
+  if (hours === 0) return `PT${remaining}M`;
+  return remaining === 0 ? `PT${hours}H` : `PT${hours}H${remaining}M`;
+}
+
+/**
+ * Flattens ingredients into schema.org's list of ingredient strings. Sections
+ * have no schema.org equivalent, so their items are listed in order, and
+ * optional items are marked in the text.
+ */
+function flattenIngredients(ingredients: IngredientType[]): string[] {
+  return ingredients.flatMap((item) => {
+    if ("sectionTitle" in item) {
+      return flattenIngredients(item.ingredients || []);
+    }
+
+    const text = item.text?.trim();
+    if (!text) return [];
+    return item.optional && !/optional/i.test(text)
+      ? [`${text} (optional)`]
+      : [text];
+  });
+}
+
+/**
+ * Converts instructions into schema.org steps, with instruction sections as
+ * HowToSections. Blank steps and empty sections are left out, and positions
+ * count from 1 within each list.
+ */
+function instructionsToJsonLd(
+  instructions: InstructionType[]
+): Array<HowToStepJsonLd | HowToSectionJsonLd> {
+  const elements: Array<HowToStepJsonLd | HowToSectionJsonLd> = [];
+
+  for (const instruction of instructions) {
+    if ("sectionTitle" in instruction) {
+      const steps = instructionsToJsonLd(instruction.instructions || []);
+      if (steps.length > 0) {
+        elements.push({
+          "@type": "HowToSection",
+          position: elements.length + 1,
+          name: instruction.sectionTitle,
+          itemListElement: steps,
+        });
+      }
+      continue;
+    }
+
+    const text = instruction.text?.trim();
+    if (text) {
+      elements.push({
+        "@type": "HowToStep",
+        position: elements.length + 1,
+        text,
+      });
+    }
+  }
+
+  return elements;
+}
+
+/**
+ * Makes an image URL absolute, skipping the placeholder image
+ */
+function resolveImageUrl(
+  imageUrl: string | undefined,
+  baseUrl: string | undefined
+): string | undefined {
+  if (!imageUrl || imageUrl === "default-recipe.jpg") return undefined;
+  if (/^https?:\/\//i.test(imageUrl)) return imageUrl;
+  if (!baseUrl) return undefined;
+
+  try {
+    return new URL(imageUrl, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Converts a recipe into a schema.org Recipe document
+ * @param recipe The recipe to convert
+ * @param options Where the site is hosted, for absolute URLs
+ * @param includeContext Whether to add "@context" (omitted inside lists)
+ */
+export function recipeToJsonLd(
+  recipe: Partial<Recipe>,
+  options: JsonLdOptions = {},
+  includeContext = true
+): RecipeJsonLd {
+  const { baseUrl } = options;
+  const pageUrl =
+    baseUrl && recipe._id
+      ? `${baseUrl.replace(/\/$/, "")}/recipes/${recipe._id}`
+      : undefined;
+  const image = resolveImageUrl(recipe.imageUrl, baseUrl);
+  const tagNames = (recipe.tags || []).map((tag) => tag?.name).filter(Boolean);
+
+  const jsonLd: RecipeJsonLd = {
+    ...(includeContext ? { "@context": SCHEMA_CONTEXT } : {}),
+    "@type": "Recipe",
+    "@id": pageUrl,
+    url: pageUrl,
+    name: recipe.title || "",
+    description: recipe.description || undefined,
+    image: image ? [image] : undefined,
+    author: recipe.user?.username
+      ? { "@type": "Person", name: recipe.user.username }
+      : undefined,
+    datePublished: recipe.createdAt
+      ? new Date(recipe.createdAt).toISOString()
+      : undefined,
+    dateModified: recipe.updatedAt
+      ? new Date(recipe.updatedAt).toISOString()
+      : undefined,
+    totalTime: recipe.cookingTime
+      ? minutesToIsoDuration(recipe.cookingTime)
+      : undefined,
+    recipeYield: recipe.servings ? String(recipe.servings) : undefined,
+    keywords: tagNames.length > 0 ? tagNames.join(", ") : undefined,
+    recipeIngredient: flattenIngredients(recipe.ingredients || []),
+    recipeInstructions: instructionsToJsonLd(recipe.instructions || []),
+    isBasedOn: recipe.sourceUrl || undefined,
+  };
+
+  // Drop empty fields so the document only has what we know
+  return JSON.parse(JSON.stringify(jsonLd));
+}
+
+/**
+ * Converts a collection of recipes into a schema.org ItemList
+ * @param recipes The recipes to include, in order
+ * @param options Where the site is hosted, for absolute URLs
+ */
+export function recipesToJsonLd(
+  recipes: Array<Partial<Recipe>>,
+  options: JsonLdOptions = {}
+): RecipeListJsonLd {
+  return {
+    "@context": SCHEMA_CONTEXT,
+    "@type": "ItemList",
+    numberOfItems: recipes.length,
+    itemListElement: recipes.map((recipe, index) => ({
+      "@type": "ListItem",
+      position: index + 1,
+      item: recipeToJsonLd(recipe, options, false),
+    })),
+  };
+}
+
+/**
+ * Serializes JSON-LD for an inline `<script type="application/ld+json">`,
+ * escaping "<" so recipe text can't close the script tag
+ */
+export function jsonLdScriptContent(jsonLd: object): string {
+  return JSON.stringify(jsonLd).replace(/</g, "\\u003c");
+}
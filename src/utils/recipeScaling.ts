@@ -0,0 +1,577 @@
+/**
+ * Scales recipes to a different number of servings. Each ingredient's amount
+ * is read from its text, multiplied, and written back as a cook-friendly
+ * amount: fractions like "⅓ cup" rather than decimals, switching to a larger
+ * or smaller unit when that reads better (48 tsp becomes 1 cup). Ingredients
+ * without an amount, like "salt to taste", are left as they are. Shared by
+ * the API, which scales exports, and the recipe page.
+ */
+
+import { IngredientItem, IngredientType, Recipe } from "../types/recipe";
+import {
+  IngredientAmount,
+  isPackageUnit,
+  splitIngredientAmount,
+} from "./ingredientParser";
+
+/**
+ * An amount in a unit, with the upper end of a range
+ */
+export interface Amount {
+  value: number;
+  maxValue?: number;
+  unit?: string;
+}
+
+/**
+ * One unit in a family of units that measure the same thing
+ */
+interface UnitOption {
+  unit: string;
+  // Size in the family's smallest unit
+  factor: number;
+  // Smallest amount worth showing in this unit
+  min: number;
+  // Fractions a cook can measure in this unit; metric units use decimals
+  denominators?: number[];
+}
+
+// Families of units, largest first. Amounts only move within a family.
+const UNIT_FAMILIES: UnitOption[][] = [
+  [
+    { unit: "cup", factor: 48, min: 0.25, denominators: [1, 2, 3, 4] },
+    { unit: "tbsp", factor: 3, min: 1, denominators: [1, 2] },
+    { unit: "tsp", factor: 1, min: 0, denominators: [1, 2, 4, 8] },
+  ],
+  [
+    { unit: "lb", factor: 16, min: 1, denominators: [1, 2, 4] },
+    { unit: "oz", factor: 1, min: 0, denominators: [1, 2, 4] },
+  ],
+  [
+    { unit: "kg", factor: 1000, min: 1 },
+    { unit: "g", factor: 1, min: 0 },
+  ],
+  [
+    { unit: "l", factor: 1000, min: 1 },
+    { unit: "ml", factor: 1, min: 0 },
+  ],
+];
+
+// Units written with decimals rather than fractions
+const METRIC_UNITS = ["g", "kg", "mg", "ml", "l", "cl", "dl", "cm"];
+
+// How units are written after scaling, as [singular, plural]
+const UNIT_LABELS: Record<string, [string, string]> = {
+  cup: ["cup", "cups"],
+  tbsp: ["tbsp", "tbsp"],
+  tsp: ["tsp", "tsp"],
+  "fl oz": ["fl oz", "fl oz"],
+  oz: ["oz", "oz"],
+  lb: ["lb", "lb"],
+  l: ["L", "L"],
+  pint: ["pint", "pints"],
+  quart: ["quart", "quarts"],
+  gallon: ["gallon", "gallons"],
+  inch: ["inch", "inches"],
+  pinch: ["pinch", "pinches"],
+  dash: ["dash", "dashes"],
+  drop: ["drop", "drops"],
+  clove: ["clove", "cloves"],
+  can: ["can", "cans"],
+  jar: ["jar", "jars"],
+  package: ["package", "packages"],
+  stick: ["stick", "sticks"],
+  box: ["box", "boxes"],
+  bag: ["bag", "bags"],
+  slice: ["slice", "slices"],
+  piece: ["piece", "pieces"],
+  bunch: ["bunch", "bunches"],
+  sprig: ["sprig", "sprigs"],
+  head: ["head", "heads"],
+  stalk: ["stalk", "stalks"],
+  handful: ["handful", "handfuls"],
+};
+
+// Fractions shown as unicode characters
+const FRACTION_CHARACTERS: Record<string, string> = {
+  "1/8": "⅛",
+  "1/4": "¼",
+  "1/3": "⅓",
+  "3/8": "⅜",
+  "1/2": "½",
+  "5/8": "⅝",
+  "2/3": "⅔",
+  "3/4": "¾",
+  "7/8": "⅞",
+};
+
+/**
+ * Finds the closest fraction a cook can measure with one of the given
+ * denominators
+ */
+function nearestFraction(
+  value: number,
+  denominators: number[]
+): { numerator: number; denominator: number } {
+  let best = { numerator: Math.round(value), denominator: 1 };
+  for (const denominator of denominators) {
+    const numerator = Math.round(value * denominator);
+    if (
+      Math.abs(value - numerator / denominator) <
+      Math.abs(value - best.numerator / best.denominator)
+    ) {
+      best = { numerator, denominator };
+    }
+  }
+  return best;
+}
+
+/**
+ * Checks whether an amount is (close to) a fraction with one of the given
+ * denominators
+ */
+function isMeasurable(value: number, denominators?: number[]): boolean {
+  if (!denominators) return true;
+  const { numerator, denominator } = nearestFraction(value, denominators);
+  return Math.abs(value - numerator / denominator) < 0.01;
+}
+
+/**
+ * Formats an amount for a cook: "1½", "⅓" or "2" for cups, spoons and
+ * counts, and rounded decimals like "250" or "1.5" for metric units
+ * @param value The amount
+ * @param unit The amount's canonical unit, if it has one
+ */
+export function formatQuantity(value: number, unit?: string): string {
+  if (unit && METRIC_UNITS.includes(unit)) {
+    if (value >= 100) return String(Math.round(value / 5) * 5);
+    if (value >= 10) return String(Math.round(value));
+    // Litres and kilograms need two places for amounts like 2.25
+    const places = unit === "kg" || unit === "l" ? 100 : 10;
+    return String(Math.round(value * places) / places);
+  }
+
+  // Large amounts don't need fine fractions
+  if (value >= 10) {
+    const halves = Math.round(value * 2);
+    return halves % 2 === 0
+      ? String(halves / 2)
+      : `${Math.floor(halves / 2)}${FRACTION_CHARACTERS["1/2"]}`;
+  }
+
+  const whole = Math.floor(value);
+  const { numerator, denominator } = nearestFraction(
+    value - whole,
+    [2, 3, 4, 8]
+  );
+
+  if (numerator === 0) {
+    // Never round a small amount down to nothing
+    return whole > 0 ? String(whole) : "⅛";
+  }
+  if (numerator === denominator) {
+    return String(whole + 1);
+  }
+
+  const fraction =
+    FRACTION_CHARACTERS[`${numerator}/${denominator}`] ||
+    `${numerator}/${denominator}`;
+  return whole > 0 ? `${whole}${fraction}` : fraction;
+}
+
+/**
+ * Picks the unit an amount reads best in: the largest unit in its family
+ * where it comes to a measurable amount, e.g. 48 tsp becomes 1 cup but 5 tbsp
+ * stays as it is
+ * @param value The amount, or the lower end of a range
+ * @param unit The amount's canonical unit
+ * @param maxValue The upper end of a range, which must be measurable too
+ * @returns The amount (and upper end) in the chosen unit
+ */
+export function chooseUnit(
+  value: number,
+  unit: string,
+  maxValue?: number
+): Amount & { unit: string } {
+  const family = UNIT_FAMILIES.find((options) =>
+    options.some((option) => option.unit === unit)
+  );
+  if (!family) {
+    return { value, maxValue, unit };
+  }
+
+  const factor = family.find((option) => option.unit === unit)!.factor;
+  const base = value * factor;
+  const baseMax = maxValue !== undefined ? maxValue * factor : undefined;
+
+  const measurable = family.find(
+    (option) =>
+      base / option.factor >= option.min &&
+      isMeasurable(base / option.factor, option.denominators) &&
+      (baseMax === undefined ||
+        isMeasurable(baseMax / option.factor, option.denominators))
+  );
+  const chosen =
+    measurable ||
+    family.find((option) => base / option.factor >= option.min) ||
+    family[family.length - 1];
+
+  return {
+    value: base / chosen.factor,
+    maxValue: baseMax !== undefined ? baseMax / chosen.factor : undefined,
+    unit: chosen.unit,
+  };
+}
+
+/**
+ * Picks the unit a converted amount reads best in: the largest unit in its
+ * family that it fills to the unit's minimum, rounded to a fraction a cook
+ * can measure in that unit. Converted amounts rarely land on a measurable
+ * amount, so unlike chooseUnit this doesn't fall back to the smallest unit
+ * (1 l becomes 4¼ cups, not 203 tsp).
+ * @param value The amount, or the lower end of a range
+ * @param unit The amount's canonical unit
+ * @param maxValue The upper end of a range
+ * @returns The amount (and upper end) in the chosen unit
+ */
+export function chooseConvertedUnit(
+  value: number,
+  unit: string,
+  maxValue?: number
+): Amount & { unit: string } {
+  const family = UNIT_FAMILIES.find((options) =>
+    options.some((option) => option.unit === unit)
+  );
+  if (!family) {
+    return { value, maxValue, unit };
+  }
+
+  const factor = family.find((option) => option.unit === unit)!.factor;
+  const base = value * factor;
+  const chosen =
+    family.find((option) => base / option.factor >= option.min) ||
+    family[family.length - 1];
+
+  const round = (amount: number) => {
+    if (!chosen.denominators) return amount;
+    const { numerator, denominator } = nearestFraction(
+      amount,
+      chosen.denominators
+    );
+    // Never round a small amount down to nothing
+    return numerator > 0 ? numerator / denominator : amount;
+  };
+
+  return {
+    value: round(base / chosen.factor),
+    maxValue:
+      maxValue !== undefined
+        ? round((maxValue * factor) / chosen.factor)
+        : undefined,
+    unit: chosen.unit,
+  };
+}
+
+/**
+ * Writes a unit for an amount, e.g. "cup" or "cups"
+ */
+function unitLabel(unit: string, value: number): string {
+  const [singular, plural] = UNIT_LABELS[unit] || [unit, unit];
+  // Go by the amount as it's shown, so 1.02 cups reads "1 cup"
+  return Math.round(value * 8) / 8 > 1 ? plural : singular;
+}
+
+/**
+ * Writes a package unit the way the recipe did, made singular or plural for
+ * the amount, so "tins" stays "tins" rather than becoming "cans"
+ */
+function writtenPackageLabel(written: string, value: number): string {
+  const singular = written.replace(/(x)es$|s$/i, "$1");
+  if (Math.round(value * 8) / 8 <= 1) {
+    return singular;
+  }
+  return /x$/i.test(singular) ? `${singular}es` : `${singular}s`;
+}
+
+/**
+ * Formats an amount with its unit, e.g. "1½ cups", "200 g" or "2–3"
+ */
+export function formatAmount(amount: Amount): string {
+  const parts = [
+    formatQuantity(amount.value, amount.unit) +
+      (amount.maxValue !== undefined
+        ? `–${formatQuantity(amount.maxValue, amount.unit)}`
+        : ""),
+  ];
+  if (amount.unit) {
+    parts.push(unitLabel(amount.unit, amount.maxValue ?? amount.value));
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Reads an equivalent amount in brackets right after an ingredient's amount,
+ * like the "(120g)" in "1 cup (120g) flour". A package size, like the
+ * "(14 oz)" in "2 (14 oz) cans", is the size of each package rather than an
+ * equivalent, so it is never returned.
+ * @param amount The ingredient's amount, as read from its text
+ * @returns The equivalent amount and the line after it, or null if there's
+ *   none
+ */
+export function readEquivalentAmount(
+  amount: IngredientAmount
+): { amount: IngredientAmount; rest: string } | null {
+  if (amount.packageSize) {
+    return null;
+  }
+  const match = amount.rest.match(/^\(([^()]+)\)\s*/);
+  const equivalent = match ? splitIngredientAmount(match[1]) : null;
+  if (!match || !equivalent || !equivalent.unit || equivalent.rest) {
+    return null;
+  }
+  return { amount: equivalent, rest: amount.rest.slice(match[0].length) };
+}
+
+/**
+ * Rewrites the amount at the start of an ingredient's text, along with its
+ * parsed quantity and unit
+ * @param ingredient The ingredient
+ * @param amount The amount as read from its text
+ * @param replacement The new amount
+ * @param rest The text after the amount, if that changes too
+ * @returns The ingredient with its new amount
+ */
+export function rewriteIngredientAmount(
+  ingredient: IngredientItem,
+  amount: IngredientAmount,
+  replacement: Amount,
+  rest = amount.rest
+): IngredientItem {
+  const parts = [
+    formatQuantity(replacement.value, replacement.unit) +
+      (replacement.maxValue !== undefined
+        ? `–${formatQuantity(replacement.maxValue, replacement.unit)}`
+        : ""),
+  ];
+  // A size with a count of one is written on its own, as it was read
+  if (
+    amount.itemSize &&
+    replacement.value === 1 &&
+    replacement.maxValue === undefined
+  ) {
+    parts.length = 0;
+  }
+  if (amount.itemSize) {
+    parts.push(amount.itemSize);
+  }
+  if (amount.packageSize && amount.packageSizePosition === "x") {
+    parts.push(`x ${amount.packageSize}`);
+  } else if (amount.packageSize && amount.packageSizePosition === "before") {
+    parts.push(`(${amount.packageSize})`);
+  }
+  if (replacement.unit) {
+    const value = replacement.maxValue ?? replacement.value;
+    parts.push(
+      replacement.unit === amount.unit &&
+        amount.unitText &&
+        isPackageUnit(amount.unit)
+        ? writtenPackageLabel(amount.unitText, value)
+        : unitLabel(replacement.unit, value)
+    );
+  }
+  if (amount.packageSize && amount.packageSizePosition === "after") {
+    parts.push(`(${amount.packageSize})`);
+  }
+  if (rest) {
+    parts.push(rest);
+  }
+
+  const result: IngredientItem = {
+    ...ingredient,
+    text: parts.join(" "),
+    quantity: Math.round(replacement.value * 10000) / 10000,
+  };
+  delete result.quantityMax;
+  if (replacement.maxValue !== undefined) {
+    result.quantityMax = Math.round(replacement.maxValue * 10000) / 10000;
+  }
+  if (replacement.unit) {
+    result.unit = replacement.unit;
+  }
+  return result;
+}
+
+// Where the noun counted by an amount ends, e.g. at the comma in "2 eggs,
+// beaten" or the "plus" in "1 egg plus 1 yolk"
+const NOUN_PHRASE_END = /[,;(]|\s(?:of|and|or|plus|for|to|with|at|in|from)\s/i;
+
+// Nouns not made plural by adding "s" or "es", as [singular, plural]
+const IRREGULAR_NOUNS: Array<[string, string]> = [
+  ["leaf", "leaves"],
+  ["loaf", "loaves"],
+  ["half", "halves"],
+  ["knife", "knives"],
+  ["tomato", "tomatoes"],
+  ["potato", "potatoes"],
+  ["cookie", "cookies"],
+  ["brownie", "brownies"],
+  ["pie", "pies"],
+  ["smoothie", "smoothies"],
+];
+
+/**
+ * Makes a noun plural, e.g. "egg" becomes "eggs" and "berry" becomes
+ * "berries". Nouns that already look plural are left as they are.
+ */
+function pluralNoun(word: string): string {
+  const lower = word.toLowerCase();
+  const irregular = IRREGULAR_NOUNS.find(([singular]) => singular === lower);
+  if (irregular) return word.slice(0, 1) + irregular[1].slice(1);
+  if (/(?:us|is)$|[^s]s$/.test(lower)) return word;
+  if (/(?:s|x|z|ch|sh)$/.test(lower)) return `${word}es`;
+  if (/[^aeiou]y$/.test(lower)) return `${word.slice(0, -1)}ies`;
+  return `${word}s`;
+}
+
+/**
+ * Makes a noun singular, e.g. "eggs" becomes "egg" and "berries" becomes
+ * "berry". Nouns that don't look plural are left as they are.
+ */
+function singularNoun(word: string): string {
+  const lower = word.toLowerCase();
+  const irregular = IRREGULAR_NOUNS.find(([, plural]) => plural === lower);
+  if (irregular) return word.slice(0, 1) + irregular[0].slice(1);
+  if (/[^aeiou]ies$/.test(lower)) return `${word.slice(0, -3)}y`;
+  if (/(?:ss|x|z|ch|sh)es$/.test(lower)) return word.slice(0, -2);
+  if (/[^su]s$/.test(lower) && !/is$/.test(lower)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Makes the noun counted by an amount without a unit agree with the amount,
+ * e.g. "egg" in "1 egg" becomes "eggs" once it's doubled
+ * @param rest The text after the amount
+ * @param plural Whether the amount is now more than one
+ */
+function matchCountedNoun(rest: string, plural: boolean): string {
+  const end = rest.search(NOUN_PHRASE_END);
+  const phrase = end === -1 ? rest : rest.slice(0, end);
+  const head = phrase.match(/([a-z]{3,})(\s*)$/i);
+  if (!head || head.index === undefined) {
+    return rest;
+  }
+  const noun = plural ? pluralNoun(head[1]) : singularNoun(head[1]);
+  return (
+    rest.slice(0, head.index) + noun + rest.slice(head.index + head[1].length)
+  );
+}
+
+/**
+ * Checks whether an amount reads as more than one, going by the amount as
+ * it's shown (so 1.02 reads as one)
+ */
+function isPlural(amount: Amount): boolean {
+  return Math.round((amount.maxValue ?? amount.value) * 8) / 8 > 1;
+}
+
+/**
+ * Multiplies an amount, moving it to the unit it reads best in
+ */
+function scaleAmount(amount: IngredientAmount, factor: number): Amount {
+  // Both ends of a range are written in the same unit
+  const scaledMax =
+    amount.quantityMax !== undefined ? amount.quantityMax * factor : undefined;
+  return amount.unit
+    ? chooseUnit(amount.quantity * factor, amount.unit, scaledMax)
+    : { value: amount.quantity * factor, maxValue: scaledMax };
+}
+
+/**
+ * Scales a single ingredient, rewriting the amount at the start of its text
+ * (and an equivalent amount in brackets after it) and its parsed quantity and
+ * unit
+ */
+function scaleIngredientItem(
+  item: IngredientItem | string,
+  factor: number
+): IngredientItem {
+  const ingredient = typeof item === "string" ? { text: item } : item;
+  const amount = splitIngredientAmount(ingredient.text);
+  if (!amount || factor === 1) {
+    return ingredient;
+  }
+
+  const scaled = scaleAmount(amount, factor);
+  const equivalent = readEquivalentAmount(amount);
+  let rest = equivalent
+    ? `(${formatAmount(scaleAmount(equivalent.amount, factor))})` +
+      (equivalent.rest ? ` ${equivalent.rest}` : "")
+    : amount.rest;
+
+  // A count of things, like "1 egg", names them in the singular or plural to
+  // match, once the count crosses one
+  const wasPlural = isPlural({
+    value: amount.quantity,
+    maxValue: amount.quantityMax,
+  });
+  if (!amount.unit && !equivalent && wasPlural !== isPlural(scaled)) {
+    rest = matchCountedNoun(rest, isPlural(scaled));
+  }
+
+  return rewriteIngredientAmount(ingredient, amount, scaled, rest);
+}
+
+/**
+ * Scales every ingredient in a list, including those in sections
+ * @param ingredients The recipe's ingredients
+ * @param factor What to multiply each amount by, e.g. 2 to double
+ * @returns The scaled ingredients
+ */
+export function scaleIngredients(
+  ingredients: Array<IngredientType | string>,
+  factor: number
+): IngredientType[] {
+  return ingredients.map((item) =>
+    typeof item === "object" && item && "sectionTitle" in item
+      ? {
+          ...item,
+          ingredients: scaleIngredients(item.ingredients || [], factor),
+        }
+      : scaleIngredientItem(item as IngredientItem | string, factor)
+  );
+}
+
+/**
+ * Works out how much to scale a recipe by to serve a number of people
+ * @param recipe The recipe, which needs a servings count
+ * @param servings The number of servings wanted
+ * @returns The scale factor, or null if the recipe has no servings count
+ */
+export function servingsScaleFactor(
+  recipe: Pick<Recipe, "servings">,
+  servings: number
+): number | null {
+  if (!recipe.servings || recipe.servings <= 0 || servings <= 0) {
+    return null;
+  }
+  return servings / recipe.servings;
+}
+
+/**
+ * Scales a recipe's ingredients and servings count
+ * @param recipe The recipe to scale
+ * @param factor What to multiply each amount by
+ * @returns A copy of the recipe with scaled ingredients
+ */
+export function scaleRecipe<T extends Partial<Recipe>>(
+  recipe: T,
+  factor: number
+): T {
+  return {
+    ...recipe,
+    ingredients: scaleIngredients(recipe.ingredients || [], factor),
+    servings: recipe.servings
+      ? Math.round(recipe.servings * factor * 100) / 100
+      : recipe.servings,
+  };
+}
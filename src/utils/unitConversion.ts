@@ -0,0 +1,421 @@
+/**
+ * Converts recipes between US customary and metric units. Ingredient amounts
+ * are converted by volume, weight or length, and baking staples like flour,
+ * sugar and butter switch between cups and grams using their density, the way
+ * each system measures them. Temperatures and pan sizes in instructions are
+ * converted too. When an ingredient already gives an equivalent in the other
+ * system ("1 cup (120g) flour"), that amount is used rather than a converted
+ * one. Shared by the API and the recipe page.
+ */
+
+import {
+  IngredientItem,
+  IngredientType,
+  InstructionItem,
+  InstructionType,
+  UnitPreference,
+} from "../types/recipe";
+import { readNumber, splitIngredientAmount } from "./ingredientParser";
+import {
+  Amount,
+  chooseConvertedUnit,
+  chooseUnit,
+  formatQuantity,
+  readEquivalentAmount,
+  rewriteIngredientAmount,
+} from "./recipeScaling";
+
+// A system of units to convert to
+type UnitSystem = Exclude<UnitPreference, "original">;
+
+// What a unit measures
+export type Measure = "volume" | "weight" | "length";
+
+/**
+ * A unit that can be converted, with its size in the base unit of what it
+ * measures (ml, g or cm)
+ */
+interface UnitSize {
+  measure: Measure;
+  // Left out for spoons, which both systems use
+  system?: UnitSystem;
+  size: number;
+}
+
+// Milligrams are left alone: they're used for tiny amounts, like additives,
+// that have no sensible US equivalent
+const UNIT_SIZES: Record<string, UnitSize> = {
+  tsp: { measure: "volume", size: 4.92892 },
+  tbsp: { measure: "volume", size: 14.7868 },
+  cup: { measure: "volume", system: "us", size: 236.588 },
+  "fl oz": { measure: "volume", system: "us", size: 29.5735 },
+  pint: { measure: "volume", system: "us", size: 473.176 },
+  quart: { measure: "volume", system: "us", size: 946.353 },
+  gallon: { measure: "volume", system: "us", size: 3785.41 },
+  ml: { measure: "volume", system: "metric", size: 1 },
+  cl: { measure: "volume", system: "metric", size: 10 },
+  dl: { measure: "volume", system: "metric", size: 100 },
+  l: { measure: "volume", system: "metric", size: 1000 },
+  oz: { measure: "weight", system: "us", size: 28.3495 },
+  lb: { measure: "weight", system: "us", size: 453.592 },
+  g: { measure: "weight", system: "metric", size: 1 },
+  kg: { measure: "weight", system: "metric", size: 1000 },
+  inch: { measure: "length", system: "us", size: 2.54 },
+  cm: { measure: "length", system: "metric", size: 1 },
+};
+
+// The unit amounts are converted into, before moving to the unit in its
+// family that reads best (48 tsp becomes 1 cup, 1500 g becomes 1.5 kg)
+const TARGET_UNITS: Record<UnitSystem, Record<Measure, string>> = {
+  us: { volume: "tsp", weight: "oz", length: "inch" },
+  metric: { volume: "ml", weight: "g", length: "cm" },
+};
+
+// Grams in a cup of baking staples, checked in order so more specific names
+// come first. US recipes measure these by volume, metric recipes weigh them.
+const INGREDIENT_DENSITIES: Array<{ pattern: RegExp; gramsPerCup: number }> = [
+  { pattern: /\bbread flour\b/i, gramsPerCup: 130 },
+  { pattern: /\bcake flour\b/i, gramsPerCup: 115 },
+  { pattern: /\b(?:whole[- ]wheat|wholemeal) flour\b/i, gramsPerCup: 120 },
+  { pattern: /\balmond (?:flour|meal)\b/i, gramsPerCup: 96 },
+  { pattern: /\bflour\b/i, gramsPerCup: 125 },
+  {
+    pattern: /\b(?:powdered|icing|confectioners'?) sugar\b/i,
+    gramsPerCup: 120,
+  },
+  { pattern: /\bbrown sugar\b/i, gramsPerCup: 213 },
+  { pattern: /\bsugar\b(?! snap)/i, gramsPerCup: 200 },
+  { pattern: /\b(?:peanut|almond|nut) butter\b/i, gramsPerCup: 258 },
+  { pattern: /\bbutter\b/i, gramsPerCup: 227 },
+  { pattern: /\bcocoa\b/i, gramsPerCup: 85 },
+  { pattern: /\b(?:rolled|old[- ]fashioned) oats\b/i, gramsPerCup: 90 },
+  { pattern: /\bhoney\b/i, gramsPerCup: 340 },
+];
+
+const CUP_ML = UNIT_SIZES.cup.size;
+
+// A temperature, e.g. "350°F", "180 °C", "375 degrees F", "200C" or "180 C",
+// with an optional range ("350-375°F")
+const TEMPERATURE = String.raw`\b(\d{2,3})(?:\s*(?:-|–|to)\s*(\d{2,3}))?\s*(?:°\s*|º\s*|degrees?\s+)?(F|C|Fahrenheit|Celsius|Centigrade)\b`;
+
+// Two ways of writing the same temperature, e.g. "180°C (350°F)" or
+// "350°F / 180°C"
+const TEMPERATURE_PAIR = new RegExp(
+  String.raw`${TEMPERATURE}\s*(?:\(\s*|\/\s*)${TEMPERATURE}\s*\)?`,
+  "gi"
+);
+
+const SINGLE_TEMPERATURE = new RegExp(TEMPERATURE, "gi");
+
+// A number in a size, e.g. "9", "1.5", "1/2" or "½"
+const SIZE_NUMBER = String.raw`\d+(?:\.\d+)?(?:\s*[½¼¾⅓⅔⅛])?|\d+\/\d+|[½¼¾⅓⅔⅛]`;
+
+// A size in inches, e.g. "9-inch", "½ inch", "8 inches" or "9x13 in."
+const INCH_SIZE = new RegExp(
+  String.raw`(${SIZE_NUMBER})(?:\s*(?:x|×|by)\s*(${SIZE_NUMBER}))?(?:\s*|-)(?:inch(?:es)?\b|in\.)`,
+  "gi"
+);
+
+// A size in centimetres, e.g. "23 cm" or "23x33cm"
+const CM_SIZE = new RegExp(
+  String.raw`(${SIZE_NUMBER})(?:\s*(?:x|×|by)\s*(${SIZE_NUMBER}))?(?:\s*|-)(?:cm|centimet(?:re|er)s?)\b`,
+  "gi"
+);
+
+/**
+ * Finds how many grams a cup of an ingredient weighs, if it's a baking staple
+ * @param ingredient The ingredient's name, or the rest of its line
+ */
+export function ingredientDensity(ingredient: string): number | undefined {
+  return INGREDIENT_DENSITIES.find(({ pattern }) => pattern.test(ingredient))
+    ?.gramsPerCup;
+}
+
+/**
+ * Measures an amount in the base unit of what its unit measures: millilitres
+ * for volume, grams for weight, centimetres for length
+ * @returns The amount and what it measures, or null if the unit isn't one of
+ *   those (like "clove" or "can")
+ */
+export function toBaseUnit(
+  value: number,
+  unit: string
+): { value: number; measure: Measure } | null {
+  const size = UNIT_SIZES[unit];
+  return size ? { value: value * size.size, measure: size.measure } : null;
+}
+
+/**
+ * Converts an amount into a system of units, switching between volume and
+ * weight for baking staples
+ * @param amount The amount and its canonical unit
+ * @param system The system to convert to
+ * @param ingredient The ingredient's name, used to look up its density
+ * @returns The converted amount, or null if it's already in that system or
+ *   its unit isn't converted (like "2 cloves", or spoons)
+ */
+export function convertAmount(
+  amount: Amount,
+  system: UnitSystem,
+  ingredient = ""
+): Amount | null {
+  const from = amount.unit ? UNIT_SIZES[amount.unit] : undefined;
+  if (!from || !from.system || from.system === system) {
+    return null;
+  }
+
+  let measure = from.measure;
+  let scale = from.size;
+
+  const density = ingredientDensity(ingredient);
+  if (density && system === "metric" && measure === "volume") {
+    measure = "weight";
+    scale = (from.size / CUP_ML) * density;
+  } else if (density && system === "us" && measure === "weight") {
+    measure = "volume";
+    scale = (from.size / density) * CUP_ML;
+  }
+
+  const target = TARGET_UNITS[system][measure];
+  const factor = scale / UNIT_SIZES[target].size;
+  return chooseConvertedUnit(
+    amount.value * factor,
+    target,
+    amount.maxValue !== undefined ? amount.maxValue * factor : undefined
+  );
+}
+
+/**
+ * Rounds a converted temperature the way it would be written: ovens are set
+ * in steps of 25°F or 10°C, lower temperatures (for candy, proving or water)
+ * to the degree
+ */
+function roundTemperature(value: number, scale: "F" | "C"): number {
+  if (scale === "F" && value >= 250) return Math.round(value / 25) * 25;
+  if (scale === "C" && value >= 120) return Math.round(value / 10) * 10;
+  return Math.round(value);
+}
+
+/**
+ * Writes a temperature (or range) in the given system, converting it if needed
+ */
+function formatTemperature(
+  value: string,
+  maxValue: string | undefined,
+  scale: string,
+  system: UnitSystem
+): string {
+  const from = scale[0].toUpperCase() === "F" ? "F" : "C";
+  const to = system === "us" ? "F" : "C";
+  const convert = (degrees: string) => {
+    const number = Number(degrees);
+    if (from === to) return number;
+    return roundTemperature(
+      to === "C" ? ((number - 32) * 5) / 9 : (number * 9) / 5 + 32,
+      to
+    );
+  };
+
+  return `${convert(value)}${
+    maxValue !== undefined ? `–${convert(maxValue)}` : ""
+  }°${to}`;
+}
+
+/**
+ * Converts temperatures in some text, e.g. "Bake at 350°F" becomes "Bake at
+ * 180°C". Where the text gives both ("180°C (350°F)"), only the one in the
+ * wanted system is kept.
+ * @param text The text, usually an instruction step
+ * @param preference The units to show
+ */
+export function convertTemperatures(
+  text: string,
+  preference: UnitPreference
+): string {
+  if (preference === "original") {
+    return text;
+  }
+
+  return text
+    .replace(
+      TEMPERATURE_PAIR,
+      (match, value, maxValue, scale, otherValue, otherMax, otherScale) => {
+        const wanted = preference === "us" ? "F" : "C";
+        return scale[0].toUpperCase() === wanted
+          ? formatTemperature(value, maxValue, scale, preference)
+          : otherScale[0].toUpperCase() === wanted
+          ? formatTemperature(otherValue, otherMax, otherScale, preference)
+          : match;
+      }
+    )
+    .replace(
+      SINGLE_TEMPERATURE,
+      (match, value, maxValue, scale, offset: number, whole: string) =>
+        // Without a degree sign, a lone "C" could be cups ("12 C flour"), so
+        // a spaced one only counts as Celsius when it's a cooking temperature
+        // or no ingredient follows it ("Heat to 180 C")
+        /[°º]|degree/i.test(match) ||
+        scale.length > 1 ||
+        scale.toUpperCase() === "F" ||
+        /\dC$/.test(match) ||
+        Number(value) >= 100 ||
+        !/^\s*[a-z]/i.test(whole.slice(offset + match.length))
+          ? formatTemperature(value, maxValue, scale, preference)
+          : match
+    );
+}
+
+/**
+ * Converts sizes in some text, like the pan in "a 9x13-inch pan" or the
+ * pieces in "cut into ½-inch pieces"
+ */
+function convertLengths(text: string, system: UnitSystem): string {
+  const [pattern, factor, label] =
+    system === "metric"
+      ? [INCH_SIZE, UNIT_SIZES.inch.size, " cm"]
+      : [CM_SIZE, 1 / UNIT_SIZES.inch.size, "-inch"];
+
+  return text.replace(pattern, (match, width: string, height?: string) => {
+    const sizes = [width, height]
+      .filter((size): size is string => !!size)
+      .map((size) => readNumber(size));
+    if (sizes.some((size) => size === undefined)) {
+      return match;
+    }
+    return (
+      sizes
+        .map((size) => {
+          const converted = size! * factor;
+          // Small sizes to the half, since half an inch or centimetre matters
+          return converted < 5
+            ? formatQuantity(Math.round(converted * 2) / 2, "cm")
+            : String(Math.round(converted));
+        })
+        .join("x") + label
+    );
+  });
+}
+
+/**
+ * Converts measurements written out in some text: temperatures and sizes
+ * @param text The text, usually an instruction step
+ * @param preference The units to show
+ */
+export function convertMeasurementsInText(
+  text: string,
+  preference: UnitPreference
+): string {
+  if (preference === "original") {
+    return text;
+  }
+  return convertLengths(convertTemperatures(text, preference), preference);
+}
+
+/**
+ * Converts a single ingredient, rewriting the amount at the start of its text
+ * and its parsed quantity and unit
+ */
+function convertIngredientItem(
+  item: IngredientItem | string,
+  system: UnitSystem
+): IngredientItem {
+  const ingredient = typeof item === "string" ? { text: item } : item;
+  const amount = splitIngredientAmount(ingredient.text);
+  if (!amount) {
+    const text = convertMeasurementsInText(ingredient.text, system);
+    return text === ingredient.text ? ingredient : { ...ingredient, text };
+  }
+
+  const original: Amount = {
+    value: amount.quantity,
+    maxValue: amount.quantityMax,
+    unit: amount.unit,
+  };
+
+  // The recipe's own equivalent is more accurate than a conversion
+  const equivalent = readEquivalentAmount(amount);
+  if (
+    equivalent &&
+    !!UNIT_SIZES[amount.unit || ""]?.system &&
+    UNIT_SIZES[amount.unit || ""]?.system !== system &&
+    UNIT_SIZES[equivalent.amount.unit!]?.system === system
+  ) {
+    return rewriteIngredientAmount(
+      ingredient,
+      amount,
+      chooseUnit(
+        equivalent.amount.quantity,
+        equivalent.amount.unit!,
+        equivalent.amount.quantityMax
+      ),
+      convertMeasurementsInText(equivalent.rest, system)
+    );
+  }
+
+  // Package sizes ("2 x 400g tins") are what's sold, so they stay as written.
+  // An item's size ("12-inch" in "12 inch tortillas") converts like a size in
+  // text.
+  const converted = amount.packageSize
+    ? null
+    : convertAmount(original, system, amount.rest);
+  const rest = convertMeasurementsInText(amount.rest, system);
+  const itemSize =
+    amount.itemSize && convertMeasurementsInText(amount.itemSize, system);
+  const sized = itemSize ? { ...amount, itemSize } : amount;
+  if (!converted) {
+    return rest === amount.rest && itemSize === amount.itemSize
+      ? ingredient
+      : rewriteIngredientAmount(ingredient, sized, original, rest);
+  }
+
+  return rewriteIngredientAmount(ingredient, sized, converted, rest);
+}
+
+/**
+ * Converts every ingredient in a list, including those in sections
+ * @param ingredients The recipe's ingredients
+ * @param preference The units to show; "original" leaves them as written
+ * @returns The converted ingredients
+ */
+export function convertIngredients(
+  ingredients: Array<IngredientType | string>,
+  preference: UnitPreference
+): IngredientType[] {
+  return ingredients.map((item) => {
+    if (typeof item === "object" && item && "sectionTitle" in item) {
+      return {
+        ...item,
+        ingredients: convertIngredients(item.ingredients || [], preference),
+      };
+    }
+    const ingredient = item as IngredientItem | string;
+    if (preference === "original") {
+      return typeof ingredient === "string" ? { text: ingredient } : ingredient;
+    }
+    return convertIngredientItem(ingredient, preference);
+  });
+}
+
+/**
+ * Converts temperatures and sizes in every instruction step, including those
+ * in sections
+ * @param instructions The recipe's instructions
+ * @param preference The units to show; "original" leaves them as written
+ * @returns The converted instructions
+ */
+export function convertInstructions(
+  instructions: Array<InstructionType | string>,
+  preference: UnitPreference
+): InstructionType[] {
+  return instructions.map((item) => {
+    if (typeof item === "object" && item && "sectionTitle" in item) {
+      return {
+        ...item,
+        instructions: convertInstructions(item.instructions || [], preference),
+      };
+    }
+    const step: InstructionItem =
+      typeof item === "string" ? { text: item } : (item as InstructionItem);
+    return { ...step, text: convertMeasurementsInText(step.text, preference) };
+  });
+}